@@ -120,6 +120,48 @@ function RootLayoutNav() {
               presentation: 'card',
             }}
           />
+          <Stack.Screen
+            name="workouts/new"
+            options={{
+              title: 'New Workout',
+              presentation: 'card',
+            }}
+          />
+          <Stack.Screen
+            name="workouts/[workoutId]"
+            options={{
+              title: 'Edit Workout',
+              presentation: 'card',
+            }}
+          />
+          <Stack.Screen
+            name="plans/index"
+            options={{
+              title: 'Training Plans',
+              presentation: 'card',
+            }}
+          />
+          <Stack.Screen
+            name="plans/new"
+            options={{
+              title: 'New Plan',
+              presentation: 'card',
+            }}
+          />
+          <Stack.Screen
+            name="plans/[planId]"
+            options={{
+              title: 'Edit Plan',
+              presentation: 'card',
+            }}
+          />
+          <Stack.Screen
+            name="calendar-import"
+            options={{
+              title: 'Import Calendar',
+              presentation: 'card',
+            }}
+          />
           <Stack.Screen
             name="my-exercises"
             options={{
@@ -145,6 +187,34 @@ function RootLayoutNav() {
               presentation: 'card',
             }}
           />
+          <Stack.Screen
+            name="session-reps"
+            options={{
+              title: 'Rep Details',
+              presentation: 'card',
+            }}
+          />
+          <Stack.Screen
+            name="stats"
+            options={{
+              title: 'Training Stats',
+              presentation: 'card',
+            }}
+          />
+          <Stack.Screen
+            name="benchmarks"
+            options={{
+              title: 'Benchmarks',
+              presentation: 'card',
+            }}
+          />
+          <Stack.Screen
+            name="climbing-session"
+            options={{
+              title: 'Climbing Session',
+              presentation: 'card',
+            }}
+          />
           <Stack.Screen name="modal" options={{ presentation: 'modal' }} />
         </Stack>
       </ThemeProvider>
@@ -0,0 +1,187 @@
+import React from "react";
+import { ScrollView } from "react-native";
+import { useRouter } from "expo-router";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Box } from "@/components/ui/box";
+import { Text } from "@/components/ui/text";
+import { Button, ButtonText } from "@/components/ui/button";
+import { LineChart } from "@/components/stat-charts";
+import { BENCHMARK_PROTOCOLS, type BenchmarkProtocol } from "@/convex/benchmarkProtocols";
+import { estimateGradeBand } from "@/lib/benchmarks";
+import { formatGrade, gradeSystemsOf, type GradeSystems } from "@/lib/gradeSystems";
+import { formatWeight, unitSystemOf, type UnitSystem } from "@/lib/units";
+import { showErrorMessage, useAppToast } from "@/lib/useAppToast";
+import { colors, cardShadow, screenPadding } from "@/lib/theme";
+
+const PROTOCOL_ORDER: BenchmarkProtocol[] = ["max_hang_10s", "repeaters_7_3", "critical_force"];
+
+type BenchmarkResult = {
+  _id: string;
+  protocol: BenchmarkProtocol;
+  bodyWeightKg: number;
+  loadKg?: number;
+  strengthToWeight?: number;
+  hangSeconds: number;
+  completedReps: number;
+  testedAt: number;
+};
+
+function formatTestedAt(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+// Repeaters are scored on time; the other tests on load relative to bodyweight.
+function scoreOf(result: BenchmarkResult): number {
+  return result.protocol === "repeaters_7_3"
+    ? result.hangSeconds
+    : Math.round((result.strengthToWeight ?? 0) * 100);
+}
+
+function formatScore(protocol: BenchmarkProtocol, value: number): string {
+  return protocol === "repeaters_7_3" ? `${value} s` : `${value}% BW`;
+}
+
+function ResultSummary({
+  result,
+  gradeSystems,
+  units,
+}: {
+  result: BenchmarkResult;
+  gradeSystems: GradeSystems;
+  units: UnitSystem;
+}) {
+  const gradeBand = estimateGradeBand(result.protocol, result.strengthToWeight, gradeSystems);
+  const bodyWeight = formatWeight(result.bodyWeightKg, units);
+  return (
+    <Box className="gap-1">
+      <Box className="flex-row items-baseline justify-between">
+        <Text className="text-2xl font-bold text-typography-900">
+          {formatScore(result.protocol, scoreOf(result))}
+        </Text>
+        <Text className="text-xs text-typography-500">{formatTestedAt(result.testedAt)}</Text>
+      </Box>
+      <Text className="text-xs text-typography-500">
+        {result.loadKg !== undefined
+          ? `${formatWeight(result.loadKg, units)} total at ${bodyWeight} bodyweight`
+          : `${result.completedReps} reps at ${bodyWeight} bodyweight`}
+      </Text>
+      {gradeBand ? (
+        <Text className="text-sm text-typography-700">
+          Estimated level:{" "}
+          {[gradeBand.boulder, gradeBand.rope].filter(Boolean).join(" · ")}
+        </Text>
+      ) : null}
+    </Box>
+  );
+}
+
+export default function BenchmarksScreen() {
+  const router = useRouter();
+  const { error: showErrorToast } = useAppToast();
+  const results = useQuery(api.benchmarks.listMyBenchmarkResults, {});
+  const profile = useQuery(api.profiles.getMyProfile);
+  const startBenchmark = useMutation(api.benchmarks.startBenchmark);
+  const [startingProtocol, setStartingProtocol] = React.useState<BenchmarkProtocol | null>(null);
+
+  const resultsByProtocol = React.useMemo(() => {
+    const grouped = new Map<BenchmarkProtocol, BenchmarkResult[]>();
+    for (const result of (results ?? []) as BenchmarkResult[]) {
+      grouped.set(result.protocol, [...(grouped.get(result.protocol) ?? []), result]);
+    }
+    return grouped;
+  }, [results]);
+
+  const onStart = async (protocol: BenchmarkProtocol) => {
+    setStartingProtocol(protocol);
+    try {
+      const session = await startBenchmark({ protocol });
+      if (session?._id) {
+        router.push({ pathname: "/timer", params: { sessionId: session._id } });
+      }
+    } catch (error) {
+      showErrorToast("Could not start benchmark", showErrorMessage(error, "Try again."));
+    } finally {
+      setStartingProtocol(null);
+    }
+  };
+
+  const gradeSystems = gradeSystemsOf(profile);
+  const units = unitSystemOf(profile);
+  const profileGrades = [
+    profile?.boulderingGrade && formatGrade(profile.boulderingGrade, "boulder", gradeSystems),
+    profile?.sportGrade && formatGrade(profile.sportGrade, "rope", gradeSystems),
+  ].filter(Boolean);
+
+  return (
+    <ScrollView
+      contentContainerStyle={{ ...screenPadding, gap: 16 }}
+      style={{ backgroundColor: colors.bg }}
+    >
+      <Text className="text-sm text-typography-600">
+        Test every 4–8 weeks, fresh and well warmed up. Scores are relative to the body weight on
+        your profile
+        {profile?.bodyWeightKg ? ` (${formatWeight(profile.bodyWeightKg, units)})` : ""}.
+        {profileGrades.length > 0 ? ` Your profile grades: ${profileGrades.join(" · ")}.` : ""}
+      </Text>
+
+      {PROTOCOL_ORDER.map((protocol) => {
+        const definition = BENCHMARK_PROTOCOLS[protocol];
+        const history = resultsByProtocol.get(protocol) ?? [];
+        const latest = history[0];
+        const best = history.reduce<BenchmarkResult | null>(
+          (current, result) => (!current || scoreOf(result) > scoreOf(current) ? result : current),
+          null,
+        );
+        return (
+          <Box
+            key={protocol}
+            className="rounded-2xl p-4 gap-3"
+            style={{ ...cardShadow, backgroundColor: colors.bgCard }}
+          >
+            <Box className="gap-1">
+              <Text className="text-base font-bold text-typography-900">{definition.title}</Text>
+              <Text className="text-sm text-typography-600">{definition.summary}</Text>
+            </Box>
+
+            {results === undefined ? (
+              <Text className="text-sm text-typography-500">Loading results...</Text>
+            ) : latest ? (
+              <>
+                <ResultSummary result={latest} gradeSystems={gradeSystems} units={units} />
+                {best && best._id !== latest._id ? (
+                  <Text className="text-xs text-typography-500">
+                    Best: {formatScore(protocol, scoreOf(best))} on{" "}
+                    {formatTestedAt(best.testedAt)}
+                  </Text>
+                ) : null}
+                {history.length > 1 ? (
+                  <LineChart
+                    points={[...history]
+                      .reverse()
+                      .map((result) => ({ x: result.testedAt, y: scoreOf(result) }))}
+                    formatValue={(value) => formatScore(protocol, value)}
+                    formatLabel={formatTestedAt}
+                  />
+                ) : null}
+              </>
+            ) : (
+              <Text className="text-sm text-typography-500">No results yet.</Text>
+            )}
+
+            <Text className="text-xs text-typography-500">{definition.instructions}</Text>
+            <Button
+              className="rounded-xl"
+              onPress={() => void onStart(protocol)}
+              disabled={startingProtocol !== null}
+            >
+              <ButtonText>
+                {startingProtocol === protocol ? "Starting..." : "Start test"}
+              </ButtonText>
+            </Button>
+          </Box>
+        );
+      })}
+    </ScrollView>
+  );
+}
@@ -0,0 +1,269 @@
+import React from "react";
+import { Pressable, ScrollView } from "react-native";
+import { useConvex, useMutation, useQuery } from "convex/react";
+import { useRouter } from "expo-router";
+import * as DocumentPicker from "expo-document-picker";
+import { File } from "expo-file-system";
+import { FileUp, Repeat } from "lucide-react-native";
+import { api } from "@/convex/_generated/api";
+import { Box } from "@/components/ui/box";
+import { Text } from "@/components/ui/text";
+import { Button, ButtonText } from "@/components/ui/button";
+import { colors, cardShadow, screenPadding } from "@/lib/theme";
+import { showErrorMessage, useAppToast } from "@/lib/useAppToast";
+
+const PREVIEW_LIMIT = 50;
+
+type ImportPreview = {
+  titles: { title: string; eventCount: number; suggestedItemId?: string }[];
+  events: {
+    uid: string;
+    title: string;
+    startDate: number;
+    rrule?: string;
+    error?: string;
+    alreadyImported: boolean;
+  }[];
+};
+
+// Mirrors the server's case- and whitespace-insensitive title matching.
+function titleKey(title: string): string {
+  return title.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export default function CalendarImportScreen() {
+  const router = useRouter();
+  const convex = useConvex();
+  const { success: showSuccessToast, error: showErrorToast } = useAppToast();
+  const myItems = useQuery(api.trainingItems.listMyItems);
+  const savedItems = useQuery(api.savedItems.listSavedItems);
+  const importIcsEvents = useMutation(api.calendarImport.importIcsEvents);
+  const [ics, setIcs] = React.useState<string | null>(null);
+  const [fileName, setFileName] = React.useState<string | null>(null);
+  const [preview, setPreview] = React.useState<ImportPreview | null>(null);
+  // Calendar event title -> training item id; missing titles are skipped.
+  const [mapping, setMapping] = React.useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [isImporting, setIsImporting] = React.useState(false);
+
+  const libraryItems = React.useMemo(() => {
+    const byId = new Map<string, { _id: string; title: string }>();
+    for (const item of myItems ?? []) {
+      byId.set(item._id, { _id: item._id, title: item.title });
+    }
+    for (const entry of savedItems ?? []) {
+      if (!entry.item) continue;
+      byId.set(entry.item._id, { _id: entry.item._id, title: entry.item.title });
+    }
+    return Array.from(byId.values());
+  }, [myItems, savedItems]);
+
+  const handlePickFile = async () => {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ["text/calendar", "application/ics", "text/x-vcalendar", "*/*"],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled || !result.assets[0]) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const asset = result.assets[0];
+      const text = await new File(asset.uri).text();
+      const nextPreview = await convex.query(api.calendarImport.previewIcsImport, { ics: text });
+      setIcs(text);
+      setFileName(asset.name);
+      setPreview(nextPreview);
+      setMapping(
+        Object.fromEntries(
+          nextPreview.titles
+            .filter((entry) => entry.suggestedItemId)
+            .map((entry) => [entry.title, entry.suggestedItemId as string]),
+        ),
+      );
+    } catch (readError) {
+      const message = showErrorMessage(readError, "Could not read this calendar file.");
+      showErrorToast("Import failed", message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const mappedTitleKeys = React.useMemo(
+    () =>
+      new Set(
+        Object.entries(mapping)
+          .filter(([, itemId]) => itemId)
+          .map(([title]) => titleKey(title)),
+      ),
+    [mapping],
+  );
+  const willImport = (event: ImportPreview["events"][number]) =>
+    !event.error && !event.alreadyImported && mappedTitleKeys.has(titleKey(event.title));
+  const importableCount = preview?.events.filter(willImport).length ?? 0;
+
+  const handleImport = async () => {
+    if (!ics || !preview) return;
+    setIsImporting(true);
+    try {
+      const result = await importIcsEvents({
+        ics,
+        mappings: preview.titles.map((entry) => ({
+          title: entry.title,
+          trainingItemId: (mapping[entry.title] || undefined) as never,
+        })),
+      });
+      showSuccessToast(
+        `Imported ${result.sessionCount} sessions and ${result.seriesCount} recurring series.`,
+      );
+      router.back();
+    } catch (importError) {
+      const message = showErrorMessage(importError, "Could not import calendar.");
+      showErrorToast("Import failed", message);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <ScrollView
+      contentContainerStyle={{ ...screenPadding, gap: 16 }}
+      style={{ backgroundColor: colors.bg }}
+    >
+      <Box
+        className="rounded-2xl p-4 gap-3"
+        style={{ ...cardShadow, backgroundColor: colors.bgCard }}
+      >
+        <Text className="text-sm text-typography-500">
+          Pick an .ics file exported from another calendar app. Events are matched to your
+          exercises by title; recurring events become recurring series.
+        </Text>
+        <Button className="rounded-xl" disabled={isLoading} onPress={() => void handlePickFile()}>
+          <FileUp size={16} color="#fff" strokeWidth={2.5} />
+          <ButtonText className="font-semibold">
+            {isLoading ? "Reading..." : fileName ? "Choose another file" : "Choose .ics file"}
+          </ButtonText>
+        </Button>
+        {fileName ? (
+          <Text className="text-xs text-typography-500">
+            {fileName} · {preview?.events.length ?? 0} events
+          </Text>
+        ) : null}
+      </Box>
+
+      {preview ? (
+        <>
+          <Box className="gap-3">
+            <Text className="text-xs font-semibold text-typography-400 uppercase tracking-wide">
+              Match events to exercises
+            </Text>
+            {preview.titles.map((entry) => (
+              <Box
+                key={entry.title}
+                className="rounded-2xl p-4 gap-2"
+                style={{ ...cardShadow, backgroundColor: colors.bgCard }}
+              >
+                <Text className="font-semibold text-typography-900">
+                  {entry.title}{" "}
+                  <Text className="text-xs text-typography-500">
+                    ({entry.eventCount} event{entry.eventCount === 1 ? "" : "s"})
+                  </Text>
+                </Text>
+                <Box className="flex-row flex-wrap gap-2">
+                  {[{ _id: "", title: "Skip" }, ...libraryItems].map((item) => {
+                    const isSelected = (mapping[entry.title] ?? "") === item._id;
+                    return (
+                      <Pressable
+                        key={item._id || "skip"}
+                        onPress={() =>
+                          setMapping((prev) => ({ ...prev, [entry.title]: item._id }))
+                        }
+                        style={{
+                          paddingHorizontal: 12,
+                          paddingVertical: 6,
+                          borderRadius: 20,
+                          backgroundColor: isSelected ? colors.primary : colors.borderLight,
+                        }}
+                      >
+                        <Text
+                          style={{
+                            fontSize: 12,
+                            fontWeight: "600",
+                            color: isSelected ? "#fff" : colors.text,
+                          }}
+                        >
+                          {item.title}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </Box>
+              </Box>
+            ))}
+          </Box>
+
+          <Box
+            className="rounded-2xl p-4 gap-2"
+            style={{ ...cardShadow, backgroundColor: colors.bgCard }}
+          >
+            <Text className="text-xs font-semibold text-typography-400 uppercase tracking-wide">
+              Preview
+            </Text>
+            {preview.events.slice(0, PREVIEW_LIMIT).map((event) => {
+              const status = event.error
+                ? event.error
+                : event.alreadyImported
+                  ? "Already imported"
+                  : willImport(event)
+                    ? null
+                    : "Skipped";
+              return (
+                <Box key={event.uid} className="flex-row items-center gap-2">
+                  <Text className="text-xs text-typography-500" style={{ width: 92 }}>
+                    {formatDate(event.startDate)}
+                  </Text>
+                  {event.rrule ? (
+                    <Repeat size={12} color={colors.textMuted} strokeWidth={2.5} />
+                  ) : null}
+                  <Text
+                    className="text-sm flex-1"
+                    numberOfLines={1}
+                    style={{ color: status ? colors.textMuted : colors.text }}
+                  >
+                    {event.title}
+                    {status ? ` · ${status}` : ""}
+                  </Text>
+                </Box>
+              );
+            })}
+            {preview.events.length > PREVIEW_LIMIT ? (
+              <Text className="text-xs text-typography-500">
+                and {preview.events.length - PREVIEW_LIMIT} more
+              </Text>
+            ) : null}
+          </Box>
+
+          <Button
+            className="rounded-xl"
+            disabled={isImporting || importableCount === 0}
+            onPress={() => void handleImport()}
+          >
+            <ButtonText className="font-semibold">
+              {isImporting ? "Importing..." : `Import ${importableCount} events`}
+            </ButtonText>
+          </Button>
+        </>
+      ) : null}
+    </ScrollView>
+  );
+}
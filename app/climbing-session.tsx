@@ -0,0 +1,457 @@
+import React from "react";
+import { Pressable, ScrollView, TextInput } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useMutation, useQuery } from "convex/react";
+import { Minus, Plus, X } from "lucide-react-native";
+import { api } from "@/convex/_generated/api";
+import { Box } from "@/components/ui/box";
+import { Text } from "@/components/ui/text";
+import { Button, ButtonText } from "@/components/ui/button";
+import { HorizontalBars } from "@/components/stat-charts";
+import { executionJournal, withTimeout } from "@/lib/executionJournal";
+import {
+  CLIMB_STYLE_LABEL,
+  HOLD_TYPES,
+  WALL_ANGLE_LABEL,
+  createClimbId,
+  pyramidRows,
+  stylesFor,
+  summarizeClimbs,
+  totalsByGrade,
+  type ClimbDiscipline,
+  type ClimbEntry,
+  type ClimbStyle,
+  type WallAngle,
+} from "@/lib/climbing";
+import { formatGrade, gradeOptions, gradeSystemsOf, storedGrades } from "@/lib/gradeSystems";
+import { showErrorMessage, useAppToast } from "@/lib/useAppToast";
+import { colors, cardShadow, inputStyle, screenPadding } from "@/lib/theme";
+
+const START_TIMEOUT_MS = 6000;
+const MAX_ATTEMPTS = 100;
+const WALL_ANGLES: WallAngle[] = ["slab", "vertical", "overhang", "roof"];
+
+function Chip({
+  label,
+  isSelected,
+  onPress,
+}: {
+  label: string;
+  isSelected: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      style={{
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 20,
+        backgroundColor: isSelected ? colors.primary : colors.borderLight,
+      }}
+    >
+      <Text style={{ fontSize: 12, fontWeight: "600", color: isSelected ? "#fff" : colors.text }}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+}
+
+function Card({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <Box
+      className="rounded-2xl p-4 gap-3"
+      style={{ ...cardShadow, backgroundColor: colors.bgCard }}
+    >
+      <Text className="text-base font-bold text-typography-900">{title}</Text>
+      {children}
+    </Box>
+  );
+}
+
+function Figure({ value, label }: { value: string; label: string }) {
+  return (
+    <Box className="flex-1 items-center">
+      <Text className="text-xl font-bold text-typography-900">{value}</Text>
+      <Text className="text-xs text-typography-500">{label}</Text>
+    </Box>
+  );
+}
+
+function describeClimb(climb: ClimbEntry): string {
+  return [
+    climb.style === "attempt" || climb.attempts <= 1
+      ? CLIMB_STYLE_LABEL[climb.style]
+      : `${CLIMB_STYLE_LABEL[climb.style]} in ${climb.attempts}`,
+    climb.style === "attempt" ? `${climb.attempts} tries` : null,
+    climb.wallAngle ? WALL_ANGLE_LABEL[climb.wallAngle] : null,
+    climb.holdTypes.length > 0 ? climb.holdTypes.join(", ") : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+export default function ClimbingSessionScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ sessionId?: string | string[] }>();
+  const sessionIdParam = Array.isArray(params.sessionId) ? params.sessionId[0] : params.sessionId;
+  const sessionId = sessionIdParam ?? null;
+  const { success: showSuccessToast, error: showErrorToast } = useAppToast();
+
+  const session = useQuery(
+    api.trainingSchedule.getSessionById,
+    sessionId ? { sessionId: sessionId as never } : "skip",
+  );
+  const profile = useQuery(api.profiles.getMyProfile);
+  const activeLog = useQuery(
+    api.trainingLogs.getActiveExecutionForSession,
+    sessionId ? { sessionId: sessionId as never } : "skip",
+  );
+  const startSessionExecution = useMutation(api.trainingLogs.startSessionExecution);
+  const logClimb = useMutation(api.trainingLogs.logClimb);
+  const removeClimb = useMutation(api.trainingLogs.removeClimb);
+  const finishSessionExecution = useMutation(api.trainingLogs.finishSessionExecution);
+
+  const [startedLog, setStartedLog] = React.useState<any>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [discipline, setDiscipline] = React.useState<ClimbDiscipline>("boulder");
+  const [grade, setGrade] = React.useState<string | null>(null);
+  const [style, setStyle] = React.useState<ClimbStyle>("flash");
+  const [attempts, setAttempts] = React.useState(1);
+  const [wallAngle, setWallAngle] = React.useState<WallAngle | null>(null);
+  const [holdTypes, setHoldTypes] = React.useState<string[]>([]);
+  const [note, setNote] = React.useState("");
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [isFinishing, setIsFinishing] = React.useState(false);
+
+  const start = React.useCallback(async () => {
+    if (!sessionId) return;
+    setError(null);
+    try {
+      // Earlier blocks of a workout must reach the server before this one can start.
+      const log = await withTimeout(
+        executionJournal.flush().then(() =>
+          startSessionExecution({ sessionId: sessionId as never }),
+        ),
+        START_TIMEOUT_MS,
+      );
+      if (!log) {
+        setError("Climbing sessions are logged straight to the server. Check your connection.");
+        return;
+      }
+      setStartedLog(log);
+    } catch (startError) {
+      setError(showErrorMessage(startError, "Could not start the climbing session."));
+    }
+  }, [sessionId, startSessionExecution]);
+
+  React.useEffect(() => {
+    void start();
+  }, [start]);
+
+  // Start at the grade on the profile, which is usually where most climbing happens.
+  const profileGrade = discipline === "rope" ? profile?.sportGrade : profile?.boulderingGrade;
+  const selectedGrade = grade ?? profileGrade ?? storedGrades(discipline)[0];
+  const gradeSystems = gradeSystemsOf(profile);
+  const selectedGradeLabel = formatGrade(selectedGrade, discipline, gradeSystems);
+
+  const log = activeLog ?? startedLog;
+  const climbs = (log?.climbs ?? []) as ClimbEntry[];
+  const summary = summarizeClimbs(climbs);
+  const gradeTotals = totalsByGrade(climbs);
+  const blockIndex: number = log?.blockIndex ?? 0;
+  const workoutBlocks = session?.workout?.blocks ?? null;
+  const title =
+    workoutBlocks?.[blockIndex]?.snapshot.title ?? session?.snapshot?.title ?? "Climbing";
+
+  const changeDiscipline = (next: ClimbDiscipline) => {
+    setDiscipline(next);
+    setGrade(null);
+    if (!stylesFor(next).includes(style)) setStyle("flash");
+  };
+
+  const changeStyle = (next: ClimbStyle) => {
+    setStyle(next);
+    if (next === "flash" || next === "onsight") setAttempts(1);
+    else if (next === "redpoint" && attempts < 2) setAttempts(2);
+  };
+
+  const toggleHoldType = (holdType: string) => {
+    setHoldTypes((current) =>
+      current.includes(holdType)
+        ? current.filter((entry) => entry !== holdType)
+        : [...current, holdType],
+    );
+  };
+
+  const onAdd = async () => {
+    if (!log) return;
+    setIsSaving(true);
+    try {
+      await logClimb({
+        logId: log._id as never,
+        climb: {
+          clientClimbId: createClimbId(),
+          discipline,
+          grade: selectedGrade,
+          style,
+          attempts,
+          wallAngle: wallAngle ?? undefined,
+          holdTypes,
+          note: note.trim() || undefined,
+        },
+      });
+      setNote("");
+      showSuccessToast(`${selectedGradeLabel} logged.`);
+    } catch (addError) {
+      showErrorToast("Could not log climb", showErrorMessage(addError, "Try again."));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const onRemove = async (clientClimbId: string) => {
+    if (!log) return;
+    try {
+      await removeClimb({ logId: log._id as never, clientClimbId });
+    } catch (removeError) {
+      showErrorToast("Could not remove climb", showErrorMessage(removeError, "Try again."));
+    }
+  };
+
+  const onFinish = async (endSession: boolean) => {
+    if (!log) return;
+    setIsFinishing(true);
+    try {
+      await finishSessionExecution({
+        logId: log._id as never,
+        outcome: endSession ? "stopped_early" : "completed",
+        endSession,
+      });
+      // The timer picks up at the next block that has not been logged.
+      if (!endSession && workoutBlocks && blockIndex < workoutBlocks.length - 1) {
+        router.replace({ pathname: "/timer", params: { sessionId: sessionId as string } });
+        return;
+      }
+      router.replace("/tabs/calendar");
+    } catch (finishError) {
+      showErrorToast("Could not finish session", showErrorMessage(finishError, "Try again."));
+      setIsFinishing(false);
+    }
+  };
+
+  if (!sessionId) {
+    return (
+      <Box
+        className="flex-1 items-center justify-center gap-4"
+        style={{ backgroundColor: colors.bg }}
+      >
+        <Text className="text-base font-semibold text-typography-900">Missing session</Text>
+        <Button className="rounded-xl" onPress={() => router.replace("/tabs/calendar")}>
+          <ButtonText>Back to calendar</ButtonText>
+        </Button>
+      </Box>
+    );
+  }
+
+  return (
+    <ScrollView
+      contentContainerStyle={{ ...screenPadding, gap: 16 }}
+      style={{ backgroundColor: colors.bg }}
+      keyboardShouldPersistTaps="handled"
+    >
+      <Box className="gap-1">
+        <Text className="text-xl font-bold text-typography-900">{title}</Text>
+        {workoutBlocks ? (
+          <Text className="text-sm text-typography-500">
+            Exercise {blockIndex + 1}/{workoutBlocks.length}
+          </Text>
+        ) : null}
+      </Box>
+
+      {error ? (
+        <Card title="Could not start">
+          <Text className="text-sm text-typography-700">{error}</Text>
+          <Button className="rounded-xl" onPress={() => void start()}>
+            <ButtonText>Try again</ButtonText>
+          </Button>
+        </Card>
+      ) : !log ? (
+        <Text className="text-sm text-typography-500">Starting session...</Text>
+      ) : (
+        <>
+          <Card title="Log a climb">
+            <Box className="flex-row gap-2">
+              <Chip
+                label="Boulder"
+                isSelected={discipline === "boulder"}
+                onPress={() => changeDiscipline("boulder")}
+              />
+              <Chip
+                label="Route"
+                isSelected={discipline === "rope"}
+                onPress={() => changeDiscipline("rope")}
+              />
+            </Box>
+
+            <Text className="text-xs font-semibold text-typography-500">Grade</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              <Box className="flex-row gap-2">
+                {gradeOptions(discipline, gradeSystems).map((option) => (
+                  <Chip
+                    key={option.value}
+                    label={option.label}
+                    isSelected={selectedGradeLabel === option.label}
+                    onPress={() => setGrade(option.value)}
+                  />
+                ))}
+              </Box>
+            </ScrollView>
+
+            <Text className="text-xs font-semibold text-typography-500">Style</Text>
+            <Box className="flex-row flex-wrap gap-2">
+              {stylesFor(discipline).map((entry) => (
+                <Chip
+                  key={entry}
+                  label={CLIMB_STYLE_LABEL[entry]}
+                  isSelected={style === entry}
+                  onPress={() => changeStyle(entry)}
+                />
+              ))}
+            </Box>
+
+            {style === "redpoint" || style === "attempt" ? (
+              <Box className="flex-row items-center justify-between">
+                <Text className="text-sm text-typography-700">Attempts</Text>
+                <Box className="flex-row items-center gap-4">
+                  <Pressable
+                    onPress={() => setAttempts((value) => Math.max(1, value - 1))}
+                    hitSlop={8}
+                  >
+                    <Minus size={18} color={colors.text} strokeWidth={2.2} />
+                  </Pressable>
+                  <Text className="text-base font-semibold text-typography-900">{attempts}</Text>
+                  <Pressable
+                    onPress={() => setAttempts((value) => Math.min(MAX_ATTEMPTS, value + 1))}
+                    hitSlop={8}
+                  >
+                    <Plus size={18} color={colors.text} strokeWidth={2.2} />
+                  </Pressable>
+                </Box>
+              </Box>
+            ) : null}
+
+            <Text className="text-xs font-semibold text-typography-500">Wall angle</Text>
+            <Box className="flex-row flex-wrap gap-2">
+              {WALL_ANGLES.map((entry) => (
+                <Chip
+                  key={entry}
+                  label={WALL_ANGLE_LABEL[entry]}
+                  isSelected={wallAngle === entry}
+                  onPress={() => setWallAngle(wallAngle === entry ? null : entry)}
+                />
+              ))}
+            </Box>
+
+            <Text className="text-xs font-semibold text-typography-500">Holds</Text>
+            <Box className="flex-row flex-wrap gap-2">
+              {HOLD_TYPES.map((entry) => (
+                <Chip
+                  key={entry}
+                  label={entry}
+                  isSelected={holdTypes.includes(entry)}
+                  onPress={() => toggleHoldType(entry)}
+                />
+              ))}
+            </Box>
+
+            <TextInput
+              placeholder="Note (optional)"
+              placeholderTextColor={colors.textMuted}
+              value={note}
+              onChangeText={setNote}
+              style={inputStyle}
+            />
+            <Button className="rounded-xl" onPress={() => void onAdd()} disabled={isSaving}>
+              <ButtonText>{isSaving ? "Saving..." : `Add ${selectedGradeLabel}`}</ButtonText>
+            </Button>
+          </Card>
+
+          <Card title="Session summary">
+            <Box className="flex-row">
+              <Figure value={`${summary.climbCount}`} label="climbs" />
+              <Figure value={`${summary.sendCount}`} label="sends" />
+              <Figure value={`${summary.firstTrySendCount}`} label="first try" />
+              <Figure value={`${summary.attemptCount}`} label="attempts" />
+            </Box>
+            {summary.hardestBoulder || summary.hardestRope ? (
+              <Text className="text-sm text-typography-700">
+                Hardest send:{" "}
+                {[
+                  summary.hardestBoulder &&
+                    formatGrade(summary.hardestBoulder, "boulder", gradeSystems),
+                  summary.hardestRope && formatGrade(summary.hardestRope, "rope", gradeSystems),
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </Text>
+            ) : null}
+            {(["boulder", "rope"] as const).map((entry) => {
+              const pyramid = pyramidRows(gradeTotals, entry, gradeSystems);
+              if (pyramid.length === 0) return null;
+              return (
+                <Box key={entry} className="gap-2">
+                  <Text className="text-xs font-semibold text-typography-500">
+                    {entry === "rope" ? "Route" : "Boulder"} sends by grade
+                  </Text>
+                  <HorizontalBars
+                    rows={pyramid.map((row) => ({ label: row.label, value: row.sends }))}
+                  />
+                </Box>
+              );
+            })}
+          </Card>
+
+          {climbs.length > 0 ? (
+            <Card title="Climbs">
+              {[...climbs].reverse().map((climb) => (
+                <Box key={climb.clientClimbId} className="flex-row items-center justify-between">
+                  <Box className="flex-1 gap-0.5">
+                    <Text className="text-sm font-semibold text-typography-900">
+                      {formatGrade(climb.grade, climb.discipline, gradeSystems)}
+                    </Text>
+                    <Text className="text-xs text-typography-500">{describeClimb(climb)}</Text>
+                    {climb.note ? (
+                      <Text className="text-xs text-typography-600">{climb.note}</Text>
+                    ) : null}
+                  </Box>
+                  <Pressable onPress={() => void onRemove(climb.clientClimbId)} hitSlop={8}>
+                    <X size={16} color={colors.textMuted} strokeWidth={2.2} />
+                  </Pressable>
+                </Box>
+              ))}
+            </Card>
+          ) : null}
+
+          <Button
+            className="rounded-xl"
+            onPress={() => void onFinish(false)}
+            disabled={isFinishing}
+          >
+            <ButtonText>{isFinishing ? "Finishing..." : "Finish climbing"}</ButtonText>
+          </Button>
+          {workoutBlocks && blockIndex < workoutBlocks.length - 1 ? (
+            <Button
+              variant="outline"
+              className="rounded-xl"
+              onPress={() => void onFinish(true)}
+              disabled={isFinishing}
+            >
+              <ButtonText>End workout here</ButtonText>
+            </Button>
+          ) : null}
+        </>
+      )}
+    </ScrollView>
+  );
+}
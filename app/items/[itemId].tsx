@@ -61,6 +61,7 @@ export default function ItemDetailScreen() {
         hangDetails: item.hangDetails,
         difficulty: item.difficulty,
         equipment: item.equipment,
+        protocol: item.protocol,
       }}
       submitLabel="Save exercise"
       onSubmit={async (values) => {
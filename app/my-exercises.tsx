@@ -10,9 +10,10 @@ import { Text } from "@/components/ui/text";
 import { Button, ButtonText } from "@/components/ui/button";
 import { Plus } from "lucide-react-native";
 import { colors, cardShadow, screenPadding } from "@/lib/theme";
+import { unitSystemOf } from "@/lib/units";
 import { showErrorMessage, useAppToast } from "@/lib/useAppToast";
 
-type Tab = "created" | "saved";
+type Tab = "created" | "saved" | "workouts";
 
 export default function MyExercisesScreen() {
   const router = useRouter();
@@ -27,9 +28,13 @@ export default function MyExercisesScreen() {
   const savedItems = useQuery(api.savedItems.listSavedItems);
   const unsaveItem = useMutation(api.savedItems.unsaveItem);
 
+  const workouts = useQuery(api.workoutTemplates.listMyTemplates);
+  const deleteWorkout = useMutation(api.workoutTemplates.deleteTemplate);
+
   const isLoading =
     (activeTab === "created" && myItems === undefined) ||
-    (activeTab === "saved" && savedItems === undefined);
+    (activeTab === "saved" && savedItems === undefined) ||
+    (activeTab === "workouts" && workouts === undefined);
 
   const handleDeleteItem = React.useCallback(
     async (itemId: string) => {
@@ -57,6 +62,19 @@ export default function MyExercisesScreen() {
     [showErrorToast, showSuccessToast, unsaveItem],
   );
 
+  const handleDeleteWorkout = React.useCallback(
+    async (templateId: string) => {
+      try {
+        await deleteWorkout({ templateId: templateId as never });
+        showSuccessToast("Workout deleted.");
+      } catch (deleteError) {
+        const message = showErrorMessage(deleteError, "Could not delete workout.");
+        showErrorToast("Delete failed", message);
+      }
+    },
+    [deleteWorkout, showErrorToast, showSuccessToast],
+  );
+
   return (
     <>
       <ScrollView
@@ -70,6 +88,7 @@ export default function MyExercisesScreen() {
           {[
             { key: "created" as const, label: "My Creations" },
             { key: "saved" as const, label: "Saved" },
+            { key: "workouts" as const, label: "Workouts" },
           ].map((tab) => (
             <Pressable
               key={tab.key}
@@ -135,6 +154,73 @@ export default function MyExercisesScreen() {
               </Box>
             )}
           </>
+        ) : activeTab === "workouts" ? (
+          <>
+            <Box className="flex-row items-center justify-end">
+              <Button className="rounded-xl" onPress={() => router.push("/workouts/new")}>
+                <Plus size={16} color="#fff" strokeWidth={2.5} />
+                <ButtonText className="font-semibold">New Workout</ButtonText>
+              </Button>
+            </Box>
+
+            {(workouts ?? []).length === 0 ? (
+              <Box
+                className="rounded-2xl p-6 items-center gap-2"
+                style={{ ...cardShadow, backgroundColor: colors.bgCard }}
+              >
+                <Text className="text-typography-500 text-center">
+                  No workouts yet. Combine exercises into a workout to run them back to back.
+                </Text>
+              </Box>
+            ) : (
+              <Box className="gap-3">
+                {(workouts ?? []).map((workout) => (
+                  <Box
+                    key={workout._id}
+                    className="rounded-2xl p-4 gap-3"
+                    style={{ ...cardShadow, backgroundColor: colors.bgCard }}
+                  >
+                    <Box className="gap-1">
+                      <Text className="font-bold text-typography-900 text-base">
+                        {workout.title}
+                      </Text>
+                      {workout.description ? (
+                        <Text className="text-sm text-typography-500">{workout.description}</Text>
+                      ) : null}
+                    </Box>
+                    <Box className="gap-1">
+                      {workout.blocks.map((block: { itemTitle: string }, index: number) => (
+                        <Text
+                          key={`${workout._id}-${index}`}
+                          className="text-sm text-typography-700"
+                        >
+                          {index + 1}. {block.itemTitle}
+                        </Text>
+                      ))}
+                    </Box>
+                    <Box className="flex-row gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="rounded-xl flex-1"
+                        onPress={() => router.push(`/workouts/${workout._id}`)}
+                      >
+                        <ButtonText className="text-xs font-semibold">Edit</ButtonText>
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="rounded-xl flex-1"
+                        onPress={() => void handleDeleteWorkout(workout._id)}
+                      >
+                        <ButtonText className="text-xs font-semibold">Delete</ButtonText>
+                      </Button>
+                    </Box>
+                  </Box>
+                ))}
+              </Box>
+            )}
+          </>
         ) : (
           <>
             {(savedItems ?? []).length === 0 ? (
@@ -165,6 +251,7 @@ export default function MyExercisesScreen() {
         onClose={() => setSelectedExercise(null)}
         exercise={selectedExercise}
         bodyWeightKg={profile?.bodyWeightKg ?? undefined}
+        units={unitSystemOf(profile)}
       />
     </>
   );
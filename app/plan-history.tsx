@@ -1,5 +1,6 @@
 import React from "react";
-import { ScrollView } from "react-native";
+import { Pressable, ScrollView } from "react-native";
+import { useRouter } from "expo-router";
 import { useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import { Box } from "@/components/ui/box";
@@ -12,16 +13,25 @@ import {
   type ExerciseDetailVariables,
 } from "@/components/exercise-details-sheet";
 import { colors, cardShadow, screenPadding } from "@/lib/theme";
+import { unitSystemOf } from "@/lib/units";
+import { addDays, dayKeyToTimestamp, localTodayKey } from "@/convex/dayKeys";
 
-function startOfDay(timestamp: number): number {
-  const date = new Date(timestamp);
-  date.setHours(0, 0, 0, 0);
-  return date.getTime();
+// Scheduled days are stored as UTC midnights; completion times are real instants.
+function toDayString(dayTimestamp: number): string {
+  return new Date(dayTimestamp).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
 }
 
-function toDayString(timestamp: number): string {
-  const date = new Date(timestamp);
-  return date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+function toLocalDayString(instant: number): string {
+  return new Date(instant).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
 }
 
 function mergeVariables(
@@ -53,8 +63,9 @@ function mergeVariables(
 }
 
 export default function PlanHistoryScreen() {
-  const today = startOfDay(Date.now());
-  const oneYearAgo = startOfDay(Date.now() - 365 * 24 * 60 * 60 * 1000);
+  const router = useRouter();
+  const today = dayKeyToTimestamp(localTodayKey());
+  const oneYearAgo = addDays(today, -365);
   const sessionsResult = useQuery(api.trainingSchedule.listCalendarSessionsInRange, {
     rangeStart: oneYearAgo,
     rangeEnd: today,
@@ -63,6 +74,7 @@ export default function PlanHistoryScreen() {
   const [selectedExercise, setSelectedExercise] = React.useState<{
     exercise: ExerciseDetailItem;
     finalVariables: ExerciseDetailVariables;
+    bodyWeightKg?: number;
   } | null>(null);
 
   const pastSessions = React.useMemo(
@@ -116,6 +128,8 @@ export default function PlanHistoryScreen() {
               key={session._id}
               snapshot={session.snapshot}
               finalVariables={final}
+              workout={session.workout}
+              bodyWeightKg={session.bodyWeightKg}
               onPressViewDetails={() =>
                 setSelectedExercise({
                   exercise: {
@@ -130,6 +144,7 @@ export default function PlanHistoryScreen() {
                     variables: session.snapshot.variables,
                   },
                   finalVariables: final,
+                  bodyWeightKg: session.bodyWeightKg,
                 })
               }
               statusBadge={
@@ -163,15 +178,31 @@ export default function PlanHistoryScreen() {
               {isImpromptu ? (
                 <Text className="text-sm text-typography-500">
                   {session.completedAt
-                    ? `Completed ${toDayString(session.completedAt)}`
+                    ? `Completed ${toLocalDayString(session.completedAt)}`
                     : "Impromptu session"}
                 </Text>
               ) : (
                 <Text className="text-sm text-typography-500">
                   {toDayString(session.scheduledFor)}
-                  {session.completedAt ? ` · Completed ${toDayString(session.completedAt)}` : ""}
+                  {session.completedAt
+                    ? ` · Completed ${toLocalDayString(session.completedAt)}`
+                    : ""}
                 </Text>
               )}
+              {isCompleted ? (
+                <Pressable
+                  onPress={() =>
+                    router.push({
+                      pathname: "/session-reps",
+                      params: { sessionId: session._id },
+                    })
+                  }
+                >
+                  <Text className="text-sm font-semibold" style={{ color: colors.accent }}>
+                    Rep details
+                  </Text>
+                </Pressable>
+              ) : null}
             </SessionCard>
           );
         })}
@@ -182,7 +213,8 @@ export default function PlanHistoryScreen() {
         onClose={() => setSelectedExercise(null)}
         exercise={selectedExercise?.exercise ?? null}
         finalVariables={selectedExercise?.finalVariables}
-        bodyWeightKg={profile?.bodyWeightKg ?? undefined}
+        bodyWeightKg={selectedExercise?.bodyWeightKg}
+        units={unitSystemOf(profile)}
       />
     </>
   );
@@ -0,0 +1,70 @@
+import React from "react";
+import { useMutation, useQuery } from "convex/react";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { api } from "@/convex/_generated/api";
+import { PlanForm, toPlanMutationPhases } from "@/components/plan-form";
+import { Box } from "@/components/ui/box";
+import { Text } from "@/components/ui/text";
+
+export default function PlanDetailScreen() {
+  const router = useRouter();
+  const goBackToPlans = () => {
+    if (router.canGoBack()) {
+      router.back();
+      return;
+    }
+    router.replace("/plans");
+  };
+  const params = useLocalSearchParams<{ planId?: string | string[] }>();
+  const planIdParam = params.planId;
+  const planId = Array.isArray(planIdParam) ? planIdParam[0] : planIdParam;
+
+  const plan = useQuery(
+    api.trainingPlans.getPlanById,
+    planId ? { planId: planId as never } : "skip",
+  );
+  const updatePlan = useMutation(api.trainingPlans.updatePlan);
+
+  if (!planId) {
+    return (
+      <Box className="flex-1 items-center justify-center">
+        <Text className="text-typography-700">Missing plan id.</Text>
+      </Box>
+    );
+  }
+
+  if (plan === undefined) {
+    return (
+      <Box className="flex-1 items-center justify-center">
+        <Text className="text-typography-700">Loading plan...</Text>
+      </Box>
+    );
+  }
+
+  if (!plan) {
+    return (
+      <Box className="flex-1 items-center justify-center">
+        <Text className="text-typography-700">Plan not found or no access.</Text>
+      </Box>
+    );
+  }
+
+  return (
+    <PlanForm
+      initialValues={{
+        title: plan.title,
+        description: plan.description,
+        phases: plan.phases,
+      }}
+      submitLabel="Save plan"
+      onSubmit={async (values) => {
+        await updatePlan({
+          planId: plan._id,
+          ...values,
+          phases: toPlanMutationPhases(values.phases),
+        });
+        goBackToPlans();
+      }}
+    />
+  );
+}
@@ -0,0 +1,262 @@
+import React from "react";
+import { ScrollView, TextInput } from "react-native";
+import { useMutation, useQuery } from "convex/react";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { CalendarPlus, Plus } from "lucide-react-native";
+import { api } from "@/convex/_generated/api";
+import { PHASE_KIND_LABELS } from "@/components/plan-form";
+import { Box } from "@/components/ui/box";
+import { Text } from "@/components/ui/text";
+import { Button, ButtonText } from "@/components/ui/button";
+import { colors, cardShadow, inputStyle, screenPadding } from "@/lib/theme";
+import { showErrorMessage, useAppToast } from "@/lib/useAppToast";
+import { dayKeyToTimestamp, isDayKey, localTodayKey } from "@/convex/dayKeys";
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export default function PlansScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ startDate?: string }>();
+  const { success: showSuccessToast, error: showErrorToast } = useAppToast();
+  const plans = useQuery(api.trainingPlans.listMyPlans);
+  const applyPlan = useMutation(api.trainingPlans.applyPlan);
+  const reapplyPlan = useMutation(api.trainingPlans.reapplyPlan);
+  const removePlanFromCalendar = useMutation(api.trainingPlans.removePlanFromCalendar);
+  const deletePlan = useMutation(api.trainingPlans.deletePlan);
+  const [startDateInput, setStartDateInput] = React.useState(
+    typeof params.startDate === "string" ? params.startDate : localTodayKey(),
+  );
+  const [busyPlanId, setBusyPlanId] = React.useState<string | null>(null);
+
+  const runPlanAction = React.useCallback(
+    async (planId: string, action: () => Promise<string>, failure: string) => {
+      setBusyPlanId(planId);
+      try {
+        showSuccessToast(await action());
+      } catch (actionError) {
+        const message = showErrorMessage(actionError, `${failure}.`);
+        showErrorToast(failure, message);
+      } finally {
+        setBusyPlanId(null);
+      }
+    },
+    [showErrorToast, showSuccessToast],
+  );
+
+  const warnAboutWorkload = (warning: { ratio: number; threshold: number } | null) => {
+    if (!warning) return;
+    showErrorToast(
+      "Finger load spike",
+      `This plan reaches ${warning.ratio}× your 4-week finger-strength average ` +
+        `(warning at ${warning.threshold}×). Consider lighter sessions or extra rest days.`,
+    );
+  };
+
+  const describeSkipped = (skippedCount: number) =>
+    skippedCount > 0
+      ? ` ${skippedCount} skipped because their exercise or workout was deleted.`
+      : "";
+
+  const handleApply = (planId: string) => {
+    if (!isDayKey(startDateInput)) {
+      showErrorToast("Invalid start date", "Use the YYYY-MM-DD format.");
+      return;
+    }
+    const startDate = dayKeyToTimestamp(startDateInput);
+    void runPlanAction(
+      planId,
+      async () => {
+        const result = await applyPlan({ planId: planId as never, startDate });
+        warnAboutWorkload(result.workloadWarning);
+        return (
+          `${result.createdCount} sessions added to your calendar.` +
+          describeSkipped(result.skippedCount)
+        );
+      },
+      "Could not apply plan",
+    );
+  };
+
+  return (
+    <ScrollView
+      contentContainerStyle={{ ...screenPadding, gap: 16 }}
+      style={{ backgroundColor: colors.bg }}
+    >
+      <Box className="flex-row items-center justify-end">
+        <Button className="rounded-xl" onPress={() => router.push("/plans/new")}>
+          <Plus size={16} color="#fff" strokeWidth={2.5} />
+          <ButtonText className="font-semibold">New Plan</ButtonText>
+        </Button>
+      </Box>
+
+      <Box
+        className="rounded-2xl p-4 gap-2"
+        style={{ ...cardShadow, backgroundColor: colors.bgCard }}
+      >
+        <Text className="text-sm font-semibold text-typography-900">Start date</Text>
+        <Text className="text-xs text-typography-500">
+          Week 1 of a plan begins on this day. Sessions before today are skipped.
+        </Text>
+        <TextInput
+          placeholder="YYYY-MM-DD"
+          placeholderTextColor={colors.textMuted}
+          value={startDateInput}
+          onChangeText={setStartDateInput}
+          autoCapitalize="none"
+          style={inputStyle}
+        />
+      </Box>
+
+      {plans === undefined ? (
+        <Box className="py-8 items-center">
+          <Text className="text-typography-500">Loading...</Text>
+        </Box>
+      ) : plans.length === 0 ? (
+        <Box
+          className="rounded-2xl p-6 items-center gap-2"
+          style={{ ...cardShadow, backgroundColor: colors.bgCard }}
+        >
+          <Text className="text-typography-500 text-center">
+            No plans yet. Build a multi-week plan from phases and apply it to your calendar.
+          </Text>
+        </Box>
+      ) : (
+        <Box className="gap-3">
+          {plans.map((plan) => {
+            const isBusy = busyPlanId === plan._id;
+            const totalWeeks = plan.phases.reduce(
+              (sum: number, phase: { weeks: number }) => sum + phase.weeks,
+              0,
+            );
+            return (
+              <Box
+                key={plan._id}
+                className="rounded-2xl p-4 gap-3"
+                style={{ ...cardShadow, backgroundColor: colors.bgCard }}
+              >
+                <Box className="gap-1">
+                  <Text className="font-bold text-typography-900 text-base">{plan.title}</Text>
+                  {plan.description ? (
+                    <Text className="text-sm text-typography-500">{plan.description}</Text>
+                  ) : null}
+                  <Text className="text-xs text-typography-500">
+                    {totalWeeks} weeks ·{" "}
+                    {plan.phases
+                      .map(
+                        (phase: { kind: keyof typeof PHASE_KIND_LABELS; weeks: number }) =>
+                          `${PHASE_KIND_LABELS[phase.kind]} ${phase.weeks}w`,
+                      )
+                      .join(" → ")}
+                  </Text>
+                  <Text
+                    className="text-xs font-semibold"
+                    style={{
+                      color: plan.appliedFrom !== undefined ? colors.primary : colors.textMuted,
+                    }}
+                  >
+                    {plan.appliedFrom !== undefined
+                      ? `On calendar from ${formatDate(plan.appliedFrom)}`
+                      : "Not scheduled"}
+                  </Text>
+                </Box>
+
+                {plan.appliedFrom !== undefined ? (
+                  <Box className="flex-row gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="rounded-xl flex-1"
+                      disabled={isBusy}
+                      onPress={() =>
+                        void runPlanAction(
+                          plan._id,
+                          async () => {
+                            const result = await reapplyPlan({ planId: plan._id });
+                            warnAboutWorkload(result.workloadWarning);
+                            return (
+                              `Plan re-applied: ${result.createdCount} upcoming sessions.` +
+                              describeSkipped(result.skippedCount)
+                            );
+                          },
+                          "Could not re-apply plan",
+                        )
+                      }
+                    >
+                      <ButtonText className="text-xs font-semibold">Re-apply changes</ButtonText>
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="rounded-xl flex-1"
+                      disabled={isBusy}
+                      onPress={() =>
+                        void runPlanAction(
+                          plan._id,
+                          async () => {
+                            const result = await removePlanFromCalendar({ planId: plan._id });
+                            return `${result.removedCount} upcoming sessions removed.`;
+                          },
+                          "Could not remove plan",
+                        )
+                      }
+                    >
+                      <ButtonText className="text-xs font-semibold">Remove from calendar</ButtonText>
+                    </Button>
+                  </Box>
+                ) : (
+                  <Button
+                    size="sm"
+                    className="rounded-xl"
+                    disabled={isBusy}
+                    onPress={() => handleApply(plan._id)}
+                  >
+                    <CalendarPlus size={14} color="#fff" strokeWidth={2.5} />
+                    <ButtonText className="text-xs font-semibold">
+                      Apply from {startDateInput}
+                    </ButtonText>
+                  </Button>
+                )}
+
+                <Box className="flex-row gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="rounded-xl flex-1"
+                    onPress={() => router.push(`/plans/${plan._id}`)}
+                  >
+                    <ButtonText className="text-xs font-semibold">Edit</ButtonText>
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="rounded-xl flex-1"
+                    disabled={isBusy}
+                    onPress={() =>
+                      void runPlanAction(
+                        plan._id,
+                        async () => {
+                          await deletePlan({ planId: plan._id });
+                          return "Plan deleted.";
+                        },
+                        "Could not delete plan",
+                      )
+                    }
+                  >
+                    <ButtonText className="text-xs font-semibold">Delete</ButtonText>
+                  </Button>
+                </Box>
+              </Box>
+            );
+          })}
+        </Box>
+      )}
+    </ScrollView>
+  );
+}
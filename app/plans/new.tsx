@@ -0,0 +1,27 @@
+import React from "react";
+import { useMutation } from "convex/react";
+import { useRouter } from "expo-router";
+import { api } from "@/convex/_generated/api";
+import { PlanForm, toPlanMutationPhases } from "@/components/plan-form";
+
+export default function NewPlanScreen() {
+  const router = useRouter();
+  const createPlan = useMutation(api.trainingPlans.createPlan);
+  const goBackToPlans = () => {
+    if (router.canGoBack()) {
+      router.back();
+      return;
+    }
+    router.replace("/plans");
+  };
+
+  return (
+    <PlanForm
+      submitLabel="Create plan"
+      onSubmit={async (values) => {
+        await createPlan({ ...values, phases: toPlanMutationPhases(values.phases) });
+        goBackToPlans();
+      }}
+    />
+  );
+}
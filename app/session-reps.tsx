@@ -0,0 +1,212 @@
+import React from "react";
+import { ScrollView } from "react-native";
+import { useLocalSearchParams } from "expo-router";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Box } from "@/components/ui/box";
+import { Text } from "@/components/ui/text";
+import { OverlayLineChart } from "@/components/stat-charts";
+import { decodeForceCurve } from "@/convex/forceCurves";
+import { describeForce } from "@/lib/forceSensors";
+import { colors, cardShadow, screenPadding } from "@/lib/theme";
+import { formatWeight, toDisplayWeight, unitSystemOf, weightUnit } from "@/lib/units";
+
+// Later sets get warmer colors, so fading curves read as fatigue at a glance.
+const SET_COLORS = ["#6366f1", "#0ea5e9", "#14b8a6", "#84cc16", "#f59e0b", "#f97316", "#ef4444"];
+
+function setColor(setNumber: number): string {
+  return SET_COLORS[(setNumber - 1) % SET_COLORS.length];
+}
+
+type RepStep = {
+  setNumber: number;
+  repNumber?: number;
+  completedReps?: number;
+  actualDurationMs: number;
+  addedWeightKg?: number;
+  rpe?: number;
+  failed?: boolean;
+  force?: {
+    peakKg: number;
+    meanKg: number;
+    rfdKgPerSecond?: number;
+    sensor: string;
+    curve?: { intervalMs: number; samples: string };
+  };
+};
+
+function averageOf(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export default function SessionRepsScreen() {
+  const params = useLocalSearchParams<{ sessionId?: string | string[] }>();
+  const sessionId = Array.isArray(params.sessionId) ? params.sessionId[0] : params.sessionId;
+  const session = useQuery(
+    api.trainingSchedule.getSessionById,
+    sessionId ? { sessionId: sessionId as never } : "skip",
+  );
+  const logs = useQuery(
+    api.trainingLogs.listSessionExecutionLogs,
+    sessionId ? { sessionId: sessionId as never } : "skip",
+  );
+  const profile = useQuery(api.profiles.getMyProfile);
+  const units = unitSystemOf(profile);
+
+  if (!sessionId) {
+    return (
+      <Box className="flex-1 items-center justify-center">
+        <Text className="text-typography-700">Missing session id.</Text>
+      </Box>
+    );
+  }
+
+  if (session === undefined || logs === undefined) {
+    return (
+      <Box className="flex-1 items-center justify-center">
+        <Text className="text-typography-500">Loading reps...</Text>
+      </Box>
+    );
+  }
+
+  return (
+    <ScrollView
+      contentContainerStyle={{ ...screenPadding, gap: 16 }}
+      style={{ backgroundColor: colors.bg }}
+    >
+      <Box className="gap-1">
+        <Text className="text-2xl font-bold text-typography-900">
+          {session?.workout?.title ?? session?.snapshot.title ?? "Session"}
+        </Text>
+        <Text className="text-sm text-typography-500">Every rep, with force where measured</Text>
+      </Box>
+
+      {logs.length === 0 ? (
+        <Box
+          className="rounded-2xl p-6 items-center"
+          style={{ ...cardShadow, backgroundColor: colors.bgCard }}
+        >
+          <Text className="text-typography-500">No reps were logged for this session.</Text>
+        </Box>
+      ) : null}
+
+      {logs.map((log) => {
+        const blockTitle =
+          session?.workout?.blocks[log.blockIndex ?? 0]?.snapshot.title ??
+          session?.snapshot.title ??
+          "Exercise";
+        const reps: RepStep[] = log.steps.filter((step: { kind: string }) => step.kind === "rep");
+        const curves = reps.flatMap((step, index) => {
+          const values = step.force?.curve ? decodeForceCurve(step.force.curve) : null;
+          if (!values || !step.force?.curve) return [];
+          const intervalSeconds = step.force.curve.intervalMs / 1000;
+          return [
+            {
+              key: `${step.setNumber}-${step.repNumber ?? index}`,
+              color: setColor(step.setNumber),
+              points: values.map((kg, point) => ({
+                x: point * intervalSeconds,
+                y: toDisplayWeight(kg, units),
+              })),
+            },
+          ];
+        });
+        const setNumbers = Array.from(new Set(reps.map((step) => step.setNumber)));
+        const setForces = setNumbers.flatMap((setNumber) => {
+          const measured = reps.filter((step) => step.setNumber === setNumber && step.force);
+          return measured.length > 0
+            ? [
+                {
+                  setNumber,
+                  peakKg: averageOf(measured.map((step) => step.force!.peakKg)),
+                  meanKg: averageOf(measured.map((step) => step.force!.meanKg)),
+                },
+              ]
+            : [];
+        });
+
+        return (
+          <Box
+            key={log._id}
+            className="rounded-2xl p-4 gap-3"
+            style={{ ...cardShadow, backgroundColor: colors.bgCard }}
+          >
+            <Box className="gap-0.5">
+              <Text className="text-base font-bold text-typography-900">{blockTitle}</Text>
+              <Text className="text-xs text-typography-500">
+                {log.summary.completedSets} sets · {log.summary.completedReps} reps
+                {log.status === "stopped_early" ? " · stopped early" : ""}
+              </Text>
+            </Box>
+
+            {curves.length > 0 ? (
+              <Box className="gap-2">
+                <Text className="text-sm font-semibold text-typography-700">Force curves</Text>
+                <OverlayLineChart
+                  series={curves}
+                  formatValue={(value) => `${Math.round(value)} ${weightUnit(units)}`}
+                  formatLabel={(seconds) => `${Number(seconds.toFixed(1))} s`}
+                />
+                {setForces.map((set) => (
+                  <Box key={set.setNumber} className="flex-row items-center gap-2">
+                    <Box
+                      style={{
+                        width: 10,
+                        height: 10,
+                        borderRadius: 5,
+                        backgroundColor: setColor(set.setNumber),
+                      }}
+                    />
+                    <Text className="text-xs text-typography-700">
+                      Set {set.setNumber} · avg peak {formatWeight(set.peakKg, units)}
+                      {" · avg mean "}
+                      {formatWeight(set.meanKg, units)}
+                    </Text>
+                  </Box>
+                ))}
+              </Box>
+            ) : null}
+
+            {reps.length === 0 ? (
+              <Text className="text-sm text-typography-500">No reps in this block.</Text>
+            ) : (
+              <Box className="gap-2">
+                {reps.map((step, index) => {
+                  const details = [
+                    `${(step.actualDurationMs / 1000).toFixed(1)} s`,
+                    step.completedReps && step.completedReps > 1
+                      ? `${step.completedReps} reps`
+                      : null,
+                    step.addedWeightKg !== undefined
+                      ? formatWeight(step.addedWeightKg, units, true)
+                      : null,
+                    step.rpe !== undefined ? `RPE ${step.rpe}` : null,
+                    step.failed ? "failed" : null,
+                  ].filter(Boolean);
+                  return (
+                    <Box
+                      key={`${step.setNumber}-${step.repNumber ?? index}`}
+                      className="gap-0.5 pt-2"
+                      style={{ borderTopWidth: index === 0 ? 0 : 1, borderColor: colors.border }}
+                    >
+                      <Text className="text-sm font-semibold text-typography-900">
+                        Set {step.setNumber}
+                        {step.repNumber !== undefined ? ` · Rep ${step.repNumber}` : ""}
+                      </Text>
+                      <Text className="text-xs text-typography-500">{details.join(" · ")}</Text>
+                      {step.force ? (
+                        <Text className="text-xs" style={{ color: setColor(step.setNumber) }}>
+                          {describeForce(step.force, units)}
+                        </Text>
+                      ) : null}
+                    </Box>
+                  );
+                })}
+              </Box>
+            )}
+          </Box>
+        );
+      })}
+    </ScrollView>
+  );
+}
@@ -0,0 +1,320 @@
+import React from "react";
+import { Pressable, ScrollView } from "react-native";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Box } from "@/components/ui/box";
+import { Text } from "@/components/ui/text";
+import { BarChart, HorizontalBars, LineChart } from "@/components/stat-charts";
+import { pyramidRows } from "@/lib/climbing";
+import { gradeSystemsOf } from "@/lib/gradeSystems";
+import { formatWeight, toDisplayWeight, unitSystemOf, weightUnit } from "@/lib/units";
+import { colors, cardShadow, screenPadding } from "@/lib/theme";
+import { showErrorMessage, useAppToast } from "@/lib/useAppToast";
+
+const RANGES = [
+  { weeks: 4, label: "4 weeks" },
+  { weeks: 12, label: "12 weeks" },
+  { weeks: 26, label: "6 months" },
+  { weeks: 52, label: "1 year" },
+] as const;
+
+const VOLUME_METRICS = [
+  { key: "timeUnderTensionSeconds", label: "Time under tension" },
+  { key: "completedSets", label: "Sets" },
+  { key: "completedReps", label: "Reps" },
+] as const;
+
+type VolumeMetric = (typeof VOLUME_METRICS)[number]["key"];
+
+const THRESHOLD_STEP = 0.1;
+
+// Week starts and log days are UTC midnights of calendar dates.
+function formatShortDay(dayTimestamp: number): string {
+  return new Date(dayTimestamp).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function formatMinutes(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+// Chart values are already in the unit shown.
+function formatLoad(value: number, unit: string): string {
+  return `${value > 0 ? "+" : ""}${Number(value.toFixed(1))} ${unit}`;
+}
+
+function Chip({
+  label,
+  isSelected,
+  onPress,
+}: {
+  label: string;
+  isSelected: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      style={{
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 20,
+        backgroundColor: isSelected ? colors.primary : colors.borderLight,
+      }}
+    >
+      <Text style={{ fontSize: 12, fontWeight: "600", color: isSelected ? "#fff" : colors.text }}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+}
+
+function StatCard({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <Box
+      className="rounded-2xl p-4 gap-3"
+      style={{ ...cardShadow, backgroundColor: colors.bgCard }}
+    >
+      <Text className="text-xs font-semibold text-typography-400 uppercase tracking-wide">
+        {title}
+      </Text>
+      {children}
+    </Box>
+  );
+}
+
+function Figure({ value, label }: { value: string; label: string }) {
+  return (
+    <Box className="flex-1 items-center">
+      <Text className="text-lg font-bold text-typography-900">{value}</Text>
+      <Text className="text-xs text-typography-500">{label}</Text>
+    </Box>
+  );
+}
+
+export default function StatsScreen() {
+  const [weeks, setWeeks] = React.useState<number>(12);
+  const [volumeMetric, setVolumeMetric] = React.useState<VolumeMetric>("timeUnderTensionSeconds");
+  const stats = useQuery(api.analytics.getTrainingStats, { weeks });
+  const workload = useQuery(api.workload.getWorkloadStatus);
+  const profile = useQuery(api.profiles.getMyProfile);
+  const gradeSystems = gradeSystemsOf(profile);
+  const units = unitSystemOf(profile);
+  const setAcwrThreshold = useMutation(api.profiles.setMyAcwrThreshold);
+  const { error: showErrorToast } = useAppToast();
+
+  const changeThreshold = async (delta: number) => {
+    if (!workload) return;
+    const ratio = Math.round((workload.threshold + delta) * 10) / 10;
+    if (ratio < workload.thresholdRange.min || ratio > workload.thresholdRange.max) return;
+    try {
+      await setAcwrThreshold({ ratio });
+    } catch (error) {
+      showErrorToast("Could not update warning ratio", showErrorMessage(error, "Try again."));
+    }
+  };
+
+  const totals = React.useMemo(
+    () =>
+      (stats?.weeks ?? []).reduce(
+        (sum, week) => ({
+          timeUnderTensionSeconds: sum.timeUnderTensionSeconds + week.timeUnderTensionSeconds,
+          completedSets: sum.completedSets + week.completedSets,
+          completedReps: sum.completedReps + week.completedReps,
+          sessionCount: sum.sessionCount + week.sessionCount,
+        }),
+        { timeUnderTensionSeconds: 0, completedSets: 0, completedReps: 0, sessionCount: 0 },
+      ),
+    [stats?.weeks],
+  );
+
+  // Sessions still ahead today are neither done nor missed, so they are left out.
+  const completedCount = stats?.adherence.completed ?? 0;
+  const dueCount = completedCount + (stats?.adherence.missed ?? 0);
+  const completionRate = dueCount > 0 ? Math.round((completedCount / dueCount) * 100) : null;
+
+  return (
+    <ScrollView
+      contentContainerStyle={{ ...screenPadding, gap: 16 }}
+      style={{ backgroundColor: colors.bg }}
+    >
+      <Box className="flex-row flex-wrap gap-2">
+        {RANGES.map((range) => (
+          <Chip
+            key={range.weeks}
+            label={range.label}
+            isSelected={weeks === range.weeks}
+            onPress={() => setWeeks(range.weeks)}
+          />
+        ))}
+      </Box>
+
+      {stats === undefined ? (
+        <Text className="text-sm text-typography-500">Loading stats...</Text>
+      ) : (
+        <>
+          <StatCard title="Totals">
+            <Box className="flex-row">
+              <Figure value={`${totals.sessionCount}`} label="sessions" />
+              <Figure value={formatMinutes(totals.timeUnderTensionSeconds)} label="under tension" />
+              <Figure value={`${totals.completedSets}`} label="sets" />
+              <Figure value={`${totals.completedReps}`} label="reps" />
+            </Box>
+          </StatCard>
+
+          <StatCard title="Weekly volume">
+            <Box className="flex-row flex-wrap gap-2">
+              {VOLUME_METRICS.map((metric) => (
+                <Chip
+                  key={metric.key}
+                  label={metric.label}
+                  isSelected={volumeMetric === metric.key}
+                  onPress={() => setVolumeMetric(metric.key)}
+                />
+              ))}
+            </Box>
+            <BarChart
+              data={stats.weeks.map((week) => ({
+                label: formatShortDay(week.weekStart),
+                value: week[volumeMetric],
+              }))}
+              formatValue={
+                volumeMetric === "timeUnderTensionSeconds" ? formatMinutes : (value) => `${value}`
+              }
+            />
+          </StatCard>
+
+          <StatCard title="Adherence">
+            <Text className="text-sm text-typography-700">
+              {completionRate === null
+                ? "No sessions were due in this range."
+                : `${completionRate}% of due sessions completed.`}
+            </Text>
+            <HorizontalBars
+              rows={[
+                { label: "Scheduled", value: stats.adherence.scheduled },
+                { label: "Completed", value: stats.adherence.completed, color: colors.success },
+                { label: "Missed", value: stats.adherence.missed, color: colors.warning },
+                { label: "Canceled", value: stats.adherence.canceled, color: colors.error },
+              ]}
+            />
+          </StatCard>
+
+          <StatCard title="Sessions by category">
+            {stats.categories.length === 0 ? (
+              <Text className="text-sm text-typography-500">No completed sessions yet.</Text>
+            ) : (
+              <HorizontalBars
+                rows={stats.categories.map((entry) => ({
+                  label: entry.category,
+                  value: entry.sessionCount,
+                }))}
+              />
+            )}
+          </StatCard>
+
+          {stats.climbs.length > 0 ? (
+            <StatCard title="Grade pyramid">
+              {(["boulder", "rope"] as const).map((discipline) => {
+                const pyramid = pyramidRows(stats.climbs, discipline, gradeSystems);
+                if (pyramid.length === 0) return null;
+                return (
+                  <Box key={discipline} className="gap-2">
+                    <Text className="text-xs font-semibold text-typography-500">
+                      {discipline === "rope" ? "Routes" : "Boulders"} · sends (attempts)
+                    </Text>
+                    <HorizontalBars
+                      rows={pyramid.map((entry) => ({
+                        label: `${entry.label} (${entry.attempts})`,
+                        value: entry.sends,
+                      }))}
+                    />
+                  </Box>
+                );
+              })}
+            </StatCard>
+          ) : null}
+
+          {workload ? (
+            <StatCard title="Workload (acute:chronic)">
+              <Text className="text-sm text-typography-700">
+                Last 7 days compared with your weekly average over 4 weeks. Warnings appear above
+                {` ${workload.threshold}×`}.
+              </Text>
+              {workload.categories.length === 0 ? (
+                <Text className="text-sm text-typography-500">
+                  Log sessions with the timer to build a baseline.
+                </Text>
+              ) : (
+                <HorizontalBars
+                  rows={workload.categories.map((entry) => ({
+                    label: `${entry.category} · ${
+                      entry.ratio === null ? "no baseline" : `${entry.ratio}×`
+                    }`,
+                    value: entry.acuteLoad,
+                    color:
+                      entry.ratio !== null && entry.ratio > workload.threshold
+                        ? colors.warning
+                        : undefined,
+                  }))}
+                />
+              )}
+              <Box className="flex-row items-center gap-2">
+                <Text className="flex-1 text-sm text-typography-700">Warning ratio</Text>
+                <Chip
+                  label="−"
+                  isSelected={false}
+                  onPress={() => void changeThreshold(-THRESHOLD_STEP)}
+                />
+                <Text className="text-sm font-bold text-typography-900">
+                  {workload.threshold.toFixed(1)}×
+                </Text>
+                <Chip
+                  label="+"
+                  isSelected={false}
+                  onPress={() => void changeThreshold(THRESHOLD_STEP)}
+                />
+              </Box>
+            </StatCard>
+          ) : null}
+
+          <StatCard title="Max load">
+            {stats.loadTrends.length === 0 ? (
+              <Text className="text-sm text-typography-500">
+                Loads appear here once you log weighted sessions with the timer.
+              </Text>
+            ) : (
+              stats.loadTrends.map((trend) => {
+                const best = Math.max(...trend.points.map((point) => point.loadKg));
+                return (
+                  <Box key={trend.trainingItemId} className="gap-1">
+                    <Box className="flex-row justify-between">
+                      <Text className="text-sm font-semibold text-typography-900">
+                        {trend.title}
+                      </Text>
+                      <Text className="text-xs text-typography-500">
+                        best {formatWeight(best, units, true)}
+                      </Text>
+                    </Box>
+                    <LineChart
+                      points={trend.points.map((point) => ({
+                        x: point.day,
+                        y: toDisplayWeight(point.loadKg, units),
+                      }))}
+                      formatValue={(value) => formatLoad(value, weightUnit(units))}
+                      formatLabel={formatShortDay}
+                    />
+                  </Box>
+                );
+              })
+            )}
+          </StatCard>
+        </>
+      )}
+    </ScrollView>
+  );
+}
@@ -2,8 +2,12 @@ import React from 'react';
 import Ionicons from '@expo/vector-icons/Ionicons';
 import { NativeTabs, Icon, Label, VectorIcon } from 'expo-router/unstable-native-tabs';
 import { colors } from '@/lib/theme';
+import { useSyncTimeZone } from '@/lib/useSyncTimeZone';
+import { useExecutionJournalSync } from '@/lib/useExecutionJournalSync';
 
 export default function TabLayout() {
+  useSyncTimeZone();
+  useExecutionJournalSync();
   const tintColor = colors.primary;
   const textColor = '#111827';
 
@@ -31,13 +31,29 @@ import {
   type ExerciseDetailVariables,
 } from "@/components/exercise-details-sheet";
 import { PageHeader } from "@/components/page-header";
+import { CalendarSharingCard } from "@/components/calendar-sharing-card";
 import { colors, cardShadow, inputStyle, calendarTheme, screenPadding } from "@/lib/theme";
+import { unitSystemOf } from "@/lib/units";
 import {
   HANG_CRIMP_TYPES,
   HANG_EDGE_MM_OPTIONS,
   HANG_EQUIPMENT_OPTIONS,
 } from "@/lib/trainingItemFilters";
 import { showErrorMessage, useAppToast } from "@/lib/useAppToast";
+import {
+  addDays,
+  dayKeyToTimestamp,
+  dayOfWeek,
+  localTodayKey,
+  monthRangeForDayKey,
+} from "@/convex/dayKeys";
+import {
+  compareSessionsByTime,
+  findSessionConflicts,
+  formatTimeOfDay,
+  parseTimeOfDay,
+  sessionsOverlap,
+} from "@/lib/sessionTimes";
 
 type SessionOverrides = {
   weight?: number;
@@ -56,42 +72,39 @@ type SessionEditDraft = {
   restBetweenSetsSeconds: string;
   durationSeconds: string;
   weightInputMode: "percent" | "absolute";
+  startTime: string;
+  durationMinutes: string;
 };
 
-type Frequency = "daily" | "weekly" | "monthly";
+type Frequency = "daily" | "weekly" | "monthly" | "yearly";
 
-function startOfDay(timestamp: number): number {
-  const date = new Date(timestamp);
-  date.setUTCHours(0, 0, 0, 0);
-  return date.getTime();
-}
+const RRULE_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const ORDINAL_LABELS = ["first", "second", "third", "fourth", "fifth"];
 
-function addDays(timestamp: number, days: number): number {
-  return startOfDay(timestamp + days * 24 * 60 * 60 * 1000);
-}
+type ProgressionVariable = "weight" | "reps" | "sets" | "durationSeconds";
 
-function dayStringToTimestamp(dateString: string): number {
-  const [year, month, day] = dateString.split("-").map(Number);
-  return Date.UTC(year, month - 1, day);
-}
+type ProgressionStepDraft = {
+  amount: string;
+  every: string;
+  unit: "week" | "session";
+};
 
-function monthRangeFromDateString(dateString: string): { rangeStart: number; rangeEnd: number } {
-  const [year, month] = dateString.split("-").map(Number);
-  const monthStart = Date.UTC(year, month - 1, 1);
-  const monthEnd = Date.UTC(year, month, 0, 23, 59, 59, 999);
-  return { rangeStart: monthStart, rangeEnd: monthEnd };
-}
+const PROGRESSION_FIELDS: { variable: ProgressionVariable; label: string }[] = [
+  { variable: "weight", label: "Load (% BW)" },
+  { variable: "reps", label: "Reps" },
+  { variable: "sets", label: "Sets" },
+  { variable: "durationSeconds", label: "Work (s)" },
+];
 
-function toDayString(timestamp: number): string {
-  const date = new Date(timestamp);
-  const year = date.getUTCFullYear();
-  const month = `${date.getUTCMonth() + 1}`.padStart(2, "0");
-  const day = `${date.getUTCDate()}`.padStart(2, "0");
-  return `${year}-${month}-${day}`;
-}
+const emptyProgressionDrafts = (): Record<ProgressionVariable, ProgressionStepDraft> => ({
+  weight: { amount: "", every: "1", unit: "week" },
+  reps: { amount: "", every: "1", unit: "session" },
+  sets: { amount: "", every: "1", unit: "week" },
+  durationSeconds: { amount: "", every: "1", unit: "week" },
+});
 
 function formatDateLabel(dateString: string): string {
-  const date = new Date(dayStringToTimestamp(dateString));
+  const date = new Date(dayKeyToTimestamp(dateString));
   return date.toLocaleDateString("en-US", {
     weekday: "long",
     month: "short",
@@ -100,18 +113,6 @@ function formatDateLabel(dateString: string): string {
   });
 }
 
-function localTodayString(): string {
-  const date = new Date();
-  const year = date.getFullYear();
-  const month = `${date.getMonth() + 1}`.padStart(2, "0");
-  const day = `${date.getDate()}`.padStart(2, "0");
-  return `${year}-${month}-${day}`;
-}
-
-function dayOfWeekFromDayString(dateString: string): number {
-  return new Date(dayStringToTimestamp(dateString)).getUTCDay();
-}
-
 function parseOptionalNumber(value: string): number | undefined {
   const trimmed = value.trim();
   if (!trimmed) return undefined;
@@ -193,7 +194,11 @@ function OverrideUnavailableOverlay() {
   );
 }
 
-function buildEditDraft(base: SessionOverrides, overrides: SessionOverrides): SessionEditDraft {
+function buildEditDraft(
+  base: SessionOverrides,
+  overrides: SessionOverrides,
+  timing: { startMinutes?: number; durationMinutes?: number } = {},
+): SessionEditDraft {
   const merged = mergeVariables(base, overrides);
   return {
     weight: merged.weight?.toString() ?? "",
@@ -203,6 +208,8 @@ function buildEditDraft(base: SessionOverrides, overrides: SessionOverrides): Se
     restBetweenSetsSeconds: merged.restBetweenSetsSeconds?.toString() ?? "",
     durationSeconds: merged.durationSeconds?.toString() ?? "",
     weightInputMode: "percent",
+    startTime: timing.startMinutes !== undefined ? formatTimeOfDay(timing.startMinutes) : "",
+    durationMinutes: timing.durationMinutes?.toString() ?? "",
   };
 }
 
@@ -210,17 +217,18 @@ export default function CalendarScreen() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
   const { success: showSuccessToast, error: showErrorToast } = useAppToast();
-  const todayStr = localTodayString();
+  const todayStr = localTodayKey();
   const [selectedDate, setSelectedDate] = React.useState(todayStr);
   const [visibleMonth, setVisibleMonth] = React.useState(todayStr);
 
   const { rangeStart, rangeEnd } = React.useMemo(
-    () => monthRangeFromDateString(visibleMonth),
+    () => monthRangeForDayKey(visibleMonth),
     [visibleMonth],
   );
 
   const myItems = useQuery(api.trainingItems.listMyItems);
   const savedItems = useQuery(api.savedItems.listSavedItems);
+  const workouts = useQuery(api.workoutTemplates.listMyTemplates);
   const profile = useQuery(api.profiles.getMyProfile);
   const sessionsResult = useQuery(api.trainingSchedule.listCalendarSessionsInRange, {
     rangeStart,
@@ -240,11 +248,22 @@ export default function CalendarScreen() {
   const completeSession = useMutation(api.trainingSchedule.completeSession);
 
   const [selectedItemId, setSelectedItemId] = React.useState<string>("");
+  const [selectedWorkoutId, setSelectedWorkoutId] = React.useState<string>("");
   const [scheduleMode, setScheduleMode] = React.useState<"single" | "recurring">("single");
   const [frequency, setFrequency] = React.useState<Frequency>("weekly");
   const [intervalInput, setIntervalInput] = React.useState("1");
-  const [weeklyDays, setWeeklyDays] = React.useState<number[]>([dayOfWeekFromDayString(todayStr)]);
-  const [endMode, setEndMode] = React.useState<"none" | "3m" | "6m" | "12m">("none");
+  const [weeklyDays, setWeeklyDays] = React.useState<number[]>([
+    dayOfWeek(dayKeyToTimestamp(todayStr)),
+  ]);
+  const [endMode, setEndMode] = React.useState<"none" | "count" | "3m" | "6m" | "12m">("none");
+  const [countInput, setCountInput] = React.useState("10");
+  const [monthlyMode, setMonthlyMode] = React.useState<"day" | "nth" | "last">("day");
+  const [customRRule, setCustomRRule] = React.useState("");
+  const [startTimeInput, setStartTimeInput] = React.useState("");
+  const [durationInput, setDurationInput] = React.useState("");
+  const [progressionDrafts, setProgressionDrafts] = React.useState(emptyProgressionDrafts);
+  const [cycleWeeksInput, setCycleWeeksInput] = React.useState("");
+  const [deloadPercentInput, setDeloadPercentInput] = React.useState("");
   const [error, setError] = React.useState<string | null>(null);
   const [scheduleSheetOpen, setScheduleSheetOpen] = React.useState(false);
   const pageBottomPadding = Math.max(screenPadding.paddingBottom, insets.bottom + 48);
@@ -284,7 +303,7 @@ export default function CalendarScreen() {
     sessionsResult === undefined && latestSessionsResultRef.current !== undefined;
 
   const sessions = stableSessionsResult?.sessions ?? [];
-  const serverToday = stableSessionsResult?.today ?? dayStringToTimestamp(todayStr);
+  const serverToday = stableSessionsResult?.today ?? dayKeyToTimestamp(todayStr);
 
   React.useEffect(() => {
     setEditDrafts((prev) => {
@@ -292,7 +311,11 @@ export default function CalendarScreen() {
       let changed = false;
       for (const session of sessions) {
         if (next[session._id]) continue;
-        next[session._id] = buildEditDraft(session.snapshot.variables, session.overrides);
+        next[session._id] = buildEditDraft(
+          session.snapshot.variables,
+          session.overrides,
+          session,
+        );
         changed = true;
       }
       return changed ? next : prev;
@@ -314,7 +337,7 @@ export default function CalendarScreen() {
       { marked?: boolean; dotColor?: string; selected?: boolean; selectedColor?: string }
     > = {};
     for (const session of sessions) {
-      const key = toDayString(session.scheduledFor);
+      const key = session.dayKey;
       const isCompleted = !!session.completedAt;
       const isPast = session.scheduledFor < serverToday && !isCompleted;
       marks[key] = {
@@ -337,8 +360,8 @@ export default function CalendarScreen() {
   const selectedDaySessions = React.useMemo(
     () =>
       sessions
-        .filter((session) => toDayString(session.scheduledFor) === selectedDate)
-        .sort((a, b) => a.scheduledFor - b.scheduledFor),
+        .filter((session) => session.dayKey === selectedDate)
+        .sort(compareSessionsByTime),
     [selectedDate, sessions],
   );
   const selectedDayUpcomingSessions = React.useMemo(
@@ -349,6 +372,10 @@ export default function CalendarScreen() {
     [selectedDaySessions, serverToday],
   );
   const selectedDayPastCount = selectedDaySessions.length - selectedDayUpcomingSessions.length;
+  const selectedDayConflicts = React.useMemo(
+    () => findSessionConflicts(selectedDaySessions.filter((session) => !session.completedAt)),
+    [selectedDaySessions],
+  );
   const overrideSession = React.useMemo(
     () => sessions.find((session) => session._id === overrideSessionId) ?? null,
     [overrideSessionId, sessions],
@@ -398,6 +425,18 @@ export default function CalendarScreen() {
     [profile?.bodyWeightKg],
   );
 
+  // Empty inputs clear the stored time; an unreadable start time returns null.
+  const draftToTiming = (draft: SessionEditDraft) => {
+    const startMinutes = parseTimeOfDay(draft.startTime);
+    if (startMinutes === null) {
+      return null;
+    }
+    return {
+      startMinutes: startMinutes ?? null,
+      durationMinutes: parseOptionalNumber(draft.durationMinutes) ?? null,
+    };
+  };
+
   const handleDraftWeightInputModeChange = React.useCallback(
     (sessionId: string, nextMode: "percent" | "absolute") => {
       setEditDrafts((prev) => {
@@ -547,36 +586,118 @@ export default function CalendarScreen() {
     [removeRecurringRuleFuture, showErrorToast, showSuccessToast],
   );
 
+  const selectedDayOfMonth = new Date(dayKeyToTimestamp(selectedDate)).getUTCDate();
+  const selectedWeekday = formatDateLabel(selectedDate).split(",")[0];
+  const selectedWeekdayOrdinal = ORDINAL_LABELS[Math.floor((selectedDayOfMonth - 1) / 7)];
+
   const onAdd = async () => {
-    if (!selectedItemId) {
-      setError("Select an exercise first.");
+    if (!selectedItemId && !selectedWorkoutId) {
+      setError("Select an exercise or workout first.");
       return;
     }
+    const startMinutes = parseTimeOfDay(startTimeInput);
+    if (startMinutes === null) {
+      setError("Use the HH:MM format for the start time.");
+      return;
+    }
+    const durationMinutes = parseOptionalNumber(durationInput);
     setError(null);
-    const scheduledFor = dayStringToTimestamp(selectedDate);
+    const scheduledFor = dayKeyToTimestamp(selectedDate);
+    const target = selectedWorkoutId
+      ? { workoutTemplateId: selectedWorkoutId as never }
+      : { trainingItemId: selectedItemId as never };
+    const timing = { startMinutes, durationMinutes };
+    const overlapping = selectedDaySessions.filter(
+      (session) => !session.completedAt && sessionsOverlap(session, { scheduledFor, ...timing }),
+    );
 
     try {
       if (scheduleMode === "single") {
-        await addSession({ trainingItemId: selectedItemId as never, scheduledFor });
+        const added = await addSession({ ...target, ...timing, scheduledFor });
         showSuccessToast("Session added to your plan.");
+        if (added.workloadWarning) {
+          const { ratio, threshold } = added.workloadWarning;
+          showErrorToast(
+            "Finger load spike",
+            `This week reaches ${ratio}× your 4-week finger-strength average ` +
+              `(warning at ${threshold}×). Consider a lighter session or an extra rest day.`,
+          );
+        }
       } else {
         const interval = Math.max(1, Math.floor(Number(intervalInput) || 1));
         const until =
-          endMode === "none"
+          endMode === "none" || endMode === "count"
             ? undefined
             : addDays(scheduledFor, endMode === "3m" ? 90 : endMode === "6m" ? 180 : 365);
+        const count =
+          endMode === "count" ? Math.max(1, Math.floor(Number(countInput) || 1)) : undefined;
+        // Anything the simple fields cannot express goes through an RRULE.
+        const startDay = new Date(scheduledFor);
+        const weekdayCode = RRULE_WEEKDAYS[startDay.getUTCDay()];
+        const rrule = customRRule.trim()
+          ? customRRule.trim()
+          : count !== undefined || (frequency === "monthly" && monthlyMode !== "day")
+            ? [
+                `FREQ=${frequency.toUpperCase()}`,
+                `INTERVAL=${interval}`,
+                frequency === "weekly" && weeklyDays.length > 0
+                  ? `BYDAY=${weeklyDays.map((day) => RRULE_WEEKDAYS[day]).join(",")}`
+                  : null,
+                frequency === "monthly" && monthlyMode === "nth"
+                  ? `BYDAY=${Math.floor((startDay.getUTCDate() - 1) / 7) + 1}${weekdayCode}`
+                  : null,
+                frequency === "monthly" && monthlyMode === "last" ? `BYDAY=-1${weekdayCode}` : null,
+                count !== undefined ? `COUNT=${count}` : null,
+              ]
+                .filter(Boolean)
+                .join(";")
+            : undefined;
+        const steps = PROGRESSION_FIELDS.flatMap(({ variable }) => {
+          const draft = progressionDrafts[variable];
+          const amount = parseOptionalNumber(draft.amount);
+          return amount
+            ? [
+                {
+                  variable,
+                  amount,
+                  every: Math.max(1, Math.floor(Number(draft.every) || 1)),
+                  unit: draft.unit,
+                },
+              ]
+            : [];
+        });
+        const cycleWeeks = parseOptionalNumber(cycleWeeksInput);
+        const deloadPercent = parseOptionalNumber(deloadPercentInput);
+        const hasProgression = steps.length > 0 || deloadPercent !== undefined;
         await addRecurringSeries({
-          trainingItemId: selectedItemId as never,
+          ...target,
+          ...timing,
           startDate: scheduledFor,
+          progression: hasProgression
+            ? {
+                steps,
+                cycleWeeks,
+                deloadLoadFactor: deloadPercent !== undefined ? deloadPercent / 100 : undefined,
+              }
+            : undefined,
           recurrence: {
             frequency,
             interval,
             byWeekdays: frequency === "weekly" ? weeklyDays : undefined,
             until,
+            rrule,
           },
         });
         showSuccessToast("Recurring series created.");
       }
+      if (overlapping.length > 0) {
+        showErrorToast(
+          "Overlapping sessions",
+          `This overlaps with ${overlapping
+            .map((session) => session.workout?.title ?? session.snapshot.title)
+            .join(", ")} on ${selectedDate}.`,
+        );
+      }
       setScheduleSheetOpen(false);
     } catch (addError) {
       const message = showErrorMessage(addError, "Could not schedule session.");
@@ -692,6 +813,7 @@ export default function CalendarScreen() {
                   onToggle={() => setExpandedSessionId(isExpanded ? null : session._id)}
                   onStart={() => void handleStartSession(session)}
                   onDone={() => void handleCompleteSession(session)}
+                  conflictsWith={selectedDayConflicts.get(session._id)}
                   onViewDetails={() =>
                     openSessionDetails(
                       session.snapshot,
@@ -717,6 +839,7 @@ export default function CalendarScreen() {
                               [session._id]: buildEditDraft(
                                 session.snapshot.variables,
                                 session.overrides,
+                                session,
                               ),
                             }));
                             setOverrideSessionId(session._id);
@@ -777,6 +900,42 @@ export default function CalendarScreen() {
           >
             <ButtonText>View Past Sessions</ButtonText>
           </Button>
+
+          <Button variant="outline" className="rounded-xl" onPress={() => router.push("/stats")}>
+            <ButtonText>Training Stats</ButtonText>
+          </Button>
+
+          <Button
+            variant="outline"
+            className="rounded-xl"
+            onPress={() => router.push("/benchmarks")}
+          >
+            <ButtonText>Benchmarks</ButtonText>
+          </Button>
+
+          <Button
+            variant="outline"
+            className="rounded-xl"
+            onPress={() =>
+              router.push({ pathname: "/plans", params: { startDate: selectedDate } })
+            }
+          >
+            <ButtonText>Training Plans</ButtonText>
+          </Button>
+
+          <Button
+            variant="outline"
+            className="rounded-xl"
+            onPress={() => router.push("/calendar-import")}
+          >
+            <ButtonText>Import from .ics</ButtonText>
+          </Button>
+
+          <CalendarSharingCard
+            rangeStart={rangeStart}
+            rangeEnd={rangeEnd}
+            rangeLabel={visibleMonth.slice(0, 7)}
+          />
         </ScrollView>
       </KeyboardAvoidingView>
 
@@ -844,7 +1003,10 @@ export default function CalendarScreen() {
                         {libraryItems.map((item) => (
                           <Pressable
                             key={item._id}
-                            onPress={() => setSelectedItemId(item._id)}
+                            onPress={() => {
+                              setSelectedItemId(item._id);
+                              setSelectedWorkoutId("");
+                            }}
                             style={{
                               paddingHorizontal: 14,
                               paddingVertical: 8,
@@ -900,13 +1062,51 @@ export default function CalendarScreen() {
                   )}
                 </Box>
 
+                {(workouts ?? []).length > 0 ? (
+                  <Box className="gap-2">
+                    <Text className="text-xs font-semibold text-typography-400 uppercase tracking-wide">
+                      Or a workout
+                    </Text>
+                    <Box className="flex-row flex-wrap gap-2">
+                      {(workouts ?? []).map((workout) => (
+                        <Pressable
+                          key={workout._id}
+                          onPress={() => {
+                            setSelectedWorkoutId(workout._id);
+                            setSelectedItemId("");
+                          }}
+                          style={{
+                            paddingHorizontal: 14,
+                            paddingVertical: 8,
+                            borderRadius: 20,
+                            backgroundColor:
+                              selectedWorkoutId === workout._id
+                                ? colors.primary
+                                : colors.borderLight,
+                          }}
+                        >
+                          <Text
+                            style={{
+                              fontSize: 13,
+                              fontWeight: "600",
+                              color: selectedWorkoutId === workout._id ? "#fff" : colors.text,
+                            }}
+                          >
+                            {workout.title} · {workout.blocks.length}
+                          </Text>
+                        </Pressable>
+                      ))}
+                    </Box>
+                  </Box>
+                ) : null}
+
                 {scheduleMode === "recurring" ? (
                   <Box className="gap-3">
                     <Text className="text-xs font-semibold text-typography-400 uppercase tracking-wide">
                       Recurrence
                     </Text>
                     <Box className="flex-row gap-2">
-                      {(["daily", "weekly", "monthly"] as const).map((option) => (
+                      {(["daily", "weekly", "monthly", "yearly"] as const).map((option) => (
                         <Pressable
                           key={option}
                           onPress={() => setFrequency(option)}
@@ -975,10 +1175,44 @@ export default function CalendarScreen() {
                         ))}
                       </Box>
                     ) : null}
+                    {frequency === "monthly" ? (
+                      <Box className="flex-row gap-2 flex-wrap">
+                        {(
+                          [
+                            ["day", `Day ${selectedDayOfMonth}`],
+                            ["nth", `The ${selectedWeekdayOrdinal} ${selectedWeekday}`],
+                            ["last", `The last ${selectedWeekday}`],
+                          ] as const
+                        ).map(([mode, label]) => (
+                          <Pressable
+                            key={mode}
+                            onPress={() => setMonthlyMode(mode)}
+                            style={{
+                              paddingHorizontal: 14,
+                              paddingVertical: 8,
+                              borderRadius: 20,
+                              backgroundColor:
+                                monthlyMode === mode ? colors.primary : colors.borderLight,
+                            }}
+                          >
+                            <Text
+                              style={{
+                                fontSize: 13,
+                                fontWeight: "600",
+                                color: monthlyMode === mode ? "#fff" : colors.text,
+                              }}
+                            >
+                              {label}
+                            </Text>
+                          </Pressable>
+                        ))}
+                      </Box>
+                    ) : null}
                     <Box className="flex-row gap-2 flex-wrap">
                       {(
                         [
                           ["none", "No end"],
+                          ["count", "After N times"],
                           ["3m", "3 months"],
                           ["6m", "6 months"],
                           ["12m", "1 year"],
@@ -1011,9 +1245,138 @@ export default function CalendarScreen() {
                         No-end series are generated in a rolling window to keep scheduling scalable.
                       </Text>
                     ) : null}
+                    {endMode === "count" ? (
+                      <TextInput
+                        value={countInput}
+                        onChangeText={setCountInput}
+                        placeholder="Number of sessions"
+                        placeholderTextColor={colors.textMuted}
+                        keyboardType="numeric"
+                        style={inputStyle}
+                      />
+                    ) : null}
+                    <TextInput
+                      value={customRRule}
+                      onChangeText={setCustomRRule}
+                      placeholder="Custom RRULE (e.g. FREQ=MONTHLY;BYDAY=SA;BYSETPOS=1)"
+                      placeholderTextColor={colors.textMuted}
+                      autoCapitalize="characters"
+                      autoCorrect={false}
+                      style={inputStyle}
+                    />
+                    {customRRule.trim() ? (
+                      <Text className="text-xs text-typography-500">
+                        The custom rule replaces the options above; the selected day is its start.
+                      </Text>
+                    ) : null}
+
+                    <Text className="text-xs font-semibold text-typography-400 uppercase tracking-wide">
+                      Progression
+                    </Text>
+                    <Text className="text-xs text-typography-500">
+                      Optional. Each occurrence adds the amount on top of the exercise defaults.
+                    </Text>
+                    {PROGRESSION_FIELDS.map(({ variable, label }) => {
+                      const draft = progressionDrafts[variable];
+                      const updateDraft = (patch: Partial<ProgressionStepDraft>) =>
+                        setProgressionDrafts((prev) => ({
+                          ...prev,
+                          [variable]: { ...prev[variable], ...patch },
+                        }));
+                      return (
+                        <Box key={variable} className="flex-row items-center gap-2">
+                          <Text className="text-xs text-typography-600" style={{ width: 76 }}>
+                            {label}
+                          </Text>
+                          <TextInput
+                            value={draft.amount}
+                            onChangeText={(value) => updateDraft({ amount: value })}
+                            placeholder="+0"
+                            placeholderTextColor={colors.textMuted}
+                            keyboardType="numbers-and-punctuation"
+                            style={{ ...inputStyle, flex: 1 }}
+                          />
+                          <Text className="text-xs text-typography-500">every</Text>
+                          <TextInput
+                            value={draft.every}
+                            onChangeText={(value) => updateDraft({ every: value })}
+                            keyboardType="numeric"
+                            style={{ ...inputStyle, width: 48 }}
+                          />
+                          <Pressable
+                            onPress={() =>
+                              updateDraft({ unit: draft.unit === "week" ? "session" : "week" })
+                            }
+                            style={{
+                              paddingHorizontal: 10,
+                              paddingVertical: 8,
+                              borderRadius: 10,
+                              backgroundColor: colors.borderLight,
+                            }}
+                          >
+                            <Text style={{ fontSize: 12, fontWeight: "600", color: colors.text }}>
+                              {draft.unit === "week" ? "wk" : "session"}
+                            </Text>
+                          </Pressable>
+                        </Box>
+                      );
+                    })}
+                    <Box className="flex-row gap-2">
+                      <Box className="flex-1">
+                        <Text className="text-xs text-typography-500 mb-1">Cycle (weeks)</Text>
+                        <TextInput
+                          value={cycleWeeksInput}
+                          onChangeText={setCycleWeeksInput}
+                          placeholder="No reset"
+                          placeholderTextColor={colors.textMuted}
+                          keyboardType="numeric"
+                          style={inputStyle}
+                        />
+                      </Box>
+                      <Box className="flex-1">
+                        <Text className="text-xs text-typography-500 mb-1">Deload load (%)</Text>
+                        <TextInput
+                          value={deloadPercentInput}
+                          onChangeText={setDeloadPercentInput}
+                          placeholder="No deload"
+                          placeholderTextColor={colors.textMuted}
+                          keyboardType="numeric"
+                          style={inputStyle}
+                        />
+                      </Box>
+                    </Box>
+                    <Text className="text-xs text-typography-500">
+                      With a cycle length, progression restarts each cycle. A deload load turns the
+                      last week of every cycle into a deload at that share of the base load.
+                    </Text>
                   </Box>
                 ) : null}
 
+                <Box className="flex-row gap-2">
+                  <Box className="flex-1">
+                    <Text className="text-xs text-typography-500 mb-1">Start time (optional)</Text>
+                    <TextInput
+                      value={startTimeInput}
+                      onChangeText={setStartTimeInput}
+                      placeholder="HH:MM"
+                      placeholderTextColor={colors.textMuted}
+                      keyboardType="numbers-and-punctuation"
+                      style={inputStyle}
+                    />
+                  </Box>
+                  <Box className="flex-1">
+                    <Text className="text-xs text-typography-500 mb-1">Duration (min)</Text>
+                    <TextInput
+                      value={durationInput}
+                      onChangeText={setDurationInput}
+                      placeholder="Optional"
+                      placeholderTextColor={colors.textMuted}
+                      keyboardType="numeric"
+                      style={inputStyle}
+                    />
+                  </Box>
+                </Box>
+
                 <Box className="rounded-xl p-3" style={{ backgroundColor: colors.borderLight }}>
                   <Text className="text-sm text-typography-600">
                     You can have overrides on the parameter after you schedule your session.
@@ -1463,6 +1826,35 @@ export default function CalendarScreen() {
                     <OverrideUnavailableOverlay />
                   </Box>
 
+                  <Box style={sectionCardStyle}>
+                    <Text className="text-base font-semibold text-typography-900">Time</Text>
+                    <Box className="flex-row gap-2">
+                      <TextInput
+                        placeholder="Start (HH:MM)"
+                        placeholderTextColor={colors.textMuted}
+                        value={overrideDraft.startTime}
+                        onChangeText={(value) =>
+                          updateSessionDraft(overrideSession._id, { startTime: value })
+                        }
+                        keyboardType="numbers-and-punctuation"
+                        style={{ ...inputStyle, flex: 1 }}
+                      />
+                      <TextInput
+                        placeholder="Duration (min)"
+                        placeholderTextColor={colors.textMuted}
+                        value={overrideDraft.durationMinutes}
+                        onChangeText={(value) =>
+                          updateSessionDraft(overrideSession._id, { durationMinutes: value })
+                        }
+                        keyboardType="numeric"
+                        style={{ ...inputStyle, flex: 1 }}
+                      />
+                    </Box>
+                    <Text className="text-xs text-typography-500">
+                      Leave the start time empty to train any time that day.
+                    </Text>
+                  </Box>
+
                   <Box className="gap-2">
                     <Button
                       className="rounded-xl"
@@ -1476,12 +1868,18 @@ export default function CalendarScreen() {
                           );
                           return;
                         }
+                        const timing = draftToTiming(overrideDraft);
+                        if (!timing) {
+                          setOverrideError("Use the HH:MM format for the start time.");
+                          return;
+                        }
                         setIsSavingOverride(true);
                         try {
                           const sessionId = await resolveConcreteSessionId(overrideSession);
                           await updateUpcomingSession({
                             sessionId: sessionId as never,
                             overrides,
+                            ...timing,
                           });
                           setOverrideSessionId(null);
                           showSuccessToast("Session override saved.");
@@ -1516,12 +1914,18 @@ export default function CalendarScreen() {
                               );
                               return;
                             }
+                            const timing = draftToTiming(overrideDraft);
+                            if (!timing) {
+                              setOverrideError("Use the HH:MM format for the start time.");
+                              return;
+                            }
                             setIsSavingOverride(true);
                             try {
                               await updateRecurringRuleFuture({
                                 ruleId: overrideSession.recurrenceRuleId!,
                                 effectiveFrom: overrideSession.scheduledFor,
                                 overrides,
+                                ...timing,
                               });
                               setOverrideSessionId(null);
                               showSuccessToast("Future sessions updated.");
@@ -1600,6 +2004,7 @@ export default function CalendarScreen() {
         exercise={selectedExercise?.exercise ?? null}
         finalVariables={selectedExercise?.finalVariables}
         bodyWeightKg={profile?.bodyWeightKg ?? undefined}
+        units={unitSystemOf(profile)}
       />
     </>
   );
@@ -10,11 +10,23 @@ import { ExerciseDetailsSheet } from "@/components/exercise-details-sheet";
 import { PageHeader } from "@/components/page-header";
 import { Box } from "@/components/ui/box";
 import { Text } from "@/components/ui/text";
-import { parseCommaSeparated } from "@/lib/trainingItemFilters";
+import { DIFFICULTY_BOULDER_GRADES, parseCommaSeparated } from "@/lib/trainingItemFilters";
+import { formatGrade, gradeSystemsOf, type GradeSystems } from "@/lib/gradeSystems";
 import { ChevronRight, FolderOpen, Plus, Search } from "lucide-react-native";
 import { colors, inputStyle, screenPadding } from "@/lib/theme";
+import { unitSystemOf } from "@/lib/units";
 import { showErrorMessage, useAppToast } from "@/lib/useAppToast";
 
+// e.g. "V3–V6", or "6A–7A" for climbers reading Font.
+function formatDifficultyGrades(
+  difficulty: keyof typeof DIFFICULTY_BOULDER_GRADES,
+  gradeSystems: GradeSystems,
+): string {
+  const { from, to } = DIFFICULTY_BOULDER_GRADES[difficulty];
+  const fromLabel = formatGrade(from, "boulder", gradeSystems);
+  return to ? `${fromLabel}–${formatGrade(to, "boulder", gradeSystems)}` : `${fromLabel}+`;
+}
+
 export default function DiscoverScreen() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
@@ -47,6 +59,7 @@ export default function DiscoverScreen() {
   const saveItem = useMutation(api.savedItems.saveItem);
   const unsaveItem = useMutation(api.savedItems.unsaveItem);
   const isLoadingItems = items === undefined;
+  const gradeSystems = gradeSystemsOf(profile);
   const scrollBottomPadding = Math.max(screenPadding.paddingBottom, insets.bottom + 48);
 
   const savedIds = React.useMemo(
@@ -159,6 +172,15 @@ export default function DiscoverScreen() {
               >
                 {option}
               </Text>
+              <Text
+                style={{
+                  fontSize: 11,
+                  textAlign: "center",
+                  color: difficulty === option ? "#fff" : colors.textMuted,
+                }}
+              >
+                {formatDifficultyGrades(option, gradeSystems)}
+              </Text>
             </Pressable>
           ))}
         </Box>
@@ -231,6 +253,7 @@ export default function DiscoverScreen() {
         onClose={() => setSelectedExercise(null)}
         exercise={selectedExercise}
         bodyWeightKg={profile?.bodyWeightKg ?? undefined}
+        units={unitSystemOf(profile)}
       />
     </>
   );
@@ -3,6 +3,8 @@ import { useMutation, useQuery } from "convex/react";
 import { useAuthActions } from "@convex-dev/auth/react";
 import { api } from "@/convex/_generated/api";
 import { ProfileForm } from "@/components/profile-form";
+import { BodyWeightCard } from "@/components/body-weight-card";
+import { PersonalRecordsCard } from "@/components/personal-records-card";
 import { Box } from "@/components/ui/box";
 import { Text } from "@/components/ui/text";
 
@@ -29,6 +31,11 @@ export default function ProfileScreen() {
               boulderingGrade: profile.boulderingGrade,
               sportGrade: profile.sportGrade,
               tradGrade: profile.tradGrade,
+              boulderGradeSystem: profile.boulderGradeSystem,
+              ropeGradeSystem: profile.ropeGradeSystem,
+              unitSystem: profile.unitSystem,
+              timerCues: profile.timerCues,
+              timerSounds: profile.timerSounds,
               regions: profile.regions,
               bio: profile.bio,
               goals: profile.goals,
@@ -55,6 +62,11 @@ export default function ProfileScreen() {
           boulderingGrade: values.boulderingGrade,
           sportGrade: values.sportGrade,
           tradGrade: values.tradGrade,
+          boulderGradeSystem: values.boulderGradeSystem,
+          ropeGradeSystem: values.ropeGradeSystem,
+          unitSystem: values.unitSystem,
+          timerCues: values.timerCues,
+          timerSounds: values.timerSounds,
           regions: values.regions,
           bio: values.bio,
           goals: values.goals,
@@ -62,6 +74,9 @@ export default function ProfileScreen() {
           showHistoryPublic: values.showHistoryPublic,
         })}
       onSignOut={() => signOut()}
-    />
+    >
+      <BodyWeightCard />
+      <PersonalRecordsCard />
+    </ProfileForm>
   );
 }
@@ -26,6 +26,11 @@ import {
 import { Plus, CheckCircle2, Zap, ChevronDown, ChevronRight } from "lucide-react-native";
 import { SessionCard, type SessionSnapshot } from "@/components/session-card";
 import { UpcomingSessionCard } from "@/components/upcoming-session-card";
+import { WorkloadWarningCard } from "@/components/workload-warning-card";
+import {
+  ProgressionSuggestionBanner,
+  type ProgressionSuggestion,
+} from "@/components/progression-suggestion";
 import {
   ExerciseDetailsSheet,
   type ExerciseDetailItem,
@@ -33,12 +38,15 @@ import {
 } from "@/components/exercise-details-sheet";
 import { PageHeader } from "@/components/page-header";
 import { colors, cardShadow, inputStyle, screenPadding } from "@/lib/theme";
+import { unitSystemOf } from "@/lib/units";
 import {
   HANG_CRIMP_TYPES,
   HANG_EDGE_MM_OPTIONS,
   HANG_EQUIPMENT_OPTIONS,
 } from "@/lib/trainingItemFilters";
 import { showErrorMessage, useAppToast } from "@/lib/useAppToast";
+import { compareSessionsByTime, findSessionConflicts } from "@/lib/sessionTimes";
+import { addDays, dayKeyToTimestamp, localTodayKey, monthRangeForDayKey } from "@/convex/dayKeys";
 
 type SessionOverrides = {
   weight?: number;
@@ -59,22 +67,13 @@ type SessionEditDraft = {
   weightInputMode: "percent" | "absolute";
 };
 
-function startOfDay(timestamp: number): number {
-  const date = new Date(timestamp);
-  date.setHours(0, 0, 0, 0);
-  return date.getTime();
-}
-
-function monthRangeFor(timestamp: number): { rangeStart: number; rangeEnd: number } {
-  const date = new Date(timestamp);
-  const rangeStart = new Date(date.getFullYear(), date.getMonth(), 1).getTime();
-  const rangeEnd = new Date(date.getFullYear(), date.getMonth() + 1, 0, 23, 59, 59, 999).getTime();
-  return { rangeStart, rangeEnd };
-}
-
-function toDayString(timestamp: number): string {
-  const date = new Date(timestamp);
-  return date.toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" });
+function toDayString(dayTimestamp: number): string {
+  return new Date(dayTimestamp).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
 }
 
 function mergeVariables(
@@ -192,9 +191,10 @@ export default function TrainScreen() {
   const router = useRouter();
   const navigation = useNavigation();
   const { success: showSuccessToast, error: showErrorToast } = useAppToast();
-  const today = startOfDay(Date.now());
-  const tomorrow = today + 24 * 60 * 60 * 1000;
-  const { rangeStart, rangeEnd } = React.useMemo(() => monthRangeFor(today), [today]);
+  const todayKey = localTodayKey();
+  const today = dayKeyToTimestamp(todayKey);
+  const tomorrow = addDays(today, 1);
+  const { rangeStart, rangeEnd } = React.useMemo(() => monthRangeForDayKey(todayKey), [todayKey]);
 
   const sessionsResult = useQuery(api.trainingSchedule.listCalendarSessionsInRange, {
     rangeStart,
@@ -202,7 +202,9 @@ export default function TrainScreen() {
   });
   const myItems = useQuery(api.trainingItems.listMyItems);
   const savedItems = useQuery(api.savedItems.listSavedItems);
+  const workouts = useQuery(api.workoutTemplates.listMyTemplates);
   const profile = useQuery(api.profiles.getMyProfile);
+  const workloadStatus = useQuery(api.workload.getWorkloadStatus);
 
   const startImpromptuSession = useMutation(api.trainingSchedule.startImpromptuSession);
   const completeSession = useMutation(api.trainingSchedule.completeSession);
@@ -212,6 +214,9 @@ export default function TrainScreen() {
   const updateUpcomingSession = useMutation(api.trainingSchedule.updateUpcomingSession);
   const updateRecurringRuleFuture = useMutation(api.trainingSchedule.updateRecurringRuleFuture);
   const removeRecurringRuleFuture = useMutation(api.trainingSchedule.removeRecurringRuleFuture);
+  const applySuggestionToSession = useMutation(
+    api.progressionSuggestions.applySuggestionToSession,
+  );
 
   const [dialogOpen, setDialogOpen] = React.useState(false);
   const [dialogError, setDialogError] = React.useState<string | null>(null);
@@ -221,6 +226,7 @@ export default function TrainScreen() {
   const [overrideSessionId, setOverrideSessionId] = React.useState<string | null>(null);
   const [overrideError, setOverrideError] = React.useState<string | null>(null);
   const [isSavingOverride, setIsSavingOverride] = React.useState(false);
+  const [applyingSuggestionId, setApplyingSuggestionId] = React.useState<string | null>(null);
   const [selectedExercise, setSelectedExercise] = React.useState<{
     exercise: ExerciseDetailItem;
     finalVariables: ExerciseDetailVariables;
@@ -243,7 +249,7 @@ export default function TrainScreen() {
     () =>
       (sessionsResult?.sessions ?? [])
         .filter((session) => session.scheduledFor >= today && session.scheduledFor < tomorrow)
-        .sort((a, b) => a.scheduledFor - b.scheduledFor),
+        .sort(compareSessionsByTime),
     [sessionsResult?.sessions, today, tomorrow],
   );
 
@@ -259,10 +265,16 @@ export default function TrainScreen() {
     return Array.from(byId.values());
   }, [myItems, savedItems]);
 
-  const startImpromptuNow = async (trainingItemId: string) => {
+  const startImpromptuNow = async (
+    target: { trainingItemId: string } | { workoutTemplateId: string },
+  ) => {
     setDialogError(null);
     try {
-      const session = await startImpromptuSession({ trainingItemId: trainingItemId as never });
+      const session = await startImpromptuSession(
+        "workoutTemplateId" in target
+          ? { workoutTemplateId: target.workoutTemplateId as never }
+          : { trainingItemId: target.trainingItemId as never },
+      );
       setDialogOpen(false);
       showSuccessToast("Session started.");
       if (session?._id) {
@@ -279,12 +291,70 @@ export default function TrainScreen() {
   const pendingCount = todaySessions.filter((s) => !s.completedAt).length;
   const pendingSessions = todaySessions.filter((s) => !s.completedAt);
   const completedSessions = todaySessions.filter((s) => !!s.completedAt);
+  const pendingConflicts = React.useMemo(
+    () => findSessionConflicts(todaySessions.filter((s) => !s.completedAt)),
+    [todaySessions],
+  );
   const overrideSession = React.useMemo(
     () => pendingSessions.find((session) => session._id === overrideSessionId) ?? null,
     [overrideSessionId, pendingSessions],
   );
   const overrideDraft = overrideSession ? editDrafts[overrideSession._id] : undefined;
 
+  const pendingItemIds = React.useMemo(
+    () =>
+      Array.from(
+        new Set(
+          pendingSessions.flatMap((session) =>
+            session.workout
+              ? session.workout.blocks.map(
+                  (block: { trainingItemId: string }) => block.trainingItemId,
+                )
+              : [session.trainingItemId],
+          ),
+        ),
+      ).sort(),
+    [pendingSessions],
+  );
+  const suggestions = useQuery(
+    api.progressionSuggestions.listSuggestionsForItems,
+    pendingItemIds.length > 0 ? { trainingItemIds: pendingItemIds as never } : "skip",
+  );
+  const suggestionsByItemId = React.useMemo(
+    () =>
+      new Map<string, ProgressionSuggestion>(
+        (suggestions ?? []).map((suggestion) => [suggestion.trainingItemId, suggestion]),
+      ),
+    [suggestions],
+  );
+
+  // Suggestions the session already matches are hidden.
+  const pendingSuggestionsFor = React.useCallback(
+    (session: any) => {
+      const targets: { trainingItemId: string; snapshot: SessionSnapshot; overrides: any }[] =
+        session.workout ? session.workout.blocks : [session];
+      return targets.flatMap((target) => {
+        const suggestion = suggestionsByItemId.get(target.trainingItemId);
+        if (!suggestion) return [];
+        const current = mergeVariables(target.snapshot.variables, target.overrides);
+        const differs = (["weight", "reps", "durationSeconds"] as const).some(
+          (key) =>
+            suggestion.suggested[key] !== undefined && suggestion.suggested[key] !== current[key],
+        );
+        return differs
+          ? [
+              {
+                ...suggestion,
+                itemTitle: session.workout ? target.snapshot.title : undefined,
+                weightIsPercent: !!target.snapshot.trainingType,
+              },
+            ]
+          : [];
+      });
+    },
+    [suggestionsByItemId],
+  );
+
   React.useEffect(() => {
     setEditDrafts((prev) => {
       const next = { ...prev };
@@ -428,6 +498,23 @@ export default function TrainScreen() {
     [],
   );
 
+  const handleApplySuggestion = React.useCallback(
+    async (session: any) => {
+      setApplyingSuggestionId(session._id);
+      try {
+        const sessionId = await resolveConcreteSessionId(session);
+        await applySuggestionToSession({ sessionId: sessionId as never });
+        showSuccessToast("Suggestion applied to this session.");
+      } catch (applyError) {
+        const message = showErrorMessage(applyError, "Could not apply suggestion.");
+        showErrorToast("Could not apply suggestion", message);
+      } finally {
+        setApplyingSuggestionId(null);
+      }
+    },
+    [applySuggestionToSession, resolveConcreteSessionId, showErrorToast, showSuccessToast],
+  );
+
   const handleCompleteSession = React.useCallback(
     async (session: any) => {
       try {
@@ -483,6 +570,14 @@ export default function TrainScreen() {
           </Box>
         ) : null}
 
+        {workloadStatus ? (
+          <WorkloadWarningCard
+            warnings={workloadStatus.warnings}
+            threshold={workloadStatus.threshold}
+            today={workloadStatus.today}
+          />
+        ) : null}
+
         <Pressable
           onPress={() => setDialogOpen(true)}
           style={{
@@ -526,6 +621,14 @@ export default function TrainScreen() {
                 onToggle={() => setExpandedSessionId(isExpanded ? null : session._id)}
                 onStart={() => void handleStartSession(session)}
                 onDone={() => void handleCompleteSession(session)}
+                conflictsWith={pendingConflicts.get(session._id)}
+                suggestionContent={
+                  <ProgressionSuggestionBanner
+                    suggestions={pendingSuggestionsFor(session)}
+                    isApplying={applyingSuggestionId === session._id}
+                    onApply={() => void handleApplySuggestion(session)}
+                  />
+                }
                 onViewDetails={() =>
                   openSessionDetails(
                     session.snapshot,
@@ -600,6 +703,7 @@ export default function TrainScreen() {
                         <SessionCard
                           snapshot={session.snapshot}
                           finalVariables={final}
+                          workout={session.workout}
                           onPressViewDetails={() => openSessionDetails(session.snapshot, final)}
                           statusBadge={
                             <Box className="flex-row items-center gap-2">
@@ -648,10 +752,21 @@ export default function TrainScreen() {
           </Text>
           <ScrollView style={{ width: "100%", maxHeight: 420 }}>
             <Box className="gap-1 w-full px-1">
+              {(workouts ?? []).map((workout) => (
+                <ActionsheetItem
+                  key={workout._id}
+                  onPress={() => void startImpromptuNow({ workoutTemplateId: workout._id })}
+                  className="rounded-xl"
+                >
+                  <ActionsheetItemText className="font-medium">
+                    {workout.title} · {workout.blocks.length} exercises
+                  </ActionsheetItemText>
+                </ActionsheetItem>
+              ))}
               {libraryItems.map((item) => (
                 <ActionsheetItem
                   key={item._id}
-                  onPress={() => void startImpromptuNow(item._id)}
+                  onPress={() => void startImpromptuNow({ trainingItemId: item._id })}
                   className="rounded-xl"
                 >
                   <ActionsheetItemText className="font-medium">{item.title}</ActionsheetItemText>
@@ -1254,6 +1369,7 @@ export default function TrainScreen() {
         exercise={selectedExercise?.exercise ?? null}
         finalVariables={selectedExercise?.finalVariables}
         bodyWeightKg={profile?.bodyWeightKg ?? undefined}
+        units={unitSystemOf(profile)}
       />
     </>
   );
@@ -1,11 +1,20 @@
 import React from "react";
-import { Pressable, StyleSheet, View } from "react-native";
+import { AppState, Pressable, StyleSheet, View } from "react-native";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { useKeepAwake } from "expo-keep-awake";
 import { useMutation, useQuery } from "convex/react";
 import { Text } from "@/components/ui/text";
 import { api } from "@/convex/_generated/api";
-import { Pause, Play, SkipForward, X, Check, ChevronDown, ChevronRight } from "lucide-react-native";
+import {
+  Pause,
+  Play,
+  SkipForward,
+  X,
+  Check,
+  ChevronDown,
+  ChevronRight,
+  Trophy,
+} from "lucide-react-native";
 import Svg, { Circle } from "react-native-svg";
 import Animated, {
   useSharedValue,
@@ -18,8 +27,51 @@ import Animated, {
   interpolateColor,
   Easing,
 } from "react-native-reanimated";
-import { soundManager } from "@/lib/sounds";
+import { soundManager, timerSoundsOf } from "@/lib/sounds";
+import {
+  addTimerActionListener,
+  cancelTimerTransitions,
+  clearTimerNotifications,
+  prepareTimerNotifications,
+  scheduleTimerTransitions,
+  showTimerControls,
+  upcomingTransitions,
+  type TimerNotificationAction,
+} from "@/lib/timerNotifications";
+import {
+  beepsEnabled,
+  describeRepCue,
+  speakCue,
+  stopSpeaking,
+  timerCueModeOf,
+  voiceEnabled,
+} from "@/lib/voice";
+import {
+  executionJournal,
+  withTimeout,
+  type ExecutionStepDetails,
+  type ExecutionStepInput,
+  type PlannedExecution,
+} from "@/lib/executionJournal";
+import { ForceSensorBar } from "@/components/force-sensor-bar";
+import { StepDetailsPanel } from "@/components/step-details-panel";
 import { colors } from "@/lib/theme";
+import {
+  describeForce,
+  summarizeForce,
+  useForceSensor,
+  type ForceSample,
+  type ForceSummary,
+} from "@/lib/forceSensors";
+import { describeRecord, type DisplayRecord } from "@/lib/personalRecords";
+import { findRecordCandidates } from "@/convex/personalRecordRules";
+import {
+  describeProtocol,
+  expandProtocol,
+  type IntervalPlan,
+  type IntervalProtocol,
+} from "@/convex/intervalProtocols";
+import { formatWeight, unitSystemOf, type UnitSystem } from "@/lib/units";
 
 type TimerPhase = "prep" | "rep" | "rest" | "completed";
 type RestPhaseKind = "between_reps" | "between_sets" | null;
@@ -41,11 +93,15 @@ const RING_RADIUS = (RING_SIZE - RING_STROKE) / 2;
 const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
 const AnimatedCircle = Animated.createAnimatedComponent(Circle);
 
-const COUNTDOWN_BEEP_THRESHOLD = 3;
-const WORK_TICK_THRESHOLD = 5;
+// Rests longer than this get a spoken warning when this many seconds are left.
+const VOICE_WARNING_SECONDS = 10;
 const REST_BREATHE_THRESHOLD = 5000;
 const COMPLETION_DELAY_MS = 3500;
+// Extra time on the completed screen when the block set a personal record.
+const RECORD_CELEBRATION_MS = 3000;
 const PREP_PHASE_SECONDS = 5;
+// How long to wait for the server before running the block from the offline journal.
+const START_TIMEOUT_MS = 6000;
 
 function formatDuration(ms: number): string {
   const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
@@ -63,19 +119,53 @@ function describeLoad(
   trainingType: "hang" | "weight_training" | "climbing" | "others" | undefined,
   weight: number | undefined,
   bodyWeightKg: number | undefined,
+  units: UnitSystem,
 ): string {
   if (weight === undefined) return "Not set";
-  if (!trainingType) return `${weight}kg`;
+  if (!trainingType) return formatWeight(weight, units);
   if (weight > 100) {
     if (bodyWeightKg && bodyWeightKg > 0) {
-      const additionalKg = Number((((weight - 100) / 100) * bodyWeightKg).toFixed(1));
-      return `Additional Weight +${additionalKg}kg`;
+      const additionalKg = ((weight - 100) / 100) * bodyWeightKg;
+      return `Additional Weight ${formatWeight(additionalKg, units, true)}`;
     }
     return `Additional Weight +${Number((weight - 100).toFixed(1))}% BW`;
   }
   return `${weight}% BW`;
 }
 
+function plannedFromBlock(block: {
+  snapshot: { variables: PlannedExecution; protocol?: IntervalProtocol };
+  overrides: PlannedExecution;
+}): PlannedExecution {
+  const { snapshot, overrides } = block;
+  return {
+    weight: overrides.weight ?? snapshot.variables.weight,
+    sets: overrides.sets ?? snapshot.variables.sets,
+    reps: snapshot.protocol
+      ? expandProtocol(snapshot.protocol).reps.length
+      : (overrides.reps ?? snapshot.variables.reps),
+    restSeconds: overrides.restSeconds ?? snapshot.variables.restSeconds,
+    restBetweenSetsSeconds:
+      overrides.restBetweenSetsSeconds ?? snapshot.variables.restBetweenSetsSeconds,
+    durationSeconds: overrides.durationSeconds ?? snapshot.variables.durationSeconds,
+    protocol: snapshot.protocol,
+  };
+}
+
+function repLabel(setNumber: number, repNumber: number | undefined): string {
+  return repNumber === undefined ? `set ${setNumber}` : `set ${setNumber} rep ${repNumber}`;
+}
+
+function stepDetailsOf(step: ExecutionStepDetails): ExecutionStepDetails {
+  return {
+    addedWeightKg: step.addedWeightKg,
+    edgeSizeMm: step.edgeSizeMm,
+    grip: step.grip,
+    rpe: step.rpe,
+    failed: step.failed,
+  };
+}
+
 const TRAINING_TYPE_LABEL: Record<string, string> = {
   hang: "Hang",
   weight_training: "Weight training",
@@ -85,10 +175,9 @@ const TRAINING_TYPE_LABEL: Record<string, string> = {
 
 export default function TimerScreen() {
   useKeepAwake();
-  const getNowMs = React.useCallback(
-    () => (typeof performance !== "undefined" ? performance.now() : Date.now()),
-    [],
-  );
+  // Wall-clock time, so phases keep counting while the app is suspended and line up with the
+  // notifications scheduled for them.
+  const getNowMs = React.useCallback(() => Date.now(), []);
   const router = useRouter();
   const params = useLocalSearchParams<{ sessionId?: string | string[] }>();
   const sessionIdParam = Array.isArray(params.sessionId) ? params.sessionId[0] : params.sessionId;
@@ -99,17 +188,30 @@ export default function TimerScreen() {
     sessionId ? { sessionId: sessionId as never } : "skip",
   );
   const profile = useQuery(api.profiles.getMyProfile);
+  const recordBests = useQuery(api.personalRecords.getMyRecordBests);
+  const units = unitSystemOf(profile);
+  const cueMode = timerCueModeOf(profile);
+  const playBeeps = beepsEnabled(cueMode);
+  const speakCues = voiceEnabled(cueMode);
+  const timerSounds = timerSoundsOf(profile);
   const startSessionExecution = useMutation(api.trainingLogs.startSessionExecution);
-  const appendExecutionStep = useMutation(api.trainingLogs.appendExecutionStep);
-  const finishSessionExecution = useMutation(api.trainingLogs.finishSessionExecution);
+  const { sensor: forceSensor } = useForceSensor();
 
   const [error, setError] = React.useState<string | null>(null);
-  const [logId, setLogId] = React.useState<string | null>(null);
+  // Set once the block has a journal entry, whether or not the server has seen it yet.
+  const [isExecutionReady, setIsExecutionReady] = React.useState(false);
+  const [blockIndex, setBlockIndex] = React.useState(0);
   const [plannedSets, setPlannedSets] = React.useState(3);
   const [plannedReps, setPlannedReps] = React.useState(6);
   const [plannedRepDurationSeconds, setPlannedRepDurationSeconds] = React.useState(30);
   const [plannedRepRestSeconds, setPlannedRepRestSeconds] = React.useState(60);
   const [plannedSetRestSeconds, setPlannedSetRestSeconds] = React.useState(60);
+  // Per-rep work and rest from the exercise's interval protocol, when it has one.
+  const [intervalPlan, setIntervalPlan] = React.useState<IntervalPlan | null>(null);
+  // Length of the running rep or rest; EMOM rests shrink by however long the work took.
+  const [phaseDurationSeconds, setPhaseDurationSeconds] = React.useState(30);
+  // Reps tapped in during an AMRAP work phase.
+  const [amrapCount, setAmrapCount] = React.useState(0);
   const [currentSet, setCurrentSet] = React.useState(1);
   const [currentRep, setCurrentRep] = React.useState(1);
   const [restPhaseKind, setRestPhaseKind] = React.useState<RestPhaseKind>(null);
@@ -117,11 +219,57 @@ export default function TimerScreen() {
   const [awaitingStart, setAwaitingStart] = React.useState(true);
   const [phaseEndsAt, setPhaseEndsAt] = React.useState<number | null>(null);
   const [pausedRemainingMs, setPausedRemainingMs] = React.useState<number | null>(null);
-  const [nowTick, setNowTick] = React.useState(() => performance.now());
+  const [nowTick, setNowTick] = React.useState(() => Date.now());
   const [detailsExpanded, setDetailsExpanded] = React.useState(false);
+  // The rep whose load, RPE and fail flag can be filled in during the rest after it.
+  const [lastRepStep, setLastRepStep] = React.useState<{
+    clientStepId: string;
+    label: string;
+    details: ExecutionStepDetails;
+    force?: ForceSummary;
+  } | null>(null);
+  // Load the athlete last entered; carried into the following reps of the block.
+  const [stickyLoad, setStickyLoad] = React.useState<ExecutionStepDetails | null>(null);
+  // Records the finished block beats, worked out from the journal before it is uploaded.
+  const [newRecords, setNewRecords] = React.useState<DisplayRecord[] | null>(null);
 
   const initializingRef = React.useRef(false);
   const transitioningRef = React.useRef(false);
+  const advancingRef = React.useRef(false);
+  // Force readings from the running rep, summarized when it is recorded.
+  const forceSamplesRef = React.useRef<ForceSample[]>([]);
+  // When a phase ran out on its own, the next one starts from its end rather than from now,
+  // so phases missed while the app was suspended are caught up without drifting.
+  const phaseChainStartRef = React.useRef<number | null>(null);
+  // Read inside initialize without re-running it on every live query update.
+  const sessionRef = React.useRef(session);
+  sessionRef.current = session;
+
+  // Workout sessions run one block at a time; plain sessions behave as a single block.
+  const workoutBlocks = session?.workout?.blocks ?? null;
+  const activeBlock =
+    workoutBlocks?.[blockIndex] ??
+    (session ? { snapshot: session.snapshot, overrides: session.overrides } : null);
+  const activeSnapshot = activeBlock?.snapshot;
+  const activeOverrides = activeBlock?.overrides;
+  const nextBlock = workoutBlocks?.[blockIndex + 1] ?? null;
+  // Benchmark tests return to their results.
+  const exitRoute = session?.benchmarkProtocol ? "/benchmarks" : "/tabs/calendar";
+  const bodyWeightKg = profile?.bodyWeightKg;
+  const plannedLoad = React.useMemo((): ExecutionStepDetails => {
+    const weight = activeOverrides?.weight ?? activeSnapshot?.variables.weight;
+    // Percent-of-bodyweight loads become added kilos when the body weight is known.
+    const addedWeightKg =
+      activeSnapshot?.trainingType && weight !== undefined && bodyWeightKg && bodyWeightKg > 0
+        ? Number((((weight - 100) / 100) * bodyWeightKg).toFixed(1))
+        : undefined;
+    return {
+      addedWeightKg,
+      edgeSizeMm: activeSnapshot?.hangDetails?.edgeSizeMm,
+      grip: activeSnapshot?.hangDetails?.crimpType,
+    };
+  }, [activeOverrides, activeSnapshot, bodyWeightKg]);
+  const currentLoad = stickyLoad ?? plannedLoad;
 
   // --------------- tick ---------------
   React.useEffect(() => {
@@ -129,14 +277,11 @@ export default function TimerScreen() {
     return () => clearInterval(interval);
   }, [getNowMs]);
 
-  const currentPhaseDurationSeconds =
-    phase === "prep"
-      ? PREP_PHASE_SECONDS
-      : phase === "rep"
-        ? plannedRepDurationSeconds
-        : restPhaseKind === "between_sets"
-          ? plannedSetRestSeconds
-          : plannedRepRestSeconds;
+  const repWorkSeconds = React.useCallback(
+    (rep: number) => intervalPlan?.reps[rep - 1]?.workSeconds ?? plannedRepDurationSeconds,
+    [intervalPlan, plannedRepDurationSeconds],
+  );
+  const currentPhaseDurationSeconds = phase === "prep" ? PREP_PHASE_SECONDS : phaseDurationSeconds;
   const remainingMs =
     phase === "completed"
       ? 0
@@ -241,47 +386,119 @@ export default function TimerScreen() {
     void soundManager.init();
     return () => {
       void soundManager.cleanup();
+      stopSpeaking();
     };
   }, []);
 
+  React.useEffect(() => {
+    soundManager.configure(timerSounds);
+  }, [timerSounds]);
+
   const lastBeepRef = React.useRef(-1);
   React.useEffect(() => {
     if (pausedRemainingMs !== null || phase === "completed" || (phase === "prep" && awaitingStart))
       return;
     const seconds = Math.ceil(remainingMs / 1000);
 
+    if (
+      speakCues &&
+      phase === "rest" &&
+      seconds === VOICE_WARNING_SECONDS &&
+      currentPhaseDurationSeconds > VOICE_WARNING_SECONDS &&
+      timerSounds.countdownSeconds < VOICE_WARNING_SECONDS &&
+      seconds !== lastBeepRef.current
+    ) {
+      lastBeepRef.current = seconds;
+      speakCue("Ten seconds");
+    }
+
     if (
       (phase === "rest" || phase === "prep") &&
-      seconds <= COUNTDOWN_BEEP_THRESHOLD &&
+      seconds <= timerSounds.countdownSeconds &&
       seconds >= 1 &&
       seconds !== lastBeepRef.current
     ) {
       lastBeepRef.current = seconds;
-      if (seconds === 1) void soundManager.play("countdown1");
+      if (!playBeeps) speakCue(`${seconds}`);
+      else if (seconds === 1) void soundManager.play("countdown1");
       else void soundManager.play("countdown3");
     }
 
+    // Without beeps the voice counts down the end of the hang instead of ticking.
+    const workCueThreshold = playBeeps
+      ? timerSounds.workTickSeconds
+      : timerSounds.countdownSeconds;
     if (
       phase === "rep" &&
-      seconds <= WORK_TICK_THRESHOLD &&
+      seconds <= workCueThreshold &&
       seconds >= 1 &&
       seconds !== lastBeepRef.current
     ) {
       lastBeepRef.current = seconds;
-      if (seconds === 1) void soundManager.play("go");
+      if (!playBeeps) speakCue(`${seconds}`);
+      else if (seconds === 1) void soundManager.play("go");
       else void soundManager.play("workTick");
     }
-  }, [remainingMs, phase, pausedRemainingMs, awaitingStart]);
+  }, [
+    remainingMs,
+    phase,
+    pausedRemainingMs,
+    awaitingStart,
+    currentPhaseDurationSeconds,
+    playBeeps,
+    speakCues,
+    timerSounds,
+  ]);
 
   React.useEffect(() => {
     lastBeepRef.current = -1;
   }, [phase]);
 
   React.useEffect(() => {
-    if (phase === "completed") {
+    if (phase === "completed" && playBeeps) {
       void soundManager.play("complete");
     }
-  }, [phase]);
+  }, [phase, playBeeps]);
+
+  // Said once as each phase starts: which rep is up, rest and what follows, the next exercise.
+  const lastAnnouncementRef = React.useRef<string | null>(null);
+  React.useEffect(() => {
+    if (!speakCues || pausedRemainingMs !== null || (phase === "prep" && awaitingStart)) return;
+    const announcementKey = `${blockIndex}:${phase}:${currentSet}:${currentRep}`;
+    if (lastAnnouncementRef.current === announcementKey) return;
+    lastAnnouncementRef.current = announcementKey;
+    const repCue = describeRepCue(currentSet, plannedSets, currentRep, plannedReps);
+    if (phase === "prep") {
+      speakCue(activeSnapshot?.title ? `${activeSnapshot.title}. ${repCue}` : repCue);
+    } else if (phase === "rep") {
+      speakCue(repCue);
+    } else if (phase === "rest") {
+      speakCue(
+        restPhaseKind === "between_reps"
+          ? `Rest. Next, rep ${currentRep + 1}`
+          : `Rest. Next, set ${currentSet + 1} of ${plannedSets}`,
+      );
+    } else {
+      speakCue(nextBlock ? `Exercise done. Up next, ${nextBlock.snapshot.title}` : "Session done");
+    }
+  }, [
+    activeSnapshot?.title,
+    awaitingStart,
+    blockIndex,
+    currentRep,
+    currentSet,
+    nextBlock,
+    pausedRemainingMs,
+    phase,
+    plannedReps,
+    plannedSets,
+    restPhaseKind,
+    speakCues,
+  ]);
+
+  React.useEffect(() => {
+    if (pausedRemainingMs !== null) stopSpeaking();
+  }, [pausedRemainingMs]);
 
   // --------------- session init ---------------
   const setPhaseRunning = React.useCallback(
@@ -290,170 +507,281 @@ export default function TimerScreen() {
       setPhase(nextPhase);
       setRestPhaseKind(nextPhase === "rest" ? nextRestKind : null);
       setPausedRemainingMs(null);
-      setPhaseEndsAt(getNowMs() + durationSeconds * 1000);
+      setPhaseDurationSeconds(durationSeconds);
+      const startsAt = phaseChainStartRef.current ?? getNowMs();
+      phaseChainStartRef.current = null;
+      setPhaseEndsAt(startsAt + durationSeconds * 1000);
+      if (nextPhase === "rep") {
+        setAmrapCount(0);
+        forceSamplesRef.current = [];
+      }
     },
     [getNowMs],
   );
 
-  const initialize = React.useCallback(async () => {
-    if (!sessionId || initializingRef.current) return;
-    initializingRef.current = true;
-    setError(null);
-    try {
-      const log = await startSessionExecution({ sessionId: sessionId as never });
-      const resolvedSets = clampPositiveInt(log?.planned?.sets, 3);
-      const resolvedReps = clampPositiveInt(log?.planned?.reps, 6);
-      const resolvedRepDuration = clampPositiveInt(log?.planned?.durationSeconds, 30);
-      const resolvedRepRestDuration = clampPositiveInt(log?.planned?.restSeconds, 60);
-      const resolvedSetRestDuration = clampPositiveInt(
-        log?.planned?.restBetweenSetsSeconds,
-        resolvedRepRestDuration,
-      );
-      let resumedSet = 1;
-      let resumedRep = 1;
-      let resumedPhase: TimerPhase = "rep";
-      let resumedRestKind: RestPhaseKind = null;
-      let didCompleteAllReps = false;
-      for (const step of log?.steps ?? []) {
-        if (step.kind === "rep") {
-          const stepSet = Math.min(Math.max(1, step.setNumber), resolvedSets);
-          const stepRep = Math.min(
-            Math.max(
-              1,
-              step.repNumber ?? ((step.completedReps ?? 0) >= resolvedReps ? resolvedReps : 1),
-            ),
-            resolvedReps,
+  const initialize = React.useCallback(
+    async (nextBlockIndex?: number) => {
+      if (!sessionId || initializingRef.current) return;
+      initializingRef.current = true;
+      setError(null);
+      try {
+        const openEntry = executionJournal.getOpenEntry(sessionId);
+        const requestedBlockIndex = nextBlockIndex ?? openEntry?.blockIndex ?? undefined;
+        // Earlier blocks must be finished on the server before it will start the next one.
+        const serverLog = await withTimeout(
+          executionJournal.flush().then(() =>
+            startSessionExecution({
+              sessionId: sessionId as never,
+              blockIndex: requestedBlockIndex,
+            }),
+          ),
+          START_TIMEOUT_MS,
+        );
+        let log = serverLog ? executionJournal.attachLog(sessionId, serverLog) : openEntry;
+        if (!log || (nextBlockIndex !== undefined && log.blockIndex !== nextBlockIndex)) {
+          const currentSession = sessionRef.current;
+          if (!currentSession) {
+            throw new Error("Could not reach the server to start this session.");
+          }
+          // Offline, the next block is the first one neither the server nor this device
+          // has logged.
+          let offlineBlockIndex: number | null = null;
+          if (currentSession.workout) {
+            const loggedBlocks = new Set([
+              ...(currentSession.loggedBlockIndexes ?? []),
+              ...executionJournal.journaledBlockIndexes(sessionId),
+            ]);
+            const nextUnlogged: number =
+              requestedBlockIndex ??
+              currentSession.workout.blocks.findIndex(
+                (_block: unknown, index: number) => !loggedBlocks.has(index),
+              );
+            if (nextUnlogged < 0) {
+              throw new Error("Every block in this workout has already been logged.");
+            }
+            offlineBlockIndex = nextUnlogged;
+          }
+          const block = currentSession.workout
+            ? currentSession.workout.blocks[offlineBlockIndex ?? 0]
+            : currentSession;
+          if (!block) {
+            throw new Error("Could not reach the server to start this session.");
+          }
+          log = executionJournal.beginOffline(
+            sessionId,
+            offlineBlockIndex,
+            plannedFromBlock(block),
           );
-          const isLastRepInSet = stepRep >= resolvedReps;
-          const isLastSet = stepSet >= resolvedSets;
-          if (isLastRepInSet && isLastSet) {
-            resumedSet = resolvedSets;
-            resumedRep = resolvedReps;
-            resumedPhase = "completed";
-            resumedRestKind = null;
-            didCompleteAllReps = true;
+        }
+        const plan = log?.planned?.protocol ? expandProtocol(log.planned.protocol) : null;
+        const resolvedSets = clampPositiveInt(log?.planned?.sets, 3);
+        const resolvedReps = plan ? plan.reps.length : clampPositiveInt(log?.planned?.reps, 6);
+        const resolvedRepDuration = clampPositiveInt(log?.planned?.durationSeconds, 30);
+        const resolvedRepRestDuration = clampPositiveInt(log?.planned?.restSeconds, 60);
+        const resolvedSetRestDuration = clampPositiveInt(
+          log?.planned?.restBetweenSetsSeconds,
+          resolvedRepRestDuration,
+        );
+        let resumedSet = 1;
+        let resumedRep = 1;
+        let resumedPhase: TimerPhase = "rep";
+        let resumedRestKind: RestPhaseKind = null;
+        let didCompleteAllReps = false;
+        for (const step of log?.steps ?? []) {
+          if (step.kind === "rep") {
+            const stepSet = Math.min(Math.max(1, step.setNumber), resolvedSets);
+            const stepRep = Math.min(
+              Math.max(
+                1,
+                step.repNumber ?? ((step.completedReps ?? 0) >= resolvedReps ? resolvedReps : 1),
+              ),
+              resolvedReps,
+            );
+            const isLastRepInSet = stepRep >= resolvedReps;
+            const isLastSet = stepSet >= resolvedSets;
+            if (isLastRepInSet && isLastSet) {
+              resumedSet = resolvedSets;
+              resumedRep = resolvedReps;
+              resumedPhase = "completed";
+              resumedRestKind = null;
+              didCompleteAllReps = true;
+              continue;
+            }
+            resumedSet = stepSet;
+            resumedRep = stepRep;
+            resumedPhase = "rest";
+            resumedRestKind = isLastRepInSet ? "between_sets" : "between_reps";
             continue;
           }
-          resumedSet = stepSet;
-          resumedRep = stepRep;
-          resumedPhase = "rest";
-          resumedRestKind = isLastRepInSet ? "between_sets" : "between_reps";
-          continue;
-        }
 
-        if (step.kind === "rest") {
-          const stepSet = Math.min(Math.max(1, step.setNumber), resolvedSets);
-          const stepRep = Math.min(Math.max(1, step.repNumber ?? 1), resolvedReps);
-          const inferredRestKind: RestPhaseKind =
-            step.note === "between_reps"
-              ? "between_reps"
-              : step.note === "between_sets"
-                ? "between_sets"
-                : step.repNumber === undefined
+          if (step.kind === "rest") {
+            const stepSet = Math.min(Math.max(1, step.setNumber), resolvedSets);
+            const stepRep = Math.min(Math.max(1, step.repNumber ?? 1), resolvedReps);
+            const inferredRestKind: RestPhaseKind =
+              step.note === "between_reps"
+                ? "between_reps"
+                : step.note === "between_sets"
                   ? "between_sets"
-                  : stepRep >= resolvedReps
+                  : step.repNumber === undefined
                     ? "between_sets"
-                    : "between_reps";
-          if (inferredRestKind === "between_reps") {
-            resumedSet = stepSet;
-            resumedRep = Math.min(stepRep + 1, resolvedReps);
-          } else {
-            resumedSet = Math.min(stepSet + 1, resolvedSets);
+                    : stepRep >= resolvedReps
+                      ? "between_sets"
+                      : "between_reps";
+            if (inferredRestKind === "between_reps") {
+              resumedSet = stepSet;
+              resumedRep = Math.min(stepRep + 1, resolvedReps);
+            } else {
+              resumedSet = Math.min(stepSet + 1, resolvedSets);
+              resumedRep = 1;
+            }
+            resumedPhase = "rep";
+            resumedRestKind = null;
+            continue;
+          }
+
+          if (step.kind === "set_skipped") {
+            resumedSet = Math.min(Math.max(1, step.setNumber + 1), resolvedSets);
             resumedRep = 1;
+            resumedPhase = "rep";
+            resumedRestKind = null;
           }
-          resumedPhase = "rep";
-          resumedRestKind = null;
-          continue;
         }
-
-        if (step.kind === "set_skipped") {
-          resumedSet = Math.min(Math.max(1, step.setNumber + 1), resolvedSets);
-          resumedRep = 1;
-          resumedPhase = "rep";
-          resumedRestKind = null;
+        resumedSet = Math.min(Math.max(1, resumedSet), resolvedSets);
+        resumedRep = Math.min(Math.max(1, resumedRep), resolvedReps);
+        const lastStep = log.steps[log.steps.length - 1];
+        setLastRepStep(
+          lastStep?.kind === "rep"
+            ? {
+                clientStepId: lastStep.clientStepId,
+                label: repLabel(lastStep.setNumber, lastStep.repNumber),
+                details: stepDetailsOf(lastStep),
+                force: lastStep.force,
+              }
+            : null,
+        );
+        setStickyLoad(null);
+        setIsExecutionReady(true);
+        setBlockIndex(log.blockIndex ?? requestedBlockIndex ?? 0);
+        setPlannedSets(resolvedSets);
+        setPlannedReps(resolvedReps);
+        setPlannedRepDurationSeconds(resolvedRepDuration);
+        setPlannedRepRestSeconds(resolvedRepRestDuration);
+        setPlannedSetRestSeconds(resolvedSetRestDuration);
+        setIntervalPlan(plan);
+        setAmrapCount(0);
+        forceSamplesRef.current = [];
+        setCurrentSet(resumedSet);
+        setCurrentRep(resumedRep);
+        setRestPhaseKind(resumedRestKind);
+        const hasRecordedSteps = (log?.steps?.length ?? 0) > 0;
+        if (hasRecordedSteps && !didCompleteAllReps) {
+          setAwaitingStart(false);
+          setPhase(resumedPhase);
+          const resumedInterval = plan?.reps[resumedRep - 1];
+          const duration =
+            resumedPhase === "rep"
+              ? (resumedInterval?.workSeconds ?? resolvedRepDuration)
+              : resumedRestKind === "between_sets"
+                ? resolvedSetRestDuration
+                : (resumedInterval?.restSeconds ?? resolvedRepRestDuration);
+          setPhaseDurationSeconds(duration);
+          setPhaseEndsAt(getNowMs() + duration * 1000);
+        } else if (didCompleteAllReps) {
+          setAwaitingStart(false);
+          setPhase("completed");
+          setRestPhaseKind(null);
+          setPhaseEndsAt(null);
+        } else {
+          setAwaitingStart(true);
+          setPhase("prep");
+          setRestPhaseKind(null);
+          setPhaseEndsAt(null);
         }
+        setPausedRemainingMs(null);
+      } catch (initError) {
+        setError(initError instanceof Error ? initError.message : "Could not start timer.");
+      } finally {
+        initializingRef.current = false;
       }
-      resumedSet = Math.min(Math.max(1, resumedSet), resolvedSets);
-      resumedRep = Math.min(Math.max(1, resumedRep), resolvedReps);
-      setLogId(log?._id ?? null);
-      setPlannedSets(resolvedSets);
-      setPlannedReps(resolvedReps);
-      setPlannedRepDurationSeconds(resolvedRepDuration);
-      setPlannedRepRestSeconds(resolvedRepRestDuration);
-      setPlannedSetRestSeconds(resolvedSetRestDuration);
-      setCurrentSet(resumedSet);
-      setCurrentRep(resumedRep);
-      setRestPhaseKind(resumedRestKind);
-      const hasRecordedSteps = (log?.steps?.length ?? 0) > 0;
-      if (hasRecordedSteps && !didCompleteAllReps) {
-        setAwaitingStart(false);
-        setPhase(resumedPhase);
-        const duration =
-          resumedPhase === "rep"
-            ? resolvedRepDuration
-            : resumedRestKind === "between_sets"
-              ? resolvedSetRestDuration
-              : resolvedRepRestDuration;
-        setPhaseEndsAt(getNowMs() + duration * 1000);
-      } else if (didCompleteAllReps) {
-        setAwaitingStart(false);
-        setPhase("completed");
-        setRestPhaseKind(null);
-        setPhaseEndsAt(null);
-      } else {
-        setAwaitingStart(true);
-        setPhase("prep");
-        setRestPhaseKind(null);
-        setPhaseEndsAt(null);
-      }
-      setPausedRemainingMs(null);
-    } catch (initError) {
-      setError(initError instanceof Error ? initError.message : "Could not start timer.");
-    } finally {
-      initializingRef.current = false;
-    }
-  }, [getNowMs, sessionId, startSessionExecution]);
+    },
+    [getNowMs, sessionId, startSessionExecution],
+  );
 
   React.useEffect(() => {
     if (!sessionId) return;
     void initialize();
   }, [initialize, sessionId]);
 
+  // Climbing blocks are logged route by route rather than timed, so they get their own screen.
+  // Blocks that already have timed steps, from before that screen existed, stay here.
+  const activeTrainingType = activeSnapshot?.trainingType;
+  React.useEffect(() => {
+    if (!sessionId || !isExecutionReady || activeTrainingType !== "climbing") return;
+    if (!executionJournal.release(sessionId)) return;
+    router.replace({ pathname: "/climbing-session", params: { sessionId } });
+  }, [activeTrainingType, isExecutionReady, router, sessionId]);
+
   // --------------- step recording ---------------
+  // Steps go to the local journal, which uploads them when there is a connection.
   const recordStep = React.useCallback(
-    async (step: {
-      kind: "rep" | "rest" | "set_skipped";
-      setNumber: number;
-      repNumber?: number;
-      completedReps?: number;
-      plannedDurationSeconds?: number;
-      actualDurationMs: number;
-      note?: string;
-    }) => {
-      if (!logId) return;
-      await appendExecutionStep({ logId: logId as never, step });
+    async (step: ExecutionStepInput) => {
+      if (!sessionId || !isExecutionReady) return null;
+      return executionJournal.record(sessionId, step);
     },
-    [appendExecutionStep, logId],
+    [isExecutionReady, sessionId],
   );
 
+  // --------------- force sensor ---------------
+  const isMeasuringForce = !!forceSensor && phase === "rep" && pausedRemainingMs === null;
+  React.useEffect(() => {
+    if (!forceSensor || !isMeasuringForce) return;
+    // Sensors restart their clock on every start, so a rep resumed after a pause carries on
+    // from its last sample.
+    const offsetMs = forceSamplesRef.current[forceSamplesRef.current.length - 1]?.atMs ?? 0;
+    const removeListener = forceSensor.onSample((sample) => {
+      forceSamplesRef.current.push({ atMs: offsetMs + sample.atMs, kg: sample.kg });
+    });
+    forceSensor.startMeasuring().catch(() => undefined);
+    return () => {
+      removeListener();
+      forceSensor.stopMeasuring().catch(() => undefined);
+    };
+  }, [forceSensor, isMeasuringForce]);
+
   // --------------- phase transitions ---------------
   const completeRepPhase = React.useCallback(async () => {
-    if (!logId || transitioningRef.current) return;
+    if (!isExecutionReady || transitioningRef.current) return;
     transitioningRef.current = true;
     setError(null);
     try {
       const actualDurationMs = Math.max(0, currentPhaseDurationSeconds * 1000 - remainingMs);
-      await recordStep({
+      const repDetails = stepDetailsOf(currentLoad);
+      const force = forceSensor
+        ? (summarizeForce(forceSamplesRef.current, forceSensor.name) ?? undefined)
+        : undefined;
+      const clientStepId = await recordStep({
         kind: "rep",
         setNumber: currentSet,
         repNumber: currentRep,
-        completedReps: 1,
-        plannedDurationSeconds: plannedRepDurationSeconds,
+        completedReps: intervalPlan?.mode === "amrap" ? amrapCount : 1,
+        plannedDurationSeconds: currentPhaseDurationSeconds,
         actualDurationMs,
+        force,
+        ...repDetails,
       });
+      setLastRepStep(
+        clientStepId
+          ? { clientStepId, label: repLabel(currentSet, currentRep), details: repDetails, force }
+          : null,
+      );
       const isLastRepInSet = currentRep >= plannedReps;
       if (!isLastRepInSet) {
-        setPhaseRunning("rest", plannedRepRestSeconds, "between_reps");
+        // EMOM reps start on the interval, so finishing early lengthens the rest.
+        const restSeconds =
+          intervalPlan?.mode === "emom" && intervalPlan.intervalSeconds
+            ? Math.max(0, intervalPlan.intervalSeconds - actualDurationMs / 1000)
+            : (intervalPlan?.reps[currentRep - 1]?.restSeconds ?? plannedRepRestSeconds);
+        setPhaseRunning("rest", restSeconds, "between_reps");
         return;
       }
       if (currentSet >= plannedSets) {
@@ -470,12 +798,15 @@ export default function TimerScreen() {
       transitioningRef.current = false;
     }
   }, [
+    amrapCount,
+    currentLoad,
     currentPhaseDurationSeconds,
     currentRep,
     currentSet,
-    logId,
+    forceSensor,
+    intervalPlan,
+    isExecutionReady,
     plannedReps,
-    plannedRepDurationSeconds,
     plannedRepRestSeconds,
     plannedSetRestSeconds,
     plannedSets,
@@ -485,25 +816,23 @@ export default function TimerScreen() {
   ]);
 
   const completeRestPhase = React.useCallback(async () => {
-    if (!logId || transitioningRef.current) return;
+    if (!isExecutionReady || transitioningRef.current) return;
     transitioningRef.current = true;
     setError(null);
     try {
       const actualDurationMs = Math.max(0, currentPhaseDurationSeconds * 1000 - remainingMs);
       const activeRestKind = restPhaseKind ?? "between_sets";
-      const restDuration =
-        activeRestKind === "between_sets" ? plannedSetRestSeconds : plannedRepRestSeconds;
       await recordStep({
         kind: "rest",
         setNumber: currentSet,
         repNumber: currentRep,
-        plannedDurationSeconds: restDuration,
+        plannedDurationSeconds: Math.round(currentPhaseDurationSeconds),
         actualDurationMs,
         note: activeRestKind,
       });
       if (activeRestKind === "between_reps" && currentRep < plannedReps) {
         setCurrentRep((prev) => Math.min(prev + 1, plannedReps));
-        setPhaseRunning("rep", plannedRepDurationSeconds);
+        setPhaseRunning("rep", repWorkSeconds(currentRep + 1));
         return;
       }
       if (currentSet >= plannedSets) {
@@ -515,7 +844,7 @@ export default function TimerScreen() {
       }
       setCurrentSet((prev) => Math.min(prev + 1, plannedSets));
       setCurrentRep(1);
-      setPhaseRunning("rep", plannedRepDurationSeconds);
+      setPhaseRunning("rep", repWorkSeconds(1));
     } catch (phaseError) {
       setError(phaseError instanceof Error ? phaseError.message : "Could not save rest step.");
     } finally {
@@ -525,14 +854,12 @@ export default function TimerScreen() {
     currentPhaseDurationSeconds,
     currentRep,
     currentSet,
-    logId,
+    isExecutionReady,
     plannedReps,
-    plannedRepDurationSeconds,
-    plannedRepRestSeconds,
-    plannedSetRestSeconds,
     plannedSets,
     recordStep,
     remainingMs,
+    repWorkSeconds,
     restPhaseKind,
     setPhaseRunning,
   ]);
@@ -540,7 +867,7 @@ export default function TimerScreen() {
   // auto-advance when timer hits zero
   React.useEffect(() => {
     if (
-      !logId ||
+      !isExecutionReady ||
       pausedRemainingMs !== null ||
       remainingMs > 0 ||
       transitioningRef.current ||
@@ -548,40 +875,99 @@ export default function TimerScreen() {
       (phase === "prep" && awaitingStart)
     )
       return;
+    phaseChainStartRef.current = phaseEndsAt;
     if (phase === "prep") {
-      setPhaseRunning("rep", plannedRepDurationSeconds);
-      return;
-    }
-    if (phase === "rep") {
-      void completeRepPhase();
+      setPhaseRunning("rep", repWorkSeconds(currentRep));
       return;
     }
-    void completeRestPhase();
+    const completePhase = phase === "rep" ? completeRepPhase : completeRestPhase;
+    void completePhase().finally(() => {
+      phaseChainStartRef.current = null;
+    });
   }, [
     completeRepPhase,
     completeRestPhase,
-    logId,
+    isExecutionReady,
     pausedRemainingMs,
     phase,
+    phaseEndsAt,
     remainingMs,
     awaitingStart,
     setPhaseRunning,
-    plannedRepDurationSeconds,
+    repWorkSeconds,
+    currentRep,
   ]);
 
-  // completion → navigate after delay
-  React.useEffect(() => {
-    if (phase !== "completed" || !logId) return;
-    const timeout = setTimeout(async () => {
-      try {
-        await finishSessionExecution({ logId: logId as never, outcome: "completed" });
-      } catch {
-        /* navigate anyway */
+  // completion → next block or navigate after delay
+  const finishBlockAndAdvance = React.useCallback(
+    async (outcome: "completed" | "stopped_early", notes?: string) => {
+      if (!sessionId || !isExecutionReady || advancingRef.current) return;
+      advancingRef.current = true;
+      executionJournal.finish(sessionId, { outcome, notes });
+      if (nextBlock) {
+        setIsExecutionReady(false);
+        await initialize(blockIndex + 1);
+        advancingRef.current = false;
+        return;
       }
-      router.replace("/tabs/calendar");
-    }, COMPLETION_DELAY_MS);
+      advancingRef.current = false;
+      router.replace(exitRoute);
+    },
+    [blockIndex, exitRoute, initialize, isExecutionReady, nextBlock, router, sessionId],
+  );
+
+  React.useEffect(() => {
+    if (phase !== "completed") {
+      setNewRecords(null);
+      return;
+    }
+    if (newRecords !== null || recordBests === undefined || !sessionId || !activeSnapshot) return;
+    const entry = executionJournal.getOpenEntry(sessionId);
+    const trainingItemId = workoutBlocks?.[blockIndex]?.trainingItemId ?? session?.trainingItemId;
+    if (!entry || !trainingItemId) {
+      setNewRecords([]);
+      return;
+    }
+    const bests = new Map(recordBests.map((best) => [best.recordKey, best.value]));
+    const candidates = findRecordCandidates({
+      trainingItemId: String(trainingItemId),
+      snapshot: activeSnapshot,
+      planned: entry.planned,
+      steps: entry.steps,
+      bodyWeightKg,
+    });
+    // A first attempt only sets the baseline, so just beaten records are celebrated.
+    setNewRecords(
+      candidates.flatMap((candidate) => {
+        const best = bests.get(candidate.recordKey);
+        return best !== undefined && candidate.value > best
+          ? [{ ...candidate, previousValue: best }]
+          : [];
+      }),
+    );
+  }, [
+    activeSnapshot,
+    blockIndex,
+    bodyWeightKg,
+    newRecords,
+    phase,
+    recordBests,
+    session?.trainingItemId,
+    sessionId,
+    workoutBlocks,
+  ]);
+
+  const hasNewRecords = (newRecords?.length ?? 0) > 0;
+  React.useEffect(() => {
+    if (phase !== "completed" || !isExecutionReady) return;
+    const timeout = setTimeout(
+      () => {
+        void finishBlockAndAdvance("completed");
+      },
+      COMPLETION_DELAY_MS + (hasNewRecords ? RECORD_CELEBRATION_MS : 0),
+    );
     return () => clearTimeout(timeout);
-  }, [phase, logId, finishSessionExecution, router]);
+  }, [phase, isExecutionReady, finishBlockAndAdvance, hasNewRecords]);
 
   // --------------- controls ---------------
   const startPreparation = () => {
@@ -611,9 +997,9 @@ export default function TimerScreen() {
       setError(null);
       setCurrentSet(nextSet);
       setCurrentRep(nextRep);
-      setPhaseRunning("rep", plannedRepDurationSeconds);
+      setPhaseRunning("rep", repWorkSeconds(nextRep));
     },
-    [phase, plannedRepDurationSeconds, plannedReps, plannedSets, setPhaseRunning],
+    [phase, plannedReps, plannedSets, repWorkSeconds, setPhaseRunning],
   );
 
   const goToPreviousRep = () => {
@@ -651,7 +1037,8 @@ export default function TimerScreen() {
   };
 
   const skipSet = async () => {
-    if (!logId || transitioningRef.current || phase === "completed" || phase === "prep") return;
+    if (!isExecutionReady || transitioningRef.current || phase === "completed" || phase === "prep")
+      return;
     transitioningRef.current = true;
     setError(null);
     try {
@@ -664,17 +1051,12 @@ export default function TimerScreen() {
         note: "Skipped by user",
       });
       if (currentSet >= plannedSets) {
-        await finishSessionExecution({
-          logId: logId as never,
-          outcome: "stopped_early",
-          notes: "Stopped after skipping final set.",
-        });
-        router.replace("/tabs/calendar");
+        await finishBlockAndAdvance("stopped_early", "Stopped after skipping final set.");
         return;
       }
       setCurrentSet((prev) => Math.min(prev + 1, plannedSets));
       setCurrentRep(1);
-      setPhaseRunning("rep", plannedRepDurationSeconds);
+      setPhaseRunning("rep", repWorkSeconds(1));
     } catch (skipError) {
       setError(skipError instanceof Error ? skipError.message : "Could not skip set.");
     } finally {
@@ -682,21 +1064,137 @@ export default function TimerScreen() {
     }
   };
 
-  const stopEarly = async () => {
-    if (!logId) {
-      router.replace("/tabs/calendar");
+  const stopEarly = () => {
+    if (sessionId && isExecutionReady) {
+      executionJournal.finish(sessionId, { outcome: "stopped_early", endSession: true });
+    }
+    router.replace(exitRoute);
+  };
+
+  const updateLastRepDetails = (details: ExecutionStepDetails) => {
+    if (!sessionId || !lastRepStep) return;
+    setLastRepStep({ ...lastRepStep, details });
+    setStickyLoad({
+      addedWeightKg: details.addedWeightKg,
+      edgeSizeMm: details.edgeSizeMm,
+      grip: details.grip,
+    });
+    executionJournal.updateStepDetails(sessionId, lastRepStep.clientStepId, details);
+  };
+
+  // Ends the running phase now, as if its time had run out.
+  const skipPhase = () => {
+    if (!isExecutionReady || pausedRemainingMs !== null) return;
+    if (phase === "prep" && !awaitingStart) setPhaseRunning("rep", repWorkSeconds(currentRep));
+    else if (phase === "rep") void completeRepPhase();
+    else if (phase === "rest") void completeRestPhase();
+  };
+
+  // --------------- background ---------------
+  const [isInBackground, setIsInBackground] = React.useState(
+    () => AppState.currentState !== "active",
+  );
+  React.useEffect(() => {
+    void prepareTimerNotifications();
+    const subscription = AppState.addEventListener("change", (state) =>
+      setIsInBackground(state !== "active"),
+    );
+    return () => {
+      subscription.remove();
+      void clearTimerNotifications();
+    };
+  }, []);
+
+  // Rest after a rep that runs its full time; an EMOM rest is what is left of the interval.
+  const repRestSeconds = React.useCallback(
+    (rep: number) =>
+      intervalPlan?.mode === "emom" && intervalPlan.intervalSeconds
+        ? Math.max(0, intervalPlan.intervalSeconds - repWorkSeconds(rep))
+        : (intervalPlan?.reps[rep - 1]?.restSeconds ?? plannedRepRestSeconds),
+    [intervalPlan, plannedRepRestSeconds, repWorkSeconds],
+  );
+
+  const isTimerRunning =
+    isExecutionReady && phase !== "completed" && !(phase === "prep" && awaitingStart);
+  React.useEffect(() => {
+    if (!isInBackground || !isTimerRunning || phaseEndsAt === null) {
+      void clearTimerNotifications();
       return;
     }
-    setError(null);
-    try {
-      await finishSessionExecution({ logId: logId as never, outcome: "stopped_early" });
-      router.replace("/tabs/calendar");
-    } catch (stopError) {
-      setError(stopError instanceof Error ? stopError.message : "Could not stop session.");
+    const title = activeSnapshot?.title ?? "Timer";
+    const repCue = describeRepCue(currentSet, plannedSets, currentRep, plannedReps);
+    const phaseText =
+      phase === "prep" ? `Get ready · ${repCue}` : phase === "rep" ? `Hang · ${repCue}` : "Rest";
+    if (pausedRemainingMs !== null) {
+      void cancelTimerTransitions();
+      void showTimerControls({ title, body: `Paused · ${phaseText}`, paused: true });
+      return;
     }
+    const endsAtText = new Date(phaseEndsAt).toLocaleTimeString([], {
+      hour: "numeric",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    void showTimerControls({ title, body: `${phaseText} · until ${endsAtText}`, paused: false });
+    void scheduleTimerTransitions({
+      title,
+      transitions: upcomingTransitions({
+        phase,
+        restKind: restPhaseKind,
+        setNumber: currentSet,
+        repNumber: currentRep,
+        phaseEndsAt,
+        plannedSets,
+        plannedReps,
+        repWorkSeconds,
+        repRestSeconds,
+        setRestSeconds: plannedSetRestSeconds,
+      }),
+      plannedSets,
+      plannedReps,
+      hasNextBlock: !!nextBlock,
+    });
+  }, [
+    activeSnapshot?.title,
+    currentRep,
+    currentSet,
+    isInBackground,
+    isTimerRunning,
+    nextBlock,
+    pausedRemainingMs,
+    phase,
+    phaseEndsAt,
+    plannedReps,
+    plannedSetRestSeconds,
+    plannedSets,
+    repRestSeconds,
+    repWorkSeconds,
+    restPhaseKind,
+  ]);
+
+  // Read through a ref so the listener, added once, always drives the latest state.
+  const timerActionRef = React.useRef<(action: TimerNotificationAction) => void>(() => {});
+  const pendingTimerActionRef = React.useRef<TimerNotificationAction | null>(null);
+  timerActionRef.current = (action) => {
+    pendingTimerActionRef.current = action;
+    setNowTick(getNowMs());
   };
+  React.useEffect(() => addTimerActionListener((action) => timerActionRef.current(action)), []);
+
+  // After a suspension the state can still show a phase that ended long ago. An action waits
+  // until the auto-advance has caught up with the clock, so it hits the phase running now.
+  React.useEffect(() => {
+    const action = pendingTimerActionRef.current;
+    if (!action || transitioningRef.current) return;
+    if (isTimerRunning && pausedRemainingMs === null && remainingMs <= 0) return;
+    pendingTimerActionRef.current = null;
+    if (action === "skip") skipPhase();
+    else if ((action === "pause") === (pausedRemainingMs === null)) pauseOrResume();
+  });
 
   // --------------- derived display values ---------------
+  // Re-read every tick, so it drops to zero as soon as the journal finishes uploading.
+  const pendingStepCount = sessionId ? executionJournal.pendingStepCount(sessionId) : 0;
   const isRep = phase === "rep";
   const isPrep = phase === "prep";
   const isCompleted = phase === "completed";
@@ -704,6 +1202,8 @@ export default function TimerScreen() {
   const isPaused = pausedRemainingMs !== null;
   const showReadyGate = isPrep && awaitingStart;
   const canJumpBetweenSteps = phase === "rep" || phase === "rest";
+  // EMOM rests are whatever is left of the interval, so they are rarely whole seconds.
+  const displayRestSeconds = Math.round(currentPhaseDurationSeconds);
   const totalCycles = plannedSets * plannedReps;
   const completedCycles = isCompleted
     ? totalCycles
@@ -741,43 +1241,47 @@ export default function TimerScreen() {
               : "REST";
   const mergedVariables = React.useMemo(
     () => ({
-      weight: session?.overrides.weight ?? session?.snapshot.variables.weight,
-      reps: session?.overrides.reps ?? session?.snapshot.variables.reps,
-      sets: session?.overrides.sets ?? session?.snapshot.variables.sets,
-      restSeconds: session?.overrides.restSeconds ?? session?.snapshot.variables.restSeconds,
+      weight: activeOverrides?.weight ?? activeSnapshot?.variables.weight,
+      reps: activeOverrides?.reps ?? activeSnapshot?.variables.reps,
+      sets: activeOverrides?.sets ?? activeSnapshot?.variables.sets,
+      restSeconds: activeOverrides?.restSeconds ?? activeSnapshot?.variables.restSeconds,
       restBetweenSetsSeconds:
-        session?.overrides.restBetweenSetsSeconds ??
-        session?.snapshot.variables.restBetweenSetsSeconds,
+        activeOverrides?.restBetweenSetsSeconds ??
+        activeSnapshot?.variables.restBetweenSetsSeconds,
       durationSeconds:
-        session?.overrides.durationSeconds ?? session?.snapshot.variables.durationSeconds,
+        activeOverrides?.durationSeconds ?? activeSnapshot?.variables.durationSeconds,
     }),
-    [session],
+    [activeOverrides, activeSnapshot],
   );
   const currentExerciseDescription =
-    session?.snapshot.description?.trim() || "No detailed description provided for this exercise.";
-  const currentExerciseTypeLabel = session?.snapshot.trainingType
-    ? TRAINING_TYPE_LABEL[session.snapshot.trainingType]
+    activeSnapshot?.description?.trim() || "No detailed description provided for this exercise.";
+  const currentExerciseTypeLabel = activeSnapshot?.trainingType
+    ? TRAINING_TYPE_LABEL[activeSnapshot.trainingType]
     : "Not set";
   const currentExerciseCategory =
-    session?.snapshot.categories.length &&
-    session.snapshot.categories.some((entry: string) => !!entry.trim())
-      ? session.snapshot.categories.join(", ")
+    activeSnapshot?.categories.length &&
+    activeSnapshot.categories.some((entry: string) => !!entry.trim())
+      ? activeSnapshot.categories.join(", ")
       : "Not set";
-  const currentExerciseTags = session?.snapshot.tags.length
-    ? session.snapshot.tags.join(", ")
+  const currentExerciseTags = activeSnapshot?.tags.length
+    ? activeSnapshot.tags.join(", ")
     : "None";
-  const currentExerciseEquipment = session?.snapshot.equipment.length
-    ? session.snapshot.equipment.join(", ")
+  const currentExerciseEquipment = activeSnapshot?.equipment.length
+    ? activeSnapshot.equipment.join(", ")
     : "None";
   const effectiveSetRestSeconds =
     mergedVariables.restBetweenSetsSeconds ?? mergedVariables.restSeconds;
   const currentExerciseSummary = `Load ${describeLoad(
-    session?.snapshot.trainingType,
+    activeSnapshot?.trainingType,
     mergedVariables.weight,
     profile?.bodyWeightKg,
+    units,
   )} · ${mergedVariables.sets ?? "—"} sets · ${mergedVariables.reps ?? "—"} reps · Rep rest ${
     mergedVariables.restSeconds ?? "—"
   }s · Set rest ${effectiveSetRestSeconds ?? "—"}s · Duration ${mergedVariables.durationSeconds ?? "—"}s`;
+  const currentExerciseProtocol = activeSnapshot?.protocol
+    ? describeProtocol(activeSnapshot.protocol)
+    : null;
 
   // --------------- missing session fallback ---------------
   if (!sessionId) {
@@ -803,8 +1307,13 @@ export default function TimerScreen() {
         {/* ---- header ---- */}
         <View style={styles.header}>
           <Text style={styles.sessionTitle} numberOfLines={2}>
-            {session?.snapshot.title ?? "Training session"}
+            {session?.workout?.title ?? activeSnapshot?.title ?? "Training session"}
           </Text>
+          {workoutBlocks ? (
+            <Text style={styles.blockText} numberOfLines={1}>
+              Exercise {blockIndex + 1}/{workoutBlocks.length} · {activeSnapshot?.title}
+            </Text>
+          ) : null}
           <View style={styles.setRow}>
             <View style={styles.progressTrack}>
               <View
@@ -829,12 +1338,21 @@ export default function TimerScreen() {
           {/* phase label */}
           <Text style={[styles.phaseLabel, { color: theme.accent }]}>{phaseLabel}</Text>
 
+          {activeSnapshot?.trainingType === "hang" && !isCompleted ? (
+            <ForceSensorBar measuring={isMeasuringForce} accent={theme.accent} units={units} />
+          ) : null}
+
           {showReadyGate ? (
             <View style={styles.readyGate}>
               <View style={styles.exerciseDetailsCard}>
                 <Text style={styles.exerciseDetailsTitle}>Current exercise details</Text>
                 <Text style={styles.exerciseDetailsDescription}>{currentExerciseDescription}</Text>
                 <Text style={styles.exerciseDetailsMeta}>{currentExerciseSummary}</Text>
+                {currentExerciseProtocol ? (
+                  <Text style={styles.exerciseDetailsMeta}>
+                    Protocol: {currentExerciseProtocol}
+                  </Text>
+                ) : null}
                 <Text style={styles.exerciseDetailsMeta}>Type: {currentExerciseTypeLabel}</Text>
                 <Text style={styles.exerciseDetailsMeta}>Category: {currentExerciseCategory}</Text>
                 <Text style={styles.exerciseDetailsMeta}>
@@ -894,7 +1412,9 @@ export default function TimerScreen() {
 
               {/* subtitle */}
               {isCompleted ? (
-                <Text style={styles.completionSub}>Session complete!</Text>
+                <Text style={styles.completionSub}>
+                  {nextBlock ? `Up next: ${nextBlock.snapshot.title}` : "Session complete!"}
+                </Text>
               ) : (
                 <Text style={styles.subtitle}>
                   {isPrep
@@ -902,11 +1422,65 @@ export default function TimerScreen() {
                     : isRep
                       ? `Set ${displaySet}/${plannedSets} · Rep ${displayRep}/${plannedReps} · ${currentPhaseDurationSeconds}s work`
                       : restPhaseKind === "between_sets"
-                        ? `Set rest before next set · ${currentPhaseDurationSeconds}s`
-                        : `Rep rest before next rep · ${currentPhaseDurationSeconds}s`}
+                        ? `Set rest before next set · ${displayRestSeconds}s`
+                        : `Rep rest before next rep · ${displayRestSeconds}s`}
                 </Text>
               )}
 
+              {isRep && intervalPlan?.mode === "amrap" ? (
+                <Pressable
+                  onPress={() => setAmrapCount((prev) => prev + 1)}
+                  style={[styles.intervalActionBtn, { backgroundColor: theme.accent }]}
+                >
+                  <Text style={styles.intervalActionBtnText}>+1 rep · {amrapCount} done</Text>
+                </Pressable>
+              ) : isRep && intervalPlan?.mode === "emom" ? (
+                <Pressable
+                  onPress={() => void completeRepPhase()}
+                  style={[styles.intervalActionBtn, { backgroundColor: theme.accent }]}
+                >
+                  <Text style={styles.intervalActionBtnText}>
+                    Done · rest until the next interval
+                  </Text>
+                </Pressable>
+              ) : null}
+
+              {isCompleted && newRecords && newRecords.length > 0 ? (
+                <View style={styles.recordPanel}>
+                  <View style={styles.recordHeader}>
+                    <Trophy size={20} color={colors.warning} strokeWidth={2.4} />
+                    <Text style={styles.recordTitle}>
+                      {newRecords.length > 1 ? "New personal records!" : "New personal record!"}
+                    </Text>
+                  </View>
+                  {newRecords.map((record) => {
+                    const { value, detail, improvement } = describeRecord(record, units);
+                    return (
+                      <Text key={`${record.kind}-${detail}`} style={styles.recordText}>
+                        {value} · {detail}
+                        {improvement ? ` (${improvement})` : ""}
+                      </Text>
+                    );
+                  })}
+                </View>
+              ) : null}
+
+              {phase === "rest" && lastRepStep ? (
+                <StepDetailsPanel
+                  label={lastRepStep.label}
+                  details={lastRepStep.details}
+                  accent={theme.accent}
+                  units={units}
+                  onChange={updateLastRepDetails}
+                />
+              ) : null}
+
+              {phase === "rest" && lastRepStep?.force ? (
+                <Text style={styles.forceSummaryText}>
+                  {describeForce(lastRepStep.force, units)}
+                </Text>
+              ) : null}
+
               <View style={styles.exerciseDetailsSection}>
                 <Pressable
                   onPress={() => setDetailsExpanded((prev) => !prev)}
@@ -925,6 +1499,11 @@ export default function TimerScreen() {
                       {currentExerciseDescription}
                     </Text>
                     <Text style={styles.exerciseDetailsMeta}>{currentExerciseSummary}</Text>
+                    {currentExerciseProtocol ? (
+                      <Text style={styles.exerciseDetailsMeta}>
+                        Protocol: {currentExerciseProtocol}
+                      </Text>
+                    ) : null}
                     <Text style={styles.exerciseDetailsMeta}>Type: {currentExerciseTypeLabel}</Text>
                     <Text style={styles.exerciseDetailsMeta}>
                       Category: {currentExerciseCategory}
@@ -944,13 +1523,21 @@ export default function TimerScreen() {
         <View style={styles.footer}>
           {isCompleted ? (
             <Pressable
-              onPress={() => router.replace("/tabs/calendar")}
+              onPress={() => {
+                if (nextBlock) {
+                  void finishBlockAndAdvance("completed");
+                  return;
+                }
+                router.replace("/tabs/calendar");
+              }}
               style={[styles.doneBtn, { backgroundColor: theme.accent }]}
             >
-              <Text style={styles.doneBtnText}>Back to Calendar</Text>
+              <Text style={styles.doneBtnText}>
+                {nextBlock ? "Next Exercise" : "Back to Calendar"}
+              </Text>
             </Pressable>
           ) : showReadyGate ? (
-            <Pressable onPress={() => void stopEarly()} style={styles.secondaryActionBtn}>
+            <Pressable onPress={stopEarly} style={styles.secondaryActionBtn}>
               <Text style={styles.secondaryActionBtnText}>Cancel session</Text>
             </Pressable>
           ) : (
@@ -1020,13 +1607,20 @@ export default function TimerScreen() {
                   )}
                 </Pressable>
 
-                <Pressable onPress={() => void stopEarly()} style={styles.secondaryBtn}>
+                <Pressable onPress={stopEarly} style={styles.secondaryBtn}>
                   <X size={22} color="#ef4444" strokeWidth={2.5} />
                 </Pressable>
               </View>
             </View>
           )}
 
+          {pendingStepCount > 0 ? (
+            <Text style={styles.pendingSyncText}>
+              {pendingStepCount} step{pendingStepCount === 1 ? "" : "s"} saved on this device,
+              waiting to sync
+            </Text>
+          ) : null}
+
           {error ? (
             <View style={styles.errorBox}>
               <Text style={styles.errorText}>{error}</Text>
@@ -1054,6 +1648,7 @@ const styles = StyleSheet.create({
 
   header: { gap: 8 },
   sessionTitle: { fontSize: 20, fontWeight: "700", color: "#fff" },
+  blockText: { fontSize: 13, fontWeight: "600", color: "rgba(255,255,255,0.7)" },
   setRow: { flexDirection: "row", alignItems: "center", gap: 12 },
   progressTrack: {
     flex: 1,
@@ -1108,6 +1703,18 @@ const styles = StyleSheet.create({
     justifyContent: "center",
   },
   completionSub: { fontSize: 20, fontWeight: "600", color: "rgba(255,255,255,0.8)", marginTop: 4 },
+  recordPanel: {
+    width: "100%",
+    gap: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "rgba(245,158,11,0.6)",
+    backgroundColor: "rgba(245,158,11,0.15)",
+    padding: 12,
+  },
+  recordHeader: { flexDirection: "row", alignItems: "center", gap: 8 },
+  recordTitle: { fontSize: 16, fontWeight: "800", color: "#fff" },
+  recordText: { fontSize: 13, fontWeight: "600", color: "rgba(255,255,255,0.85)" },
 
   subtitle: { fontSize: 14, color: "rgba(255,255,255,0.45)" },
   readyGate: {
@@ -1242,7 +1849,11 @@ const styles = StyleSheet.create({
   secondaryActionBtnText: { color: "rgba(255,255,255,0.85)", fontSize: 14, fontWeight: "600" },
   doneBtn: { borderRadius: 16, paddingVertical: 16, alignItems: "center" },
   doneBtnText: { color: "#fff", fontSize: 17, fontWeight: "700" },
+  forceSummaryText: { fontSize: 13, fontWeight: "600", color: "rgba(255,255,255,0.85)" },
+  intervalActionBtn: { borderRadius: 14, paddingHorizontal: 24, paddingVertical: 14 },
+  intervalActionBtnText: { color: "#fff", fontSize: 16, fontWeight: "700" },
 
   errorBox: { borderRadius: 12, padding: 12, backgroundColor: "rgba(239,68,68,0.15)" },
   errorText: { textAlign: "center", fontSize: 14, color: "#fca5a5" },
+  pendingSyncText: { textAlign: "center", fontSize: 12, color: "rgba(255,255,255,0.6)" },
 });
@@ -0,0 +1,73 @@
+import React from "react";
+import { useMutation, useQuery } from "convex/react";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { api } from "@/convex/_generated/api";
+import { WorkoutForm } from "@/components/workout-form";
+import { Box } from "@/components/ui/box";
+import { Text } from "@/components/ui/text";
+
+export default function WorkoutDetailScreen() {
+  const router = useRouter();
+  const goBackToWorkouts = () => {
+    if (router.canGoBack()) {
+      router.back();
+      return;
+    }
+    router.replace("/my-exercises");
+  };
+  const params = useLocalSearchParams<{ workoutId?: string | string[] }>();
+  const workoutIdParam = params.workoutId;
+  const workoutId = Array.isArray(workoutIdParam) ? workoutIdParam[0] : workoutIdParam;
+
+  const template = useQuery(
+    api.workoutTemplates.getTemplateById,
+    workoutId ? { templateId: workoutId as never } : "skip",
+  );
+  const updateTemplate = useMutation(api.workoutTemplates.updateTemplate);
+
+  if (!workoutId) {
+    return (
+      <Box className="flex-1 items-center justify-center">
+        <Text className="text-typography-700">Missing workout id.</Text>
+      </Box>
+    );
+  }
+
+  if (template === undefined) {
+    return (
+      <Box className="flex-1 items-center justify-center">
+        <Text className="text-typography-700">Loading workout...</Text>
+      </Box>
+    );
+  }
+
+  if (!template) {
+    return (
+      <Box className="flex-1 items-center justify-center">
+        <Text className="text-typography-700">Workout not found or no access.</Text>
+      </Box>
+    );
+  }
+
+  return (
+    <WorkoutForm
+      initialValues={{
+        title: template.title,
+        description: template.description,
+        blocks: template.blocks,
+      }}
+      submitLabel="Save workout"
+      onSubmit={async (values) => {
+        await updateTemplate({
+          templateId: template._id,
+          ...values,
+          blocks: values.blocks.map((block) => ({
+            ...block,
+            trainingItemId: block.trainingItemId as never,
+          })),
+        });
+        goBackToWorkouts();
+      }}
+    />
+  );
+}
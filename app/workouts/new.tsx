@@ -0,0 +1,33 @@
+import React from "react";
+import { useMutation } from "convex/react";
+import { useRouter } from "expo-router";
+import { api } from "@/convex/_generated/api";
+import { WorkoutForm } from "@/components/workout-form";
+
+export default function NewWorkoutScreen() {
+  const router = useRouter();
+  const createTemplate = useMutation(api.workoutTemplates.createTemplate);
+  const goBackToWorkouts = () => {
+    if (router.canGoBack()) {
+      router.back();
+      return;
+    }
+    router.replace("/my-exercises");
+  };
+
+  return (
+    <WorkoutForm
+      submitLabel="Create workout"
+      onSubmit={async (values) => {
+        await createTemplate({
+          ...values,
+          blocks: values.blocks.map((block) => ({
+            ...block,
+            trainingItemId: block.trainingItemId as never,
+          })),
+        });
+        goBackToWorkouts();
+      }}
+    />
+  );
+}
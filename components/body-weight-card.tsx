@@ -0,0 +1,130 @@
+import React from "react";
+import { Pressable, TextInput } from "react-native";
+import { X } from "lucide-react-native";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Box } from "@/components/ui/box";
+import { Text } from "@/components/ui/text";
+import { Button, ButtonText } from "@/components/ui/button";
+import { LineChart } from "@/components/stat-charts";
+import { colors, cardShadow, inputStyle } from "@/lib/theme";
+import { showErrorMessage, useAppToast } from "@/lib/useAppToast";
+import {
+  formatWeight,
+  fromDisplayWeight,
+  toDisplayWeight,
+  unitSystemOf,
+  weightUnit,
+} from "@/lib/units";
+
+const RECENT_ENTRIES = 5;
+
+// Entry days are UTC midnights of calendar dates.
+function formatEntryDay(dayTimestamp: number): string {
+  return new Date(dayTimestamp).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export function BodyWeightCard() {
+  const entries = useQuery(api.bodyWeight.listMyBodyWeight, { limit: 90 });
+  const logBodyWeight = useMutation(api.bodyWeight.logBodyWeight);
+  const removeEntry = useMutation(api.bodyWeight.removeBodyWeightEntry);
+  const units = unitSystemOf(useQuery(api.profiles.getMyProfile));
+  const { success: showSuccessToast, error: showErrorToast } = useAppToast();
+  const [weightInput, setWeightInput] = React.useState("");
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const onLog = async () => {
+    const weight = Number(weightInput.replace(",", "."));
+    if (!weightInput.trim() || !Number.isFinite(weight)) {
+      showErrorToast("Could not log body weight", `Enter your weight in ${weightUnit(units)}.`);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await logBodyWeight({ weightKg: fromDisplayWeight(weight, units) });
+      setWeightInput("");
+      showSuccessToast("Body weight logged.");
+    } catch (error) {
+      showErrorToast("Could not log body weight", showErrorMessage(error, "Try again."));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const onRemove = async (entryId: string) => {
+    try {
+      await removeEntry({ entryId: entryId as never });
+    } catch (error) {
+      showErrorToast("Could not remove entry", showErrorMessage(error, "Try again."));
+    }
+  };
+
+  const points = (entries ?? [])
+    .map((entry) => ({ x: entry.day, y: toDisplayWeight(entry.weightKg, units) }))
+    .sort((a, b) => a.x - b.x);
+
+  return (
+    <Box
+      style={{
+        ...cardShadow,
+        backgroundColor: colors.bgCard,
+        borderRadius: 16,
+        padding: 16,
+        borderWidth: 1,
+        borderColor: colors.border,
+        gap: 12,
+      }}
+    >
+      <Text className="text-base font-semibold text-typography-900">Body Weight</Text>
+      <Text className="text-xs text-typography-500">
+        Each session keeps the weight logged for its day, so past loads stay accurate.
+      </Text>
+      <Box className="flex-row gap-2 items-center">
+        <TextInput
+          placeholder={`Today's weight (${weightUnit(units)})`}
+          placeholderTextColor={colors.textMuted}
+          keyboardType="decimal-pad"
+          value={weightInput}
+          onChangeText={setWeightInput}
+          style={{ ...inputStyle, flex: 1 }}
+        />
+        <Button className="rounded-xl" onPress={() => void onLog()} disabled={isSaving}>
+          <ButtonText>{isSaving ? "Saving..." : "Log"}</ButtonText>
+        </Button>
+      </Box>
+
+      {entries === undefined ? (
+        <Text className="text-sm text-typography-500">Loading history...</Text>
+      ) : entries.length === 0 ? (
+        <Text className="text-sm text-typography-500">No weight logged yet.</Text>
+      ) : (
+        <>
+          {points.length > 1 ? (
+            <LineChart
+              points={points}
+              formatValue={(value) => `${value} ${weightUnit(units)}`}
+              formatLabel={formatEntryDay}
+            />
+          ) : null}
+          {entries.slice(0, RECENT_ENTRIES).map((entry) => (
+            <Box key={entry._id} className="flex-row items-center justify-between">
+              <Text className="text-sm text-typography-700">{formatEntryDay(entry.day)}</Text>
+              <Box className="flex-row items-center gap-3">
+                <Text className="text-sm font-semibold text-typography-900">
+                  {formatWeight(entry.weightKg, units)}
+                </Text>
+                <Pressable onPress={() => void onRemove(entry._id)} hitSlop={8}>
+                  <X size={16} color={colors.textMuted} strokeWidth={2.2} />
+                </Pressable>
+              </Box>
+            </Box>
+          ))}
+        </>
+      )}
+    </Box>
+  );
+}
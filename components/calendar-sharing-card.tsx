@@ -0,0 +1,145 @@
+import React from "react";
+import { Share } from "react-native";
+import { useConvex, useMutation, useQuery } from "convex/react";
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import { CalendarDays, Download, Link2 } from "lucide-react-native";
+import { api } from "@/convex/_generated/api";
+import { Box } from "@/components/ui/box";
+import { Text } from "@/components/ui/text";
+import { Button, ButtonText } from "@/components/ui/button";
+import { colors, cardShadow } from "@/lib/theme";
+import { showErrorMessage, useAppToast } from "@/lib/useAppToast";
+
+type Props = {
+  rangeStart: number;
+  rangeEnd: number;
+  // YYYY-MM of the range, used for the exported file name.
+  rangeLabel: string;
+};
+
+export function CalendarSharingCard({ rangeStart, rangeEnd, rangeLabel }: Props) {
+  const convex = useConvex();
+  const { success: showSuccessToast, error: showErrorToast } = useAppToast();
+  const feed = useQuery(api.calendarFeed.getMyFeed);
+  const rotateFeedToken = useMutation(api.calendarFeed.rotateFeedToken);
+  const revokeFeedToken = useMutation(api.calendarFeed.revokeFeedToken);
+  const [isExporting, setIsExporting] = React.useState(false);
+  const [isUpdatingFeed, setIsUpdatingFeed] = React.useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const calendar = await convex.query(api.calendarFeed.exportRangeAsIcs, {
+        rangeStart,
+        rangeEnd,
+      });
+      const file = new File(Paths.cache, `training-${rangeLabel}.ics`);
+      file.create({ overwrite: true });
+      file.write(calendar);
+      if (!(await Sharing.isAvailableAsync())) {
+        throw new Error("Sharing is not available on this device.");
+      }
+      await Sharing.shareAsync(file.uri, {
+        mimeType: "text/calendar",
+        UTI: "com.apple.ical.ics",
+        dialogTitle: "Export training calendar",
+      });
+    } catch (exportError) {
+      const message = showErrorMessage(exportError, "Could not export calendar.");
+      showErrorToast("Export failed", message);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const updateFeed = async (action: "rotate" | "revoke") => {
+    setIsUpdatingFeed(true);
+    try {
+      if (action === "rotate") {
+        await rotateFeedToken({});
+        showSuccessToast(
+          feed ? "New feed link created. The old link stopped working." : "Feed link created.",
+        );
+      } else {
+        await revokeFeedToken({});
+        showSuccessToast("Feed link revoked.");
+      }
+    } catch (feedError) {
+      const message = showErrorMessage(feedError, "Could not update calendar feed.");
+      showErrorToast("Feed update failed", message);
+    } finally {
+      setIsUpdatingFeed(false);
+    }
+  };
+
+  return (
+    <Box
+      className="rounded-2xl p-4 gap-3"
+      style={{ ...cardShadow, backgroundColor: colors.bgCard }}
+    >
+      <Box className="flex-row items-center gap-2">
+        <CalendarDays size={16} color={colors.primary} strokeWidth={2.5} />
+        <Text className="text-sm font-semibold text-typography-900">Calendar apps</Text>
+      </Box>
+
+      <Button
+        size="sm"
+        variant="outline"
+        className="rounded-xl"
+        disabled={isExporting}
+        onPress={() => void handleExport()}
+      >
+        <Download size={14} color={colors.primary} strokeWidth={2.5} />
+        <ButtonText className="text-xs font-semibold">
+          {isExporting ? "Exporting..." : "Export month as .ics"}
+        </ButtonText>
+      </Button>
+
+      <Text className="text-xs text-typography-500">
+        Subscribe from Google Calendar, Apple Calendar or Outlook to see the last 60 days and the
+        next 6 months of sessions. Anyone with the link can read your schedule.
+      </Text>
+      {feed?.url ? (
+        <Text selectable className="text-xs text-typography-700">
+          {feed.url}
+        </Text>
+      ) : null}
+      <Box className="flex-row gap-2">
+        {feed?.url ? (
+          <Button
+            size="sm"
+            variant="outline"
+            className="rounded-xl flex-1"
+            onPress={() => void Share.share({ message: feed.url ?? "" })}
+          >
+            <Link2 size={14} color={colors.primary} strokeWidth={2.5} />
+            <ButtonText className="text-xs font-semibold">Share link</ButtonText>
+          </Button>
+        ) : null}
+        <Button
+          size="sm"
+          variant="outline"
+          className="rounded-xl flex-1"
+          disabled={isUpdatingFeed || feed === undefined}
+          onPress={() => void updateFeed("rotate")}
+        >
+          <ButtonText className="text-xs font-semibold">
+            {feed ? "New link" : "Create feed link"}
+          </ButtonText>
+        </Button>
+        {feed ? (
+          <Button
+            size="sm"
+            variant="outline"
+            className="rounded-xl flex-1"
+            disabled={isUpdatingFeed}
+            onPress={() => void updateFeed("revoke")}
+          >
+            <ButtonText className="text-xs font-semibold">Revoke</ButtonText>
+          </Button>
+        ) : null}
+      </Box>
+    </Box>
+  );
+}
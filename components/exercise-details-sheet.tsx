@@ -10,7 +10,9 @@ import {
   ActionsheetDragIndicator,
   ActionsheetDragIndicatorWrapper,
 } from "@/components/ui/actionsheet";
+import { describeProtocol, type IntervalProtocol } from "@/convex/intervalProtocols";
 import { colors } from "@/lib/theme";
+import { formatEdge, formatWeight, type UnitSystem } from "@/lib/units";
 
 export type ExerciseDetailVariables = {
   weight?: number;
@@ -36,6 +38,7 @@ export type ExerciseDetailItem = {
   difficulty: "beginner" | "intermediate" | "advanced";
   equipment?: string[];
   variables: ExerciseDetailVariables;
+  protocol?: IntervalProtocol;
   publisher?: {
     userId: string;
     username: string | null;
@@ -49,6 +52,7 @@ type ExerciseDetailsSheetProps = {
   exercise: ExerciseDetailItem | null;
   finalVariables?: ExerciseDetailVariables;
   bodyWeightKg?: number;
+  units?: UnitSystem;
 };
 
 const difficultyColors: Record<string, { bg: string; text: string }> = {
@@ -79,7 +83,8 @@ function formatList(values: string[] | undefined, fallback: string): string {
 function formatLoadLabel(
   weight: number | undefined,
   trainingType: ExerciseDetailItem["trainingType"],
-  bodyWeightKg?: number,
+  bodyWeightKg: number | undefined,
+  units: UnitSystem,
 ): string {
   if (weight === undefined) {
     return "not set";
@@ -87,7 +92,7 @@ function formatLoadLabel(
 
   const usesBodyweightPercent = !!trainingType;
   if (!usesBodyweightPercent) {
-    return `${weight}kg`;
+    return formatWeight(weight, units);
   }
 
   if (weight > 100) {
@@ -97,7 +102,7 @@ function formatLoadLabel(
         ? Number(((additionalPercent / 100) * bodyWeightKg).toFixed(1))
         : undefined;
     return additionalKg !== undefined
-      ? `+${additionalPercent}% BW (+${additionalKg}kg for you)`
+      ? `+${additionalPercent}% BW (${formatWeight(additionalKg, units, true)} for you)`
       : `+${additionalPercent}% BW`;
   }
 
@@ -106,7 +111,7 @@ function formatLoadLabel(
       ? Number(((weight / 100) * bodyWeightKg).toFixed(1))
       : undefined;
   return personalizedKg !== undefined
-    ? `${weight}% BW (${personalizedKg}kg for you)`
+    ? `${weight}% BW (${formatWeight(personalizedKg, units)} for you)`
     : `${weight}% BW`;
 }
 
@@ -133,6 +138,7 @@ export function ExerciseDetailsSheet({
   exercise,
   finalVariables,
   bodyWeightKg,
+  units = "metric",
 }: ExerciseDetailsSheetProps) {
   if (!exercise) {
     return null;
@@ -140,7 +146,12 @@ export function ExerciseDetailsSheet({
 
   const diffColors = difficultyColors[exercise.difficulty] ?? difficultyColors.beginner;
   const variables = resolveVariables(exercise.variables, finalVariables);
-  const displayLoad = formatLoadLabel(variables.weight, exercise.trainingType, bodyWeightKg);
+  const displayLoad = formatLoadLabel(
+    variables.weight,
+    exercise.trainingType,
+    bodyWeightKg,
+    units,
+  );
   const setRest = variables.restBetweenSetsSeconds ?? variables.restSeconds;
   const categoriesText = formatList(exercise.categories, "not set");
   const tagsText = formatList(exercise.tags, "none");
@@ -193,6 +204,11 @@ export function ExerciseDetailsSheet({
               <Text className="text-sm text-typography-700">
                 Rep rest: {variables.restSeconds ?? "-"}s | Set rest: {setRest ?? "-"}s
               </Text>
+              {exercise.protocol ? (
+                <Text className="text-sm text-typography-700">
+                  Protocol: {describeProtocol(exercise.protocol)}
+                </Text>
+              ) : null}
             </Box>
 
             {hasHangDetails ? (
@@ -206,7 +222,7 @@ export function ExerciseDetailsSheet({
                 <Text className="text-sm text-typography-700">
                   Edge:{" "}
                   {exercise.hangDetails?.edgeSizeMm
-                    ? `${exercise.hangDetails.edgeSizeMm}mm`
+                    ? formatEdge(exercise.hangDetails.edgeSizeMm, units)
                     : "not set"}
                 </Text>
                 <Text className="text-sm text-typography-700">
@@ -0,0 +1,147 @@
+import React from "react";
+import { Pressable, StyleSheet, View } from "react-native";
+import { Text } from "@/components/ui/text";
+import {
+  FORCE_SENSOR_OPTIONS,
+  forceSensorManager,
+  useForceSensor,
+  type ForceSensorKind,
+} from "@/lib/forceSensors";
+import { formatWeight, type UnitSystem } from "@/lib/units";
+
+const DISPLAY_REFRESH_MS = 100;
+
+type Props = {
+  // True while a rep runs; the live reading and its peak reset each time it turns on.
+  measuring: boolean;
+  accent: string;
+  units: UnitSystem;
+};
+
+// Connects a force sensor from the timer and shows the live load during reps.
+export function ForceSensorBar({ measuring, accent, units }: Props) {
+  const { sensor, status } = useForceSensor();
+  const [isChoosing, setIsChoosing] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [reading, setReading] = React.useState<{ kg: number; peakKg: number } | null>(null);
+
+  // Samples arrive far faster than the screen needs, so the display catches up on a timer.
+  React.useEffect(() => {
+    if (!sensor || !measuring) {
+      setReading(null);
+      return;
+    }
+    let latest: { kg: number; peakKg: number } | null = null;
+    const removeListener = sensor.onSample((sample) => {
+      latest = { kg: sample.kg, peakKg: Math.max(latest?.peakKg ?? 0, sample.kg) };
+    });
+    const interval = setInterval(() => setReading(latest), DISPLAY_REFRESH_MS);
+    return () => {
+      removeListener();
+      clearInterval(interval);
+    };
+  }, [measuring, sensor]);
+
+  const connect = async (kind: ForceSensorKind) => {
+    setIsChoosing(false);
+    setError(null);
+    try {
+      await forceSensorManager.connect(kind);
+    } catch (connectError) {
+      setError(connectError instanceof Error ? connectError.message : "Could not connect.");
+    }
+  };
+
+  const run = (action: () => Promise<void>) => {
+    setError(null);
+    action().catch((actionError) =>
+      setError(actionError instanceof Error ? actionError.message : "Sensor command failed."),
+    );
+  };
+
+  const readingText = reading
+    ? `${formatWeight(reading.kg, units)} · peak ${formatWeight(reading.peakKg, units)}`
+    : measuring
+      ? "Waiting for readings…"
+      : "Readings show during reps";
+
+  return (
+    <View style={styles.bar}>
+      {status === "connected" && sensor ? (
+        <View style={styles.row}>
+          <View style={styles.readingBlock}>
+            <Text style={styles.sensorName} numberOfLines={1}>
+              {sensor.name}
+            </Text>
+            <Text style={styles.readingText}>{readingText}</Text>
+          </View>
+          <Pressable
+            onPress={() => run(() => sensor.tare())}
+            disabled={measuring}
+            style={[styles.chip, measuring && styles.chipDisabled]}
+          >
+            <Text style={styles.chipText}>Tare</Text>
+          </Pressable>
+          <Pressable
+            onPress={() => run(() => forceSensorManager.disconnect())}
+            style={styles.chip}
+          >
+            <Text style={styles.chipText}>Disconnect</Text>
+          </Pressable>
+        </View>
+      ) : status === "connecting" ? (
+        <Text style={styles.readingText}>Looking for the force sensor…</Text>
+      ) : isChoosing ? (
+        <View style={styles.row}>
+          {FORCE_SENSOR_OPTIONS.map((option) => (
+            <Pressable
+              key={option.kind}
+              onPress={() => void connect(option.kind)}
+              style={[styles.chip, { backgroundColor: accent }]}
+            >
+              <Text style={styles.chipText}>{option.label}</Text>
+            </Pressable>
+          ))}
+          <Pressable onPress={() => setIsChoosing(false)} style={styles.chip}>
+            <Text style={styles.chipText}>Cancel</Text>
+          </Pressable>
+        </View>
+      ) : (
+        <Pressable onPress={() => setIsChoosing(true)} style={styles.chip}>
+          <Text style={styles.chipText}>Connect force sensor</Text>
+        </Pressable>
+      )}
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    width: "100%",
+    gap: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.2)",
+    backgroundColor: "rgba(255,255,255,0.08)",
+    padding: 10,
+  },
+  row: { flexDirection: "row", flexWrap: "wrap", alignItems: "center", gap: 6 },
+  readingBlock: { flex: 1, minWidth: 140 },
+  sensorName: { fontSize: 11, fontWeight: "600", color: "rgba(255,255,255,0.6)" },
+  readingText: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#fff",
+    fontVariant: ["tabular-nums"],
+  },
+  chip: {
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: "rgba(255,255,255,0.14)",
+  },
+  chipDisabled: { opacity: 0.4 },
+  chipText: { fontSize: 12, fontWeight: "700", color: "#fff" },
+  errorText: { fontSize: 12, color: "#fca5a5" },
+});
@@ -0,0 +1,305 @@
+import React from "react";
+import { Pressable, TextInput } from "react-native";
+import { Box } from "@/components/ui/box";
+import { Text } from "@/components/ui/text";
+import {
+  describeProtocol,
+  INTERVAL_PROTOCOL_LABEL,
+  validateProtocol,
+  type IntervalProtocol,
+  type IntervalProtocolKind,
+} from "@/convex/intervalProtocols";
+import { colors, inputStyle } from "@/lib/theme";
+
+// Text field values for every protocol kind, so switching kinds back and forth keeps input.
+export type IntervalProtocolDraft = {
+  kind: IntervalProtocolKind | "none";
+  intervals: string;
+  startSeconds: string;
+  stepSeconds: string;
+  rungs: string;
+  restSeconds: string;
+  intervalSeconds: string;
+  workSeconds: string;
+  rounds: string;
+  durationSeconds: string;
+};
+
+const KIND_OPTIONS: (IntervalProtocolKind | "none")[] = [
+  "none",
+  "intervals",
+  "ladder",
+  "pyramid",
+  "emom",
+  "amrap",
+];
+
+const KIND_HINT: Record<IntervalProtocolKind, string> = {
+  intervals: "Work/rest pairs in seconds. Add x and a count to repeat one, e.g. 7/3 x6, 10/20.",
+  ladder: "Each rep holds a step longer than the one before.",
+  pyramid: "Climbs like a ladder, then comes back down.",
+  emom: "A rep starts every interval; finish early and the rest runs to the next one.",
+  amrap: "Tap each rep during the work time; the count is logged.",
+};
+
+export function draftFromProtocol(protocol: IntervalProtocol | undefined): IntervalProtocolDraft {
+  const draft: IntervalProtocolDraft = {
+    kind: protocol?.kind ?? "none",
+    intervals: "7/3 x6",
+    startSeconds: "10",
+    stepSeconds: "10",
+    rungs: "5",
+    restSeconds: "30",
+    intervalSeconds: "60",
+    workSeconds: "20",
+    rounds: "10",
+    durationSeconds: "300",
+  };
+  if (!protocol) return draft;
+  switch (protocol.kind) {
+    case "intervals":
+      return {
+        ...draft,
+        intervals: protocol.intervals
+          .map((interval) => `${interval.workSeconds}/${interval.restSeconds}`)
+          .join(", "),
+      };
+    case "ladder":
+    case "pyramid":
+      return {
+        ...draft,
+        startSeconds: String(protocol.startSeconds),
+        stepSeconds: String(protocol.stepSeconds),
+        rungs: String(protocol.rungs),
+        restSeconds: String(protocol.restSeconds),
+      };
+    case "emom":
+      return {
+        ...draft,
+        intervalSeconds: String(protocol.intervalSeconds),
+        workSeconds: String(protocol.workSeconds),
+        rounds: String(protocol.rounds),
+      };
+    case "amrap":
+      return { ...draft, durationSeconds: String(protocol.durationSeconds) };
+  }
+}
+
+function parseIntervals(value: string): { workSeconds: number; restSeconds: number }[] {
+  const intervals: { workSeconds: number; restSeconds: number }[] = [];
+  for (const entry of value.split(",").map((part) => part.trim()).filter(Boolean)) {
+    const match = entry.match(/^(\d+)\s*\/\s*(\d+)(?:\s*x\s*(\d+))?$/i);
+    if (!match) {
+      throw new Error(`Could not read interval "${entry}". Use work/rest, like 7/3.`);
+    }
+    const count = match[3] ? Number(match[3]) : 1;
+    for (let index = 0; index < count && intervals.length <= 50; index += 1) {
+      intervals.push({ workSeconds: Number(match[1]), restSeconds: Number(match[2]) });
+    }
+  }
+  return intervals;
+}
+
+// Throws with a message for the form when the draft does not make a runnable protocol.
+export function protocolFromDraft(draft: IntervalProtocolDraft): IntervalProtocol | undefined {
+  const whole = (value: string) => (value.trim() ? Number(value) : NaN);
+  let protocol: IntervalProtocol;
+  switch (draft.kind) {
+    case "none":
+      return undefined;
+    case "intervals":
+      protocol = { kind: "intervals", intervals: parseIntervals(draft.intervals) };
+      break;
+    case "ladder":
+    case "pyramid":
+      protocol = {
+        kind: draft.kind,
+        startSeconds: whole(draft.startSeconds),
+        stepSeconds: whole(draft.stepSeconds),
+        rungs: whole(draft.rungs),
+        restSeconds: whole(draft.restSeconds),
+      };
+      break;
+    case "emom":
+      protocol = {
+        kind: "emom",
+        intervalSeconds: whole(draft.intervalSeconds),
+        workSeconds: whole(draft.workSeconds),
+        rounds: whole(draft.rounds),
+      };
+      break;
+    case "amrap":
+      protocol = { kind: "amrap", durationSeconds: whole(draft.durationSeconds) };
+      break;
+  }
+  validateProtocol(protocol);
+  return protocol;
+}
+
+function NumberField({
+  label,
+  value,
+  onChange,
+  disabled,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <Box className="flex-1" style={{ minWidth: 120 }}>
+      <Text className="text-xs text-typography-500 mb-1">{label}</Text>
+      <TextInput
+        editable={!disabled}
+        value={value}
+        onChangeText={onChange}
+        keyboardType="numeric"
+        style={inputStyle}
+      />
+    </Box>
+  );
+}
+
+type Props = {
+  draft: IntervalProtocolDraft;
+  onChange: (draft: IntervalProtocolDraft) => void;
+  disabled?: boolean;
+};
+
+// Optional per-rep structure for an exercise, edited inside the training item form.
+export function IntervalProtocolEditor({ draft, onChange, disabled }: Props) {
+  const update = (patch: Partial<IntervalProtocolDraft>) => onChange({ ...draft, ...patch });
+  const preview = React.useMemo(() => {
+    try {
+      const protocol = protocolFromDraft(draft);
+      return protocol ? { text: describeProtocol(protocol), isError: false } : null;
+    } catch (draftError) {
+      return {
+        text: draftError instanceof Error ? draftError.message : "Check the protocol.",
+        isError: true,
+      };
+    }
+  }, [draft]);
+
+  return (
+    <Box className="gap-3">
+      <Box className="flex-row gap-1 flex-wrap">
+        {KIND_OPTIONS.map((kind) => {
+          const isActive = draft.kind === kind;
+          return (
+            <Pressable
+              key={kind}
+              onPress={() => !disabled && update({ kind })}
+              style={{
+                paddingHorizontal: 12,
+                paddingVertical: 8,
+                borderRadius: 999,
+                backgroundColor: isActive ? colors.primary : colors.borderLight,
+                opacity: disabled ? 0.6 : 1,
+              }}
+            >
+              <Text
+                style={{ color: isActive ? "#fff" : colors.text, fontSize: 12, fontWeight: "600" }}
+              >
+                {kind === "none" ? "Even reps" : INTERVAL_PROTOCOL_LABEL[kind]}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </Box>
+
+      {draft.kind === "none" ? (
+        <Text className="text-xs text-typography-500">
+          Every rep uses the rep duration and rep rest above.
+        </Text>
+      ) : (
+        <>
+          <Text className="text-xs text-typography-500">
+            {KIND_HINT[draft.kind]} Sets and set rest above still apply.
+          </Text>
+          {draft.kind === "intervals" ? (
+            <Box>
+              <Text className="text-xs text-typography-500 mb-1">Intervals (work/rest s)</Text>
+              <TextInput
+                editable={!disabled}
+                placeholder="7/3 x6, 10/20"
+                placeholderTextColor={colors.textMuted}
+                value={draft.intervals}
+                onChangeText={(intervals) => update({ intervals })}
+                autoCapitalize="none"
+                style={inputStyle}
+              />
+            </Box>
+          ) : null}
+          {draft.kind === "ladder" || draft.kind === "pyramid" ? (
+            <Box className="flex-row gap-3 flex-wrap">
+              <NumberField
+                label="First rep (s)"
+                value={draft.startSeconds}
+                onChange={(startSeconds) => update({ startSeconds })}
+                disabled={disabled}
+              />
+              <NumberField
+                label="Step (s)"
+                value={draft.stepSeconds}
+                onChange={(stepSeconds) => update({ stepSeconds })}
+                disabled={disabled}
+              />
+              <NumberField
+                label={draft.kind === "pyramid" ? "Steps up" : "Rungs"}
+                value={draft.rungs}
+                onChange={(rungs) => update({ rungs })}
+                disabled={disabled}
+              />
+              <NumberField
+                label="Rest after each (s)"
+                value={draft.restSeconds}
+                onChange={(restSeconds) => update({ restSeconds })}
+                disabled={disabled}
+              />
+            </Box>
+          ) : null}
+          {draft.kind === "emom" ? (
+            <Box className="flex-row gap-3 flex-wrap">
+              <NumberField
+                label="Interval (s)"
+                value={draft.intervalSeconds}
+                onChange={(intervalSeconds) => update({ intervalSeconds })}
+                disabled={disabled}
+              />
+              <NumberField
+                label="Work (s)"
+                value={draft.workSeconds}
+                onChange={(workSeconds) => update({ workSeconds })}
+                disabled={disabled}
+              />
+              <NumberField
+                label="Rounds"
+                value={draft.rounds}
+                onChange={(rounds) => update({ rounds })}
+                disabled={disabled}
+              />
+            </Box>
+          ) : null}
+          {draft.kind === "amrap" ? (
+            <NumberField
+              label="Work time (s)"
+              value={draft.durationSeconds}
+              onChange={(durationSeconds) => update({ durationSeconds })}
+              disabled={disabled}
+            />
+          ) : null}
+          {preview ? (
+            <Text
+              className="text-xs"
+              style={{ color: preview.isError ? colors.error : colors.textSecondary }}
+            >
+              {preview.text}
+            </Text>
+          ) : null}
+        </>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,70 @@
+import React from "react";
+import { Trophy } from "lucide-react-native";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Box } from "@/components/ui/box";
+import { Text } from "@/components/ui/text";
+import { colors, cardShadow } from "@/lib/theme";
+import { describeRecord } from "@/lib/personalRecords";
+import { unitSystemOf } from "@/lib/units";
+
+function formatAchievedAt(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+export function PersonalRecordsCard() {
+  const records = useQuery(api.personalRecords.listMyPersonalRecords, { limit: 30 });
+  const units = unitSystemOf(useQuery(api.profiles.getMyProfile));
+
+  return (
+    <Box
+      style={{
+        ...cardShadow,
+        backgroundColor: colors.bgCard,
+        borderRadius: 16,
+        padding: 16,
+        borderWidth: 1,
+        borderColor: colors.border,
+        gap: 12,
+      }}
+    >
+      <Text className="text-base font-semibold text-typography-900">Personal Records</Text>
+      {records === undefined ? (
+        <Text className="text-sm text-typography-500">Loading records...</Text>
+      ) : records.length === 0 ? (
+        <Text className="text-sm text-typography-500">
+          Records from hangs and weighted exercises you log with the timer show up here.
+        </Text>
+      ) : (
+        records.map((record) => {
+          const { value, detail, improvement } = describeRecord(record, units);
+          return (
+            <Box key={record._id} className="flex-row items-center gap-3">
+              <Trophy size={18} color={colors.warning} strokeWidth={2.2} />
+              <Box className="flex-1">
+                <Text className="text-sm font-semibold text-typography-900" numberOfLines={1}>
+                  {record.title}
+                </Text>
+                <Text className="text-xs text-typography-500">
+                  {detail} · {formatAchievedAt(record.achievedAt)}
+                </Text>
+              </Box>
+              <Box className="items-end">
+                <Text className="text-sm font-bold text-typography-900">{value}</Text>
+                {improvement ? (
+                  <Text className="text-xs" style={{ color: colors.success }}>
+                    {improvement}
+                  </Text>
+                ) : null}
+              </Box>
+            </Box>
+          );
+        })
+      )}
+    </Box>
+  );
+}
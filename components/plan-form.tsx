@@ -0,0 +1,566 @@
+import React from "react";
+import { KeyboardAvoidingView, Platform, Pressable, ScrollView, TextInput } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useQuery } from "convex/react";
+import { Plus, X } from "lucide-react-native";
+import { Box } from "@/components/ui/box";
+import { Text } from "@/components/ui/text";
+import { Button, ButtonText } from "@/components/ui/button";
+import { api } from "@/convex/_generated/api";
+import { cardShadow, colors, inputStyle, screenPadding } from "@/lib/theme";
+import { showErrorMessage, useAppToast } from "@/lib/useAppToast";
+
+type PhaseKind = "base" | "strength" | "power" | "power_endurance" | "deload";
+
+type PlanVariables = {
+  weight?: number;
+  reps?: number;
+  sets?: number;
+  restSeconds?: number;
+  restBetweenSetsSeconds?: number;
+  durationSeconds?: number;
+};
+
+type PlanFormValues = {
+  title: string;
+  description?: string;
+  phases: {
+    kind: PhaseKind;
+    weeks: number;
+    sessions: {
+      dayOfWeek: number;
+      trainingItemId?: string;
+      workoutTemplateId?: string;
+      weeks?: number[];
+      overrides?: PlanVariables;
+      notes?: string;
+    }[];
+    progression?: {
+      weightPerWeek?: number;
+      setsPerWeek?: number;
+      repsPerWeek?: number;
+      durationSecondsPerWeek?: number;
+    };
+  }[];
+};
+
+type Props = {
+  initialValues?: PlanFormValues;
+  submitLabel: string;
+  onSubmit: (values: PlanFormValues) => Promise<void>;
+  disabled?: boolean;
+};
+
+type SlotDraft = {
+  key: string;
+  dayOfWeek: number;
+  target: string;
+  weeks: string;
+  notes: string;
+  overrides?: PlanVariables;
+};
+
+type PhaseDraft = {
+  key: string;
+  kind: PhaseKind;
+  weeks: string;
+  weightPerWeek: string;
+  setsPerWeek: string;
+  repsPerWeek: string;
+  durationSecondsPerWeek: string;
+  slots: SlotDraft[];
+};
+
+export const PHASE_KIND_LABELS: Record<PhaseKind, string> = {
+  base: "Base",
+  strength: "Strength",
+  power: "Power",
+  power_endurance: "Power Endurance",
+  deload: "Deload",
+};
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function parseOptionalNumber(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function parseWeekList(value: string): number[] | undefined {
+  const weeks = value
+    .split(",")
+    .map((entry) => Number(entry.trim()))
+    .filter((entry) => Number.isInteger(entry) && entry > 0);
+  return weeks.length > 0 ? weeks : undefined;
+}
+
+// Convex ids travel as plain strings through the form.
+export function toPlanMutationPhases(phases: PlanFormValues["phases"]) {
+  return phases.map((phase) => ({
+    ...phase,
+    sessions: phase.sessions.map((slot) => ({
+      ...slot,
+      trainingItemId: slot.trainingItemId as never,
+      workoutTemplateId: slot.workoutTemplateId as never,
+    })),
+  }));
+}
+
+let draftKeyCounter = 0;
+function nextDraftKey() {
+  draftKeyCounter += 1;
+  return `plan-draft-${draftKeyCounter}`;
+}
+
+// Targets share one picker, so they are stored as "item:<id>" or "workout:<id>".
+function toSlotDraft(slot: PlanFormValues["phases"][number]["sessions"][number]): SlotDraft {
+  return {
+    key: nextDraftKey(),
+    dayOfWeek: slot.dayOfWeek,
+    target: slot.workoutTemplateId
+      ? `workout:${slot.workoutTemplateId}`
+      : slot.trainingItemId
+        ? `item:${slot.trainingItemId}`
+        : "",
+    weeks: slot.weeks?.join(", ") ?? "",
+    notes: slot.notes ?? "",
+    overrides: slot.overrides,
+  };
+}
+
+function toPhaseDraft(phase: PlanFormValues["phases"][number]): PhaseDraft {
+  return {
+    key: nextDraftKey(),
+    kind: phase.kind,
+    weeks: phase.weeks.toString(),
+    weightPerWeek: phase.progression?.weightPerWeek?.toString() ?? "",
+    setsPerWeek: phase.progression?.setsPerWeek?.toString() ?? "",
+    repsPerWeek: phase.progression?.repsPerWeek?.toString() ?? "",
+    durationSecondsPerWeek: phase.progression?.durationSecondsPerWeek?.toString() ?? "",
+    slots: phase.sessions.map(toSlotDraft),
+  };
+}
+
+const sectionCardStyle = {
+  ...cardShadow,
+  backgroundColor: colors.bgCard,
+  borderRadius: 16,
+  padding: 16,
+  borderWidth: 1,
+  borderColor: colors.border,
+  gap: 12,
+} as const;
+
+function chipStyle(selected: boolean, disabled: boolean) {
+  return {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 999,
+    backgroundColor: selected ? colors.primary : colors.borderLight,
+    opacity: disabled ? 0.6 : 1,
+  };
+}
+
+function chipTextStyle(selected: boolean) {
+  return { color: selected ? "#fff" : colors.text, fontSize: 12, fontWeight: "600" as const };
+}
+
+export function PlanForm({ initialValues, submitLabel, onSubmit, disabled = false }: Props) {
+  const insets = useSafeAreaInsets();
+  const { success: showSuccessToast, error: showErrorToast } = useAppToast();
+  const myItems = useQuery(api.trainingItems.listMyItems);
+  const savedItems = useQuery(api.savedItems.listSavedItems);
+  const workouts = useQuery(api.workoutTemplates.listMyTemplates);
+  const [title, setTitle] = React.useState(initialValues?.title ?? "");
+  const [description, setDescription] = React.useState(initialValues?.description ?? "");
+  const [phases, setPhases] = React.useState<PhaseDraft[]>(
+    () =>
+      initialValues?.phases.map(toPhaseDraft) ?? [
+        toPhaseDraft({ kind: "base", weeks: 4, sessions: [] }),
+      ],
+  );
+  const [pickerSlotKey, setPickerSlotKey] = React.useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const scrollBottomPadding = Math.max(128, insets.bottom + 180);
+
+  const targetOptions = React.useMemo(() => {
+    const options = new Map<string, string>();
+    for (const workout of workouts ?? []) {
+      options.set(`workout:${workout._id}`, `${workout.title} (workout)`);
+    }
+    for (const item of myItems ?? []) {
+      options.set(`item:${item._id}`, item.title);
+    }
+    for (const entry of savedItems ?? []) {
+      if (entry.item && !options.has(`item:${entry.item._id}`)) {
+        options.set(`item:${entry.item._id}`, entry.item.title);
+      }
+    }
+    return Array.from(options.entries()).map(([value, label]) => ({ value, label }));
+  }, [myItems, savedItems, workouts]);
+
+  const targetLabels = React.useMemo(
+    () => new Map(targetOptions.map((option) => [option.value, option.label])),
+    [targetOptions],
+  );
+
+  const totalWeeks = phases.reduce(
+    (sum, phase) => sum + Math.max(0, Math.floor(Number(phase.weeks) || 0)),
+    0,
+  );
+
+  const updatePhase = (key: string, patch: Partial<PhaseDraft>) => {
+    setPhases((previous) =>
+      previous.map((phase) => (phase.key === key ? { ...phase, ...patch } : phase)),
+    );
+  };
+
+  const updateSlot = (phaseKey: string, slotKey: string, patch: Partial<SlotDraft>) => {
+    setPhases((previous) =>
+      previous.map((phase) =>
+        phase.key === phaseKey
+          ? {
+              ...phase,
+              slots: phase.slots.map((slot) => (slot.key === slotKey ? { ...slot, ...patch } : slot)),
+            }
+          : phase,
+      ),
+    );
+  };
+
+  const handleSubmit = async () => {
+    if (!title.trim()) {
+      setError("Plan name is required.");
+      return;
+    }
+    if (phases.length === 0) {
+      setError("Add at least one phase.");
+      return;
+    }
+    if (phases.some((phase) => !(Math.floor(Number(phase.weeks)) >= 1))) {
+      setError("Each phase must last at least one week.");
+      return;
+    }
+    if (phases.some((phase) => phase.slots.some((slot) => !slot.target))) {
+      setError("Pick an exercise or workout for every session.");
+      return;
+    }
+
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await onSubmit({
+        title: title.trim(),
+        description: description.trim() || undefined,
+        phases: phases.map((phase) => ({
+          kind: phase.kind,
+          weeks: Math.floor(Number(phase.weeks)),
+          sessions: phase.slots.map((slot) => {
+            const [targetType, targetId] = slot.target.split(":");
+            return {
+              dayOfWeek: slot.dayOfWeek,
+              trainingItemId: targetType === "item" ? targetId : undefined,
+              workoutTemplateId: targetType === "workout" ? targetId : undefined,
+              weeks: parseWeekList(slot.weeks),
+              overrides: slot.overrides,
+              notes: slot.notes.trim() || undefined,
+            };
+          }),
+          progression: {
+            weightPerWeek: parseOptionalNumber(phase.weightPerWeek),
+            setsPerWeek: parseOptionalNumber(phase.setsPerWeek),
+            repsPerWeek: parseOptionalNumber(phase.repsPerWeek),
+            durationSecondsPerWeek: parseOptionalNumber(phase.durationSecondsPerWeek),
+          },
+        })),
+      });
+      showSuccessToast("Plan saved.");
+    } catch (submitError) {
+      const message = showErrorMessage(submitError, "Could not save plan.");
+      setError(message);
+      showErrorToast("Could not save plan", message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={{ flex: 1 }}
+      behavior={Platform.OS === "ios" ? "padding" : undefined}
+    >
+      <Box className="flex-1" style={{ backgroundColor: colors.bg }}>
+        <ScrollView
+          keyboardShouldPersistTaps="handled"
+          keyboardDismissMode={Platform.OS === "ios" ? "interactive" : "on-drag"}
+          automaticallyAdjustKeyboardInsets={Platform.OS === "ios"}
+          contentInsetAdjustmentBehavior="automatic"
+          contentContainerStyle={{ ...screenPadding, gap: 14, paddingBottom: scrollBottomPadding }}
+        >
+          <Box style={sectionCardStyle}>
+            <Text className="text-base font-semibold text-typography-900">Essentials</Text>
+            <TextInput
+              editable={!disabled}
+              placeholder="Plan name *"
+              placeholderTextColor={colors.textMuted}
+              value={title}
+              onChangeText={setTitle}
+              style={inputStyle}
+            />
+            <TextInput
+              editable={!disabled}
+              placeholder="Description"
+              placeholderTextColor={colors.textMuted}
+              multiline
+              value={description}
+              onChangeText={setDescription}
+              style={{ ...inputStyle, minHeight: 72, textAlignVertical: "top" }}
+            />
+            <Text className="text-xs text-typography-500">
+              {totalWeeks} week{totalWeeks === 1 ? "" : "s"} across {phases.length} phase
+              {phases.length === 1 ? "" : "s"}
+            </Text>
+          </Box>
+
+          {phases.map((phase, phaseIndex) => (
+            <Box key={phase.key} style={sectionCardStyle}>
+              <Box className="flex-row items-center justify-between">
+                <Text className="text-base font-semibold text-typography-900">
+                  Phase {phaseIndex + 1}
+                </Text>
+                <Pressable
+                  disabled={disabled}
+                  onPress={() =>
+                    setPhases((previous) => previous.filter((entry) => entry.key !== phase.key))
+                  }
+                  style={{ padding: 4 }}
+                >
+                  <X size={16} color={colors.textSecondary} />
+                </Pressable>
+              </Box>
+
+              <Box className="flex-row flex-wrap gap-2">
+                {(Object.keys(PHASE_KIND_LABELS) as PhaseKind[]).map((kind) => (
+                  <Pressable
+                    key={kind}
+                    disabled={disabled}
+                    onPress={() => updatePhase(phase.key, { kind })}
+                    style={chipStyle(phase.kind === kind, disabled)}
+                  >
+                    <Text style={chipTextStyle(phase.kind === kind)}>{PHASE_KIND_LABELS[kind]}</Text>
+                  </Pressable>
+                ))}
+              </Box>
+
+              <Box>
+                <Text className="text-xs text-typography-500 mb-1">Weeks</Text>
+                <TextInput
+                  editable={!disabled}
+                  placeholder="4"
+                  placeholderTextColor={colors.textMuted}
+                  value={phase.weeks}
+                  onChangeText={(value) => updatePhase(phase.key, { weeks: value })}
+                  keyboardType="numeric"
+                  style={inputStyle}
+                />
+              </Box>
+
+              <Text className="text-sm font-semibold text-typography-900">Weekly progression</Text>
+              <Text className="text-xs text-typography-500">
+                Added each week after the first. Use negative numbers to taper.
+              </Text>
+              <Box className="flex-row gap-2">
+                {(
+                  [
+                    { field: "setsPerWeek", label: "Sets" },
+                    { field: "repsPerWeek", label: "Reps" },
+                    { field: "durationSecondsPerWeek", label: "Work (s)" },
+                    { field: "weightPerWeek", label: "Load (% BW)" },
+                  ] as const
+                ).map(({ field, label }) => (
+                  <Box key={field} className="flex-1">
+                    <Text className="text-xs text-typography-500 mb-1">{label}</Text>
+                    <TextInput
+                      editable={!disabled}
+                      placeholder="0"
+                      placeholderTextColor={colors.textMuted}
+                      value={phase[field]}
+                      onChangeText={(value) => updatePhase(phase.key, { [field]: value })}
+                      keyboardType="numbers-and-punctuation"
+                      style={inputStyle}
+                    />
+                  </Box>
+                ))}
+              </Box>
+
+              <Text className="text-sm font-semibold text-typography-900">Sessions</Text>
+              {phase.slots.length === 0 ? (
+                <Text className="text-sm text-typography-500">No sessions in this phase yet.</Text>
+              ) : null}
+              {phase.slots.map((slot) => (
+                <Box
+                  key={slot.key}
+                  className="rounded-xl p-3 gap-2"
+                  style={{ borderWidth: 1, borderColor: colors.border }}
+                >
+                  <Box className="flex-row items-center gap-2">
+                    <Pressable
+                      disabled={disabled}
+                      onPress={() =>
+                        setPickerSlotKey((previous) => (previous === slot.key ? null : slot.key))
+                      }
+                      style={{ flex: 1 }}
+                    >
+                      <Text
+                        className="text-sm font-semibold"
+                        style={{ color: slot.target ? colors.text : colors.primary }}
+                      >
+                        {slot.target
+                          ? (targetLabels.get(slot.target) ?? "Missing exercise")
+                          : "Choose exercise or workout"}
+                      </Text>
+                    </Pressable>
+                    <Pressable
+                      disabled={disabled}
+                      onPress={() =>
+                        updatePhase(phase.key, {
+                          slots: phase.slots.filter((entry) => entry.key !== slot.key),
+                        })
+                      }
+                      style={{ padding: 4 }}
+                    >
+                      <X size={16} color={colors.textSecondary} />
+                    </Pressable>
+                  </Box>
+                  {pickerSlotKey === slot.key ? (
+                    targetOptions.length === 0 ? (
+                      <Text className="text-sm text-typography-500">
+                        Create or save an exercise first.
+                      </Text>
+                    ) : (
+                      <Box className="flex-row flex-wrap gap-2">
+                        {targetOptions.map((option) => (
+                          <Pressable
+                            key={option.value}
+                            disabled={disabled}
+                            onPress={() => {
+                              updateSlot(phase.key, slot.key, {
+                                target: option.value,
+                                overrides: undefined,
+                              });
+                              setPickerSlotKey(null);
+                            }}
+                            style={chipStyle(slot.target === option.value, disabled)}
+                          >
+                            <Text style={chipTextStyle(slot.target === option.value)}>
+                              {option.label}
+                            </Text>
+                          </Pressable>
+                        ))}
+                      </Box>
+                    )
+                  ) : null}
+                  <Box className="flex-row flex-wrap gap-1">
+                    {WEEKDAY_LABELS.map((label, dayOfWeek) => (
+                      <Pressable
+                        key={label}
+                        disabled={disabled}
+                        onPress={() => updateSlot(phase.key, slot.key, { dayOfWeek })}
+                        style={{
+                          ...chipStyle(slot.dayOfWeek === dayOfWeek, disabled),
+                          paddingHorizontal: 10,
+                        }}
+                      >
+                        <Text style={chipTextStyle(slot.dayOfWeek === dayOfWeek)}>{label}</Text>
+                      </Pressable>
+                    ))}
+                  </Box>
+                  <TextInput
+                    editable={!disabled}
+                    placeholder="Only in weeks (e.g. 1, 3) — empty for every week"
+                    placeholderTextColor={colors.textMuted}
+                    value={slot.weeks}
+                    onChangeText={(value) => updateSlot(phase.key, slot.key, { weeks: value })}
+                    keyboardType="numbers-and-punctuation"
+                    style={inputStyle}
+                  />
+                  <TextInput
+                    editable={!disabled}
+                    placeholder="Session notes"
+                    placeholderTextColor={colors.textMuted}
+                    value={slot.notes}
+                    onChangeText={(value) => updateSlot(phase.key, slot.key, { notes: value })}
+                    style={inputStyle}
+                  />
+                </Box>
+              ))}
+              <Pressable
+                disabled={disabled}
+                onPress={() => {
+                  const slot = toSlotDraft({ dayOfWeek: 1 });
+                  updatePhase(phase.key, { slots: [...phase.slots, slot] });
+                  setPickerSlotKey(slot.key);
+                }}
+              >
+                <Box className="flex-row items-center gap-1">
+                  <Plus size={14} color={colors.primary} />
+                  <Text className="text-sm font-medium" style={{ color: colors.primary }}>
+                    Add session
+                  </Text>
+                </Box>
+              </Pressable>
+            </Box>
+          ))}
+
+          <Button
+            variant="outline"
+            className="rounded-xl"
+            disabled={disabled}
+            onPress={() =>
+              setPhases((previous) => [
+                ...previous,
+                toPhaseDraft({ kind: "strength", weeks: 3, sessions: [] }),
+              ])
+            }
+          >
+            <Plus size={16} color={colors.primary} strokeWidth={2.5} />
+            <ButtonText className="font-semibold">Add phase</ButtonText>
+          </Button>
+        </ScrollView>
+
+        <Box
+          style={{
+            borderTopWidth: 1,
+            borderTopColor: colors.border,
+            backgroundColor: colors.bgCard,
+            paddingHorizontal: 16,
+            paddingTop: 12,
+            paddingBottom: 20,
+            gap: 8,
+          }}
+        >
+          {error ? (
+            <Box className="rounded-xl p-3" style={{ backgroundColor: colors.errorBg }}>
+              <Text className="text-error-600 text-sm">{error}</Text>
+            </Box>
+          ) : null}
+          <Button
+            className="rounded-xl"
+            size="lg"
+            onPress={() => void handleSubmit()}
+            disabled={disabled || isSubmitting}
+          >
+            <ButtonText className="font-semibold">
+              {isSubmitting ? "Saving..." : submitLabel}
+            </ButtonText>
+          </Button>
+        </Box>
+      </Box>
+    </KeyboardAvoidingView>
+  );
+}
+
+export type { PlanFormValues };
@@ -25,11 +25,30 @@ import {
   SelectTrigger,
 } from "@/components/ui/select";
 import { PageHeader } from "@/components/page-header";
+import { TimerSoundSettingsEditor } from "@/components/timer-sound-settings";
 import { ChevronDown } from "lucide-react-native";
 import { parseCommaSeparated, toCommaSeparated } from "@/lib/trainingItemFilters";
-import { BOULDER_GRADES, ROPE_GRADES } from "@/lib/profileGrades";
+import {
+  BOULDER_GRADE_SYSTEM_OPTIONS,
+  ROPE_GRADE_SYSTEM_OPTIONS,
+  formatGradeWithReference,
+  gradeOptions,
+  gradeSystemsOf,
+  type BoulderGradeSystem,
+  type RopeGradeSystem,
+} from "@/lib/gradeSystems";
 import { cardShadow, colors, inputStyle, screenPadding } from "@/lib/theme";
+import {
+  UNIT_SYSTEM_OPTIONS,
+  fromDisplayWeight,
+  toDisplayWeight,
+  unitSystemOf,
+  weightUnit,
+  type UnitSystem,
+} from "@/lib/units";
 import { showErrorMessage, useAppToast } from "@/lib/useAppToast";
+import { timerSoundsOf, type TimerSoundSettings } from "@/lib/sounds";
+import { TIMER_CUE_OPTIONS, timerCueModeOf, type TimerCueMode } from "@/lib/voice";
 
 const sectionCardStyle = {
   ...cardShadow,
@@ -43,68 +62,35 @@ const sectionCardStyle = {
 const fieldLabelClassName = "text-xs text-typography-500 mb-1";
 const gradeSelectSheetClassName = "max-h-[55%]";
 const gradeSelectItemClassName = "py-2";
-const BOULDER_FONT_GRADES: Record<string, string> = {
-  VB: "3",
-  V0: "4",
-  V1: "5",
-  V2: "5+",
-  V3: "6A",
-  V4: "6B",
-  V5: "6C",
-  V6: "6C+",
-  V7: "7A",
-  V8: "7B",
-  V9: "7C",
-  V10: "7C+",
-  V11: "8A",
-  V12: "8A+",
-  V13: "8B",
-  V14: "8B+",
-  V15: "8C",
-  V16: "8C+",
-  V17: "9A",
-};
-const YDS_TO_FRENCH_GRADES: Record<string, string> = {
-  "5.6": "4C",
-  "5.7": "5A",
-  "5.8": "5B",
-  "5.9": "5C",
-  "5.10a": "6A",
-  "5.10b": "6A+",
-  "5.10c": "6B",
-  "5.10d": "6B+",
-  "5.11a": "6C",
-  "5.11b": "6C+",
-  "5.11c": "7A",
-  "5.11d": "7A+",
-  "5.12a": "7B+",
-  "5.12b": "7C",
-  "5.12c": "7C+",
-  "5.12d": "8A",
-  "5.13a": "8A+",
-  "5.13b": "8B",
-  "5.13c": "8B+",
-  "5.13d": "8C",
-  "5.14a": "8C+",
-  "5.14b": "9A",
-  "5.14c": "9A+",
-  "5.14d": "9B",
-  "5.15a": "9B+",
-  "5.15b": "9C",
-  "5.15c": "9C+",
-  "5.15d": "9C+/10A",
-};
 
-function formatBoulderingGradeLabel(grade: string): string {
-  if (!grade) return "";
-  const fontGrade = BOULDER_FONT_GRADES[grade];
-  return fontGrade ? `${grade} (${fontGrade})` : grade;
-}
-
-function formatSportGradeLabel(grade: string): string {
-  if (!grade) return "";
-  const frenchGrade = YDS_TO_FRENCH_GRADES[grade];
-  return frenchGrade ? `${frenchGrade} (${grade})` : grade;
+function ChoiceChips<T extends string>({
+  options,
+  selected,
+  onSelect,
+}: {
+  options: { value: T; label: string }[];
+  selected: T;
+  onSelect: (value: T) => void;
+}) {
+  return options.map((option) => {
+    const isActive = option.value === selected;
+    return (
+      <Pressable
+        key={option.value}
+        onPress={() => onSelect(option.value)}
+        style={{
+          paddingHorizontal: 12,
+          paddingVertical: 8,
+          borderRadius: 999,
+          backgroundColor: isActive ? colors.primary : colors.borderLight,
+        }}
+      >
+        <Text style={{ color: isActive ? "#fff" : colors.text, fontSize: 12, fontWeight: "600" }}>
+          {option.label}
+        </Text>
+      </Pressable>
+    );
+  });
 }
 
 type ProfileValues = {
@@ -115,6 +101,11 @@ type ProfileValues = {
   boulderingGrade?: string;
   sportGrade?: string;
   tradGrade?: string;
+  boulderGradeSystem?: BoulderGradeSystem;
+  ropeGradeSystem?: RopeGradeSystem;
+  unitSystem?: UnitSystem;
+  timerCues?: TimerCueMode;
+  timerSounds?: TimerSoundSettings;
   regions: string[];
   bio?: string;
   goals?: string;
@@ -126,6 +117,8 @@ type Props = {
   initialValues?: ProfileValues;
   onSubmit: (values: ProfileValues) => Promise<void>;
   onSignOut?: () => Promise<void> | void;
+  // Extra sections shown above the sign-out button.
+  children?: React.ReactNode;
 };
 
 const CLIMBING_DISCIPLINE_OPTIONS = [
@@ -141,6 +134,23 @@ function parseOptionalNumber(value: string): number | undefined {
   return Number.isFinite(parsed) ? parsed : undefined;
 }
 
+function formatBodyWeightInput(kg: number | undefined, units: UnitSystem): string {
+  return kg === undefined ? "" : toDisplayWeight(kg, units).toString();
+}
+
+// An untouched field keeps the stored kg, so converting to pounds and back does not log a
+// new body weight.
+function parseBodyWeightInput(
+  input: string,
+  units: UnitSystem,
+  initialKg: number | undefined,
+): number | undefined {
+  const parsed = parseOptionalNumber(input);
+  if (parsed === undefined) return undefined;
+  if (input === formatBodyWeightInput(initialKg, units)) return initialKg;
+  return fromDisplayWeight(parsed, units);
+}
+
 function toggleArrayValue(values: string[], value: string): string[] {
   return values.includes(value) ? values.filter((entry) => entry !== value) : [...values, value];
 }
@@ -153,13 +163,25 @@ function toDisciplineLabel(value: string): string {
     .join(" ");
 }
 
-export function ProfileForm({ initialValues, onSubmit, onSignOut }: Props) {
+export function ProfileForm({ initialValues, onSubmit, onSignOut, children }: Props) {
   const insets = useSafeAreaInsets();
   const { success: showSuccessToast, error: showErrorToast } = useAppToast();
   const [username, setUsername] = React.useState(initialValues?.username ?? "");
-  const [bodyWeightKg, setBodyWeightKg] = React.useState(
-    initialValues?.bodyWeightKg?.toString() ?? "",
+  const [units, setUnits] = React.useState<UnitSystem>(() => unitSystemOf(initialValues));
+  const [timerCues, setTimerCues] = React.useState<TimerCueMode>(() =>
+    timerCueModeOf(initialValues),
+  );
+  const [timerSounds, setTimerSounds] = React.useState<TimerSoundSettings>(() =>
+    timerSoundsOf(initialValues),
   );
+  const [bodyWeightInput, setBodyWeightInput] = React.useState(() =>
+    formatBodyWeightInput(initialValues?.bodyWeightKg, units),
+  );
+  // Weight logged elsewhere (the body weight history) must not be overwritten on save.
+  const initialBodyWeightKg = initialValues?.bodyWeightKg;
+  React.useEffect(() => {
+    setBodyWeightInput(formatBodyWeightInput(initialBodyWeightKg, units));
+  }, [initialBodyWeightKg, units]);
   const [preferredDisciplines, setPreferredDisciplines] = React.useState<string[]>(() =>
     Array.from(
       new Set(
@@ -177,6 +199,7 @@ export function ProfileForm({ initialValues, onSubmit, onSignOut }: Props) {
   );
   const [sportGrade, setSportGrade] = React.useState(initialValues?.sportGrade ?? "");
   const [tradGrade, setTradGrade] = React.useState(initialValues?.tradGrade ?? "");
+  const [gradeSystems, setGradeSystems] = React.useState(() => gradeSystemsOf(initialValues));
   const [regionsInput, setRegionsInput] = React.useState(
     toCommaSeparated(initialValues?.regions ?? []),
   );
@@ -207,7 +230,7 @@ export function ProfileForm({ initialValues, onSubmit, onSignOut }: Props) {
     try {
       await onSubmit({
         username: username.trim() || undefined,
-        bodyWeightKg: parseOptionalNumber(bodyWeightKg),
+        bodyWeightKg: parseBodyWeightInput(bodyWeightInput, units, initialBodyWeightKg),
         styles: Array.from(
           new Set(
             preferredDisciplines.map((entry) => entry.trim()).filter((entry) => entry.length > 0),
@@ -217,6 +240,11 @@ export function ProfileForm({ initialValues, onSubmit, onSignOut }: Props) {
         boulderingGrade: boulderingGrade.trim() || undefined,
         sportGrade: sportGrade.trim() || undefined,
         tradGrade: tradGrade.trim() || undefined,
+        boulderGradeSystem: gradeSystems.boulder,
+        ropeGradeSystem: gradeSystems.rope,
+        unitSystem: units,
+        timerCues,
+        timerSounds,
         regions: parseCommaSeparated(regionsInput),
         bio: bio.trim() || undefined,
         goals: goals.trim() || undefined,
@@ -283,12 +311,16 @@ export function ProfileForm({ initialValues, onSubmit, onSignOut }: Props) {
 
           <Box style={sectionCardStyle}>
             <Text className="text-base font-semibold text-typography-900">Climbing Info</Text>
-            <Text className={fieldLabelClassName}>Body weight (kg)</Text>
+            <Text className={fieldLabelClassName}>Units</Text>
+            <Box className="flex-row flex-wrap gap-2">
+              <ChoiceChips options={UNIT_SYSTEM_OPTIONS} selected={units} onSelect={setUnits} />
+            </Box>
+            <Text className={fieldLabelClassName}>Body weight ({weightUnit(units)})</Text>
             <TextInput
-              placeholder="Body weight (kg) * for personalized training loads"
+              placeholder={`Body weight (${weightUnit(units)}) * for personalized training loads`}
               placeholderTextColor={colors.textMuted}
-              value={bodyWeightKg}
-              onChangeText={setBodyWeightKg}
+              value={bodyWeightInput}
+              onChangeText={setBodyWeightInput}
               keyboardType="numeric"
               style={inputStyle}
             />
@@ -344,6 +376,22 @@ export function ProfileForm({ initialValues, onSubmit, onSignOut }: Props) {
 
           <Box style={sectionCardStyle}>
             <Text className="text-base font-semibold text-typography-900">Best Grades</Text>
+            <Text className={fieldLabelClassName}>Boulder grades in</Text>
+            <Box className="flex-row flex-wrap gap-2">
+              <ChoiceChips
+                options={BOULDER_GRADE_SYSTEM_OPTIONS}
+                selected={gradeSystems.boulder}
+                onSelect={(boulder) => setGradeSystems((prev) => ({ ...prev, boulder }))}
+              />
+            </Box>
+            <Text className={fieldLabelClassName}>Route grades in</Text>
+            <Box className="flex-row flex-wrap gap-2">
+              <ChoiceChips
+                options={ROPE_GRADE_SYSTEM_OPTIONS}
+                selected={gradeSystems.rope}
+                onSelect={(rope) => setGradeSystems((prev) => ({ ...prev, rope }))}
+              />
+            </Box>
             <Box className="flex-row gap-2">
               <Box className="flex-1">
                 <Text className="text-xs text-typography-500 mb-1">Bouldering</Text>
@@ -363,7 +411,7 @@ export function ProfileForm({ initialValues, onSubmit, onSignOut }: Props) {
                   >
                     <SelectInput
                       placeholder="Select"
-                      value={formatBoulderingGradeLabel(boulderingGrade)}
+                      value={formatGradeWithReference(boulderingGrade, "boulder", gradeSystems)}
                       className="flex-1 text-left"
                       style={{ textAlign: "left", color: colors.text }}
                     />
@@ -381,12 +429,12 @@ export function ProfileForm({ initialValues, onSubmit, onSignOut }: Props) {
                           label="Not set"
                           value=""
                         />
-                        {BOULDER_GRADES.map((grade) => (
+                        {gradeOptions("boulder", gradeSystems).map((option) => (
                           <SelectItem
                             className={gradeSelectItemClassName}
-                            key={grade}
-                            label={formatBoulderingGradeLabel(grade)}
-                            value={grade}
+                            key={option.value}
+                            label={formatGradeWithReference(option.value, "boulder", gradeSystems)}
+                            value={option.value}
                           />
                         ))}
                       </SelectScrollView>
@@ -412,7 +460,7 @@ export function ProfileForm({ initialValues, onSubmit, onSignOut }: Props) {
                   >
                     <SelectInput
                       placeholder="Select"
-                      value={formatSportGradeLabel(sportGrade)}
+                      value={formatGradeWithReference(sportGrade, "rope", gradeSystems)}
                       className="flex-1 text-left"
                       style={{ textAlign: "left", color: colors.text }}
                     />
@@ -430,12 +478,12 @@ export function ProfileForm({ initialValues, onSubmit, onSignOut }: Props) {
                           label="Not set"
                           value=""
                         />
-                        {ROPE_GRADES.map((grade) => (
+                        {gradeOptions("rope", gradeSystems).map((option) => (
                           <SelectItem
                             className={gradeSelectItemClassName}
-                            key={grade}
-                            label={formatSportGradeLabel(grade)}
-                            value={grade}
+                            key={option.value}
+                            label={formatGradeWithReference(option.value, "rope", gradeSystems)}
+                            value={option.value}
                           />
                         ))}
                       </SelectScrollView>
@@ -461,7 +509,7 @@ export function ProfileForm({ initialValues, onSubmit, onSignOut }: Props) {
                   >
                     <SelectInput
                       placeholder="Select"
-                      value={tradGrade}
+                      value={formatGradeWithReference(tradGrade, "rope", gradeSystems)}
                       className="flex-1 text-left"
                       style={{ textAlign: "left", color: colors.text }}
                     />
@@ -479,12 +527,12 @@ export function ProfileForm({ initialValues, onSubmit, onSignOut }: Props) {
                           label="Not set"
                           value=""
                         />
-                        {ROPE_GRADES.map((grade) => (
+                        {gradeOptions("rope", gradeSystems).map((option) => (
                           <SelectItem
                             className={gradeSelectItemClassName}
-                            key={grade}
-                            label={grade}
-                            value={grade}
+                            key={option.value}
+                            label={formatGradeWithReference(option.value, "rope", gradeSystems)}
+                            value={option.value}
                           />
                         ))}
                       </SelectScrollView>
@@ -495,6 +543,19 @@ export function ProfileForm({ initialValues, onSubmit, onSignOut }: Props) {
             </Box>
           </Box>
 
+          <Box style={sectionCardStyle}>
+            <Text className="text-base font-semibold text-typography-900">Timer</Text>
+            <Text className={fieldLabelClassName}>Cues during hangs and rests</Text>
+            <Box className="flex-row flex-wrap gap-2">
+              <ChoiceChips
+                options={TIMER_CUE_OPTIONS}
+                selected={timerCues}
+                onSelect={setTimerCues}
+              />
+            </Box>
+            <TimerSoundSettingsEditor value={timerSounds} onChange={setTimerSounds} />
+          </Box>
+
           <Box style={sectionCardStyle}>
             <Text className="text-base font-semibold text-typography-900">About</Text>
             <Text className={fieldLabelClassName}>Bio</Text>
@@ -559,6 +620,8 @@ export function ProfileForm({ initialValues, onSubmit, onSignOut }: Props) {
             </Pressable>
           </Box>
 
+          {children}
+
           {onSignOut ? (
             <Button
               className="rounded-xl"
@@ -0,0 +1,98 @@
+import React from "react";
+import { Box } from "@/components/ui/box";
+import { Text } from "@/components/ui/text";
+import { Button, ButtonText } from "@/components/ui/button";
+import { TrendingDown, TrendingUp, Minus } from "lucide-react-native";
+import { colors } from "@/lib/theme";
+
+type SuggestedVariables = {
+  weight?: number;
+  reps?: number;
+  durationSeconds?: number;
+};
+
+export type ProgressionSuggestion = {
+  trainingItemId: string;
+  action: "increase" | "hold" | "back_off";
+  reason: string;
+  basedOnLogs: number;
+  previous: SuggestedVariables;
+  suggested: SuggestedVariables;
+};
+
+type Props = {
+  suggestions: (ProgressionSuggestion & { itemTitle?: string; weightIsPercent: boolean })[];
+  onApply: () => void;
+  isApplying?: boolean;
+};
+
+const actionLabels: Record<ProgressionSuggestion["action"], string> = {
+  increase: "Progress",
+  hold: "Hold",
+  back_off: "Back off",
+};
+
+function describeChange(
+  suggestion: ProgressionSuggestion,
+  weightIsPercent: boolean,
+): string {
+  const { previous, suggested } = suggestion;
+  if (suggested.weight !== undefined && suggested.weight !== previous.weight) {
+    const unit = weightIsPercent ? "% BW" : "kg";
+    return `Load ${previous.weight}${unit} → ${suggested.weight}${unit}`;
+  }
+  if (suggested.reps !== undefined && suggested.reps !== previous.reps) {
+    return `Reps ${previous.reps} → ${suggested.reps}`;
+  }
+  if (
+    suggested.durationSeconds !== undefined &&
+    suggested.durationSeconds !== previous.durationSeconds
+  ) {
+    return `Work ${previous.durationSeconds}s → ${suggested.durationSeconds}s`;
+  }
+  return "Repeat last session's load";
+}
+
+export function ProgressionSuggestionBanner({ suggestions, onApply, isApplying = false }: Props) {
+  if (suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <Box className="rounded-xl p-3 gap-2" style={{ backgroundColor: colors.primaryBg }}>
+      {suggestions.map((suggestion) => {
+        const Icon =
+          suggestion.action === "increase"
+            ? TrendingUp
+            : suggestion.action === "back_off"
+              ? TrendingDown
+              : Minus;
+        return (
+          <Box key={suggestion.trainingItemId} className="gap-0.5">
+            <Box className="flex-row items-center gap-1.5">
+              <Icon size={14} color={colors.primary} strokeWidth={2.5} />
+              <Text className="text-xs font-semibold" style={{ color: colors.primary }}>
+                {actionLabels[suggestion.action]}
+                {suggestion.itemTitle ? ` · ${suggestion.itemTitle}` : ""}
+              </Text>
+            </Box>
+            <Text className="text-sm font-medium text-typography-900">
+              {describeChange(suggestion, suggestion.weightIsPercent)}
+            </Text>
+            <Text className="text-xs text-typography-500">
+              {suggestion.reason} Based on {suggestion.basedOnLogs} logged session
+              {suggestion.basedOnLogs === 1 ? "" : "s"}.
+            </Text>
+          </Box>
+        );
+      })}
+      <Box className="flex-row">
+        <Button size="sm" className="rounded-xl" disabled={isApplying} onPress={onApply}>
+          <ButtonText className="text-xs font-semibold">
+            {isApplying ? "Applying..." : "Apply to next session"}
+          </ButtonText>
+        </Button>
+      </Box>
+    </Box>
+  );
+}
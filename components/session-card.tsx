@@ -4,7 +4,7 @@ import { useQuery } from "convex/react";
 import { Box } from "@/components/ui/box";
 import { Text } from "@/components/ui/text";
 import { Button, ButtonText } from "@/components/ui/button";
-import { Repeat, Layers, Timer, Weight } from "lucide-react-native";
+import { AlertTriangle, Clock, Repeat, Layers, Timer, Weight } from "lucide-react-native";
 import { api } from "@/convex/_generated/api";
 import { colors, cardShadow } from "@/lib/theme";
 
@@ -41,10 +41,25 @@ export type SessionVariables = {
   durationSeconds?: number;
 };
 
+export type SessionWorkout = {
+  title: string;
+  description?: string;
+  blocks: {
+    snapshot: SessionSnapshot;
+    overrides: SessionVariables;
+    notes?: string;
+  }[];
+};
+
 type SessionCardProps = {
   snapshot: SessionSnapshot;
   finalVariables: SessionVariables;
+  workout?: SessionWorkout;
   statusBadge?: React.ReactNode;
+  timeLabel?: string | null;
+  conflictWarning?: string | null;
+  // Weight for % bodyweight loads; past sessions pass the weight on their day.
+  bodyWeightKg?: number;
   children?: React.ReactNode;
   onPressViewDetails?: () => void;
 };
@@ -84,10 +99,26 @@ function resolveImage(snapshot: SessionSnapshot): ImageSourcePropType | null {
   return null;
 }
 
+function describeBlock(snapshot: SessionSnapshot, overrides: SessionVariables): string {
+  const sets = overrides.sets ?? snapshot.variables.sets;
+  const reps = overrides.reps ?? snapshot.variables.reps;
+  if (sets != null && reps != null) {
+    return `${sets} × ${reps}`;
+  }
+  if (sets != null) {
+    return `${sets} sets`;
+  }
+  return reps != null ? `${reps} reps` : "";
+}
+
 export function SessionCard({
   snapshot,
   finalVariables,
+  workout,
   statusBadge,
+  timeLabel,
+  conflictWarning,
+  bodyWeightKg: sessionBodyWeightKg,
   children,
   onPressViewDetails,
 }: SessionCardProps) {
@@ -95,7 +126,7 @@ export function SessionCard({
   const accentColor = typeAccentColors[snapshot.trainingType ?? ""] ?? colors.primary;
   const titleIcon = resolveImage(snapshot);
   const isBodyweightPercent = !!snapshot.trainingType;
-  const bodyWeightKg = profile?.bodyWeightKg;
+  const bodyWeightKg = sessionBodyWeightKg ?? profile?.bodyWeightKg;
 
   const loadLabel =
     finalVariables.weight != null
@@ -109,11 +140,12 @@ export function SessionCard({
       : null;
 
   const hasStats =
-    finalVariables.sets != null ||
-    finalVariables.reps != null ||
-    loadLabel != null ||
-    finalVariables.restSeconds != null ||
-    finalVariables.restBetweenSetsSeconds != null;
+    !workout &&
+    (finalVariables.sets != null ||
+      finalVariables.reps != null ||
+      loadLabel != null ||
+      finalVariables.restSeconds != null ||
+      finalVariables.restBetweenSetsSeconds != null);
 
   return (
     <View style={[styles.card, cardShadow]}>
@@ -124,12 +156,47 @@ export function SessionCard({
           <View style={styles.titleGroup}>
             {titleIcon ? <Image source={titleIcon} style={styles.titleIcon} resizeMode="cover" /> : null}
             <Text className="font-bold text-typography-900 text-base flex-1 flex-shrink">
-              {snapshot.title}
+              {workout?.title ?? snapshot.title}
             </Text>
           </View>
           {statusBadge}
         </Box>
 
+        {timeLabel || conflictWarning ? (
+          <View style={styles.timeRow}>
+            {timeLabel ? (
+              <View style={styles.timeRow}>
+                <Clock size={13} color={colors.textMuted} strokeWidth={2.2} />
+                <Text className="text-xs font-semibold text-typography-600">{timeLabel}</Text>
+              </View>
+            ) : null}
+            {conflictWarning ? (
+              <View style={styles.timeRow}>
+                <AlertTriangle size={13} color={colors.warning} strokeWidth={2.2} />
+                <Text className="text-xs" style={{ color: colors.warning }}>
+                  {conflictWarning}
+                </Text>
+              </View>
+            ) : null}
+          </View>
+        ) : null}
+
+        {workout ? (
+          <View style={styles.blockList}>
+            {workout.blocks.map((block, index) => (
+              <View key={`${index}-${block.snapshot.title}`} style={styles.blockRow}>
+                <Text className="text-xs font-semibold text-typography-400">{index + 1}</Text>
+                <Text className="text-sm text-typography-700 flex-1" numberOfLines={1}>
+                  {block.snapshot.title}
+                </Text>
+                <Text className="text-xs font-medium text-typography-500">
+                  {describeBlock(block.snapshot, block.overrides)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        ) : null}
+
         {hasStats ? (
           <View style={styles.statsRow}>
             {finalVariables.sets != null ? (
@@ -215,11 +282,25 @@ const styles = StyleSheet.create({
     height: 24,
     borderRadius: 6,
   },
+  timeRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    gap: 6,
+  },
   statsRow: {
     flexDirection: "row",
     flexWrap: "wrap",
     gap: 6,
   },
+  blockList: {
+    gap: 4,
+  },
+  blockRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
   statChip: {
     flexDirection: "row",
     alignItems: "center",
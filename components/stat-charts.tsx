@@ -0,0 +1,252 @@
+import React from "react";
+import { View, type LayoutChangeEvent } from "react-native";
+import Svg, { Circle, Line, Polyline, Rect, Text as SvgText } from "react-native-svg";
+import { Box } from "@/components/ui/box";
+import { Text } from "@/components/ui/text";
+import { colors } from "@/lib/theme";
+
+const CHART_HEIGHT = 140;
+const LABEL_HEIGHT = 18;
+const MAX_AXIS_LABELS = 6;
+
+function useChartWidth() {
+  const [width, setWidth] = React.useState(0);
+  const onLayout = (event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width);
+  return { width, onLayout };
+}
+
+// Shows at most MAX_AXIS_LABELS labels, always including the last one.
+function labelStride(count: number): number {
+  return Math.max(1, Math.ceil(count / MAX_AXIS_LABELS));
+}
+
+export function BarChart({
+  data,
+  color = colors.primary,
+  formatValue = (value) => `${value}`,
+}: {
+  data: { label: string; value: number }[];
+  color?: string;
+  formatValue?: (value: number) => string;
+}) {
+  const { width, onLayout } = useChartWidth();
+  const maxValue = Math.max(1, ...data.map((entry) => entry.value));
+  const slot = data.length > 0 ? width / data.length : 0;
+  const barWidth = Math.max(2, slot * 0.7);
+  const stride = labelStride(data.length);
+
+  return (
+    <View onLayout={onLayout} style={{ height: CHART_HEIGHT + LABEL_HEIGHT }}>
+      {width > 0 ? (
+        <Svg width={width} height={CHART_HEIGHT + LABEL_HEIGHT}>
+          <Line
+            x1={0}
+            x2={width}
+            y1={CHART_HEIGHT}
+            y2={CHART_HEIGHT}
+            stroke={colors.border}
+            strokeWidth={1}
+          />
+          <SvgText x={0} y={10} fontSize={10} fill={colors.textMuted}>
+            {formatValue(maxValue)}
+          </SvgText>
+          {data.map((entry, index) => {
+            const barHeight = (entry.value / maxValue) * (CHART_HEIGHT - 16);
+            const x = index * slot + (slot - barWidth) / 2;
+            const showLabel = (data.length - 1 - index) % stride === 0;
+            return (
+              <React.Fragment key={`${entry.label}-${index}`}>
+                <Rect
+                  x={x}
+                  y={CHART_HEIGHT - barHeight}
+                  width={barWidth}
+                  height={barHeight}
+                  rx={Math.min(3, barWidth / 2)}
+                  fill={color}
+                />
+                {showLabel ? (
+                  <SvgText
+                    x={index * slot + slot / 2}
+                    y={CHART_HEIGHT + 13}
+                    fontSize={10}
+                    fill={colors.textMuted}
+                    textAnchor="middle"
+                  >
+                    {entry.label}
+                  </SvgText>
+                ) : null}
+              </React.Fragment>
+            );
+          })}
+        </Svg>
+      ) : null}
+    </View>
+  );
+}
+
+export function LineChart({
+  points,
+  color = colors.primary,
+  formatValue = (value) => `${value}`,
+  formatLabel,
+}: {
+  points: { x: number; y: number }[];
+  color?: string;
+  formatValue?: (value: number) => string;
+  formatLabel: (x: number) => string;
+}) {
+  const { width, onLayout } = useChartWidth();
+  if (points.length === 0) {
+    return null;
+  }
+  const minX = points[0].x;
+  const maxX = points[points.length - 1].x;
+  const values = points.map((point) => point.y);
+  const minY = Math.min(...values);
+  const maxY = Math.max(...values);
+  const ySpan = maxY - minY || 1;
+  const padding = 8;
+  const toX = (x: number) =>
+    maxX === minX ? width / 2 : padding + ((x - minX) / (maxX - minX)) * (width - padding * 2);
+  const toY = (y: number) => 16 + (1 - (y - minY) / ySpan) * (CHART_HEIGHT - 32);
+
+  return (
+    <View onLayout={onLayout} style={{ height: CHART_HEIGHT + LABEL_HEIGHT }}>
+      {width > 0 ? (
+        <Svg width={width} height={CHART_HEIGHT + LABEL_HEIGHT}>
+          <SvgText x={0} y={10} fontSize={10} fill={colors.textMuted}>
+            {formatValue(maxY)}
+          </SvgText>
+          <SvgText x={0} y={CHART_HEIGHT - 2} fontSize={10} fill={colors.textMuted}>
+            {formatValue(minY)}
+          </SvgText>
+          <Polyline
+            points={points.map((point) => `${toX(point.x)},${toY(point.y)}`).join(" ")}
+            fill="none"
+            stroke={color}
+            strokeWidth={2}
+          />
+          {points.map((point) => (
+            <Circle key={point.x} cx={toX(point.x)} cy={toY(point.y)} r={3} fill={color} />
+          ))}
+          <SvgText x={padding} y={CHART_HEIGHT + 13} fontSize={10} fill={colors.textMuted}>
+            {formatLabel(minX)}
+          </SvgText>
+          {maxX !== minX ? (
+            <SvgText
+              x={width - padding}
+              y={CHART_HEIGHT + 13}
+              fontSize={10}
+              fill={colors.textMuted}
+              textAnchor="end"
+            >
+              {formatLabel(maxX)}
+            </SvgText>
+          ) : null}
+        </Svg>
+      ) : null}
+    </View>
+  );
+}
+
+// Several lines on shared axes, all starting at zero, e.g. one per rep.
+export function OverlayLineChart({
+  series,
+  formatValue = (value) => `${value}`,
+  formatLabel,
+}: {
+  series: { key: string; color: string; points: { x: number; y: number }[] }[];
+  formatValue?: (value: number) => string;
+  formatLabel: (x: number) => string;
+}) {
+  const { width, onLayout } = useChartWidth();
+  const allPoints = series.flatMap((line) => line.points);
+  if (allPoints.length === 0) {
+    return null;
+  }
+  const maxX = Math.max(1, ...allPoints.map((point) => point.x));
+  const maxY = Math.max(1, ...allPoints.map((point) => point.y));
+  const padding = 8;
+  const toX = (x: number) => padding + (x / maxX) * (width - padding * 2);
+  const toY = (y: number) => 16 + (1 - y / maxY) * (CHART_HEIGHT - 16);
+
+  return (
+    <View onLayout={onLayout} style={{ height: CHART_HEIGHT + LABEL_HEIGHT }}>
+      {width > 0 ? (
+        <Svg width={width} height={CHART_HEIGHT + LABEL_HEIGHT}>
+          <Line
+            x1={0}
+            x2={width}
+            y1={CHART_HEIGHT}
+            y2={CHART_HEIGHT}
+            stroke={colors.border}
+            strokeWidth={1}
+          />
+          <SvgText x={0} y={10} fontSize={10} fill={colors.textMuted}>
+            {formatValue(maxY)}
+          </SvgText>
+          {series.map((line) => (
+            <Polyline
+              key={line.key}
+              points={line.points.map((point) => `${toX(point.x)},${toY(point.y)}`).join(" ")}
+              fill="none"
+              stroke={line.color}
+              strokeWidth={1.5}
+              strokeOpacity={0.85}
+            />
+          ))}
+          <SvgText x={padding} y={CHART_HEIGHT + 13} fontSize={10} fill={colors.textMuted}>
+            {formatLabel(0)}
+          </SvgText>
+          <SvgText
+            x={width - padding}
+            y={CHART_HEIGHT + 13}
+            fontSize={10}
+            fill={colors.textMuted}
+            textAnchor="end"
+          >
+            {formatLabel(maxX)}
+          </SvgText>
+        </Svg>
+      ) : null}
+    </View>
+  );
+}
+
+// One horizontal bar per row, scaled to the largest value.
+export function HorizontalBars({
+  rows,
+}: {
+  rows: { label: string; value: number; color?: string }[];
+}) {
+  const maxValue = Math.max(1, ...rows.map((row) => row.value));
+  return (
+    <Box className="gap-2">
+      {rows.map((row) => (
+        <Box key={row.label} className="gap-1">
+          <Box className="flex-row justify-between">
+            <Text className="text-xs text-typography-700">{row.label}</Text>
+            <Text className="text-xs font-semibold text-typography-900">{row.value}</Text>
+          </Box>
+          <View
+            style={{
+              height: 8,
+              borderRadius: 999,
+              backgroundColor: colors.borderLight,
+              overflow: "hidden",
+            }}
+          >
+            <View
+              style={{
+                width: `${(row.value / maxValue) * 100}%`,
+                height: "100%",
+                borderRadius: 999,
+                backgroundColor: row.color ?? colors.primary,
+              }}
+            />
+          </View>
+        </Box>
+      ))}
+    </Box>
+  );
+}
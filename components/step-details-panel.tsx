@@ -0,0 +1,194 @@
+import React from "react";
+import { Pressable, StyleSheet, View } from "react-native";
+import { Minus, Plus } from "lucide-react-native";
+import { Text } from "@/components/ui/text";
+import type { ExecutionStepDetails } from "@/lib/executionJournal";
+import {
+  edgeUnit,
+  toDisplayEdge,
+  toDisplayWeight,
+  weightUnit,
+  type UnitSystem,
+} from "@/lib/units";
+
+const RPE_VALUES = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+const GRIPS = [
+  { value: "open", label: "Open" },
+  { value: "half", label: "Half" },
+  { value: "full", label: "Full crimp" },
+  { value: "pinch", label: "Pinch" },
+  { value: "pocket", label: "Pocket" },
+];
+// Steps stay round numbers in the unit shown: 2.5 kg or 5 lb, 1 mm or 1/16 in.
+const WEIGHT_STEP_KG = { metric: 2.5, imperial: 5 / 2.20462 };
+const EDGE_STEP_MM = { metric: 1, imperial: 25.4 / 16 };
+
+type Props = {
+  // e.g. "Set 2 · Rep 3"
+  label: string;
+  details: ExecutionStepDetails;
+  accent: string;
+  units: UnitSystem;
+  onChange: (details: ExecutionStepDetails) => void;
+};
+
+function Stepper({
+  label,
+  value,
+  unit,
+  onDecrement,
+  onIncrement,
+}: {
+  label: string;
+  value: number | undefined;
+  unit: string;
+  onDecrement: () => void;
+  onIncrement: () => void;
+}) {
+  return (
+    <View style={styles.stepper}>
+      <Text style={styles.stepperLabel}>{label}</Text>
+      <View style={styles.stepperRow}>
+        <Pressable onPress={onDecrement} style={styles.stepperBtn} hitSlop={6}>
+          <Minus size={16} color="#fff" strokeWidth={2.5} />
+        </Pressable>
+        <Text style={styles.stepperValue}>
+          {value === undefined ? "–" : `${Number(value.toFixed(2))} ${unit}`}
+        </Text>
+        <Pressable onPress={onIncrement} style={styles.stepperBtn} hitSlop={6}>
+          <Plus size={16} color="#fff" strokeWidth={2.5} />
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+// Quick entry for what the last rep actually was, shown on the timer during rests.
+export function StepDetailsPanel({ label, details, accent, units, onChange }: Props) {
+  const update = (patch: ExecutionStepDetails) => onChange({ ...details, ...patch });
+  const weightStepKg = WEIGHT_STEP_KG[units];
+  const edgeStepMm = EDGE_STEP_MM[units];
+
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.title}>How did {label} go?</Text>
+
+      <View style={styles.chipRow}>
+        {RPE_VALUES.map((rpe) => {
+          const isSelected = details.rpe === rpe;
+          return (
+            <Pressable
+              key={rpe}
+              onPress={() => update({ rpe: isSelected ? undefined : rpe })}
+              style={[styles.rpeChip, isSelected && { backgroundColor: accent }]}
+            >
+              <Text style={styles.chipText}>{rpe}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+      <Text style={styles.hint}>RPE · 10 = nothing left</Text>
+
+      <View style={styles.stepperGroup}>
+        <Stepper
+          label="Added weight"
+          value={
+            details.addedWeightKg === undefined
+              ? undefined
+              : toDisplayWeight(details.addedWeightKg, units)
+          }
+          unit={weightUnit(units)}
+          onDecrement={() =>
+            update({ addedWeightKg: Math.max(-200, (details.addedWeightKg ?? 0) - weightStepKg) })
+          }
+          onIncrement={() =>
+            update({ addedWeightKg: Math.min(500, (details.addedWeightKg ?? 0) + weightStepKg) })
+          }
+        />
+        <Stepper
+          label="Edge"
+          value={
+            details.edgeSizeMm === undefined ? undefined : toDisplayEdge(details.edgeSizeMm, units)
+          }
+          unit={edgeUnit(units)}
+          onDecrement={() =>
+            update({ edgeSizeMm: Math.max(1, (details.edgeSizeMm ?? 20) - edgeStepMm) })
+          }
+          onIncrement={() =>
+            update({ edgeSizeMm: Math.min(100, (details.edgeSizeMm ?? 20) + edgeStepMm) })
+          }
+        />
+      </View>
+
+      <View style={styles.chipRow}>
+        {GRIPS.map((grip) => {
+          const isSelected = details.grip === grip.value;
+          return (
+            <Pressable
+              key={grip.value}
+              onPress={() => update({ grip: isSelected ? undefined : grip.value })}
+              style={[styles.chip, isSelected && { backgroundColor: accent }]}
+            >
+              <Text style={styles.chipText}>{grip.label}</Text>
+            </Pressable>
+          );
+        })}
+        <Pressable
+          onPress={() => update({ failed: details.failed ? undefined : true })}
+          style={[styles.chip, details.failed && styles.failedChip]}
+        >
+          <Text style={styles.chipText}>{details.failed ? "Failed ✕" : "Failed?"}</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    width: "100%",
+    gap: 10,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.2)",
+    backgroundColor: "rgba(255,255,255,0.08)",
+    padding: 12,
+  },
+  title: { fontSize: 14, fontWeight: "700", color: "#fff" },
+  hint: { fontSize: 11, color: "rgba(255,255,255,0.5)", marginTop: -4 },
+  chipRow: { flexDirection: "row", flexWrap: "wrap", gap: 6 },
+  rpeChip: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(255,255,255,0.14)",
+  },
+  chip: {
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: "rgba(255,255,255,0.14)",
+  },
+  failedChip: { backgroundColor: "rgba(239,68,68,0.7)" },
+  chipText: { fontSize: 12, fontWeight: "700", color: "#fff" },
+  stepperGroup: { flexDirection: "row", gap: 10 },
+  stepper: { flex: 1, gap: 4 },
+  stepperLabel: { fontSize: 11, fontWeight: "600", color: "rgba(255,255,255,0.6)" },
+  stepperRow: { flexDirection: "row", alignItems: "center", justifyContent: "space-between" },
+  stepperBtn: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(255,255,255,0.14)",
+  },
+  stepperValue: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#fff",
+    fontVariant: ["tabular-nums"],
+  },
+});
@@ -0,0 +1,154 @@
+import React from "react";
+import { Pressable, Switch } from "react-native";
+import { Box } from "@/components/ui/box";
+import { Text } from "@/components/ui/text";
+import {
+  COUNTDOWN_SECONDS_OPTIONS,
+  SOUND_EVENT_OPTIONS,
+  SOUND_PACK_OPTIONS,
+  soundManager,
+  type SoundEvent,
+  type SoundEventSettings,
+  type TimerSoundSettings,
+} from "@/lib/sounds";
+import { colors } from "@/lib/theme";
+
+const VOLUME_OPTIONS = [0.25, 0.5, 0.75, 1];
+
+function Chip({
+  label,
+  isActive,
+  onPress,
+  disabled,
+}: {
+  label: string;
+  isActive: boolean;
+  onPress: () => void;
+  disabled?: boolean;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={disabled}
+      style={{
+        paddingHorizontal: 10,
+        paddingVertical: 6,
+        borderRadius: 999,
+        backgroundColor: isActive ? colors.primary : colors.borderLight,
+        opacity: disabled ? 0.5 : 1,
+      }}
+    >
+      <Text style={{ color: isActive ? "#fff" : colors.text, fontSize: 12, fontWeight: "600" }}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+}
+
+type Props = {
+  value: TimerSoundSettings;
+  onChange: (value: TimerSoundSettings) => void;
+};
+
+// Tone pack, countdown lengths and per-event volume for the timer, edited in the profile.
+export function TimerSoundSettingsEditor({ value, onChange }: Props) {
+  const updateEvent = (event: SoundEvent, patch: Partial<SoundEventSettings>) =>
+    onChange({
+      ...value,
+      events: { ...value.events, [event]: { ...value.events[event], ...patch } },
+    });
+
+  return (
+    <Box className="gap-3">
+      <Box>
+        <Text className="text-xs text-typography-500 mb-1">Sound pack</Text>
+        <Box className="flex-row flex-wrap gap-2">
+          {SOUND_PACK_OPTIONS.map((option) => (
+            <Chip
+              key={option.value}
+              label={option.label}
+              isActive={value.pack === option.value}
+              onPress={() => {
+                onChange({ ...value, pack: option.value });
+                void soundManager.preview(option.value, "complete", 1);
+              }}
+            />
+          ))}
+        </Box>
+      </Box>
+
+      <Box>
+        <Text className="text-xs text-typography-500 mb-1">Rest countdown (s)</Text>
+        <Box className="flex-row flex-wrap gap-2">
+          {COUNTDOWN_SECONDS_OPTIONS.map((seconds) => (
+            <Chip
+              key={seconds}
+              label={`${seconds}`}
+              isActive={value.countdownSeconds === seconds}
+              onPress={() => onChange({ ...value, countdownSeconds: seconds })}
+            />
+          ))}
+        </Box>
+      </Box>
+
+      <Box>
+        <Text className="text-xs text-typography-500 mb-1">Hang countdown (s)</Text>
+        <Box className="flex-row flex-wrap gap-2">
+          {COUNTDOWN_SECONDS_OPTIONS.map((seconds) => (
+            <Chip
+              key={seconds}
+              label={`${seconds}`}
+              isActive={value.workTickSeconds === seconds}
+              onPress={() => onChange({ ...value, workTickSeconds: seconds })}
+            />
+          ))}
+        </Box>
+      </Box>
+
+      {SOUND_EVENT_OPTIONS.map((option) => {
+        const settings = value.events[option.event];
+        return (
+          <Box
+            key={option.event}
+            className="gap-2"
+            style={{ backgroundColor: colors.borderLight, borderRadius: 12, padding: 12 }}
+          >
+            <Box className="flex-row items-center justify-between">
+              <Pressable
+                onPress={() =>
+                  void soundManager.preview(value.pack, option.preview, settings.volume)
+                }
+                disabled={!settings.enabled}
+              >
+                <Text className="text-typography-900 font-medium">{option.label}</Text>
+                <Text className="text-xs text-typography-500">
+                  {settings.enabled ? "Tap to hear it" : "Off"}
+                </Text>
+              </Pressable>
+              <Switch
+                value={settings.enabled}
+                onValueChange={(enabled) => updateEvent(option.event, { enabled })}
+                trackColor={{ false: "#d1d5db", true: colors.primaryBg }}
+                thumbColor={settings.enabled ? colors.primary : "#f4f4f5"}
+              />
+            </Box>
+            <Box className="flex-row flex-wrap gap-2">
+              {VOLUME_OPTIONS.map((volume) => (
+                <Chip
+                  key={volume}
+                  label={`${volume * 100}%`}
+                  isActive={settings.volume === volume}
+                  disabled={!settings.enabled}
+                  onPress={() => {
+                    updateEvent(option.event, { volume });
+                    void soundManager.preview(value.pack, option.preview, volume);
+                  }}
+                />
+              ))}
+            </Box>
+          </Box>
+        );
+      })}
+    </Box>
+  );
+}
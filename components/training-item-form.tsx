@@ -19,7 +19,13 @@ import {
   SelectPortal,
   SelectTrigger,
 } from "@/components/ui/select";
+import {
+  draftFromProtocol,
+  IntervalProtocolEditor,
+  protocolFromDraft,
+} from "@/components/interval-protocol-editor";
 import { api } from "@/convex/_generated/api";
+import type { IntervalProtocol } from "@/convex/intervalProtocols";
 import {
   HANG_CRIMP_TYPES,
   HANG_EDGE_MM_OPTIONS,
@@ -34,6 +40,14 @@ import {
   TrainingType,
 } from "@/lib/trainingItemFilters";
 import { cardShadow, colors, inputStyle, screenPadding } from "@/lib/theme";
+import {
+  edgeUnit,
+  formatEdge,
+  formatWeight,
+  toDisplayWeight,
+  unitSystemOf,
+  weightUnit,
+} from "@/lib/units";
 import { showErrorMessage, useAppToast } from "@/lib/useAppToast";
 
 type TrainingItemFormValues = {
@@ -58,6 +72,7 @@ type TrainingItemFormValues = {
   };
   difficulty: TrainingDifficulty;
   equipment: string[];
+  protocol?: IntervalProtocol;
 };
 
 type Props = {
@@ -213,6 +228,9 @@ export function TrainingItemForm({
   const [hangCrimpType, setHangCrimpType] = React.useState<"open" | "half" | "full" | undefined>(
     initialValues?.hangDetails?.crimpType,
   );
+  const [protocolDraft, setProtocolDraft] = React.useState(() =>
+    draftFromProtocol(initialValues?.protocol),
+  );
   const [isSubmitting, setIsSubmitting] = React.useState(false);
   const [error, setError] = React.useState<string | null>(null);
   const [showTagsField, setShowTagsField] = React.useState(Boolean(initialValues?.tags?.length));
@@ -225,13 +243,17 @@ export function TrainingItemForm({
   const [showStructureQuickPicks, setShowStructureQuickPicks] = React.useState(false);
   const scrollBottomPadding = Math.max(128, insets.bottom + 180);
 
+  // Absolute loads are typed in the profile's unit; percentages work the same in either.
+  const units = unitSystemOf(profile);
+  const bodyWeight = profile?.bodyWeightKg
+    ? toDisplayWeight(profile.bodyWeightKg, units)
+    : undefined;
+
   const handleWeightInputModeChange = (nextMode: "percent" | "absolute") => {
     if (nextMode === weightInputMode) {
       return;
     }
-    setWeight((previous) =>
-      convertWeightValue(previous, weightInputMode, nextMode, profile?.bodyWeightKg),
-    );
+    setWeight((previous) => convertWeightValue(previous, weightInputMode, nextMode, bodyWeight));
     setWeightInputMode(nextMode);
   };
 
@@ -248,14 +270,13 @@ export function TrainingItemForm({
       return;
     }
     const parsedWeight = parseOptionalNumber(weight);
-    const bodyWeightKg = profile?.bodyWeightKg;
     const weightPercent =
       parsedWeight === undefined
         ? undefined
         : weightInputMode === "percent"
           ? parsedWeight
-          : bodyWeightKg && bodyWeightKg > 0
-            ? (parsedWeight / bodyWeightKg) * 100
+          : bodyWeight && bodyWeight > 0
+            ? (parsedWeight / bodyWeight) * 100
             : undefined;
 
     if (
@@ -269,6 +290,14 @@ export function TrainingItemForm({
       return;
     }
 
+    let protocol: IntervalProtocol | undefined;
+    try {
+      protocol = protocolFromDraft(protocolDraft);
+    } catch (protocolError) {
+      setError(showErrorMessage(protocolError, "Check the interval protocol."));
+      return;
+    }
+
     const normalizedEquipment = parseCommaSeparated(
       [...equipment, customEquipment.trim()].filter(Boolean).join(","),
     );
@@ -305,6 +334,7 @@ export function TrainingItemForm({
           restBetweenSetsSeconds: parseOptionalNumber(restBetweenSetsSeconds),
           durationSeconds: parseOptionalNumber(durationSeconds),
         },
+        protocol,
       });
       showSuccessToast("Exercise saved.");
     } catch (submitError) {
@@ -678,6 +708,15 @@ export function TrainingItemForm({
             ) : null}
           </Box>
 
+          <Box style={sectionCardStyle}>
+            <Text className="text-base font-semibold text-typography-900">Interval Protocol</Text>
+            <IntervalProtocolEditor
+              draft={protocolDraft}
+              onChange={setProtocolDraft}
+              disabled={disabled}
+            />
+          </Box>
+
           {trainingType === "hang" ? (
             <Box style={sectionCardStyle}>
               <Text className="text-base font-semibold text-typography-900">Hang Details</Text>
@@ -712,7 +751,7 @@ export function TrainingItemForm({
               </Box>
               {hangApparatus === "fingerboard" ? (
                 <>
-                  <Text className="text-xs text-typography-500">Edge (mm)</Text>
+                  <Text className="text-xs text-typography-500">Edge ({edgeUnit(units)})</Text>
                   <Box className="flex-row gap-2 flex-wrap">
                     {HANG_EDGE_MM_OPTIONS.map((edge) => {
                       const isActive = hangEdgeSizeMm === edge;
@@ -735,7 +774,7 @@ export function TrainingItemForm({
                               fontWeight: "600",
                             }}
                           >
-                            {edge}mm
+                            {formatEdge(edge, units)}
                           </Text>
                         </Pressable>
                       );
@@ -783,7 +822,7 @@ export function TrainingItemForm({
             </Text>
             {profile?.bodyWeightKg ? (
               <Text className="text-xs text-typography-500">
-                Your body weight: {profile.bodyWeightKg}kg
+                Your body weight: {formatWeight(profile.bodyWeightKg, units)}
               </Text>
             ) : (
               <Box className="rounded-xl p-3" style={{ backgroundColor: colors.accentBg }}>
@@ -837,13 +876,15 @@ export function TrainingItemForm({
                     fontSize: 13,
                   }}
                 >
-                  kg absolute
+                  {weightUnit(units)} absolute
                 </Text>
               </Pressable>
             </Box>
             <TextInput
               editable={!disabled}
-              placeholder={weightInputMode === "percent" ? "Load (% BW)" : "Load (kg)"}
+              placeholder={
+                weightInputMode === "percent" ? "Load (% BW)" : `Load (${weightUnit(units)})`
+              }
               placeholderTextColor={colors.textMuted}
               value={weight}
               onChangeText={setWeight}
@@ -8,13 +8,18 @@ import {
   SessionCard,
   type SessionSnapshot,
   type SessionVariables,
+  type SessionWorkout,
 } from "@/components/session-card";
 import { colors } from "@/lib/theme";
+import { formatSessionTime } from "@/lib/sessionTimes";
 
 type UpcomingSessionData = {
   _id: string;
+  startMinutes?: number;
+  durationMinutes?: number;
   snapshot: SessionSnapshot;
   overrides: SessionVariables;
+  workout?: SessionWorkout;
 };
 
 type UpcomingSessionCardProps = {
@@ -25,6 +30,9 @@ type UpcomingSessionCardProps = {
   onDone: () => void;
   onViewDetails?: () => void;
   expandedContent?: React.ReactNode;
+  suggestionContent?: React.ReactNode;
+  // Titles of other sessions whose time overlaps this one.
+  conflictsWith?: string[];
   startLabel?: string;
   doneLabel?: string;
   showReadyBadge?: boolean;
@@ -52,6 +60,8 @@ export function UpcomingSessionCard({
   onDone,
   onViewDetails,
   expandedContent,
+  suggestionContent,
+  conflictsWith,
   startLabel = "Start",
   doneLabel = "Done",
   showReadyBadge = true,
@@ -66,7 +76,12 @@ export function UpcomingSessionCard({
       <SessionCard
         snapshot={session.snapshot}
         finalVariables={finalVariables}
+        workout={session.workout}
         onPressViewDetails={onViewDetails}
+        timeLabel={formatSessionTime(session)}
+        conflictWarning={
+          conflictsWith?.length ? `Overlaps with ${conflictsWith.join(", ")}` : null
+        }
         statusBadge={
           <Box className="flex-row items-center gap-2">
             {showReadyBadge ? (
@@ -88,6 +103,7 @@ export function UpcomingSessionCard({
           </Box>
         }
       >
+        {suggestionContent}
         <Box className="flex-row gap-2">
           <Button
             variant="outline"
@@ -0,0 +1,61 @@
+import React from "react";
+import { AlertTriangle } from "lucide-react-native";
+import { Box } from "@/components/ui/box";
+import { Text } from "@/components/ui/text";
+import { colors } from "@/lib/theme";
+
+type WorkloadWarning = {
+  category: string;
+  ratio: number;
+  day: number;
+  planned: boolean;
+};
+
+type WorkloadWarningCardProps = {
+  warnings: WorkloadWarning[];
+  threshold: number;
+  today: number;
+};
+
+function formatCategory(category: string): string {
+  return category.replace(/-/g, " ");
+}
+
+function formatWhen(day: number, today: number): string {
+  if (day === today) return "today";
+  return new Date(day).toLocaleDateString("en-US", { weekday: "long", timeZone: "UTC" });
+}
+
+export function WorkloadWarningCard({ warnings, threshold, today }: WorkloadWarningCardProps) {
+  if (warnings.length === 0) {
+    return null;
+  }
+  return (
+    <Box
+      className="rounded-2xl p-4 gap-2"
+      style={{
+        backgroundColor: colors.warningBg,
+        borderWidth: 1,
+        borderColor: colors.warning,
+      }}
+    >
+      <Box className="flex-row items-center gap-2">
+        <AlertTriangle size={16} color={colors.warning} strokeWidth={2.2} />
+        <Text className="text-sm font-bold text-typography-900">Training load spike</Text>
+      </Box>
+      {warnings.map((warning) => (
+        <Text key={warning.category} className="text-sm text-typography-700">
+          {warning.planned
+            ? `Your plan takes ${formatCategory(warning.category)} to ${warning.ratio}× ` +
+              `your 4-week average by ${formatWhen(warning.day, today)}.`
+            : `Your last 7 days of ${formatCategory(warning.category)} are ` +
+              `${warning.ratio}× your 4-week average.`}
+        </Text>
+      ))}
+      <Text className="text-xs text-typography-500">
+        Sudden jumps above {threshold}× raise the risk of finger and tendon injuries. Ease in
+        with lighter sessions or extra rest.
+      </Text>
+    </Box>
+  );
+}
@@ -0,0 +1,374 @@
+import React from "react";
+import { KeyboardAvoidingView, Platform, Pressable, ScrollView, TextInput } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useQuery } from "convex/react";
+import { ArrowDown, ArrowUp, Plus, X } from "lucide-react-native";
+import { Box } from "@/components/ui/box";
+import { Text } from "@/components/ui/text";
+import { Button, ButtonText } from "@/components/ui/button";
+import { api } from "@/convex/_generated/api";
+import { cardShadow, colors, inputStyle, screenPadding } from "@/lib/theme";
+import { showErrorMessage, useAppToast } from "@/lib/useAppToast";
+
+type WorkoutBlockVariables = {
+  weight?: number;
+  reps?: number;
+  sets?: number;
+  restSeconds?: number;
+  restBetweenSetsSeconds?: number;
+  durationSeconds?: number;
+};
+
+type WorkoutFormValues = {
+  title: string;
+  description?: string;
+  blocks: {
+    trainingItemId: string;
+    overrides: WorkoutBlockVariables;
+    notes?: string;
+  }[];
+};
+
+type Props = {
+  initialValues?: WorkoutFormValues;
+  submitLabel: string;
+  onSubmit: (values: WorkoutFormValues) => Promise<void>;
+  disabled?: boolean;
+};
+
+type BlockDraft = {
+  key: string;
+  trainingItemId: string;
+  sets: string;
+  reps: string;
+  durationSeconds: string;
+  weight: string;
+  notes: string;
+  // Override fields the form does not edit are carried through untouched.
+  restSeconds?: number;
+  restBetweenSetsSeconds?: number;
+};
+
+type PickableItem = {
+  _id: string;
+  title: string;
+  variables: WorkoutBlockVariables;
+};
+
+function parseOptionalNumber(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+let blockKeyCounter = 0;
+function nextBlockKey() {
+  blockKeyCounter += 1;
+  return `block-${blockKeyCounter}`;
+}
+
+function toBlockDraft(block: WorkoutFormValues["blocks"][number]): BlockDraft {
+  return {
+    key: nextBlockKey(),
+    trainingItemId: block.trainingItemId,
+    sets: block.overrides.sets?.toString() ?? "",
+    reps: block.overrides.reps?.toString() ?? "",
+    durationSeconds: block.overrides.durationSeconds?.toString() ?? "",
+    weight: block.overrides.weight?.toString() ?? "",
+    notes: block.notes ?? "",
+    restSeconds: block.overrides.restSeconds,
+    restBetweenSetsSeconds: block.overrides.restBetweenSetsSeconds,
+  };
+}
+
+const sectionCardStyle = {
+  ...cardShadow,
+  backgroundColor: colors.bgCard,
+  borderRadius: 16,
+  padding: 16,
+  borderWidth: 1,
+  borderColor: colors.border,
+  gap: 12,
+} as const;
+
+export function WorkoutForm({ initialValues, submitLabel, onSubmit, disabled = false }: Props) {
+  const insets = useSafeAreaInsets();
+  const { success: showSuccessToast, error: showErrorToast } = useAppToast();
+  const myItems = useQuery(api.trainingItems.listMyItems);
+  const savedItems = useQuery(api.savedItems.listSavedItems);
+  const [title, setTitle] = React.useState(initialValues?.title ?? "");
+  const [description, setDescription] = React.useState(initialValues?.description ?? "");
+  const [blocks, setBlocks] = React.useState<BlockDraft[]>(
+    () => initialValues?.blocks.map(toBlockDraft) ?? [],
+  );
+  const [showPicker, setShowPicker] = React.useState(!initialValues?.blocks.length);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const scrollBottomPadding = Math.max(128, insets.bottom + 180);
+
+  const pickableItems = React.useMemo(() => {
+    const byId = new Map<string, PickableItem>();
+    for (const item of myItems ?? []) {
+      byId.set(item._id, item);
+    }
+    for (const entry of savedItems ?? []) {
+      if (entry.item && !byId.has(entry.item._id)) {
+        byId.set(entry.item._id, entry.item);
+      }
+    }
+    return Array.from(byId.values());
+  }, [myItems, savedItems]);
+
+  const itemsById = React.useMemo(
+    () => new Map(pickableItems.map((item) => [item._id, item])),
+    [pickableItems],
+  );
+
+  const updateBlock = (key: string, patch: Partial<BlockDraft>) => {
+    setBlocks((previous) =>
+      previous.map((block) => (block.key === key ? { ...block, ...patch } : block)),
+    );
+  };
+
+  const moveBlock = (index: number, direction: -1 | 1) => {
+    setBlocks((previous) => {
+      const target = index + direction;
+      if (target < 0 || target >= previous.length) {
+        return previous;
+      }
+      const next = [...previous];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!title.trim()) {
+      setError("Workout name is required.");
+      return;
+    }
+    if (blocks.length === 0) {
+      setError("Add at least one exercise.");
+      return;
+    }
+
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await onSubmit({
+        title: title.trim(),
+        description: description.trim() || undefined,
+        blocks: blocks.map((block) => ({
+          trainingItemId: block.trainingItemId,
+          overrides: {
+            sets: parseOptionalNumber(block.sets),
+            reps: parseOptionalNumber(block.reps),
+            durationSeconds: parseOptionalNumber(block.durationSeconds),
+            weight: parseOptionalNumber(block.weight),
+            restSeconds: block.restSeconds,
+            restBetweenSetsSeconds: block.restBetweenSetsSeconds,
+          },
+          notes: block.notes.trim() || undefined,
+        })),
+      });
+      showSuccessToast("Workout saved.");
+    } catch (submitError) {
+      const message = showErrorMessage(submitError, "Could not save workout.");
+      setError(message);
+      showErrorToast("Could not save workout", message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={{ flex: 1 }}
+      behavior={Platform.OS === "ios" ? "padding" : undefined}
+    >
+      <Box className="flex-1" style={{ backgroundColor: colors.bg }}>
+        <ScrollView
+          keyboardShouldPersistTaps="handled"
+          keyboardDismissMode={Platform.OS === "ios" ? "interactive" : "on-drag"}
+          automaticallyAdjustKeyboardInsets={Platform.OS === "ios"}
+          contentInsetAdjustmentBehavior="automatic"
+          contentContainerStyle={{ ...screenPadding, gap: 14, paddingBottom: scrollBottomPadding }}
+        >
+          <Box style={sectionCardStyle}>
+            <Text className="text-base font-semibold text-typography-900">Essentials</Text>
+            <TextInput
+              editable={!disabled}
+              placeholder="Workout name *"
+              placeholderTextColor={colors.textMuted}
+              value={title}
+              onChangeText={setTitle}
+              style={inputStyle}
+            />
+            <TextInput
+              editable={!disabled}
+              placeholder="Description"
+              placeholderTextColor={colors.textMuted}
+              multiline
+              value={description}
+              onChangeText={setDescription}
+              style={{ ...inputStyle, minHeight: 72, textAlignVertical: "top" }}
+            />
+          </Box>
+
+          <Box style={sectionCardStyle}>
+            <Text className="text-base font-semibold text-typography-900">Blocks</Text>
+            <Text className="text-xs text-typography-500">
+              Blocks run in order in the timer. Leave a field empty to use the exercise default.
+            </Text>
+            {blocks.length === 0 ? (
+              <Text className="text-sm text-typography-500">No exercises added yet.</Text>
+            ) : null}
+            {blocks.map((block, index) => {
+              const item = itemsById.get(block.trainingItemId);
+              return (
+                <Box
+                  key={block.key}
+                  className="rounded-xl p-3 gap-2"
+                  style={{ borderWidth: 1, borderColor: colors.border }}
+                >
+                  <Box className="flex-row items-center gap-2">
+                    <Text className="text-xs font-semibold text-typography-500">{index + 1}</Text>
+                    <Text className="flex-1 text-sm font-semibold text-typography-900">
+                      {item?.title ?? "Exercise"}
+                    </Text>
+                    <Pressable
+                      disabled={disabled || index === 0}
+                      onPress={() => moveBlock(index, -1)}
+                      style={{ padding: 4, opacity: index === 0 ? 0.3 : 1 }}
+                    >
+                      <ArrowUp size={16} color={colors.textSecondary} />
+                    </Pressable>
+                    <Pressable
+                      disabled={disabled || index === blocks.length - 1}
+                      onPress={() => moveBlock(index, 1)}
+                      style={{ padding: 4, opacity: index === blocks.length - 1 ? 0.3 : 1 }}
+                    >
+                      <ArrowDown size={16} color={colors.textSecondary} />
+                    </Pressable>
+                    <Pressable
+                      disabled={disabled}
+                      onPress={() =>
+                        setBlocks((previous) => previous.filter((entry) => entry.key !== block.key))
+                      }
+                      style={{ padding: 4 }}
+                    >
+                      <X size={16} color={colors.textSecondary} />
+                    </Pressable>
+                  </Box>
+                  <Box className="flex-row gap-2">
+                    {(
+                      [
+                        { field: "sets", label: "Sets" },
+                        { field: "reps", label: "Reps" },
+                        { field: "durationSeconds", label: "Work (s)" },
+                        { field: "weight", label: "Load (% BW)" },
+                      ] as const
+                    ).map(({ field, label }) => (
+                      <Box key={field} className="flex-1">
+                        <Text className="text-xs text-typography-500 mb-1">{label}</Text>
+                        <TextInput
+                          editable={!disabled}
+                          placeholder={item?.variables[field]?.toString() ?? "—"}
+                          placeholderTextColor={colors.textMuted}
+                          value={block[field]}
+                          onChangeText={(value) => updateBlock(block.key, { [field]: value })}
+                          keyboardType="numeric"
+                          style={inputStyle}
+                        />
+                      </Box>
+                    ))}
+                  </Box>
+                  <TextInput
+                    editable={!disabled}
+                    placeholder="Block notes"
+                    placeholderTextColor={colors.textMuted}
+                    value={block.notes}
+                    onChangeText={(value) => updateBlock(block.key, { notes: value })}
+                    style={inputStyle}
+                  />
+                </Box>
+              );
+            })}
+            <Pressable onPress={() => !disabled && setShowPicker((previous) => !previous)}>
+              <Box className="flex-row items-center gap-1">
+                <Plus size={14} color={colors.primary} />
+                <Text className="text-sm font-medium" style={{ color: colors.primary }}>
+                  {showPicker ? "Hide exercises" : "Add exercise"}
+                </Text>
+              </Box>
+            </Pressable>
+            {showPicker ? (
+              pickableItems.length === 0 ? (
+                <Text className="text-sm text-typography-500">
+                  Create or save an exercise first.
+                </Text>
+              ) : (
+                <Box className="flex-row flex-wrap gap-2">
+                  {pickableItems.map((item) => (
+                    <Pressable
+                      key={item._id}
+                      onPress={() => {
+                        if (disabled) return;
+                        setBlocks((previous) => [
+                          ...previous,
+                          toBlockDraft({ trainingItemId: item._id, overrides: {} }),
+                        ]);
+                      }}
+                      style={{
+                        paddingHorizontal: 12,
+                        paddingVertical: 8,
+                        borderRadius: 999,
+                        backgroundColor: colors.borderLight,
+                        opacity: disabled ? 0.6 : 1,
+                      }}
+                    >
+                      <Text style={{ color: colors.text, fontSize: 12, fontWeight: "600" }}>
+                        + {item.title}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </Box>
+              )
+            ) : null}
+          </Box>
+        </ScrollView>
+
+        <Box
+          style={{
+            borderTopWidth: 1,
+            borderTopColor: colors.border,
+            backgroundColor: colors.bgCard,
+            paddingHorizontal: 16,
+            paddingTop: 12,
+            paddingBottom: 20,
+            gap: 8,
+          }}
+        >
+          {error ? (
+            <Box className="rounded-xl p-3" style={{ backgroundColor: colors.errorBg }}>
+              <Text className="text-error-600 text-sm">{error}</Text>
+            </Box>
+          ) : null}
+          <Button
+            className="rounded-xl"
+            size="lg"
+            onPress={() => void handleSubmit()}
+            disabled={disabled || isSubmitting}
+          >
+            <ButtonText className="font-semibold">
+              {isSubmitting ? "Saving..." : submitLabel}
+            </ButtonText>
+          </Button>
+        </Box>
+      </Box>
+    </KeyboardAvoidingView>
+  );
+}
+
+export type { WorkoutFormValues };
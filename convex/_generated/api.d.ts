@@ -8,15 +8,35 @@
  * @module
  */
 
+import type * as analytics from "../analytics.js";
 import type * as auth from "../auth.js";
+import type * as benchmarkProtocols from "../benchmarkProtocols.js";
+import type * as benchmarks from "../benchmarks.js";
+import type * as bodyWeight from "../bodyWeight.js";
+import type * as calendarFeed from "../calendarFeed.js";
+import type * as calendarImport from "../calendarImport.js";
+import type * as calendarSessions from "../calendarSessions.js";
 import type * as counter from "../counter.js";
+import type * as dayKeys from "../dayKeys.js";
+import type * as forceCurves from "../forceCurves.js";
 import type * as http from "../http.js";
+import type * as ics from "../ics.js";
+import type * as intervalProtocols from "../intervalProtocols.js";
+import type * as personalRecordRules from "../personalRecordRules.js";
+import type * as personalRecords from "../personalRecords.js";
 import type * as profiles from "../profiles.js";
+import type * as progressionRules from "../progressionRules.js";
+import type * as progressionSuggestions from "../progressionSuggestions.js";
+import type * as rrule from "../rrule.js";
 import type * as savedItems from "../savedItems.js";
+import type * as trainingCategories from "../trainingCategories.js";
 import type * as trainingItems from "../trainingItems.js";
 import type * as trainingLogs from "../trainingLogs.js";
+import type * as trainingPlans from "../trainingPlans.js";
 import type * as trainingSchedule from "../trainingSchedule.js";
 import type * as users from "../users.js";
+import type * as workload from "../workload.js";
+import type * as workoutTemplates from "../workoutTemplates.js";
 
 import type {
   ApiFromModules,
@@ -25,15 +45,35 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  analytics: typeof analytics;
   auth: typeof auth;
+  benchmarkProtocols: typeof benchmarkProtocols;
+  benchmarks: typeof benchmarks;
+  bodyWeight: typeof bodyWeight;
+  calendarFeed: typeof calendarFeed;
+  calendarImport: typeof calendarImport;
+  calendarSessions: typeof calendarSessions;
   counter: typeof counter;
+  dayKeys: typeof dayKeys;
+  forceCurves: typeof forceCurves;
   http: typeof http;
+  ics: typeof ics;
+  intervalProtocols: typeof intervalProtocols;
+  personalRecordRules: typeof personalRecordRules;
+  personalRecords: typeof personalRecords;
   profiles: typeof profiles;
+  progressionRules: typeof progressionRules;
+  progressionSuggestions: typeof progressionSuggestions;
+  rrule: typeof rrule;
   savedItems: typeof savedItems;
+  trainingCategories: typeof trainingCategories;
   trainingItems: typeof trainingItems;
   trainingLogs: typeof trainingLogs;
+  trainingPlans: typeof trainingPlans;
   trainingSchedule: typeof trainingSchedule;
   users: typeof users;
+  workload: typeof workload;
+  workoutTemplates: typeof workoutTemplates;
 }>;
 
 /**
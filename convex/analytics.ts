@@ -0,0 +1,168 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { queryGeneric, type GenericDatabaseReader } from "convex/server";
+import { v } from "convex/values";
+import type { DataModel, Doc } from "./_generated/dataModel";
+import { loadBodyWeightLookup } from "./bodyWeight";
+import { addDays, DAY_MS, dayInTimeZone, startOfWeek } from "./dayKeys";
+import { plannedLoadKg } from "./personalRecordRules";
+import { collectCalendarSessions } from "./calendarSessions";
+import { sessionCategories } from "./trainingCategories";
+
+const MAX_RANGE_WEEKS = 52;
+const MAX_LOAD_TREND_ITEMS = 6;
+// Heaviest load of a log in kg: the added weight entered on the timer when there is one,
+// otherwise the planned weight.
+function logLoadKg(
+  log: Doc<"trainingSessionLogs">,
+  snapshot: { trainingType?: string } | undefined,
+  bodyWeightKg: number | undefined,
+) {
+  if (log.summary.maxAddedWeightKg !== undefined) {
+    return log.summary.maxAddedWeightKg;
+  }
+  return plannedLoadKg(log.planned.weight, snapshot?.trainingType, bodyWeightKg);
+}
+
+export const getTrainingStats = queryGeneric({
+  args: {
+    weeks: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const db: GenericDatabaseReader<DataModel> = ctx.db;
+    const weekCount = Math.max(1, Math.min(MAX_RANGE_WEEKS, Math.floor(args.weeks)));
+    const profile = await db
+      .query("profiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+    const timeZone = profile?.timeZone ?? "UTC";
+    const today = dayInTimeZone(Date.now(), timeZone);
+    const rangeStart = addDays(startOfWeek(today), -(weekCount - 1) * 7);
+
+    const weeks = Array.from({ length: weekCount }, (_, index) => ({
+      weekStart: addDays(rangeStart, index * 7),
+      timeUnderTensionSeconds: 0,
+      completedSets: 0,
+      completedReps: 0,
+      sessionCount: 0,
+    }));
+    const weekFor = (day: number) => weeks[Math.floor((day - rangeStart) / (7 * DAY_MS))];
+
+    // Pad by a day so logs started late in the evening west of UTC are not cut off.
+    const logs = await db
+      .query("trainingSessionLogs")
+      .withIndex("by_owner_started_at", (q) =>
+        q.eq("ownerId", userId).gte("startedAt", rangeStart - DAY_MS),
+      )
+      .collect();
+    const bodyWeightOn = await loadBodyWeightLookup(ctx, userId, profile?.bodyWeightKg);
+    const sessionsById = new Map<string, Doc<"trainingScheduleSessions"> | null>();
+    const climbTotals = new Map<
+      string,
+      { discipline: "boulder" | "rope"; grade: string; sends: number; attempts: number }
+    >();
+    const loadByItem = new Map<
+      string,
+      { trainingItemId: string; title: string; logCount: number; points: Map<number, number> }
+    >();
+    for (const log of logs) {
+      const day = dayInTimeZone(log.startedAt, timeZone);
+      const week = day >= rangeStart && day <= today ? weekFor(day) : undefined;
+      if (!week) continue;
+      week.timeUnderTensionSeconds += Math.round(log.summary.totalRepDurationMs / 1000);
+      week.completedSets += log.summary.completedSets;
+      week.completedReps += log.summary.completedReps;
+      for (const climb of log.climbs ?? []) {
+        const climbKey = `${climb.discipline}:${climb.grade}`;
+        const totals = climbTotals.get(climbKey) ?? {
+          discipline: climb.discipline,
+          grade: climb.grade,
+          sends: 0,
+          attempts: 0,
+        };
+        if (climb.style !== "attempt") totals.sends += 1;
+        totals.attempts += climb.attempts;
+        climbTotals.set(climbKey, totals);
+      }
+
+      const sessionKey = String(log.scheduleSessionId);
+      if (!sessionsById.has(sessionKey)) {
+        sessionsById.set(sessionKey, await db.get(log.scheduleSessionId));
+      }
+      const session = sessionsById.get(sessionKey);
+      const snapshot = session?.workout
+        ? session.workout.blocks[log.blockIndex ?? 0]?.snapshot
+        : session?.snapshot;
+      const loadKg = logLoadKg(log, snapshot, log.bodyWeightKg ?? bodyWeightOn(day));
+      if (loadKg === undefined) continue;
+      const itemKey = String(log.trainingItemId);
+      const trend = loadByItem.get(itemKey) ?? {
+        trainingItemId: itemKey,
+        title: snapshot?.title ?? "Exercise",
+        logCount: 0,
+        points: new Map<number, number>(),
+      };
+      trend.logCount += 1;
+      trend.points.set(day, Math.max(trend.points.get(day) ?? loadKg, loadKg));
+      loadByItem.set(itemKey, trend);
+    }
+
+    const sessions = await collectCalendarSessions(ctx, userId, rangeStart, today);
+    const categoryCounts = new Map<string, number>();
+    let scheduled = 0;
+    let completed = 0;
+    let missed = 0;
+    for (const session of sessions) {
+      scheduled += 1;
+      if (!session.completedAt) {
+        if (session.scheduledFor < today) missed += 1;
+        continue;
+      }
+      completed += 1;
+      const week = weekFor(session.scheduledFor);
+      if (week) week.sessionCount += 1;
+      for (const category of sessionCategories(session)) {
+        categoryCounts.set(category, (categoryCounts.get(category) ?? 0) + 1);
+      }
+    }
+    const canceledSessions = await db
+      .query("trainingScheduleSessions")
+      .withIndex("by_owner_scheduled_for", (q) =>
+        q.eq("ownerId", userId).gte("scheduledFor", rangeStart).lte("scheduledFor", today),
+      )
+      .filter((q) => q.neq(q.field("canceledAt"), undefined))
+      .collect();
+
+    return {
+      rangeStart,
+      rangeEnd: today,
+      weeks,
+      categories: Array.from(categoryCounts, ([category, sessionCount]) => ({
+        category,
+        sessionCount,
+      })).sort((a, b) => b.sessionCount - a.sessionCount),
+      adherence: {
+        scheduled,
+        completed,
+        missed,
+        canceled: canceledSessions.length,
+      },
+      loadTrends: Array.from(loadByItem.values())
+        .sort((a, b) => b.logCount - a.logCount)
+        .slice(0, MAX_LOAD_TREND_ITEMS)
+        .map((trend) => ({
+          trainingItemId: trend.trainingItemId,
+          title: trend.title,
+          points: Array.from(trend.points, ([day, loadKg]) => ({ day, loadKg })).sort(
+            (a, b) => a.day - b.day,
+          ),
+        })),
+      // Sends and attempts per grade; the app orders them into pyramids.
+      climbs: Array.from(climbTotals.values()),
+    };
+  },
+});
@@ -0,0 +1,128 @@
+// Finger strength benchmark tests. Each protocol is run through the timer like any other
+// session; these definitions set up its exercise and turn the logged reps into a score.
+// Shared by the server and the app.
+
+export type BenchmarkProtocol = "max_hang_10s" | "repeaters_7_3" | "critical_force";
+
+export const BENCHMARK_PROTOCOLS: Record<
+  BenchmarkProtocol,
+  {
+    title: string;
+    summary: string;
+    instructions: string;
+    variables: {
+      sets: number;
+      reps: number;
+      durationSeconds: number;
+      restSeconds: number;
+      restBetweenSetsSeconds: number;
+    };
+  }
+> = {
+  max_hang_10s: {
+    title: "10 s max hang",
+    summary: "Heaviest 10 second hang on a 20 mm edge, half crimp.",
+    instructions:
+      "Warm up first. Do three attempts and enter the added weight after each one; mark an " +
+      "attempt failed if you came off before 10 seconds.",
+    variables: {
+      sets: 3,
+      reps: 1,
+      durationSeconds: 10,
+      restSeconds: 180,
+      restBetweenSetsSeconds: 180,
+    },
+  },
+  repeaters_7_3: {
+    title: "7:3 repeaters",
+    summary: "7 s on, 3 s off at bodyweight on a 20 mm edge until failure.",
+    instructions: "Hang at bodyweight and stop the timer as soon as you cannot hold a rep.",
+    variables: {
+      sets: 1,
+      reps: 60,
+      durationSeconds: 7,
+      restSeconds: 3,
+      restBetweenSetsSeconds: 3,
+    },
+  },
+  critical_force: {
+    title: "Critical force",
+    summary: "24 all-out 7:3 pulls on a 20 mm edge; the last six set your critical force.",
+    instructions:
+      "Pull as hard as you can on every rep and keep the load entered on the timer current " +
+      "as you back off, using a pulley or a force sensor.",
+    variables: {
+      sets: 1,
+      reps: 24,
+      durationSeconds: 7,
+      restSeconds: 3,
+      restBetweenSetsSeconds: 3,
+    },
+  },
+};
+
+export const BENCHMARK_EDGE_MM = 20 as const;
+
+// A hang stopped this close to the planned time still counts as held.
+const HOLD_TOLERANCE_MS = 500;
+const CRITICAL_FORCE_REPS = 6;
+
+type BenchmarkStep = {
+  kind: string;
+  plannedDurationSeconds?: number;
+  actualDurationMs: number;
+  addedWeightKg?: number;
+  failed?: boolean;
+};
+
+export type BenchmarkScore = {
+  // Total load on the fingers: bodyweight plus added weight.
+  loadKg?: number;
+  strengthToWeight?: number;
+  hangSeconds: number;
+  completedReps: number;
+};
+
+function roundTo(value: number, stepsPerUnit: number) {
+  return Math.round(value * stepsPerUnit) / stepsPerUnit;
+}
+
+// Null when the log does not hold a valid attempt, e.g. every max hang failed.
+export function scoreBenchmark(
+  protocol: BenchmarkProtocol,
+  steps: BenchmarkStep[],
+  bodyWeightKg: number,
+): BenchmarkScore | null {
+  const reps = steps.filter((step) => step.kind === "rep");
+  const heldReps = reps.filter(
+    (step) =>
+      !step.failed &&
+      step.actualDurationMs >= (step.plannedDurationSeconds ?? 0) * 1000 - HOLD_TOLERANCE_MS,
+  );
+  const hangSeconds = roundTo(
+    heldReps.reduce((total, step) => total + step.actualDurationMs, 0) / 1000,
+    10,
+  );
+  const completedReps = heldReps.length;
+  const loadOf = (step: BenchmarkStep) => bodyWeightKg + (step.addedWeightKg ?? 0);
+
+  let loadKg: number | undefined;
+  if (protocol === "max_hang_10s") {
+    if (heldReps.length === 0) return null;
+    loadKg = Math.max(...heldReps.map(loadOf));
+  } else if (protocol === "critical_force") {
+    // The mean of the last pulls once the athlete has fatigued down to a steady force.
+    const lastReps = reps.slice(-CRITICAL_FORCE_REPS);
+    if (reps.length < CRITICAL_FORCE_REPS * 2) return null;
+    loadKg = lastReps.reduce((total, step) => total + loadOf(step), 0) / lastReps.length;
+  } else if (completedReps === 0) {
+    return null;
+  }
+
+  return {
+    loadKg: loadKg !== undefined ? roundTo(loadKg, 10) : undefined,
+    strengthToWeight: loadKg !== undefined ? roundTo(loadKg / bodyWeightKg, 100) : undefined,
+    hangSeconds,
+    completedReps,
+  };
+}
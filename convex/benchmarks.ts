@@ -0,0 +1,162 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { mutationGeneric, queryGeneric } from "convex/server";
+import { v } from "convex/values";
+import {
+  BENCHMARK_EDGE_MM,
+  BENCHMARK_PROTOCOLS,
+  scoreBenchmark,
+  type BenchmarkProtocol,
+} from "./benchmarkProtocols";
+import { bodyWeightForLog } from "./bodyWeight";
+import { getUserToday } from "./dayKeys";
+import { resolveScheduleTarget } from "./trainingSchedule";
+
+const benchmarkProtocolValidator = v.union(
+  v.literal("max_hang_10s"),
+  v.literal("repeaters_7_3"),
+  v.literal("critical_force"),
+);
+
+const MAX_RESULTS = 200;
+
+// Each user gets one hidden exercise per protocol so logs and records have an item to
+// point at. It is refreshed when the protocol definition changes.
+async function ensureBenchmarkItem(ctx: any, userId: any, protocol: BenchmarkProtocol) {
+  const definition = BENCHMARK_PROTOCOLS[protocol];
+  const fields = {
+    title: `Benchmark: ${definition.title}`,
+    description: `${definition.summary} ${definition.instructions}`,
+    categories: ["finger-strength"],
+    tags: ["benchmark"],
+    variables: definition.variables,
+    trainingType: "hang" as const,
+    hangDetails: {
+      apparatus: "fingerboard" as const,
+      edgeSizeMm: BENCHMARK_EDGE_MM,
+      crimpType: "half" as const,
+    },
+    difficulty: "intermediate" as const,
+    equipment: ["fingerboard"],
+  };
+
+  const items = await ctx.db
+    .query("trainingItems")
+    .withIndex("by_owner_updated_at", (q: any) => q.eq("ownerId", userId))
+    .collect();
+  const existing = items.find((item: any) => item.benchmarkProtocol === protocol);
+  const now = Date.now();
+  if (existing) {
+    await ctx.db.patch(existing._id, { ...fields, updatedAt: now });
+    return existing._id;
+  }
+  return await ctx.db.insert("trainingItems", {
+    ...fields,
+    ownerId: userId,
+    status: "draft",
+    benchmarkProtocol: protocol,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+// Stores the score of a finished benchmark log, replacing an earlier score for the same log
+// so editing step details afterwards keeps it current.
+export async function updateBenchmarkResult(ctx: any, log: any, session: any) {
+  const protocol = session?.benchmarkProtocol as BenchmarkProtocol | undefined;
+  if (!protocol) {
+    return null;
+  }
+  const previous = await ctx.db
+    .query("benchmarkResults")
+    .withIndex("by_log", (q: any) => q.eq("logId", log._id))
+    .first();
+  const bodyWeightKg = previous?.bodyWeightKg ?? (await bodyWeightForLog(ctx, log));
+  const score = bodyWeightKg ? scoreBenchmark(protocol, log.steps, bodyWeightKg) : null;
+
+  if (!score) {
+    if (previous) {
+      await ctx.db.delete(previous._id);
+    }
+    return null;
+  }
+  if (previous) {
+    await ctx.db.patch(previous._id, score);
+    return previous._id;
+  }
+  return await ctx.db.insert("benchmarkResults", {
+    ownerId: log.ownerId,
+    protocol,
+    scheduleSessionId: session._id,
+    logId: log._id,
+    bodyWeightKg,
+    ...score,
+    testedAt: log.endedAt ?? Date.now(),
+    createdAt: Date.now(),
+  });
+}
+
+export const startBenchmark = mutationGeneric({
+  args: {
+    protocol: benchmarkProtocolValidator,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const profile = await ctx.db
+      .query("profiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+    if (!profile?.bodyWeightKg) {
+      throw new Error("Add your body weight to your profile before running a benchmark.");
+    }
+
+    const trainingItemId = await ensureBenchmarkItem(ctx, userId, args.protocol);
+    const target = await resolveScheduleTarget(ctx, userId, { trainingItemId });
+    const now = Date.now();
+    const sessionId = await ctx.db.insert("trainingScheduleSessions", {
+      ownerId: userId,
+      trainingItemId: target.trainingItemId,
+      isImpromptu: true,
+      recurrenceRuleId: undefined,
+      scheduledFor: await getUserToday(ctx, userId),
+      completedAt: undefined,
+      canceledAt: undefined,
+      snapshot: target.snapshot,
+      overrides: target.overrides,
+      workout: undefined,
+      notes: undefined,
+      benchmarkProtocol: args.protocol,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return await ctx.db.get(sessionId);
+  },
+});
+
+export const listMyBenchmarkResults = queryGeneric({
+  args: {
+    protocol: v.optional(benchmarkProtocolValidator),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const protocol = args.protocol;
+    const results = protocol
+      ? ctx.db
+          .query("benchmarkResults")
+          .withIndex("by_owner_protocol_tested_at", (q: any) =>
+            q.eq("ownerId", userId).eq("protocol", protocol),
+          )
+      : ctx.db
+          .query("benchmarkResults")
+          .withIndex("by_owner_tested_at", (q) => q.eq("ownerId", userId));
+    return await results.order("desc").take(MAX_RESULTS);
+  },
+});
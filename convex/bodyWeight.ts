@@ -0,0 +1,167 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { mutationGeneric, queryGeneric } from "convex/server";
+import { v } from "convex/values";
+import { dayInTimeZone, getUserToday, startOfDay } from "./dayKeys";
+
+const MIN_BODY_WEIGHT_KG = 20;
+const MAX_BODY_WEIGHT_KG = 400;
+const MAX_HISTORY = 365;
+
+async function loadProfile(ctx: any, userId: any) {
+  return await ctx.db
+    .query("profiles")
+    .withIndex("by_user_id", (q: any) => q.eq("userId", userId))
+    .first();
+}
+
+// Keeps profiles.bodyWeightKg equal to the latest entry; it is the weight used for
+// sessions that have not happened yet.
+async function syncProfileBodyWeight(ctx: any, userId: any) {
+  const profile = await loadProfile(ctx, userId);
+  const latest = await ctx.db
+    .query("bodyWeightEntries")
+    .withIndex("by_owner_day", (q: any) => q.eq("ownerId", userId))
+    .order("desc")
+    .first();
+  if (profile && latest && profile.bodyWeightKg !== latest.weightKg) {
+    await ctx.db.patch(profile._id, { bodyWeightKg: latest.weightKg, updatedAt: Date.now() });
+  }
+}
+
+// Entries keep one decimal, so unit conversions do not read as a new weight.
+export function roundBodyWeight(weightKg: number): number {
+  return Math.round(weightKg * 10) / 10;
+}
+
+// One entry per day; logging again on the same day replaces it.
+export async function recordBodyWeight(ctx: any, userId: any, weightKg: number, day: number) {
+  if (!(weightKg >= MIN_BODY_WEIGHT_KG && weightKg <= MAX_BODY_WEIGHT_KG)) {
+    throw new Error(
+      `Body weight must be between ${MIN_BODY_WEIGHT_KG} and ${MAX_BODY_WEIGHT_KG} kg.`,
+    );
+  }
+  const roundedKg = roundBodyWeight(weightKg);
+  const now = Date.now();
+  const existing = await ctx.db
+    .query("bodyWeightEntries")
+    .withIndex("by_owner_day", (q: any) => q.eq("ownerId", userId).eq("day", day))
+    .first();
+  let entryId = existing?._id;
+  if (existing) {
+    await ctx.db.patch(existing._id, { weightKg: roundedKg, updatedAt: now });
+  } else {
+    entryId = await ctx.db.insert("bodyWeightEntries", {
+      ownerId: userId,
+      day,
+      weightKg: roundedKg,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+  await syncProfileBodyWeight(ctx, userId);
+  return await ctx.db.get(entryId);
+}
+
+// Body weight in effect on a day, from one read of the user's history. Days before the
+// first entry use the earliest known weight; users without history fall back to the profile.
+export async function loadBodyWeightLookup(ctx: any, userId: any, fallbackKg?: number) {
+  const entries = await ctx.db
+    .query("bodyWeightEntries")
+    .withIndex("by_owner_day", (q: any) => q.eq("ownerId", userId))
+    .collect();
+  return (day: number): number | undefined => {
+    let weightKg: number | undefined = entries[0]?.weightKg;
+    for (const entry of entries) {
+      if (entry.day > day) break;
+      weightKg = entry.weightKg;
+    }
+    return weightKg ?? fallbackKg;
+  };
+}
+
+// The body weight a log was done at: captured when it started, or looked up for logs
+// recorded before the history existed.
+export async function bodyWeightForLog(ctx: any, log: any): Promise<number | undefined> {
+  if (log.bodyWeightKg !== undefined) {
+    return log.bodyWeightKg;
+  }
+  const profile = await loadProfile(ctx, log.ownerId);
+  const lookup = await loadBodyWeightLookup(ctx, log.ownerId, profile?.bodyWeightKg);
+  return lookup(dayInTimeZone(log.startedAt, profile?.timeZone ?? "UTC"));
+}
+
+// The lookup above with the profile weight as the fallback.
+export async function loadUserBodyWeightLookup(ctx: any, userId: any) {
+  const profile = await loadProfile(ctx, userId);
+  return await loadBodyWeightLookup(ctx, userId, profile?.bodyWeightKg);
+}
+
+export async function bodyWeightAt(ctx: any, userId: any, instant: number) {
+  const profile = await loadProfile(ctx, userId);
+  const lookup = await loadBodyWeightLookup(ctx, userId, profile?.bodyWeightKg);
+  return lookup(dayInTimeZone(instant, profile?.timeZone ?? "UTC"));
+}
+
+export const listMyBodyWeight = queryGeneric({
+  args: {
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const limit = Math.max(1, Math.min(MAX_HISTORY, Math.floor(args.limit ?? 90)));
+    return await ctx.db
+      .query("bodyWeightEntries")
+      .withIndex("by_owner_day", (q) => q.eq("ownerId", userId))
+      .order("desc")
+      .take(limit);
+  },
+});
+
+export const logBodyWeight = mutationGeneric({
+  args: {
+    weightKg: v.number(),
+    // Defaults to today in the user's time zone.
+    day: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const today = await getUserToday(ctx, userId);
+    const day = args.day !== undefined ? startOfDay(args.day) : today;
+    if (day > today) {
+      throw new Error("Body weight cannot be logged for a future day.");
+    }
+    return await recordBodyWeight(ctx, userId, args.weightKg, day);
+  },
+});
+
+export const removeBodyWeightEntry = mutationGeneric({
+  args: {
+    entryId: v.id("bodyWeightEntries"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const entry = await ctx.db.get(args.entryId);
+    if (!entry) {
+      throw new Error("Body weight entry not found.");
+    }
+    if (entry.ownerId !== userId) {
+      throw new Error("Forbidden");
+    }
+
+    await ctx.db.delete(args.entryId);
+    await syncProfileBodyWeight(ctx, userId);
+    return null;
+  },
+});
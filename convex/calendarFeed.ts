@@ -0,0 +1,140 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internalQueryGeneric, mutationGeneric, queryGeneric } from "convex/server";
+import { v } from "convex/values";
+import { buildIcsCalendar } from "./ics";
+import { addDays, getUserToday, startOfDay } from "./dayKeys";
+import { collectCalendarSessions } from "./calendarSessions";
+
+const FEED_PAST_DAYS = 60;
+const FEED_FUTURE_DAYS = 180;
+const MAX_EXPORT_DAYS = 366;
+
+function generateToken(): string {
+  const bytes = new Uint8Array(24);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function feedUrl(token: string): string | null {
+  const siteUrl = process.env.CONVEX_SITE_URL;
+  return siteUrl ? `${siteUrl}/calendar.ics?token=${token}` : null;
+}
+
+function uidDomain(): string {
+  const siteUrl = process.env.CONVEX_SITE_URL;
+  return siteUrl ? new URL(siteUrl).host : "training.local";
+}
+
+async function getOwnerFeedTokens(ctx: any, ownerId: any) {
+  return await ctx.db
+    .query("calendarFeedTokens")
+    .withIndex("by_owner", (q: any) => q.eq("ownerId", ownerId))
+    .collect();
+}
+
+export const getMyFeed = queryGeneric({
+  handler: async (ctx) => {
+    const ownerId = await getAuthUserId(ctx);
+    if (!ownerId) {
+      return null;
+    }
+
+    const [feed] = await getOwnerFeedTokens(ctx, ownerId);
+    if (!feed) {
+      return null;
+    }
+    return {
+      createdAt: feed.createdAt,
+      url: feedUrl(feed.token),
+    };
+  },
+});
+
+// Creating a new feed link revokes the previous one.
+export const rotateFeedToken = mutationGeneric({
+  handler: async (ctx) => {
+    const ownerId = await getAuthUserId(ctx);
+    if (!ownerId) {
+      throw new Error("Unauthorized");
+    }
+
+    const existing = await getOwnerFeedTokens(ctx, ownerId);
+    await Promise.all(existing.map((feed: any) => ctx.db.delete(feed._id)));
+
+    const token = generateToken();
+    await ctx.db.insert("calendarFeedTokens", {
+      ownerId,
+      token,
+      createdAt: Date.now(),
+    });
+    return { url: feedUrl(token) };
+  },
+});
+
+export const revokeFeedToken = mutationGeneric({
+  handler: async (ctx) => {
+    const ownerId = await getAuthUserId(ctx);
+    if (!ownerId) {
+      throw new Error("Unauthorized");
+    }
+
+    const existing = await getOwnerFeedTokens(ctx, ownerId);
+    await Promise.all(existing.map((feed: any) => ctx.db.delete(feed._id)));
+    return { success: true };
+  },
+});
+
+export const getFeedCalendar = internalQueryGeneric({
+  args: {
+    token: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const feed = await ctx.db
+      .query("calendarFeedTokens")
+      .withIndex("by_token", (q) => q.eq("token", args.token))
+      .first();
+    if (!feed) {
+      return null;
+    }
+
+    const today = await getUserToday(ctx, feed.ownerId);
+    const sessions = await collectCalendarSessions(
+      ctx,
+      feed.ownerId,
+      addDays(today, -FEED_PAST_DAYS),
+      addDays(today, FEED_FUTURE_DAYS),
+    );
+    return buildIcsCalendar(sessions, {
+      calendarName: "Training",
+      uidDomain: uidDomain(),
+    });
+  },
+});
+
+export const exportRangeAsIcs = queryGeneric({
+  args: {
+    rangeStart: v.number(),
+    rangeEnd: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const ownerId = await getAuthUserId(ctx);
+    if (!ownerId) {
+      throw new Error("Unauthorized");
+    }
+
+    const rangeStart = startOfDay(args.rangeStart);
+    const rangeEnd = startOfDay(args.rangeEnd);
+    if (rangeEnd < rangeStart) {
+      throw new Error("Export range end must be after its start.");
+    }
+    if (rangeEnd > addDays(rangeStart, MAX_EXPORT_DAYS)) {
+      throw new Error(`Exports can cover at most ${MAX_EXPORT_DAYS} days.`);
+    }
+
+    const sessions = await collectCalendarSessions(ctx, ownerId, rangeStart, rangeEnd);
+    return buildIcsCalendar(sessions, {
+      calendarName: "Training",
+      uidDomain: uidDomain(),
+    });
+  },
+});
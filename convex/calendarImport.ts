@@ -0,0 +1,296 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { mutationGeneric, queryGeneric } from "convex/server";
+import { v } from "convex/values";
+import { parseIcsEvents, resolveIcsDateTime, type ParsedIcsEvent } from "./ics";
+import { formatRRule, parseRRule, type ParsedRRule } from "./rrule";
+import { addDays, DAY_MS } from "./dayKeys";
+import { insertRecurringSeries, insertScheduledSession } from "./trainingSchedule";
+
+const MAX_IMPORT_EVENTS = 1000;
+const MAX_NOTES_LENGTH = 2000;
+// Sessions last at most 12 hours; longer events keep their start time only.
+const MAX_DURATION_MINUTES = 12 * 60;
+
+const mappingValidator = v.object({
+  title: v.string(),
+  trainingItemId: v.optional(v.id("trainingItems")),
+});
+
+type ImportEntry = {
+  uid: string;
+  title: string;
+  notes?: string;
+  startDate: number;
+  startMinutes?: number;
+  durationMinutes?: number;
+  recurrence?: {
+    frequency: "daily" | "weekly" | "monthly" | "yearly";
+    interval: number;
+    rrule: string;
+    exdates?: number[];
+    rdates?: number[];
+  };
+  error?: string;
+};
+
+function titleKey(title: string): string {
+  return title.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function parseCalendar(ics: string): ParsedIcsEvent[] {
+  let events: ParsedIcsEvent[];
+  try {
+    events = parseIcsEvents(ics);
+  } catch (error) {
+    throw new Error(
+      error instanceof Error ? `Could not read calendar: ${error.message}` : "Invalid calendar.",
+    );
+  }
+  if (events.length === 0) {
+    throw new Error("No events found in this calendar.");
+  }
+  if (events.length > MAX_IMPORT_EVENTS) {
+    throw new Error(`Calendars can contain at most ${MAX_IMPORT_EVENTS} events per import.`);
+  }
+  return events;
+}
+
+// A series written in another zone can start on a different day in the user's. Plain
+// weekdays and UNTIL move along with it; day-of-month and ordinal patterns cannot.
+function shiftRRule(rule: ParsedRRule, days: number): ParsedRRule {
+  if (days === 0) {
+    return rule;
+  }
+  if (
+    rule.byMonthDay?.length ||
+    rule.byMonth?.length ||
+    rule.bySetPos?.length ||
+    rule.byDay?.some((entry) => entry.ordinal !== undefined)
+  ) {
+    throw new Error("this series falls on different days in your time zone.");
+  }
+  return {
+    ...rule,
+    until: rule.until !== undefined ? addDays(rule.until, days) : undefined,
+    byDay: rule.byDay?.map((entry) => ({ weekday: (entry.weekday + days + 7) % 7 })),
+  };
+}
+
+// Times are placed in the user's time zone, which can move an evening event to the next
+// day. Edited instances of a recurring event become single sessions and are removed from
+// their series; canceled instances only remove the date. Series whose RRULE uses parts the
+// evaluator does not support are flagged and skipped rather than imported as a broader rule.
+function buildImportEntries(events: ParsedIcsEvent[], timeZone: string): ImportEntry[] {
+  const dayOf = (value: ParsedIcsEvent["start"]) => resolveIcsDateTime(value, timeZone).day;
+  const overriddenDates = new Map<string, number[]>();
+  for (const event of events) {
+    if (event.recurrenceId === undefined) continue;
+    overriddenDates.set(event.uid, [
+      ...(overriddenDates.get(event.uid) ?? []),
+      dayOf(event.recurrenceId),
+    ]);
+  }
+
+  const entries: ImportEntry[] = [];
+  for (const event of events) {
+    if (event.canceled) continue;
+
+    const start = resolveIcsDateTime(event.start, timeZone);
+    const base = {
+      title: event.summary,
+      notes: event.description?.slice(0, MAX_NOTES_LENGTH),
+      startDate: start.day,
+      startMinutes: start.startMinutes,
+      durationMinutes:
+        event.durationMinutes !== undefined && event.durationMinutes <= MAX_DURATION_MINUTES
+          ? event.durationMinutes
+          : undefined,
+    };
+    if (event.recurrenceId !== undefined) {
+      // Keyed by the written date, so the key does not depend on the user's zone.
+      entries.push({
+        ...base,
+        uid: `${event.uid}#${event.recurrenceId.date}`,
+      });
+      continue;
+    }
+    if (!event.rrule) {
+      entries.push({ ...base, uid: event.uid });
+      continue;
+    }
+
+    try {
+      const parsed = shiftRRule(
+        parseRRule(event.rrule),
+        Math.round((start.day - event.start.date) / DAY_MS),
+      );
+      const exdates = [
+        ...event.exdates.map(dayOf),
+        ...(overriddenDates.get(event.uid) ?? []),
+      ];
+      entries.push({
+        ...base,
+        uid: event.uid,
+        recurrence: {
+          frequency: parsed.freq.toLowerCase() as "daily" | "weekly" | "monthly" | "yearly",
+          interval: parsed.interval,
+          rrule: formatRRule(parsed),
+          exdates: exdates.length > 0 ? exdates : undefined,
+          rdates: event.rdates.length > 0 ? event.rdates.map(dayOf) : undefined,
+        },
+      });
+    } catch (error) {
+      entries.push({
+        ...base,
+        uid: event.uid,
+        error: `Skipped: ${error instanceof Error ? error.message : "unsupported recurrence."}`,
+      });
+    }
+  }
+  return entries;
+}
+
+async function listSchedulableItems(ctx: any, userId: any) {
+  const ownItems = await ctx.db
+    .query("trainingItems")
+    .withIndex("by_owner_updated_at", (q: any) => q.eq("ownerId", userId))
+    .collect();
+  const saved = await ctx.db
+    .query("savedItems")
+    .withIndex("by_user_created_at", (q: any) => q.eq("userId", userId))
+    .collect();
+  const savedItems = await Promise.all(saved.map((entry: any) => ctx.db.get(entry.itemId)));
+  return [
+    ...ownItems.filter((item: any) => !item.benchmarkProtocol),
+    ...savedItems.filter(Boolean),
+  ];
+}
+
+async function loadUserTimeZone(ctx: any, userId: any): Promise<string> {
+  const profile = await ctx.db
+    .query("profiles")
+    .withIndex("by_user_id", (q: any) => q.eq("userId", userId))
+    .first();
+  return profile?.timeZone ?? "UTC";
+}
+
+async function isAlreadyImported(ctx: any, userId: any, entry: ImportEntry) {
+  const table = entry.recurrence ? "trainingScheduleRecurrenceRules" : "trainingScheduleSessions";
+  const existing = await ctx.db
+    .query(table)
+    .withIndex("by_owner_import_uid", (q: any) =>
+      q.eq("ownerId", userId).eq("importUid", entry.uid),
+    )
+    .first();
+  return existing !== null;
+}
+
+export const previewIcsImport = queryGeneric({
+  args: {
+    ics: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const entries = buildImportEntries(
+      parseCalendar(args.ics),
+      await loadUserTimeZone(ctx, userId),
+    );
+    const items = await listSchedulableItems(ctx, userId);
+    const itemIdByTitle = new Map<string, string>();
+    for (const item of items) {
+      if (!itemIdByTitle.has(titleKey(item.title))) {
+        itemIdByTitle.set(titleKey(item.title), item._id);
+      }
+    }
+
+    const titles = new Map<
+      string,
+      { title: string; eventCount: number; suggestedItemId?: string }
+    >();
+    const events = [];
+    for (const entry of entries) {
+      const key = titleKey(entry.title);
+      const group = titles.get(key) ?? {
+        title: entry.title,
+        eventCount: 0,
+        suggestedItemId: itemIdByTitle.get(key),
+      };
+      group.eventCount += 1;
+      titles.set(key, group);
+      events.push({
+        uid: entry.uid,
+        title: entry.title,
+        startDate: entry.startDate,
+        rrule: entry.recurrence?.rrule,
+        error: entry.error,
+        alreadyImported: await isAlreadyImported(ctx, userId, entry),
+      });
+    }
+
+    return {
+      titles: Array.from(titles.values()).sort((a, b) => b.eventCount - a.eventCount),
+      events: events.sort((a, b) => a.startDate - b.startDate),
+    };
+  },
+});
+
+export const importIcsEvents = mutationGeneric({
+  args: {
+    ics: v.string(),
+    mappings: v.array(mappingValidator),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const itemIdByTitle = new Map<string, any>();
+    for (const mapping of args.mappings) {
+      if (mapping.trainingItemId) {
+        itemIdByTitle.set(titleKey(mapping.title), mapping.trainingItemId);
+      }
+    }
+
+    let sessionCount = 0;
+    let seriesCount = 0;
+    let skippedCount = 0;
+    const timeZone = await loadUserTimeZone(ctx, userId);
+    for (const entry of buildImportEntries(parseCalendar(args.ics), timeZone)) {
+      const trainingItemId = itemIdByTitle.get(titleKey(entry.title));
+      if (!trainingItemId || entry.error || (await isAlreadyImported(ctx, userId, entry))) {
+        skippedCount += 1;
+        continue;
+      }
+
+      if (entry.recurrence) {
+        await insertRecurringSeries(ctx, userId, {
+          trainingItemId,
+          startDate: entry.startDate,
+          startMinutes: entry.startMinutes,
+          durationMinutes: entry.durationMinutes,
+          recurrence: entry.recurrence,
+          notes: entry.notes,
+          importUid: entry.uid,
+        });
+        seriesCount += 1;
+      } else {
+        await insertScheduledSession(ctx, userId, {
+          trainingItemId,
+          scheduledFor: entry.startDate,
+          startMinutes: entry.startMinutes,
+          durationMinutes: entry.durationMinutes,
+          notes: entry.notes,
+          importUid: entry.uid,
+        });
+        sessionCount += 1;
+      }
+    }
+
+    return { sessionCount, seriesCount, skippedCount };
+  },
+});
@@ -0,0 +1,253 @@
+import {
+  addDays,
+  DAY_MS,
+  startOfDay,
+  startOfWeek,
+  timestampToDayKey,
+} from "./dayKeys";
+import {
+  expandRecurrence,
+  lastRecurrenceDay,
+  occursInRecurrence,
+  type RecurrenceLike,
+} from "./rrule";
+
+// Recurring rules expanded into the sessions they put on the calendar. Kept apart from the
+// schedule mutations so workload and analytics can read the calendar without importing them.
+
+function ruleDateKey(ruleId: string, scheduledFor: number): string {
+  return `${ruleId}:${scheduledFor}`;
+}
+
+export function occursOnDate(
+  rule: {
+    startDate: number;
+    recurrence: RecurrenceLike;
+  },
+  dateTimestamp: number,
+): boolean {
+  return occursInRecurrence(rule.startDate, rule.recurrence, startOfDay(dateTimestamp));
+}
+
+// Index of the first day in a sorted list that is not before `day`.
+function firstDayIndexFrom(days: number[], day: number): number {
+  let low = 0;
+  let high = days.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (days[middle] < day) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+// Sorted occurrence days of a rule, from its progression anchor when it has one so
+// session-based steps can be counted from the same list.
+export function expandRuleOccurrences(rule: any, from: number, to: number): number[] {
+  const anchor = rule.progression
+    ? startOfDay(rule.progression.anchorDate ?? rule.startDate)
+    : from;
+  return expandRecurrence(rule.startDate, rule.recurrence, Math.min(anchor, from), to);
+}
+
+// Steps count from the anchor (or the start of the current cycle). The last week of
+// a cycle is the deload week when a deload factor is set; the next cycle starts over.
+function progressVariables(
+  rule: any,
+  scheduledFor: number,
+  overrides: any,
+  baseVariables: any,
+  sessionIndex: () => number,
+) {
+  const progression = rule.progression;
+  const anchor = startOfDay(progression.anchorDate ?? rule.startDate);
+  const weeksSinceAnchor = Math.round(
+    (startOfWeek(scheduledFor) - startOfWeek(anchor)) / (7 * DAY_MS),
+  );
+  const weekInCycle = progression.cycleWeeks
+    ? weeksSinceAnchor % progression.cycleWeeks
+    : weeksSinceAnchor;
+
+  const base = (variable: string) => overrides[variable] ?? baseVariables?.[variable];
+  if (
+    progression.deloadLoadFactor !== undefined &&
+    progression.cycleWeeks &&
+    weekInCycle === progression.cycleWeeks - 1
+  ) {
+    const weight = base("weight");
+    return {
+      ...overrides,
+      weight:
+        weight !== undefined
+          ? Number((weight * progression.deloadLoadFactor).toFixed(2))
+          : undefined,
+    };
+  }
+
+  const next = { ...overrides };
+  for (const step of progression.steps) {
+    const value = base(step.variable);
+    if (value === undefined) {
+      continue;
+    }
+    const count = step.unit === "week" ? weekInCycle : sessionIndex();
+    const progressed = value + step.amount * Math.floor(count / step.every);
+    next[step.variable] =
+      step.variable === "weight"
+        ? Math.max(0, Number(progressed.toFixed(2)))
+        : Math.max(1, Math.round(progressed));
+  }
+  return next;
+}
+
+// Overrides (and workout blocks) a rule occurrence carries on the given date. Callers
+// resolving many dates pass the rule's expanded occurrences (see expandRuleOccurrences).
+export function resolveRuleOccurrence(
+  rule: any,
+  scheduledFor: number,
+  occurrenceDays?: number[],
+) {
+  const overrides = rule.defaultOverrides ?? {};
+  const date = startOfDay(scheduledFor);
+  const anchor = startOfDay(rule.progression?.anchorDate ?? rule.startDate);
+  if (!rule.progression || date < anchor) {
+    return { overrides, workout: rule.workout };
+  }
+
+  let cachedSessionIndex: number | undefined;
+  const sessionIndex = () => {
+    if (cachedSessionIndex === undefined) {
+      const weeksSinceAnchor = Math.round(
+        (startOfWeek(date) - startOfWeek(anchor)) / (7 * DAY_MS),
+      );
+      const cycleStart = rule.progression.cycleWeeks
+        ? Math.max(
+            anchor,
+            startOfDay(
+              addDays(
+                startOfWeek(anchor),
+                (weeksSinceAnchor - (weeksSinceAnchor % rule.progression.cycleWeeks)) * 7,
+              ),
+            ),
+          )
+        : anchor;
+      const days =
+        occurrenceDays ?? expandRecurrence(rule.startDate, rule.recurrence, cycleStart, date);
+      cachedSessionIndex = firstDayIndexFrom(days, date) - firstDayIndexFrom(days, cycleStart);
+    }
+    return cachedSessionIndex;
+  };
+
+  if (!rule.workout) {
+    return {
+      overrides: progressVariables(rule, date, overrides, rule.snapshot.variables, sessionIndex),
+      workout: undefined,
+    };
+  }
+
+  const blocks = rule.workout.blocks.map((block: any) => ({
+    ...block,
+    overrides: progressVariables(
+      rule,
+      date,
+      block.overrides ?? {},
+      block.snapshot.variables,
+      sessionIndex,
+    ),
+  }));
+  return {
+    overrides: blocks[0].overrides,
+    workout: { ...rule.workout, blocks },
+  };
+}
+
+// Concrete sessions plus virtual occurrences of active recurring rules between two days.
+export async function collectCalendarSessions(
+  ctx: any,
+  userId: any,
+  rangeStart: number,
+  rangeEnd: number,
+) {
+  const materializedSessions = await ctx.db
+    .query("trainingScheduleSessions")
+    .withIndex("by_owner_scheduled_for", (q: any) =>
+      q.eq("ownerId", userId).gte("scheduledFor", rangeStart).lte("scheduledFor", rangeEnd),
+    )
+    .order("asc")
+    .collect();
+
+  const blockedRuleDates = new Set<string>();
+  const sessions: any[] = [];
+  for (const session of materializedSessions) {
+    if (session.recurrenceRuleId) {
+      blockedRuleDates.add(ruleDateKey(String(session.recurrenceRuleId), session.scheduledFor));
+    }
+    if (session.canceledAt) {
+      continue;
+    }
+    sessions.push({
+      ...session,
+      dayKey: timestampToDayKey(session.scheduledFor),
+      isVirtual: false,
+    });
+  }
+
+  const rules = await ctx.db
+    .query("trainingScheduleRecurrenceRules")
+    .withIndex("by_owner_active_start_date", (q: any) =>
+      q.eq("ownerId", userId).eq("active", true).lte("startDate", rangeEnd),
+    )
+    .collect();
+
+  for (const rule of rules) {
+    const firstDay = Math.min(startOfDay(rule.startDate), ...(rule.recurrence.rdates ?? []));
+    const effectiveStart = Math.max(firstDay, rangeStart);
+    const ruleUntil = lastRecurrenceDay(rule.startDate, rule.recurrence);
+    const effectiveEnd = ruleUntil !== undefined ? Math.min(ruleUntil, rangeEnd) : rangeEnd;
+    if (effectiveEnd < effectiveStart) {
+      continue;
+    }
+
+    const occurrenceDays = expandRuleOccurrences(rule, effectiveStart, effectiveEnd);
+    for (const cursor of occurrenceDays) {
+      if (cursor < effectiveStart) {
+        continue;
+      }
+      const key = ruleDateKey(String(rule._id), cursor);
+      if (blockedRuleDates.has(key)) {
+        continue;
+      }
+      const occurrence = resolveRuleOccurrence(rule, cursor, occurrenceDays);
+      sessions.push({
+        _id: `virtual:${rule._id}:${cursor}`,
+        ownerId: rule.ownerId,
+        trainingItemId: rule.trainingItemId,
+        isImpromptu: false,
+        recurrenceRuleId: rule._id,
+        scheduledFor: cursor,
+        dayKey: timestampToDayKey(cursor),
+        startMinutes: rule.startMinutes,
+        durationMinutes: rule.durationMinutes,
+        completedAt: undefined,
+        canceledAt: undefined,
+        snapshot: rule.snapshot,
+        overrides: occurrence.overrides,
+        workout: occurrence.workout,
+        notes: rule.notes,
+        createdAt: rule.createdAt,
+        updatedAt: rule.updatedAt,
+        isVirtual: true,
+      });
+    }
+  }
+
+  // Untimed sessions lead their day, like all-day events.
+  sessions.sort(
+    (a, b) =>
+      a.scheduledFor - b.scheduledFor || (a.startMinutes ?? -1) - (b.startMinutes ?? -1),
+  );
+  return sessions;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  addDays,
+  dayInTimeZone,
+  dayKeyInTimeZone,
+  dayKeyToTimestamp,
+  instantInTimeZone,
+  isDayKey,
+  monthRangeForDayKey,
+  startOfDay,
+  startOfWeek,
+  timestampToDayKey,
+  wallClockInTimeZone,
+} from "./dayKeys";
+
+describe("day keys", () => {
+  it("round-trips a key through its day number", () => {
+    expect(dayKeyToTimestamp("2025-03-30")).toBe(Date.UTC(2025, 2, 30));
+    expect(timestampToDayKey(Date.UTC(2025, 2, 30))).toBe("2025-03-30");
+  });
+
+  it("accepts only real calendar dates", () => {
+    expect(isDayKey("2024-02-29")).toBe(true);
+    expect(isDayKey("2025-02-29")).toBe(false);
+    expect(isDayKey("2025-3-1")).toBe(false);
+    expect(() => dayKeyToTimestamp("30/03/2025")).toThrow("Use YYYY-MM-DD.");
+  });
+
+  it("does day arithmetic without DST drift", () => {
+    const day = dayKeyToTimestamp("2025-03-29");
+    expect(timestampToDayKey(addDays(day, 2))).toBe("2025-03-31");
+    expect(startOfDay(day + 23 * 60 * 60 * 1000)).toBe(day);
+  });
+
+  it("starts weeks on Sunday", () => {
+    expect(timestampToDayKey(startOfWeek(dayKeyToTimestamp("2025-03-05")))).toBe("2025-03-02");
+  });
+
+  it("covers a whole month, leap day included", () => {
+    expect(monthRangeForDayKey("2024-02-10")).toEqual({
+      rangeStart: dayKeyToTimestamp("2024-02-01"),
+      rangeEnd: dayKeyToTimestamp("2024-02-29"),
+    });
+  });
+});
+
+describe("time zones", () => {
+  const instant = Date.UTC(2025, 2, 11, 2, 30);
+
+  it("places an instant on the user's calendar day", () => {
+    expect(dayKeyInTimeZone(instant, "UTC")).toBe("2025-03-11");
+    expect(dayKeyInTimeZone(instant, "America/Los_Angeles")).toBe("2025-03-10");
+    expect(dayInTimeZone(instant, "Asia/Tokyo")).toBe(dayKeyToTimestamp("2025-03-11"));
+  });
+
+  it("falls back to UTC for unknown zones", () => {
+    expect(dayKeyInTimeZone(instant, "Not/AZone")).toBe("2025-03-11");
+  });
+
+  it("reads and sets wall-clock times in a zone", () => {
+    expect(wallClockInTimeZone(instant, "America/New_York")).toEqual({
+      day: dayKeyToTimestamp("2025-03-10"),
+      minutes: 22 * 60 + 30,
+    });
+    expect(instantInTimeZone(dayKeyToTimestamp("2025-03-10"), 22 * 60 + 30, "America/New_York"))
+      .toBe(instant);
+  });
+
+  it("moves a time skipped by a DST change past the gap", () => {
+    const day = dayKeyToTimestamp("2025-03-30");
+    const skipped = instantInTimeZone(day, 2 * 60 + 30, "Europe/Berlin");
+    expect(wallClockInTimeZone(skipped, "Europe/Berlin").minutes).toBe(3 * 60 + 30);
+  });
+});
@@ -0,0 +1,134 @@
+// Schedule dates are calendar days, not instants. A day is written as an ISO day key
+// ("2025-03-30") and stored as the UTC midnight of that date (a "day number"), so day
+// arithmetic never crosses a DST transition. Instants such as Date.now() only become
+// days through a time zone. Shared by the server and the app.
+
+export type DayKey = string;
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+const DAY_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export function isDayKey(value: string): boolean {
+  const match = DAY_KEY_PATTERN.exec(value.trim());
+  if (!match) return false;
+  const timestamp = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return timestampToDayKey(timestamp) === value.trim();
+}
+
+export function dayKeyToTimestamp(dayKey: DayKey): number {
+  const match = DAY_KEY_PATTERN.exec(dayKey.trim());
+  if (!match) {
+    throw new Error(`Invalid date "${dayKey}". Use YYYY-MM-DD.`);
+  }
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+export function timestampToDayKey(dayTimestamp: number): DayKey {
+  const date = new Date(dayTimestamp);
+  const month = `${date.getUTCMonth() + 1}`.padStart(2, "0");
+  const day = `${date.getUTCDate()}`.padStart(2, "0");
+  return `${date.getUTCFullYear()}-${month}-${day}`;
+}
+
+// Snaps a day number (or anything inside that UTC day) to its midnight.
+export function startOfDay(dayTimestamp: number): number {
+  return Math.floor(dayTimestamp / DAY_MS) * DAY_MS;
+}
+
+export function addDays(dayTimestamp: number, days: number): number {
+  return startOfDay(dayTimestamp) + days * DAY_MS;
+}
+
+export function dayOfWeek(dayTimestamp: number): number {
+  return new Date(dayTimestamp).getUTCDay();
+}
+
+// Weeks start on Sunday.
+export function startOfWeek(dayTimestamp: number): number {
+  return addDays(dayTimestamp, -dayOfWeek(dayTimestamp));
+}
+
+export function monthRangeForDayKey(dayKey: DayKey): { rangeStart: number; rangeEnd: number } {
+  const date = new Date(dayKeyToTimestamp(dayKey));
+  return {
+    rangeStart: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1),
+    rangeEnd: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0),
+  };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function deviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+// The calendar date an instant falls on for someone in `timeZone`.
+export function dayKeyInTimeZone(instant: number, timeZone: string): DayKey {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : "UTC",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(new Date(instant));
+  const part = (type: string) => parts.find((entry) => entry.type === type)?.value ?? "";
+  return `${part("year")}-${part("month")}-${part("day")}`;
+}
+
+export function dayInTimeZone(instant: number, timeZone: string): number {
+  return dayKeyToTimestamp(dayKeyInTimeZone(instant, timeZone));
+}
+
+// The day and minutes past midnight a wall clock in `timeZone` shows at an instant.
+export function wallClockInTimeZone(
+  instant: number,
+  timeZone: string,
+): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : "UTC",
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(new Date(instant));
+  const part = (type: string) => Number(parts.find((entry) => entry.type === type)?.value);
+  return {
+    day: Date.UTC(part("year"), part("month") - 1, part("day")),
+    minutes: part("hour") * 60 + part("minute"),
+  };
+}
+
+// The instant a wall-clock time in `timeZone` refers to. Two passes settle the offset
+// around DST changes; a time skipped by the change moves forward past the gap.
+export function instantInTimeZone(day: number, minutes: number, timeZone: string): number {
+  const wallClock = day + minutes * MINUTE_MS;
+  let instant = wallClock;
+  for (let pass = 0; pass < 2; pass += 1) {
+    const shown = wallClockInTimeZone(instant, timeZone);
+    instant += wallClock - (shown.day + shown.minutes * MINUTE_MS);
+  }
+  return instant;
+}
+
+export function localTodayKey(): DayKey {
+  return dayKeyInTimeZone(Date.now(), deviceTimeZone());
+}
+
+// Today for a user, in the time zone their device last reported.
+export async function getUserToday(ctx: any, userId: any): Promise<number> {
+  const profile = await ctx.db
+    .query("profiles")
+    .withIndex("by_user_id", (q: any) => q.eq("userId", userId))
+    .first();
+  return dayInTimeZone(Date.now(), profile?.timeZone ?? "UTC");
+}
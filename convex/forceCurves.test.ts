@@ -0,0 +1,58 @@
+import { describe, expect, it } from "@jest/globals";
+import { decodeForceCurve, encodeForceCurve, MAX_CURVE_POINTS } from "./forceCurves";
+
+describe("encodeForceCurve", () => {
+  it("round-trips readings at a tenth of a kilogram", () => {
+    const curve = encodeForceCurve([
+      { atMs: 0, kg: 12.34 },
+      { atMs: 50, kg: 40 },
+      { atMs: 100, kg: 38.96 },
+    ]);
+    expect(curve).toEqual({ intervalMs: 50, samples: expect.any(String) });
+    expect(decodeForceCurve(curve!)).toEqual([12.3, 40, 39]);
+  });
+
+  it("averages readings that share a point and repeats the last one over gaps", () => {
+    const curve = encodeForceCurve([
+      { atMs: 0, kg: 10 },
+      { atMs: 20, kg: 20 },
+      { atMs: 160, kg: 30 },
+    ]);
+    expect(decodeForceCurve(curve!)).toEqual([15, 15, 15, 30]);
+  });
+
+  it("caps a long rep at the maximum number of points", () => {
+    const samples = Array.from({ length: 1201 }, (_, index) => ({ atMs: index * 10, kg: 20 }));
+    const curve = encodeForceCurve(samples)!;
+    const values = decodeForceCurve(curve);
+    expect(curve.intervalMs).toBe(100);
+    expect(values).toHaveLength(MAX_CURVE_POINTS);
+    expect(new Set(values)).toEqual(new Set([20]));
+  });
+
+  it("clamps loads outside what the encoding holds", () => {
+    const curve = encodeForceCurve([
+      { atMs: 0, kg: -3 },
+      { atMs: 50, kg: 7000 },
+    ]);
+    expect(decodeForceCurve(curve!)).toEqual([0, 6553.5]);
+  });
+
+  it("needs at least two readings over some time", () => {
+    expect(encodeForceCurve([{ atMs: 0, kg: 10 }])).toBeNull();
+    expect(
+      encodeForceCurve([
+        { atMs: 5, kg: 10 },
+        { atMs: 5, kg: 11 },
+      ]),
+    ).toBeNull();
+  });
+});
+
+describe("decodeForceCurve", () => {
+  it("rejects curves it did not write", () => {
+    expect(decodeForceCurve({ intervalMs: 10, samples: "AAAA" })).toBeNull();
+    expect(decodeForceCurve({ intervalMs: 50, samples: "!!!!" })).toBeNull();
+    expect(decodeForceCurve({ intervalMs: 50, samples: "AA==" })).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+// A rep's force over time, kept on its log step. Readings are averaged into evenly spaced
+// points and stored as little-endian uint16 tenths of a kilogram in base64, about 2.7
+// characters a point, so a log with dozens of reps stays small. Shared by the server and
+// the app.
+
+export type ForceCurve = { intervalMs: number; samples: string };
+
+export const MAX_CURVE_POINTS = 120;
+const MIN_INTERVAL_MS = 50;
+const MAX_INTERVAL_MS = 60000;
+const MAX_DECIKILOGRAMS = 0xffff;
+
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+function encodeBase64(bytes: Uint8Array): string {
+  let result = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const b0 = bytes[i];
+    const b1 = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const b2 = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    result += BASE64[(b0 >> 2) & 0x3f];
+    result += BASE64[((b0 << 4) | (b1 >> 4)) & 0x3f];
+    result += i + 1 < bytes.length ? BASE64[((b1 << 2) | (b2 >> 6)) & 0x3f] : "=";
+    result += i + 2 < bytes.length ? BASE64[b2 & 0x3f] : "=";
+  }
+  return result;
+}
+
+function decodeBase64(value: string): Uint8Array | null {
+  const trimmed = value.replace(/=+$/, "");
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of trimmed) {
+    const index = BASE64.indexOf(char);
+    if (index < 0) return null;
+    buffer = (buffer << 6) | index;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+// Null when there are too few readings to draw anything.
+export function encodeForceCurve(samples: { atMs: number; kg: number }[]): ForceCurve | null {
+  if (samples.length < 2) return null;
+  const startMs = samples[0].atMs;
+  const durationMs = samples[samples.length - 1].atMs - startMs;
+  if (durationMs <= 0) return null;
+  // Rounded to 10 ms so the interval reads cleanly back in the app.
+  const intervalMs = Math.max(
+    MIN_INTERVAL_MS,
+    Math.ceil(durationMs / MAX_CURVE_POINTS / 10) * 10,
+  );
+  const pointCount = Math.min(MAX_CURVE_POINTS, Math.floor(durationMs / intervalMs) + 1);
+  const sums = new Array<number>(pointCount).fill(0);
+  const counts = new Array<number>(pointCount).fill(0);
+  for (const sample of samples) {
+    const index = Math.min(pointCount - 1, Math.floor((sample.atMs - startMs) / intervalMs));
+    sums[index] += sample.kg;
+    counts[index] += 1;
+  }
+  const bytes = new Uint8Array(pointCount * 2);
+  let previous = 0;
+  for (let index = 0; index < pointCount; index += 1) {
+    // A gap in the readings repeats the point before it.
+    const kg = counts[index] > 0 ? sums[index] / counts[index] : previous;
+    previous = kg;
+    const decikilograms = Math.max(0, Math.min(MAX_DECIKILOGRAMS, Math.round(kg * 10)));
+    bytes[index * 2] = decikilograms & 0xff;
+    bytes[index * 2 + 1] = decikilograms >> 8;
+  }
+  return { intervalMs, samples: encodeBase64(bytes) };
+}
+
+// Kilograms per point, or null for a curve that was not written by encodeForceCurve.
+export function decodeForceCurve(curve: ForceCurve): number[] | null {
+  if (
+    !Number.isInteger(curve.intervalMs) ||
+    curve.intervalMs < MIN_INTERVAL_MS ||
+    curve.intervalMs > MAX_INTERVAL_MS
+  ) {
+    return null;
+  }
+  const bytes = decodeBase64(curve.samples);
+  if (!bytes || bytes.length % 2 !== 0 || bytes.length / 2 > MAX_CURVE_POINTS) return null;
+  const values: number[] = [];
+  for (let index = 0; index < bytes.length; index += 2) {
+    values.push((bytes[index] | (bytes[index + 1] << 8)) / 10);
+  }
+  return values;
+}
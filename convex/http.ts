@@ -1,8 +1,34 @@
-import { httpRouter } from "convex/server";
+import { httpActionGeneric, httpRouter } from "convex/server";
+import { internal } from "./_generated/api";
 import { auth } from "./auth";
 
 const http = httpRouter();
 
 auth.addHttpRoutes(http);
 
+http.route({
+  path: "/calendar.ics",
+  method: "GET",
+  handler: httpActionGeneric(async (ctx, request) => {
+    const token = new URL(request.url).searchParams.get("token");
+    if (!token) {
+      return new Response("Missing token.", { status: 401 });
+    }
+
+    const calendar = await ctx.runQuery(internal.calendarFeed.getFeedCalendar, { token });
+    if (calendar === null) {
+      return new Response("Unknown or revoked calendar feed.", { status: 404 });
+    }
+
+    return new Response(calendar, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="training.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  }),
+});
+
 export default http;
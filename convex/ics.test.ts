@@ -0,0 +1,66 @@
+import { describe, expect, it } from "@jest/globals";
+import { dayKeyToTimestamp } from "./dayKeys";
+import { parseIcsEvents, resolveIcsDateTime } from "./ics";
+
+function calendar(...lines: string[]): string {
+  return ["BEGIN:VCALENDAR", "BEGIN:VEVENT", "UID:a", ...lines, "END:VEVENT", "END:VCALENDAR"]
+    .join("\r\n");
+}
+
+describe("parseIcsEvents", () => {
+  it("keeps the zone and time of DTSTART and the length from DTEND", () => {
+    const [event] = parseIcsEvents(
+      calendar(
+        "DTSTART;TZID=Europe/Berlin:20250310T183000",
+        "DTEND;TZID=Europe/Berlin:20250310T200000",
+      ),
+    );
+    expect(event.start).toEqual({
+      date: dayKeyToTimestamp("2025-03-10"),
+      minutes: 18 * 60 + 30,
+      timeZone: "Europe/Berlin",
+    });
+    expect(event.durationMinutes).toBe(90);
+  });
+
+  it("reads DURATION and leaves all-day events untimed", () => {
+    const [timed] = parseIcsEvents(calendar("DTSTART:20250310T070000Z", "DURATION:PT45M"));
+    expect(timed.start.timeZone).toBe("UTC");
+    expect(timed.durationMinutes).toBe(45);
+
+    const [allDay] = parseIcsEvents(calendar("DTSTART;VALUE=DATE:20250310", "DURATION:P1D"));
+    expect(allDay.start).toEqual({ date: dayKeyToTimestamp("2025-03-10") });
+    expect(allDay.durationMinutes).toBeUndefined();
+  });
+});
+
+describe("resolveIcsDateTime", () => {
+  it("moves a UTC evening event to the user's day and time", () => {
+    const [event] = parseIcsEvents(calendar("DTSTART:20250311T013000Z"));
+    expect(resolveIcsDateTime(event.start, "America/New_York")).toEqual({
+      day: dayKeyToTimestamp("2025-03-10"),
+      startMinutes: 21 * 60 + 30,
+    });
+  });
+
+  it("converts between named zones", () => {
+    const [event] = parseIcsEvents(calendar("DTSTART;TZID=America/Los_Angeles:20250710T190000"));
+    expect(resolveIcsDateTime(event.start, "Europe/Berlin")).toEqual({
+      day: dayKeyToTimestamp("2025-07-11"),
+      startMinutes: 4 * 60,
+    });
+  });
+
+  it("keeps floating times and unknown zones as written", () => {
+    const [floating] = parseIcsEvents(calendar("DTSTART:20250310T183000"));
+    expect(resolveIcsDateTime(floating.start, "Asia/Tokyo")).toEqual({
+      day: dayKeyToTimestamp("2025-03-10"),
+      startMinutes: 18 * 60 + 30,
+    });
+
+    const [windowsZone] = parseIcsEvents(
+      calendar('DTSTART;TZID="W. Europe Standard Time":20250310T183000'),
+    );
+    expect(resolveIcsDateTime(windowsZone.start, "Asia/Tokyo").startMinutes).toBe(18 * 60 + 30);
+  });
+});
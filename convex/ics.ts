@@ -0,0 +1,396 @@
+import { instantInTimeZone, isValidTimeZone, wallClockInTimeZone } from "./dayKeys";
+import { formatICalDate } from "./rrule";
+
+// Builds and parses RFC 5545 calendars. Untimed sessions are exported as all-day
+// VEVENTs; imported times keep their zone until they are placed in the user's.
+
+type IcsSnapshot = {
+  title: string;
+  trainingType?: string;
+  variables: Record<string, number | undefined>;
+};
+
+type IcsSession = {
+  _id: string;
+  recurrenceRuleId?: string;
+  scheduledFor: number;
+  startMinutes?: number;
+  durationMinutes?: number;
+  completedAt?: number;
+  updatedAt: number;
+  snapshot: IcsSnapshot;
+  overrides: Record<string, number | undefined>;
+  workout?: {
+    title: string;
+    blocks: {
+      snapshot: IcsSnapshot;
+      overrides: Record<string, number | undefined>;
+      notes?: string;
+    }[];
+  };
+  notes?: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const DEFAULT_EVENT_MINUTES = 60;
+
+// A DATE or DATE-TIME as written: its calendar date, the minutes past midnight when it
+// has a time, and the zone the time is in ("UTC" for a trailing Z, the TZID otherwise;
+// none for floating time).
+export type IcsDateTime = {
+  date: number;
+  minutes?: number;
+  timeZone?: string;
+};
+
+export type ParsedIcsEvent = {
+  uid: string;
+  summary: string;
+  description?: string;
+  start: IcsDateTime;
+  // From DTEND or DURATION, for timed events.
+  durationMinutes?: number;
+  rrule?: string;
+  exdates: IcsDateTime[];
+  rdates: IcsDateTime[];
+  // Set on edited or canceled instances of a recurring event.
+  recurrenceId?: IcsDateTime;
+  canceled: boolean;
+};
+
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets continue on the next line after a single space.
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) {
+    return line;
+  }
+  const chunks: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      chunks.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// Floating local time: calendar apps show it at the same wall-clock time in any zone.
+function formatFloatingDateTime(timestamp: number): string {
+  return formatTimestamp(timestamp).replace(/Z$/, "");
+}
+
+function eventTimeLines(session: IcsSession): string[] {
+  if (session.startMinutes === undefined) {
+    return [
+      `DTSTART;VALUE=DATE:${formatICalDate(session.scheduledFor)}`,
+      `DTEND;VALUE=DATE:${formatICalDate(session.scheduledFor + DAY_MS)}`,
+    ];
+  }
+  const start = session.scheduledFor + session.startMinutes * MINUTE_MS;
+  const end = start + (session.durationMinutes ?? DEFAULT_EVENT_MINUTES) * MINUTE_MS;
+  return [
+    `DTSTART:${formatFloatingDateTime(start)}`,
+    `DTEND:${formatFloatingDateTime(end)}`,
+  ];
+}
+
+// Typed exercises plan `weight` in % of bodyweight; untyped ones in kg.
+function describeVariables(
+  snapshot: IcsSnapshot,
+  overrides: Record<string, number | undefined>,
+): string {
+  const value = (key: string) => overrides[key] ?? snapshot.variables[key];
+  const loadUnit = snapshot.trainingType ? "% BW" : " kg";
+  const parts = [
+    value("sets") !== undefined ? `${value("sets")} sets` : null,
+    value("reps") !== undefined ? `${value("reps")} reps` : null,
+    value("durationSeconds") !== undefined ? `${value("durationSeconds")}s work` : null,
+    value("weight") !== undefined ? `load ${value("weight")}${loadUnit}` : null,
+    value("restSeconds") !== undefined ? `${value("restSeconds")}s rep rest` : null,
+    value("restBetweenSetsSeconds") !== undefined
+      ? `${value("restBetweenSetsSeconds")}s set rest`
+      : null,
+  ].filter(Boolean);
+  return parts.join(", ");
+}
+
+// Recurring days are identified by rule and day, so an occurrence keeps its UID when it is
+// materialized; one-off sessions use their own id.
+function eventUid(session: IcsSession, uidDomain: string): string {
+  const id = session.recurrenceRuleId
+    ? `${session.recurrenceRuleId}-${formatICalDate(session.scheduledFor)}`
+    : session._id;
+  return `${id.replace(/[^a-zA-Z0-9:_-]/g, "")}@${uidDomain}`;
+}
+
+function describeSession(session: IcsSession): string {
+  const lines: string[] = [];
+  if (session.workout) {
+    session.workout.blocks.forEach((block, index) => {
+      const details = describeVariables(block.snapshot, block.overrides);
+      lines.push(`${index + 1}. ${block.snapshot.title}${details ? ` — ${details}` : ""}`);
+      if (block.notes) {
+        lines.push(`   ${block.notes}`);
+      }
+    });
+  } else {
+    const details = describeVariables(session.snapshot, session.overrides);
+    if (details) {
+      lines.push(details);
+    }
+  }
+  if (session.notes) {
+    lines.push("", session.notes);
+  }
+  if (session.completedAt) {
+    lines.push("", "Completed");
+  }
+  return lines.join("\n");
+}
+
+export function buildIcsCalendar(
+  sessions: IcsSession[],
+  options: { calendarName: string; uidDomain: string },
+): string {
+  const now = formatTimestamp(Date.now());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Climbing Training//Schedule//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(options.calendarName)}`,
+  ];
+
+  for (const session of sessions) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${eventUid(session, options.uidDomain)}`,
+      `DTSTAMP:${now}`,
+      `LAST-MODIFIED:${formatTimestamp(session.updatedAt)}`,
+      ...eventTimeLines(session),
+      `SUMMARY:${escapeIcsText(session.workout?.title ?? session.snapshot.title)}`,
+      `DESCRIPTION:${escapeIcsText(describeSession(session))}`,
+      session.startMinutes === undefined ? "TRANSP:TRANSPARENT" : "TRANSP:OPAQUE",
+      "END:VEVENT",
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) =>
+    char === "n" || char === "N" ? "\n" : char,
+  );
+}
+
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.length > 0);
+}
+
+function parseProperty(line: string) {
+  const colonIndex = line.indexOf(":");
+  if (colonIndex === -1) {
+    return null;
+  }
+  const [name, ...params] = line.slice(0, colonIndex).split(";");
+  const tzid = params.find((param) => /^TZID=/i.test(param));
+  return {
+    name: name.toUpperCase(),
+    params: params.map((param) => param.toUpperCase()),
+    // Zone names keep their case, e.g. "Europe/Berlin".
+    timeZone: tzid?.slice("TZID=".length).replace(/^"|"$/g, ""),
+    value: line.slice(colonIndex + 1),
+  };
+}
+
+export function parseIcsDateTime(value: string, timeZone?: string): IcsDateTime {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z?))?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid iCalendar date "${value}".`);
+  }
+  const date = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  if (match[4] === undefined) {
+    return { date };
+  }
+  return {
+    date,
+    minutes: Number(match[4]) * 60 + Number(match[5]),
+    timeZone: match[6] ? "UTC" : timeZone,
+  };
+}
+
+function parseDateList(value: string, timeZone?: string): IcsDateTime[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => parseIcsDateTime(entry, timeZone));
+}
+
+// Floating times, and zones this runtime does not know (such as Windows zone names),
+// are read as wall-clock time wherever the user is.
+function instantOf(value: IcsDateTime & { minutes: number }): number {
+  return value.timeZone && isValidTimeZone(value.timeZone)
+    ? instantInTimeZone(value.date, value.minutes, value.timeZone)
+    : value.date + value.minutes * MINUTE_MS;
+}
+
+// Places a parsed date in the user's time zone: the day it falls on there and, for
+// timed values, the local start time.
+export function resolveIcsDateTime(
+  value: IcsDateTime,
+  timeZone: string,
+): { day: number; startMinutes?: number } {
+  if (value.minutes === undefined) {
+    return { day: value.date };
+  }
+  if (!value.timeZone || !isValidTimeZone(value.timeZone)) {
+    return { day: value.date, startMinutes: value.minutes };
+  }
+  const local = wallClockInTimeZone(instantOf({ ...value, minutes: value.minutes }), timeZone);
+  return { day: local.day, startMinutes: local.minutes };
+}
+
+// Whole minutes between two timed values, or undefined when either is a plain date.
+function minutesBetween(start: IcsDateTime, end: IcsDateTime | undefined) {
+  if (start.minutes === undefined || end?.minutes === undefined) {
+    return undefined;
+  }
+  const minutes = Math.round(
+    (instantOf({ ...end, minutes: end.minutes }) -
+      instantOf({ ...start, minutes: start.minutes })) /
+      MINUTE_MS,
+  );
+  return minutes > 0 ? minutes : undefined;
+}
+
+// Only the day and time parts of an RFC 5545 duration, e.g. "PT1H30M" or "P1DT2H".
+function parseDurationMinutes(value: string): number | undefined {
+  const match = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:\d+S)?)?$/.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  const minutes =
+    Number(match[1] ?? 0) * 24 * 60 + Number(match[2] ?? 0) * 60 + Number(match[3] ?? 0);
+  return minutes > 0 ? minutes : undefined;
+}
+
+export function parseIcsEvents(text: string): ParsedIcsEvent[] {
+  const events: ParsedIcsEvent[] = [];
+  let current: Partial<ParsedIcsEvent> | null = null;
+  let end: IcsDateTime | undefined;
+  let nestedDepth = 0;
+
+  for (const line of unfoldLines(text)) {
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    if (property.name === "BEGIN") {
+      if (property.value.toUpperCase() === "VEVENT" && !current) {
+        current = { exdates: [], rdates: [], canceled: false };
+        end = undefined;
+      } else if (current) {
+        // VALARM and friends have their own DESCRIPTION/SUMMARY.
+        nestedDepth += 1;
+      }
+      continue;
+    }
+    if (property.name === "END") {
+      if (nestedDepth > 0) {
+        nestedDepth -= 1;
+      } else if (property.value.toUpperCase() === "VEVENT" && current) {
+        if (current.start === undefined) {
+          throw new Error(`Event "${current.summary ?? "Untitled"}" has no DTSTART.`);
+        }
+        events.push({
+          uid: current.uid ?? `event-${events.length + 1}`,
+          summary: current.summary?.trim() || "Untitled",
+          description: current.description?.trim() || undefined,
+          start: current.start,
+          durationMinutes:
+            current.start.minutes === undefined
+              ? undefined
+              : (current.durationMinutes ?? minutesBetween(current.start, end)),
+          rrule: current.rrule,
+          exdates: current.exdates ?? [],
+          rdates: current.rdates ?? [],
+          recurrenceId: current.recurrenceId,
+          canceled: current.canceled ?? false,
+        });
+        current = null;
+      }
+      continue;
+    }
+    if (!current || nestedDepth > 0) continue;
+
+    switch (property.name) {
+      case "UID":
+        current.uid = property.value.trim();
+        break;
+      case "SUMMARY":
+        current.summary = unescapeIcsText(property.value);
+        break;
+      case "DESCRIPTION":
+        current.description = unescapeIcsText(property.value);
+        break;
+      case "DTSTART":
+        current.start = parseIcsDateTime(property.value, property.timeZone);
+        break;
+      case "DTEND":
+        end = parseIcsDateTime(property.value, property.timeZone);
+        break;
+      case "DURATION":
+        current.durationMinutes = parseDurationMinutes(property.value);
+        break;
+      case "RRULE":
+        current.rrule = property.value.trim();
+        break;
+      case "EXDATE":
+        current.exdates = [
+          ...(current.exdates ?? []),
+          ...parseDateList(property.value, property.timeZone),
+        ];
+        break;
+      case "RDATE":
+        if (property.params.includes("VALUE=PERIOD")) break;
+        current.rdates = [
+          ...(current.rdates ?? []),
+          ...parseDateList(property.value, property.timeZone),
+        ];
+        break;
+      case "RECURRENCE-ID":
+        current.recurrenceId = parseIcsDateTime(property.value, property.timeZone);
+        break;
+      case "STATUS":
+        current.canceled = property.value.trim().toUpperCase() === "CANCELLED";
+        break;
+    }
+  }
+
+  return events;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "@jest/globals";
+import { describeProtocol, expandProtocol, validateProtocol } from "./intervalProtocols";
+
+const ladder = {
+  kind: "ladder" as const,
+  startSeconds: 10,
+  stepSeconds: 10,
+  rungs: 3,
+  restSeconds: 30,
+};
+
+describe("expandProtocol", () => {
+  it("climbs a ladder one step per rung", () => {
+    expect(expandProtocol(ladder)).toEqual({
+      mode: "timed",
+      reps: [
+        { workSeconds: 10, restSeconds: 30 },
+        { workSeconds: 20, restSeconds: 30 },
+        { workSeconds: 30, restSeconds: 30 },
+      ],
+    });
+  });
+
+  it("brings a pyramid back down without repeating the top", () => {
+    const plan = expandProtocol({ ...ladder, kind: "pyramid" });
+    expect(plan.reps.map((rep) => rep.workSeconds)).toEqual([10, 20, 30, 20, 10]);
+  });
+
+  it("stretches EMOM rest to the end of each interval", () => {
+    expect(
+      expandProtocol({ kind: "emom", intervalSeconds: 60, workSeconds: 20, rounds: 2 }),
+    ).toEqual({
+      mode: "emom",
+      intervalSeconds: 60,
+      reps: [
+        { workSeconds: 20, restSeconds: 40 },
+        { workSeconds: 20, restSeconds: 40 },
+      ],
+    });
+  });
+
+  it("runs AMRAP as one rep lasting the whole block", () => {
+    expect(expandProtocol({ kind: "amrap", durationSeconds: 300 })).toEqual({
+      mode: "amrap",
+      reps: [{ workSeconds: 300, restSeconds: 0 }],
+    });
+  });
+});
+
+describe("describeProtocol", () => {
+  it("summarizes each kind in one line", () => {
+    expect(describeProtocol(ladder)).toBe("Ladder 10–30 s · 3 reps");
+    expect(describeProtocol({ ...ladder, kind: "pyramid" })).toBe("Pyramid 10–30 s · 5 reps");
+    expect(describeProtocol({ kind: "emom", intervalSeconds: 60, workSeconds: 20, rounds: 10 }))
+      .toBe("EMOM 10 × 20 s every 60 s");
+    expect(
+      describeProtocol({
+        kind: "intervals",
+        intervals: [
+          { workSeconds: 7, restSeconds: 3 },
+          { workSeconds: 10, restSeconds: 5 },
+        ],
+      }),
+    ).toBe("7/3, 10/5 s on/off");
+  });
+});
+
+describe("validateProtocol", () => {
+  it("accepts runnable protocols", () => {
+    expect(() => validateProtocol(ladder)).not.toThrow();
+    expect(() => validateProtocol({ kind: "amrap", durationSeconds: 600 })).not.toThrow();
+  });
+
+  it("rejects EMOM work longer than its interval", () => {
+    expect(() =>
+      validateProtocol({ kind: "emom", intervalSeconds: 30, workSeconds: 40, rounds: 5 }),
+    ).toThrow("EMOM work must fit inside the interval.");
+  });
+
+  it("rejects fractional ladders and too many reps", () => {
+    expect(() => validateProtocol({ ...ladder, stepSeconds: 2.5 })).toThrow("whole seconds");
+    expect(() => validateProtocol({ ...ladder, rungs: 51 })).toThrow("between 1 and 50");
+    expect(() => validateProtocol({ ...ladder, kind: "pyramid", rungs: 30 })).toThrow(
+      "between 1 and 50",
+    );
+  });
+
+  it("rejects empty and out-of-range intervals", () => {
+    expect(() => validateProtocol({ kind: "intervals", intervals: [] })).toThrow();
+    expect(() =>
+      validateProtocol({ kind: "intervals", intervals: [{ workSeconds: 0, restSeconds: 5 }] }),
+    ).toThrow("Work must be");
+  });
+});
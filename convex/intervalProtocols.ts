@@ -0,0 +1,133 @@
+// Interval protocols describe the reps inside a set when they are not all the same: per-rep
+// work and rest, ladders, pyramids, EMOM and AMRAP. The number of sets and the rest between
+// them still come from the exercise variables. Shared by the server and the app.
+
+export type IntervalProtocol =
+  | { kind: "intervals"; intervals: { workSeconds: number; restSeconds: number }[] }
+  | {
+      kind: "ladder" | "pyramid";
+      startSeconds: number;
+      stepSeconds: number;
+      rungs: number;
+      restSeconds: number;
+    }
+  | { kind: "emom"; intervalSeconds: number; workSeconds: number; rounds: number }
+  | { kind: "amrap"; durationSeconds: number };
+
+export type IntervalProtocolKind = IntervalProtocol["kind"];
+
+// How the timer runs the reps: timed reps run their clock out, EMOM reps may end early with
+// the rest stretched to the next interval, AMRAP reps count how many were done.
+export type IntervalMode = "timed" | "emom" | "amrap";
+
+export type IntervalPlan = {
+  mode: IntervalMode;
+  reps: { workSeconds: number; restSeconds: number }[];
+  intervalSeconds?: number;
+};
+
+export const INTERVAL_PROTOCOL_LABEL: Record<IntervalProtocolKind, string> = {
+  intervals: "Custom intervals",
+  ladder: "Ladder",
+  pyramid: "Pyramid",
+  emom: "EMOM",
+  amrap: "AMRAP",
+};
+
+const MAX_REPS_PER_SET = 50;
+const MAX_PHASE_SECONDS = 3600;
+
+type LadderShape = { startSeconds: number; stepSeconds: number; rungs: number };
+
+function ladderWorkSeconds(protocol: LadderShape) {
+  return Array.from(
+    { length: protocol.rungs },
+    (_, index) => protocol.startSeconds + index * protocol.stepSeconds,
+  );
+}
+
+export function expandProtocol(protocol: IntervalProtocol): IntervalPlan {
+  switch (protocol.kind) {
+    case "intervals":
+      return { mode: "timed", reps: protocol.intervals };
+    case "ladder":
+    case "pyramid": {
+      const climb = ladderWorkSeconds(protocol);
+      // A pyramid comes back down without repeating its top rung.
+      const work =
+        protocol.kind === "pyramid" ? [...climb, ...climb.slice(0, -1).reverse()] : climb;
+      return {
+        mode: "timed",
+        reps: work.map((workSeconds) => ({ workSeconds, restSeconds: protocol.restSeconds })),
+      };
+    }
+    case "emom":
+      return {
+        mode: "emom",
+        intervalSeconds: protocol.intervalSeconds,
+        reps: Array.from({ length: protocol.rounds }, () => ({
+          workSeconds: protocol.workSeconds,
+          restSeconds: protocol.intervalSeconds - protocol.workSeconds,
+        })),
+      };
+    case "amrap":
+      return { mode: "amrap", reps: [{ workSeconds: protocol.durationSeconds, restSeconds: 0 }] };
+  }
+}
+
+// e.g. "Ladder 10–50 s · 5 reps", "EMOM 10 × 20 s every 60 s"
+export function describeProtocol(protocol: IntervalProtocol): string {
+  switch (protocol.kind) {
+    case "intervals":
+      return `${protocol.intervals
+        .map((interval) => `${interval.workSeconds}/${interval.restSeconds}`)
+        .join(", ")} s on/off`;
+    case "ladder":
+    case "pyramid": {
+      const work = ladderWorkSeconds(protocol);
+      const reps = expandProtocol(protocol).reps.length;
+      const range = `${work[0]}–${work[work.length - 1]} s`;
+      return `${INTERVAL_PROTOCOL_LABEL[protocol.kind]} ${range} · ${reps} reps`;
+    }
+    case "emom":
+      return `EMOM ${protocol.rounds} × ${protocol.workSeconds} s every ${
+        protocol.intervalSeconds
+      } s`;
+    case "amrap":
+      return `AMRAP ${protocol.durationSeconds} s`;
+  }
+}
+
+// Throws with a message for the form when a protocol cannot be run.
+export function validateProtocol(protocol: IntervalProtocol) {
+  const isWhole = (value: number, min: number) =>
+    Number.isInteger(value) && value >= min && value <= MAX_PHASE_SECONDS;
+  if (protocol.kind === "emom" && protocol.workSeconds > protocol.intervalSeconds) {
+    throw new Error("EMOM work must fit inside the interval.");
+  }
+  if (protocol.kind === "ladder" || protocol.kind === "pyramid") {
+    if (!isWhole(protocol.startSeconds, 1) || !isWhole(protocol.stepSeconds, 0)) {
+      throw new Error("Ladder durations must be whole seconds.");
+    }
+  }
+  const count =
+    protocol.kind === "ladder" || protocol.kind === "pyramid"
+      ? protocol.rungs
+      : protocol.kind === "emom"
+        ? protocol.rounds
+        : 1;
+  if (!Number.isInteger(count) || count > MAX_REPS_PER_SET) {
+    throw new Error(`A protocol needs between 1 and ${MAX_REPS_PER_SET} reps per set.`);
+  }
+  const plan = expandProtocol(protocol);
+  if (plan.reps.length === 0 || plan.reps.length > MAX_REPS_PER_SET) {
+    throw new Error(`A protocol needs between 1 and ${MAX_REPS_PER_SET} reps per set.`);
+  }
+  for (const rep of plan.reps) {
+    if (!isWhole(rep.workSeconds, 1) || !isWhole(rep.restSeconds, 0)) {
+      throw new Error(
+        `Work must be 1–${MAX_PHASE_SECONDS} s and rest 0–${MAX_PHASE_SECONDS} s per rep.`,
+      );
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "@jest/globals";
+import { findRecordCandidates, plannedLoadKg } from "./personalRecordRules";
+
+describe("plannedLoadKg", () => {
+  it("reads typed weights as % of bodyweight and untyped ones as kg", () => {
+    expect(plannedLoadKg(120, "hang", 70)).toBe(14);
+    expect(plannedLoadKg(90, "hang", 70)).toBe(-7);
+    expect(plannedLoadKg(20, undefined, undefined)).toBe(20);
+  });
+
+  it("needs a bodyweight for typed weights", () => {
+    expect(plannedLoadKg(120, "hang", undefined)).toBeUndefined();
+    expect(plannedLoadKg(undefined, "hang", 70)).toBeUndefined();
+  });
+});
+
+describe("findRecordCandidates", () => {
+  const hang = { trainingType: "hang", hangDetails: { edgeSizeMm: 20, crimpType: "half" } };
+
+  it("keeps the best held hang load per edge, grip and duration", () => {
+    const candidates = findRecordCandidates({
+      trainingItemId: "item",
+      snapshot: hang,
+      planned: { durationSeconds: 10 },
+      steps: [
+        { kind: "rep", actualDurationMs: 10000, addedWeightKg: 10 },
+        { kind: "rep", actualDurationMs: 9600, addedWeightKg: 15 },
+        { kind: "rep", actualDurationMs: 6000, addedWeightKg: 20 },
+        { kind: "rep", actualDurationMs: 10000, addedWeightKg: 25, failed: true },
+      ],
+    });
+    expect(candidates).toEqual([
+      {
+        kind: "hang_load",
+        recordKey: "hang_load:20mm:half:10s",
+        value: 15,
+        edgeSizeMm: 20,
+        grip: "half",
+        durationSeconds: 10,
+      },
+    ]);
+  });
+
+  it("records the longest bodyweight hang when no weight is planned", () => {
+    const candidates = findRecordCandidates({
+      trainingItemId: "item",
+      snapshot: hang,
+      planned: {},
+      steps: [
+        { kind: "rep", actualDurationMs: 31240, edgeSizeMm: 15, grip: "open" },
+        { kind: "rest", actualDurationMs: 60000 },
+      ],
+    });
+    expect(candidates).toEqual([
+      {
+        kind: "bodyweight_hang",
+        recordKey: "bodyweight_hang:15mm:open",
+        value: 31.2,
+        edgeSizeMm: 15,
+        grip: "open",
+      },
+    ]);
+  });
+
+  it("converts planned % bodyweight when no added weight was entered", () => {
+    const candidates = findRecordCandidates({
+      trainingItemId: "item",
+      snapshot: hang,
+      planned: { weight: 110, durationSeconds: 7 },
+      steps: [{ kind: "rep", actualDurationMs: 7000 }],
+      bodyWeightKg: 80,
+    });
+    expect(candidates.map((candidate) => candidate.value)).toEqual([8]);
+  });
+
+  it("keeps the heaviest completed set of a weight-training exercise", () => {
+    const candidates = findRecordCandidates({
+      trainingItemId: "deadlift",
+      snapshot: { trainingType: "weight_training" },
+      planned: {},
+      steps: [
+        { kind: "rep", actualDurationMs: 0, addedWeightKg: 100 },
+        { kind: "rep", actualDurationMs: 0, addedWeightKg: 110, failed: true },
+      ],
+    });
+    expect(candidates).toEqual([
+      { kind: "added_weight", recordKey: "added_weight:deadlift", value: 100 },
+    ]);
+  });
+
+  it("ignores untyped exercises", () => {
+    expect(
+      findRecordCandidates({
+        trainingItemId: "item",
+        snapshot: {},
+        planned: { weight: 20 },
+        steps: [{ kind: "rep", actualDurationMs: 5000 }],
+      }),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+// Which logged reps count as personal records. Shared by the server, which stores records
+// when a log is finished, and the timer, which celebrates them before the upload is done.
+//
+// Records are kept per key: hang loads per edge, grip and hold duration; bodyweight hangs
+// per edge and grip; added weight per weight-training exercise.
+
+export type PersonalRecordKind = "hang_load" | "added_weight" | "bodyweight_hang";
+
+export type PersonalRecordCandidate = {
+  kind: PersonalRecordKind;
+  recordKey: string;
+  // kg of added weight, or seconds for bodyweight hangs.
+  value: number;
+  edgeSizeMm?: number;
+  grip?: string;
+  durationSeconds?: number;
+};
+
+type RecordStep = {
+  kind: string;
+  plannedDurationSeconds?: number;
+  actualDurationMs: number;
+  addedWeightKg?: number;
+  edgeSizeMm?: number;
+  grip?: string;
+  failed?: boolean;
+};
+
+type RecordSnapshot = {
+  trainingType?: string;
+  hangDetails?: { edgeSizeMm?: number; crimpType?: string };
+};
+
+// A hang stopped this close to the planned time still counts as held.
+const HOLD_TOLERANCE_MS = 500;
+
+// Planned load in kg. Typed exercises plan `weight` in % of bodyweight, so 120 means
+// +20% and needs a bodyweight; untyped ones store kg directly.
+export function plannedLoadKg(
+  weight: number | undefined,
+  trainingType: string | undefined,
+  bodyWeightKg: number | undefined,
+): number | undefined {
+  if (weight === undefined) {
+    return undefined;
+  }
+  if (!trainingType) {
+    return weight;
+  }
+  if (!bodyWeightKg || bodyWeightKg <= 0) {
+    return undefined;
+  }
+  return Number((((weight - 100) / 100) * bodyWeightKg).toFixed(1));
+}
+
+function keepBest(
+  best: Map<string, PersonalRecordCandidate>,
+  candidate: PersonalRecordCandidate,
+) {
+  const current = best.get(candidate.recordKey);
+  if (!current || candidate.value > current.value) {
+    best.set(candidate.recordKey, candidate);
+  }
+}
+
+// The best value per record key among the reps of one log.
+export function findRecordCandidates(args: {
+  trainingItemId: string;
+  snapshot: RecordSnapshot;
+  planned: { weight?: number; durationSeconds?: number };
+  steps: RecordStep[];
+  bodyWeightKg?: number;
+}): PersonalRecordCandidate[] {
+  const { snapshot, planned } = args;
+  const best = new Map<string, PersonalRecordCandidate>();
+  // Hangs without a planned weight are done at bodyweight.
+  const plannedKg =
+    snapshot.trainingType === "hang" && planned.weight === undefined
+      ? 0
+      : plannedLoadKg(planned.weight, snapshot.trainingType, args.bodyWeightKg);
+
+  for (const step of args.steps) {
+    if (step.kind !== "rep") continue;
+    const loadKg = step.addedWeightKg ?? plannedKg;
+
+    if (snapshot.trainingType === "weight_training") {
+      if (loadKg !== undefined && !step.failed) {
+        keepBest(best, {
+          kind: "added_weight",
+          recordKey: `added_weight:${args.trainingItemId}`,
+          value: loadKg,
+        });
+      }
+      continue;
+    }
+    if (snapshot.trainingType !== "hang" || loadKg === undefined) continue;
+
+    const edgeSizeMm = step.edgeSizeMm ?? snapshot.hangDetails?.edgeSizeMm;
+    const grip = step.grip ?? snapshot.hangDetails?.crimpType;
+    const gripKey = `${edgeSizeMm ?? "any"}mm:${grip ?? "any"}`;
+    const durationSeconds = step.plannedDurationSeconds ?? planned.durationSeconds;
+    if (
+      durationSeconds &&
+      !step.failed &&
+      step.actualDurationMs >= durationSeconds * 1000 - HOLD_TOLERANCE_MS
+    ) {
+      keepBest(best, {
+        kind: "hang_load",
+        recordKey: `hang_load:${gripKey}:${durationSeconds}s`,
+        value: loadKg,
+        edgeSizeMm,
+        grip,
+        durationSeconds,
+      });
+    }
+    if (loadKg === 0) {
+      keepBest(best, {
+        kind: "bodyweight_hang",
+        recordKey: `bodyweight_hang:${gripKey}`,
+        value: Math.round(step.actualDurationMs / 100) / 10,
+        edgeSizeMm,
+        grip,
+      });
+    }
+  }
+  return Array.from(best.values());
+}
@@ -0,0 +1,100 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { queryGeneric } from "convex/server";
+import { v } from "convex/values";
+import { bodyWeightForLog } from "./bodyWeight";
+import { findRecordCandidates } from "./personalRecordRules";
+
+const MAX_HISTORY = 100;
+
+// Stores the records a finished log sets. Records it set before are replaced, so this can
+// run again after the log's step details are edited.
+export async function updatePersonalRecords(ctx: any, log: any) {
+  const previous = await ctx.db
+    .query("personalRecords")
+    .withIndex("by_log", (q: any) => q.eq("logId", log._id))
+    .collect();
+  for (const record of previous) {
+    await ctx.db.delete(record._id);
+  }
+
+  const session = await ctx.db.get(log.scheduleSessionId);
+  const snapshot = session?.workout
+    ? session.workout.blocks[log.blockIndex ?? 0]?.snapshot
+    : session?.snapshot;
+  if (!snapshot) {
+    return [];
+  }
+  const candidates = findRecordCandidates({
+    trainingItemId: String(log.trainingItemId),
+    snapshot,
+    planned: log.planned,
+    steps: log.steps,
+    bodyWeightKg: await bodyWeightForLog(ctx, log),
+  });
+  const now = Date.now();
+  const records = [];
+  for (const candidate of candidates) {
+    const best = await ctx.db
+      .query("personalRecords")
+      .withIndex("by_owner_record_key_value", (q: any) =>
+        q.eq("ownerId", log.ownerId).eq("recordKey", candidate.recordKey),
+      )
+      .order("desc")
+      .first();
+    if (best && best.value >= candidate.value) continue;
+    const recordId = await ctx.db.insert("personalRecords", {
+      ownerId: log.ownerId,
+      trainingItemId: log.trainingItemId,
+      scheduleSessionId: log.scheduleSessionId,
+      logId: log._id,
+      ...candidate,
+      title: snapshot.title,
+      previousValue: best?.value,
+      achievedAt: log.endedAt ?? now,
+      createdAt: now,
+    });
+    records.push(await ctx.db.get(recordId));
+  }
+  return records;
+}
+
+export const listMyPersonalRecords = queryGeneric({
+  args: {
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const limit = Math.max(1, Math.min(MAX_HISTORY, Math.floor(args.limit ?? 30)));
+    return await ctx.db
+      .query("personalRecords")
+      .withIndex("by_owner_achieved_at", (q) => q.eq("ownerId", userId))
+      .order("desc")
+      .take(limit);
+  },
+});
+
+// Current record per key, for comparing reps that have not been uploaded yet.
+export const getMyRecordBests = queryGeneric({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const records = await ctx.db
+      .query("personalRecords")
+      .withIndex("by_owner_achieved_at", (q) => q.eq("ownerId", userId))
+      .collect();
+    const bests = new Map<string, number>();
+    for (const record of records) {
+      const best = bests.get(record.recordKey);
+      bests.set(record.recordKey, best === undefined ? record.value : Math.max(best, record.value));
+    }
+    return Array.from(bests, ([recordKey, value]) => ({ recordKey, value }));
+  },
+});
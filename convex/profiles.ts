@@ -1,6 +1,42 @@
 import { getAuthUserId } from "@convex-dev/auth/server";
 import { mutationGeneric, queryGeneric } from "convex/server";
 import { v } from "convex/values";
+import { recordBodyWeight, roundBodyWeight } from "./bodyWeight";
+import { getUserToday, isValidTimeZone } from "./dayKeys";
+import { MAX_ACWR_THRESHOLD, MIN_ACWR_THRESHOLD } from "./workload";
+
+const soundEventValidator = v.object({ enabled: v.boolean(), volume: v.number() });
+
+const timerSoundsValidator = v.object({
+  pack: v.union(v.literal("classic"), v.literal("soft"), v.literal("arcade")),
+  countdownSeconds: v.number(),
+  workTickSeconds: v.number(),
+  events: v.object({
+    countdown: soundEventValidator,
+    go: soundEventValidator,
+    workTick: soundEventValidator,
+    complete: soundEventValidator,
+  }),
+});
+
+const MAX_COUNTDOWN_SECONDS = 10;
+
+function validateTimerSounds(timerSounds: {
+  countdownSeconds: number;
+  workTickSeconds: number;
+  events: Record<string, { volume: number }>;
+}) {
+  for (const seconds of [timerSounds.countdownSeconds, timerSounds.workTickSeconds]) {
+    if (!Number.isInteger(seconds) || seconds < 1 || seconds > MAX_COUNTDOWN_SECONDS) {
+      throw new Error(`Countdowns must be 1-${MAX_COUNTDOWN_SECONDS} whole seconds.`);
+    }
+  }
+  for (const event of Object.values(timerSounds.events)) {
+    if (!Number.isFinite(event.volume) || event.volume < 0 || event.volume > 1) {
+      throw new Error("Sound volume must be between 0 and 1.");
+    }
+  }
+}
 
 function normalizeUsername(username: string | undefined): {
   username: string | undefined;
@@ -44,6 +80,13 @@ export const upsertMyProfile = mutationGeneric({
     boulderingGrade: v.optional(v.string()),
     sportGrade: v.optional(v.string()),
     tradGrade: v.optional(v.string()),
+    boulderGradeSystem: v.optional(v.union(v.literal("v_scale"), v.literal("font"))),
+    ropeGradeSystem: v.optional(
+      v.union(v.literal("yds"), v.literal("french"), v.literal("uiaa"), v.literal("british")),
+    ),
+    unitSystem: v.optional(v.union(v.literal("metric"), v.literal("imperial"))),
+    timerCues: v.optional(v.union(v.literal("beeps"), v.literal("voice"), v.literal("both"))),
+    timerSounds: v.optional(timerSoundsValidator),
     regions: v.array(v.string()),
     bio: v.optional(v.string()),
     goals: v.optional(v.string()),
@@ -57,6 +100,9 @@ export const upsertMyProfile = mutationGeneric({
     }
 
     const { username, usernameLower } = normalizeUsername(args.username);
+    if (args.timerSounds) {
+      validateTimerSounds(args.timerSounds);
+    }
     const bodyWeightKg =
       args.bodyWeightKg !== undefined && args.bodyWeightKg <= 0
         ? undefined
@@ -89,16 +135,94 @@ export const upsertMyProfile = mutationGeneric({
         createdAt: now,
         updatedAt: now,
       });
+      if (bodyWeightKg !== undefined) {
+        await recordBodyWeight(ctx, userId, bodyWeightKg, await getUserToday(ctx, userId));
+      }
       return await ctx.db.get(profileId);
     }
 
+    // Only a changed weight is validated and starts a new history entry; saving other
+    // fields keeps the stored weight as it is.
+    const bodyWeightChanged =
+      bodyWeightKg !== undefined &&
+      (existing.bodyWeightKg === undefined ||
+        roundBodyWeight(bodyWeightKg) !== roundBodyWeight(existing.bodyWeightKg));
     await ctx.db.patch(existing._id, {
       ...args,
-      bodyWeightKg,
+      bodyWeightKg:
+        bodyWeightChanged || bodyWeightKg === undefined ? bodyWeightKg : existing.bodyWeightKg,
       username,
       usernameLower,
       updatedAt: now,
     });
+    if (bodyWeightChanged) {
+      await recordBodyWeight(ctx, userId, bodyWeightKg, await getUserToday(ctx, userId));
+    }
+    return await ctx.db.get(existing._id);
+  },
+});
+
+export const setMyTimeZone = mutationGeneric({
+  args: {
+    timeZone: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+    if (!isValidTimeZone(args.timeZone)) {
+      throw new Error("Unknown time zone.");
+    }
+
+    const existing = await ctx.db
+      .query("profiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+    // Profiles are created during onboarding; the zone is synced again once it exists.
+    if (!existing || existing.timeZone === args.timeZone) {
+      return existing;
+    }
+
+    await ctx.db.patch(existing._id, {
+      timeZone: args.timeZone,
+      updatedAt: Date.now(),
+    });
+    return await ctx.db.get(existing._id);
+  },
+});
+
+export const setMyAcwrThreshold = mutationGeneric({
+  args: {
+    ratio: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+    if (
+      !Number.isFinite(args.ratio) ||
+      args.ratio < MIN_ACWR_THRESHOLD ||
+      args.ratio > MAX_ACWR_THRESHOLD
+    ) {
+      throw new Error(
+        `Warning ratio must be between ${MIN_ACWR_THRESHOLD} and ${MAX_ACWR_THRESHOLD}.`,
+      );
+    }
+
+    const existing = await ctx.db
+      .query("profiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .first();
+    if (!existing) {
+      throw new Error("Profile not found.");
+    }
+
+    await ctx.db.patch(existing._id, {
+      acwrWarningRatio: Math.round(args.ratio * 10) / 10,
+      updatedAt: Date.now(),
+    });
     return await ctx.db.get(existing._id);
   },
 });
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "@jest/globals";
+import { suggestNextVariables } from "./progressionRules";
+
+describe("suggestNextVariables", () => {
+  describe("untyped exercises in kg", () => {
+    it("adds 2.5 kg on an increase", () => {
+      expect(suggestNextVariables({ weight: 40, reps: 5 }, "increase")).toEqual({
+        weight: 42.5,
+        reps: 5,
+      });
+    });
+
+    it("takes 10% off the load on a back-off", () => {
+      expect(suggestNextVariables({ weight: 40 }, "back_off")).toEqual({ weight: 36 });
+    });
+
+    it("keeps everything on a hold", () => {
+      expect(suggestNextVariables({ weight: 40, reps: 5 }, "hold")).toEqual({
+        weight: 40,
+        reps: 5,
+      });
+    });
+  });
+
+  describe("typed exercises in % bodyweight", () => {
+    const hang = { trainingType: "hang", bodyWeightKg: 80 };
+
+    it("adds 2.5 kg converted to % of bodyweight on an increase", () => {
+      expect(suggestNextVariables({ weight: 120 }, "increase", hang)).toEqual({ weight: 123 });
+    });
+
+    it("trims only the added part on a back-off", () => {
+      expect(suggestNextVariables({ weight: 120 }, "back_off", hang)).toEqual({ weight: 118 });
+    });
+
+    it("never turns a bodyweight hang into an assisted one", () => {
+      expect(
+        suggestNextVariables({ weight: 100, durationSeconds: 10 }, "back_off", hang),
+      ).toEqual({ weight: 100, durationSeconds: 9 });
+    });
+
+    it("moves reps instead when there is no bodyweight to convert the step", () => {
+      expect(
+        suggestNextVariables({ weight: 110, reps: 6 }, "increase", { trainingType: "hang" }),
+      ).toEqual({ weight: 110, reps: 7 });
+    });
+  });
+
+  it("moves duration when there is neither load nor reps", () => {
+    expect(suggestNextVariables({ durationSeconds: 10 }, "increase")).toEqual({
+      durationSeconds: 15,
+    });
+  });
+});
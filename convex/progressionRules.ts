@@ -0,0 +1,72 @@
+// How the next session's variables move after a suggestion. Only the primary variable
+// moves: load when there is one, then reps, then duration.
+//
+// Typed exercises plan `weight` in % of bodyweight, so 100 is a bodyweight hang and 120
+// adds 20%. Their load steps are taken in kg added and converted back, and backing off
+// only trims the part above bodyweight; untyped exercises store kg directly.
+
+export type ProgressionAction = "increase" | "hold" | "back_off";
+
+export type SuggestedVariables = {
+  weight?: number;
+  reps?: number;
+  durationSeconds?: number;
+};
+
+const LOAD_STEP_KG = 2.5;
+const BACK_OFF_FACTOR = 0.9;
+const DURATION_STEP_SECONDS = 5;
+
+function roundToHalf(value: number): number {
+  return Math.round(value * 2) / 2;
+}
+
+function nextWeight(
+  weight: number,
+  action: ProgressionAction,
+  trainingType: string | undefined,
+  bodyWeightKg: number | undefined,
+): number | undefined {
+  if (!trainingType) {
+    return action === "increase"
+      ? roundToHalf(weight + LOAD_STEP_KG)
+      : Math.max(0, roundToHalf(weight * BACK_OFF_FACTOR));
+  }
+  if (action === "increase") {
+    return bodyWeightKg && bodyWeightKg > 0
+      ? roundToHalf(weight + (LOAD_STEP_KG / bodyWeightKg) * 100)
+      : undefined;
+  }
+  if (weight <= 100) {
+    return undefined;
+  }
+  return Math.max(100, roundToHalf(100 + (weight - 100) * BACK_OFF_FACTOR));
+}
+
+// Undefined from nextWeight means the load cannot move (no bodyweight to convert a kg step,
+// or nothing above bodyweight to trim), so reps or duration move instead.
+export function suggestNextVariables(
+  previous: SuggestedVariables,
+  action: ProgressionAction,
+  load: { trainingType?: string; bodyWeightKg?: number } = {},
+): SuggestedVariables {
+  const suggested: SuggestedVariables = { ...previous };
+  if (action === "hold") {
+    return suggested;
+  }
+  const weight =
+    previous.weight !== undefined
+      ? nextWeight(previous.weight, action, load.trainingType, load.bodyWeightKg)
+      : undefined;
+  if (weight !== undefined) {
+    suggested.weight = weight;
+  } else if (previous.reps !== undefined) {
+    suggested.reps = action === "increase" ? previous.reps + 1 : Math.max(1, previous.reps - 1);
+  } else if (previous.durationSeconds !== undefined) {
+    suggested.durationSeconds =
+      action === "increase"
+        ? previous.durationSeconds + DURATION_STEP_SECONDS
+        : Math.max(1, Math.round(previous.durationSeconds * BACK_OFF_FACTOR));
+  }
+  return suggested;
+}
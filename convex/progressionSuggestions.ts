@@ -0,0 +1,191 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { mutationGeneric, queryGeneric } from "convex/server";
+import { v } from "convex/values";
+import { bodyWeightForLog } from "./bodyWeight";
+import { getUserToday } from "./dayKeys";
+import {
+  suggestNextVariables,
+  type ProgressionAction,
+  type SuggestedVariables,
+} from "./progressionRules";
+
+const DEFAULT_LOG_WINDOW = 3;
+const MAX_LOG_WINDOW = 10;
+
+type Suggestion = {
+  trainingItemId: string;
+  action: ProgressionAction;
+  reason: string;
+  basedOnLogs: number;
+  previous: SuggestedVariables;
+  suggested: SuggestedVariables;
+};
+
+// The weight and training type a log was planned with. Logs started before weights were
+// recorded fall back to the session they belong to.
+async function resolveLoggedLoad(ctx: any, log: any) {
+  const session = await ctx.db.get(log.scheduleSessionId);
+  const block = session?.workout ? session.workout.blocks[log.blockIndex ?? 0] : session;
+  const weight: number | undefined =
+    log.planned.weight ?? block?.overrides?.weight ?? block?.snapshot?.variables?.weight;
+  const trainingType: string | undefined = block?.snapshot?.trainingType;
+  return { weight, trainingType };
+}
+
+async function buildSuggestion(
+  ctx: any,
+  userId: any,
+  trainingItemId: any,
+  windowSize: number,
+): Promise<Suggestion | null> {
+  const recent = await ctx.db
+    .query("trainingSessionLogs")
+    .withIndex("by_owner_item_started_at", (q: any) =>
+      q.eq("ownerId", userId).eq("trainingItemId", trainingItemId),
+    )
+    .order("desc")
+    .take(windowSize + 1);
+  const logs = recent.filter((log: any) => log.status !== "active").slice(0, windowSize);
+  const latest = logs[0];
+  if (!latest) {
+    return null;
+  }
+
+  const { weight, trainingType } = await resolveLoggedLoad(ctx, latest);
+  const previous: SuggestedVariables = {
+    weight,
+    reps: latest.planned.reps,
+    durationSeconds: latest.planned.durationSeconds,
+  };
+  const plannedSets = latest.planned.sets ?? 1;
+  const skippedInWindow = logs.filter((log: any) => log.summary.skippedSets > 0).length;
+
+  let action: ProgressionAction;
+  let reason: string;
+  if (latest.status === "stopped_early") {
+    action = "back_off";
+    reason = "Stopped early last time.";
+  } else if (skippedInWindow >= 2) {
+    action = "back_off";
+    reason = `Sets skipped in ${skippedInWindow} of the last ${logs.length} sessions.`;
+  } else if (latest.summary.skippedSets > 0) {
+    action = "hold";
+    reason = `${latest.summary.skippedSets} of ${plannedSets} sets skipped last time.`;
+  } else if (
+    latest.planned.reps !== undefined &&
+    latest.summary.completedReps < plannedSets * latest.planned.reps
+  ) {
+    action = "hold";
+    reason = `${latest.summary.completedReps} of ${plannedSets * latest.planned.reps} reps completed last time.`;
+  } else {
+    action = "increase";
+    reason = `All ${plannedSets} sets completed last time.`;
+  }
+
+  const bodyWeightKg = trainingType ? await bodyWeightForLog(ctx, latest) : undefined;
+  const suggested = suggestNextVariables(previous, action, { trainingType, bodyWeightKg });
+
+  return {
+    trainingItemId: String(trainingItemId),
+    action,
+    reason,
+    basedOnLogs: logs.length,
+    previous,
+    suggested,
+  };
+}
+
+function applySuggestedVariables(overrides: any, suggestion: Suggestion | null) {
+  if (!suggestion) {
+    return overrides;
+  }
+  const next = { ...overrides };
+  for (const key of ["weight", "reps", "durationSeconds"] as const) {
+    if (suggestion.suggested[key] !== undefined) {
+      next[key] = suggestion.suggested[key];
+    }
+  }
+  return next;
+}
+
+export const listSuggestionsForItems = queryGeneric({
+  args: {
+    trainingItemIds: v.array(v.id("trainingItems")),
+    logWindow: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const windowSize = Math.max(
+      1,
+      Math.min(MAX_LOG_WINDOW, Math.floor(args.logWindow ?? DEFAULT_LOG_WINDOW)),
+    );
+    const uniqueIds = Array.from(new Set(args.trainingItemIds));
+    const suggestions = await Promise.all(
+      uniqueIds.map((itemId) => buildSuggestion(ctx, userId, itemId, windowSize)),
+    );
+    return suggestions.filter((entry): entry is Suggestion => entry !== null);
+  },
+});
+
+export const applySuggestionToSession = mutationGeneric({
+  args: {
+    sessionId: v.id("trainingScheduleSessions"),
+    logWindow: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) {
+      throw new Error("Session not found.");
+    }
+    if (session.ownerId !== userId) {
+      throw new Error("Forbidden");
+    }
+    if (session.canceledAt) {
+      throw new Error("Removed sessions are immutable.");
+    }
+    if (session.completedAt) {
+      throw new Error("Completed sessions are immutable.");
+    }
+    if (session.scheduledFor < (await getUserToday(ctx, userId))) {
+      throw new Error("Past sessions are immutable.");
+    }
+
+    const windowSize = Math.max(
+      1,
+      Math.min(MAX_LOG_WINDOW, Math.floor(args.logWindow ?? DEFAULT_LOG_WINDOW)),
+    );
+
+    if (!session.workout) {
+      const suggestion = await buildSuggestion(ctx, userId, session.trainingItemId, windowSize);
+      if (!suggestion) {
+        throw new Error("No finished sessions to base a suggestion on yet.");
+      }
+      await ctx.db.patch(session._id, {
+        overrides: applySuggestedVariables(session.overrides, suggestion),
+        updatedAt: Date.now(),
+      });
+      return await ctx.db.get(session._id);
+    }
+
+    const blocks = [];
+    for (const block of session.workout.blocks) {
+      const suggestion = await buildSuggestion(ctx, userId, block.trainingItemId, windowSize);
+      blocks.push({ ...block, overrides: applySuggestedVariables(block.overrides, suggestion) });
+    }
+    await ctx.db.patch(session._id, {
+      overrides: blocks[0].overrides,
+      workout: { ...session.workout, blocks },
+      updatedAt: Date.now(),
+    });
+    return await ctx.db.get(session._id);
+  },
+});
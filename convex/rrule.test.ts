@@ -0,0 +1,192 @@
+import { describe, expect, it } from "@jest/globals";
+import { DAY_MS, dayKeyToTimestamp, timestampToDayKey } from "./dayKeys";
+import {
+  expandRecurrence,
+  formatRRule,
+  lastRecurrenceDay,
+  nextPatternDay,
+  occursInRecurrence,
+  parseRRule,
+  type RecurrenceLike,
+} from "./rrule";
+
+const day = dayKeyToTimestamp;
+
+function rrule(text: string, extra: Partial<RecurrenceLike> = {}): RecurrenceLike {
+  const parsed = parseRRule(text);
+  return {
+    frequency: parsed.freq.toLowerCase() as RecurrenceLike["frequency"],
+    interval: parsed.interval,
+    rrule: text,
+    ...extra,
+  };
+}
+
+function expand(start: string, recurrence: RecurrenceLike, to: string): string[] {
+  return expandRecurrence(day(start), recurrence, day(start), day(to)).map(timestampToDayKey);
+}
+
+describe("parseRRule", () => {
+  it("reads every supported part and formats it back", () => {
+    const text = "FREQ=MONTHLY;INTERVAL=2;COUNT=5;BYMONTH=1,7;BYDAY=-1FR;BYSETPOS=1;WKST=SU";
+    const parsed = parseRRule(`RRULE:${text}`);
+    expect(parsed).toEqual({
+      freq: "MONTHLY",
+      interval: 2,
+      count: 5,
+      until: undefined,
+      byDay: [{ weekday: 5, ordinal: -1 }],
+      byMonthDay: undefined,
+      byMonth: [1, 7],
+      bySetPos: [1],
+      wkst: 0,
+    });
+    expect(formatRRule(parsed)).toBe(text);
+  });
+
+  it("rejects parts it cannot evaluate instead of ignoring them", () => {
+    expect(() => parseRRule("FREQ=WEEKLY;BYHOUR=7")).toThrow("Unsupported RRULE part: BYHOUR.");
+    expect(() => parseRRule("FREQ=WEEKLY;BYWEEKNO=20")).toThrow("Unsupported RRULE part");
+  });
+
+  it("rejects malformed values", () => {
+    expect(() => parseRRule("FREQ=HOURLY")).toThrow();
+    expect(() => parseRRule("FREQ=MONTHLY;BYMONTHDAY=0")).toThrow();
+    expect(() => parseRRule("FREQ=WEEKLY;BYDAY")).toThrow();
+  });
+});
+
+describe("expandRecurrence", () => {
+  it("picks the last weekday of each month with BYSETPOS", () => {
+    const recurrence = rrule("FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1");
+    expect(expand("2025-01-31", recurrence, "2025-03-31")).toEqual([
+      "2025-01-31",
+      "2025-02-28",
+      "2025-03-31",
+    ]);
+  });
+
+  it("counts negative BYDAY ordinals from the end of the month", () => {
+    expect(expand("2025-01-31", rrule("FREQ=MONTHLY;BYDAY=-1FR"), "2025-03-31")).toEqual([
+      "2025-01-31",
+      "2025-02-28",
+      "2025-03-28",
+    ]);
+  });
+
+  it("treats BYMONTHDAY=-1 as the last day of each month, leap years included", () => {
+    const recurrence = rrule("FREQ=MONTHLY;BYMONTHDAY=-1");
+    expect(expand("2024-01-31", recurrence, "2024-04-30")).toEqual([
+      "2024-01-31",
+      "2024-02-29",
+      "2024-03-31",
+      "2024-04-30",
+    ]);
+  });
+
+  it("skips months without the 31st for a monthly rule started on one", () => {
+    expect(expand("2025-01-31", rrule("FREQ=MONTHLY"), "2025-06-30")).toEqual([
+      "2025-01-31",
+      "2025-03-31",
+      "2025-05-31",
+    ]);
+  });
+
+  it("repeats Feb 29 only in leap years", () => {
+    expect(expand("2024-02-29", rrule("FREQ=YEARLY"), "2032-12-31")).toEqual([
+      "2024-02-29",
+      "2028-02-29",
+      "2032-02-29",
+    ]);
+  });
+
+  it("stops at UNTIL, inclusive", () => {
+    expect(expand("2025-01-01", rrule("FREQ=DAILY;UNTIL=20250103"), "2025-01-10")).toEqual([
+      "2025-01-01",
+      "2025-01-02",
+      "2025-01-03",
+    ]);
+  });
+
+  it("counts DTSTART as the first instance even off the pattern", () => {
+    expect(expand("2025-01-01", rrule("FREQ=WEEKLY;BYDAY=FR;COUNT=2"), "2025-02-28")).toEqual([
+      "2025-01-01",
+      "2025-01-03",
+    ]);
+  });
+
+  it("applies COUNT before EXDATE removes a day", () => {
+    const recurrence = rrule("FREQ=DAILY;COUNT=3", { exdates: [day("2025-01-02")] });
+    expect(expand("2025-01-01", recurrence, "2025-01-10")).toEqual(["2025-01-01", "2025-01-03"]);
+  });
+
+  it("adds RDATEs and leaves out EXDATEs", () => {
+    const recurrence = rrule("FREQ=WEEKLY", {
+      exdates: [day("2025-01-08")],
+      rdates: [day("2025-01-10")],
+    });
+    expect(expand("2025-01-01", recurrence, "2025-01-15")).toEqual([
+      "2025-01-01",
+      "2025-01-10",
+      "2025-01-15",
+    ]);
+  });
+
+  it("keeps Sunday-based weeks for rules saved before RRULE support", () => {
+    // Every other week on weekends, from Saturday 2025-01-04.
+    const legacy: RecurrenceLike = { frequency: "weekly", interval: 2, byWeekdays: [0, 6] };
+    expect(expand("2025-01-04", legacy, "2025-01-20")).toEqual([
+      "2025-01-04",
+      "2025-01-12",
+      "2025-01-18",
+    ]);
+    expect(expand("2025-01-04", rrule("FREQ=WEEKLY;INTERVAL=2;BYDAY=SA,SU"), "2025-01-20"))
+      .toEqual(["2025-01-04", "2025-01-05", "2025-01-18", "2025-01-19"]);
+  });
+
+  it("only produces pattern days for legacy rules", () => {
+    const legacy: RecurrenceLike = { frequency: "weekly", interval: 1, byWeekdays: [5] };
+    expect(expand("2025-01-01", legacy, "2025-01-10")).toEqual(["2025-01-03", "2025-01-10"]);
+  });
+});
+
+describe("occursInRecurrence", () => {
+  it("agrees with the expansion", () => {
+    const recurrence = rrule("FREQ=MONTHLY;BYDAY=2TU;COUNT=3");
+    const expanded = expand("2025-01-01", recurrence, "2025-12-31");
+    expect(expanded).toEqual(["2025-01-01", "2025-01-14", "2025-02-11"]);
+    for (let cursor = day("2025-01-01"); cursor <= day("2025-12-31"); cursor += DAY_MS) {
+      expect(occursInRecurrence(day("2025-01-01"), recurrence, cursor)).toBe(
+        expanded.includes(timestampToDayKey(cursor)),
+      );
+    }
+  });
+});
+
+describe("nextPatternDay", () => {
+  it("returns the next rule day and how many came before it", () => {
+    const recurrence = rrule("FREQ=WEEKLY;BYDAY=MO,TH");
+    expect(nextPatternDay(day("2025-01-06"), recurrence, day("2025-01-14"))).toEqual({
+      day: day("2025-01-16"),
+      index: 3,
+    });
+  });
+
+  it("is undefined once COUNT is used up", () => {
+    expect(
+      nextPatternDay(day("2025-01-01"), rrule("FREQ=DAILY;COUNT=2"), day("2025-01-03")),
+    ).toBeUndefined();
+  });
+});
+
+describe("lastRecurrenceDay", () => {
+  it("finds the last COUNT day, the UNTIL day, or nothing for open rules", () => {
+    expect(lastRecurrenceDay(day("2025-01-01"), rrule("FREQ=WEEKLY;COUNT=3"))).toBe(
+      day("2025-01-15"),
+    );
+    expect(lastRecurrenceDay(day("2025-01-01"), rrule("FREQ=DAILY;UNTIL=20250201"))).toBe(
+      day("2025-02-01"),
+    );
+    expect(lastRecurrenceDay(day("2025-01-01"), rrule("FREQ=DAILY"))).toBeUndefined();
+  });
+});
@@ -0,0 +1,446 @@
+import { DAY_MS, startOfDay } from "./dayKeys";
+
+// RFC 5545 recurrence evaluation at day granularity. Times of day are ignored:
+// every timestamp is treated as the UTC day it falls on, like the rest of the schedule.
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const FREQUENCIES = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"] as const;
+// Anything else (BYWEEKNO, BYYEARDAY, BYHOUR, ...) is rejected rather than ignored, since
+// dropping a part would expand to a broader schedule than the rule describes.
+const SUPPORTED_PARTS = new Set([
+  "FREQ",
+  "INTERVAL",
+  "COUNT",
+  "UNTIL",
+  "BYDAY",
+  "BYMONTHDAY",
+  "BYMONTH",
+  "BYSETPOS",
+  "WKST",
+]);
+// Bounds COUNT scans for patterns that rarely or never match (e.g. BYMONTHDAY=31;BYMONTH=2).
+const MAX_SCAN_DAYS = 366 * 20;
+
+export type RRuleFrequency = (typeof FREQUENCIES)[number];
+
+export type ParsedRRule = {
+  freq: RRuleFrequency;
+  interval: number;
+  count?: number;
+  until?: number;
+  byDay?: { weekday: number; ordinal?: number }[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  wkst: number;
+};
+
+export type RecurrenceLike = {
+  frequency: "daily" | "weekly" | "monthly" | "yearly";
+  interval: number;
+  byWeekdays?: number[];
+  until?: number;
+  rrule?: string;
+  exdates?: number[];
+  rdates?: number[];
+};
+
+function daysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+function parseIntegerList(value: string, name: string, min: number, max: number): number[] {
+  const entries = value.split(",").map((entry) => Number(entry));
+  for (const entry of entries) {
+    if (!Number.isInteger(entry) || entry === 0 || entry < min || entry > max) {
+      throw new Error(`Invalid RRULE: ${name} value "${value}".`);
+    }
+  }
+  return entries;
+}
+
+export function parseICalDate(value: string): number {
+  const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid iCalendar date "${value}".`);
+  }
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+export function formatICalDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = `${date.getUTCMonth() + 1}`.padStart(2, "0");
+  const day = `${date.getUTCDate()}`.padStart(2, "0");
+  return `${date.getUTCFullYear()}${month}${day}`;
+}
+
+export function parseRRule(text: string): ParsedRRule {
+  const body = text.trim().replace(/^RRULE:/i, "");
+  const parts = new Map<string, string>();
+  for (const part of body.split(";")) {
+    if (!part) continue;
+    const [key, value] = part.split("=");
+    if (!key || value === undefined) {
+      throw new Error(`Invalid RRULE: "${part}".`);
+    }
+    const name = key.toUpperCase();
+    if (!SUPPORTED_PARTS.has(name)) {
+      throw new Error(`Unsupported RRULE part: ${name}.`);
+    }
+    parts.set(name, value.toUpperCase());
+  }
+
+  const freq = parts.get("FREQ") as RRuleFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new Error("Invalid RRULE: FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY.");
+  }
+
+  const interval = parts.has("INTERVAL") ? Number(parts.get("INTERVAL")) : 1;
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new Error("Invalid RRULE: INTERVAL must be a positive integer.");
+  }
+
+  const count = parts.has("COUNT") ? Number(parts.get("COUNT")) : undefined;
+  if (count !== undefined && (!Number.isInteger(count) || count < 1)) {
+    throw new Error("Invalid RRULE: COUNT must be a positive integer.");
+  }
+  if (count !== undefined && parts.has("UNTIL")) {
+    throw new Error("Invalid RRULE: COUNT and UNTIL cannot be combined.");
+  }
+
+  const byDay = parts.get("BYDAY")?.split(",").map((entry) => {
+    const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(entry);
+    if (!match) {
+      throw new Error(`Invalid RRULE: BYDAY value "${entry}".`);
+    }
+    const ordinal = match[1] ? Number(match[1]) : undefined;
+    if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 53)) {
+      throw new Error(`Invalid RRULE: BYDAY value "${entry}".`);
+    }
+    return { weekday: WEEKDAY_CODES.indexOf(match[2]), ordinal };
+  });
+
+  const wkst = parts.has("WKST") ? WEEKDAY_CODES.indexOf(parts.get("WKST")!) : 1;
+  if (wkst < 0) {
+    throw new Error("Invalid RRULE: WKST must be a weekday code.");
+  }
+
+  return {
+    freq,
+    interval,
+    count,
+    until: parts.has("UNTIL") ? parseICalDate(parts.get("UNTIL")!) : undefined,
+    byDay,
+    byMonthDay: parts.has("BYMONTHDAY")
+      ? parseIntegerList(parts.get("BYMONTHDAY")!, "BYMONTHDAY", -31, 31)
+      : undefined,
+    byMonth: parts.has("BYMONTH")
+      ? parseIntegerList(parts.get("BYMONTH")!, "BYMONTH", 1, 12)
+      : undefined,
+    bySetPos: parts.has("BYSETPOS")
+      ? parseIntegerList(parts.get("BYSETPOS")!, "BYSETPOS", -366, 366)
+      : undefined,
+    wkst,
+  };
+}
+
+export function formatRRule(rule: ParsedRRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until !== undefined) parts.push(`UNTIL=${formatICalDate(rule.until)}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.byDay?.length) {
+    parts.push(
+      `BYDAY=${rule.byDay
+        .map((entry) => `${entry.ordinal ?? ""}${WEEKDAY_CODES[entry.weekday]}`)
+        .join(",")}`,
+    );
+  }
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(",")}`);
+  if (rule.wkst !== 1) parts.push(`WKST=${WEEKDAY_CODES[rule.wkst]}`);
+  return parts.join(";");
+}
+
+// Rules created before RRULE support use Sunday-based weeks and no COUNT.
+export function recurrenceToRRule(recurrence: RecurrenceLike): ParsedRRule {
+  if (recurrence.rrule) {
+    return parseRRule(recurrence.rrule);
+  }
+  return {
+    freq: recurrence.frequency.toUpperCase() as RRuleFrequency,
+    interval: Math.max(1, Math.floor(recurrence.interval)),
+    until: recurrence.until,
+    byDay:
+      recurrence.frequency === "weekly" && recurrence.byWeekdays?.length
+        ? recurrence.byWeekdays.map((weekday) => ({ weekday }))
+        : undefined,
+    wkst: 0,
+  };
+}
+
+function startOfWeek(day: number, wkst: number): number {
+  const offset = (new Date(day).getUTCDay() - wkst + 7) % 7;
+  return day - offset * DAY_MS;
+}
+
+function periodBounds(rule: ParsedRRule, day: number): [number, number] {
+  const date = new Date(day);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (rule.freq) {
+    case "DAILY":
+      return [day, day];
+    case "WEEKLY": {
+      const weekStart = startOfWeek(day, rule.wkst);
+      return [weekStart, weekStart + 6 * DAY_MS];
+    }
+    case "MONTHLY":
+      return [Date.UTC(year, month, 1), Date.UTC(year, month, daysInMonth(year, month))];
+    case "YEARLY":
+      return [Date.UTC(year, 0, 1), Date.UTC(year, 11, 31)];
+  }
+}
+
+function periodIndex(rule: ParsedRRule, start: number, day: number): number {
+  const from = new Date(start);
+  const to = new Date(day);
+  switch (rule.freq) {
+    case "DAILY":
+      return Math.round((day - start) / DAY_MS);
+    case "WEEKLY":
+      return Math.round(
+        (startOfWeek(day, rule.wkst) - startOfWeek(start, rule.wkst)) / (7 * DAY_MS),
+      );
+    case "MONTHLY":
+      return (
+        (to.getUTCFullYear() - from.getUTCFullYear()) * 12 +
+        (to.getUTCMonth() - from.getUTCMonth())
+      );
+    case "YEARLY":
+      return to.getUTCFullYear() - from.getUTCFullYear();
+  }
+}
+
+// dayIndex is 1-based within a month or year of the given length.
+function matchesOrdinal(ordinal: number, dayIndex: number, length: number): boolean {
+  return ordinal > 0
+    ? Math.floor((dayIndex - 1) / 7) + 1 === ordinal
+    : Math.floor((length - dayIndex) / 7) + 1 === -ordinal;
+}
+
+function dayMatches(rule: ParsedRRule, start: number, day: number): boolean {
+  const date = new Date(day);
+  const startDate = new Date(start);
+  const year = date.getUTCFullYear();
+  const monthIndex = date.getUTCMonth();
+  const dayOfMonth = date.getUTCDate();
+  const weekday = date.getUTCDay();
+  const monthLength = daysInMonth(year, monthIndex);
+
+  if (rule.byMonth && !rule.byMonth.includes(monthIndex + 1)) {
+    return false;
+  }
+  if (
+    rule.byMonthDay &&
+    !rule.byMonthDay.some((entry) =>
+      entry > 0 ? entry === dayOfMonth : monthLength + entry + 1 === dayOfMonth,
+    )
+  ) {
+    return false;
+  }
+  if (rule.byDay) {
+    const yearScope = rule.freq === "YEARLY" && !rule.byMonth;
+    const ordinalScoped = rule.freq === "MONTHLY" || rule.freq === "YEARLY";
+    const dayOfYear = Math.round((day - Date.UTC(year, 0, 1)) / DAY_MS) + 1;
+    const yearLength = Math.round((Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / DAY_MS);
+    const matched = rule.byDay.some((entry) => {
+      if (entry.weekday !== weekday) return false;
+      if (entry.ordinal === undefined || !ordinalScoped) return true;
+      return yearScope
+        ? matchesOrdinal(entry.ordinal, dayOfYear, yearLength)
+        : matchesOrdinal(entry.ordinal, dayOfMonth, monthLength);
+    });
+    if (!matched) {
+      return false;
+    }
+  }
+
+  // Without BY* parts the rule repeats on DTSTART's weekday/day/month.
+  if (rule.freq === "WEEKLY" && !rule.byDay) {
+    return weekday === startDate.getUTCDay();
+  }
+  if (rule.freq === "MONTHLY" && !rule.byDay && !rule.byMonthDay) {
+    return dayOfMonth === startDate.getUTCDate();
+  }
+  if (rule.freq === "YEARLY" && !rule.byDay && !rule.byMonthDay) {
+    return (
+      dayOfMonth === startDate.getUTCDate() &&
+      (rule.byMonth !== undefined || monthIndex === startDate.getUTCMonth())
+    );
+  }
+  return true;
+}
+
+function matchesPattern(rule: ParsedRRule, start: number, day: number): boolean {
+  if (periodIndex(rule, start, day) % rule.interval !== 0) {
+    return false;
+  }
+  if (!rule.bySetPos?.length) {
+    return dayMatches(rule, start, day);
+  }
+
+  const [periodStart, periodEnd] = periodBounds(rule, day);
+  const candidates: number[] = [];
+  for (let cursor = periodStart; cursor <= periodEnd; cursor += DAY_MS) {
+    if (dayMatches(rule, start, cursor)) {
+      candidates.push(cursor);
+    }
+  }
+  return rule.bySetPos.some((position) => {
+    const index = position > 0 ? position - 1 : candidates.length + position;
+    return candidates[index] === day;
+  });
+}
+
+// RFC 5545 counts DTSTART as the first instance even when it does not fit the pattern,
+// so it also counts toward COUNT. Rules without RRULE text predate that and only ever
+// produce pattern days.
+function isRuleDay(
+  rule: ParsedRRule,
+  recurrence: RecurrenceLike,
+  start: number,
+  day: number,
+): boolean {
+  return (day === start && Boolean(recurrence.rrule)) || matchesPattern(rule, start, day);
+}
+
+function withinRuleBounds(rule: ParsedRRule, recurrence: RecurrenceLike, day: number) {
+  const untilCandidates = [recurrence.until, rule.until].filter(
+    (entry): entry is number => entry !== undefined,
+  );
+  return untilCandidates.every((until) => day <= startOfDay(until));
+}
+
+export function occursInRecurrence(
+  startDate: number,
+  recurrence: RecurrenceLike,
+  timestamp: number,
+): boolean {
+  const day = startOfDay(timestamp);
+  const start = startOfDay(startDate);
+  if (recurrence.exdates?.some((entry) => startOfDay(entry) === day)) {
+    return false;
+  }
+  if (recurrence.rdates?.some((entry) => startOfDay(entry) === day)) {
+    return true;
+  }
+  if (day < start) {
+    return false;
+  }
+
+  const rule = recurrenceToRRule(recurrence);
+  if (!withinRuleBounds(rule, recurrence, day) || !isRuleDay(rule, recurrence, start, day)) {
+    return false;
+  }
+  if (rule.count === undefined) {
+    return true;
+  }
+
+  // COUNT limits the RRULE set before EXDATE removes anything (RFC 5545 §3.8.5.1).
+  let seen = 0;
+  for (let cursor = start; cursor < day; cursor += DAY_MS) {
+    if (isRuleDay(rule, recurrence, start, cursor)) {
+      seen += 1;
+      if (seen >= rule.count) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+// Every day the recurrence produces between two days (inclusive), in order. One forward
+// scan, starting at DTSTART only when COUNT needs the earlier occurrences counted, so
+// callers covering a range should expand once instead of asking day by day.
+export function expandRecurrence(
+  startDate: number,
+  recurrence: RecurrenceLike,
+  from: number,
+  to: number,
+): number[] {
+  const start = startOfDay(startDate);
+  const rangeStart = startOfDay(from);
+  const rangeEnd = startOfDay(to);
+  const rule = recurrenceToRRule(recurrence);
+  const exdates = new Set((recurrence.exdates ?? []).map(startOfDay));
+  const days = new Set<number>();
+
+  let seen = 0;
+  const scanFrom = rule.count !== undefined ? start : Math.max(start, rangeStart);
+  for (let cursor = scanFrom; cursor <= rangeEnd; cursor += DAY_MS) {
+    if (!withinRuleBounds(rule, recurrence, cursor)) break;
+    if (!isRuleDay(rule, recurrence, start, cursor)) continue;
+    seen += 1;
+    if (rule.count !== undefined && seen > rule.count) break;
+    if (cursor >= rangeStart && !exdates.has(cursor)) days.add(cursor);
+  }
+  for (const rdate of recurrence.rdates ?? []) {
+    const day = startOfDay(rdate);
+    if (day >= rangeStart && day <= rangeEnd && !exdates.has(day)) days.add(day);
+  }
+  return Array.from(days).sort((a, b) => a - b);
+}
+
+// First day on or after `from` that the rule itself produces (EXDATE and RDATE aside),
+// with how many pattern days came before it. Undefined when the rule has ended by then.
+export function nextPatternDay(
+  startDate: number,
+  recurrence: RecurrenceLike,
+  from: number,
+): { day: number; index: number } | undefined {
+  const start = startOfDay(startDate);
+  const target = Math.max(start, startOfDay(from));
+  const rule = recurrenceToRRule(recurrence);
+  let seen = 0;
+  for (let cursor = start; cursor < target + MAX_SCAN_DAYS * DAY_MS; cursor += DAY_MS) {
+    if (!withinRuleBounds(rule, recurrence, cursor)) return undefined;
+    if (!isRuleDay(rule, recurrence, start, cursor)) continue;
+    if (rule.count !== undefined && seen >= rule.count) return undefined;
+    if (cursor >= target) return { day: cursor, index: seen };
+    seen += 1;
+  }
+  return undefined;
+}
+
+// Last day the recurrence can produce, or undefined when it is open-ended.
+export function lastRecurrenceDay(startDate: number, recurrence: RecurrenceLike) {
+  const rule = recurrenceToRRule(recurrence);
+  const rdateMax = Math.max(...(recurrence.rdates ?? []).map(startOfDay), -Infinity);
+  let last: number | undefined;
+  if (rule.count !== undefined) {
+    const start = startOfDay(startDate);
+    let seen = 0;
+    for (
+      let cursor = start;
+      seen < rule.count && cursor < start + MAX_SCAN_DAYS * DAY_MS;
+      cursor += DAY_MS
+    ) {
+      if (!withinRuleBounds(rule, recurrence, cursor)) break;
+      if (isRuleDay(rule, recurrence, start, cursor)) {
+        seen += 1;
+        last = cursor;
+      }
+    }
+  } else {
+    const until = [recurrence.until, rule.until].filter(
+      (entry): entry is number => entry !== undefined,
+    );
+    if (until.length === 0) {
+      return undefined;
+    }
+    last = startOfDay(Math.min(...until));
+  }
+  return Math.max(last ?? -Infinity, rdateMax);
+}
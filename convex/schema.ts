@@ -2,6 +2,130 @@ import { authTables } from "@convex-dev/auth/server";
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+const variablesValidator = v.object({
+  weight: v.optional(v.number()),
+  reps: v.optional(v.number()),
+  sets: v.optional(v.number()),
+  restSeconds: v.optional(v.number()),
+  restBetweenSetsSeconds: v.optional(v.number()),
+  durationSeconds: v.optional(v.number()),
+});
+
+const intervalProtocolValidator = v.union(
+  v.object({
+    kind: v.literal("intervals"),
+    intervals: v.array(v.object({ workSeconds: v.number(), restSeconds: v.number() })),
+  }),
+  v.object({
+    kind: v.union(v.literal("ladder"), v.literal("pyramid")),
+    startSeconds: v.number(),
+    stepSeconds: v.number(),
+    rungs: v.number(),
+    restSeconds: v.number(),
+  }),
+  v.object({
+    kind: v.literal("emom"),
+    intervalSeconds: v.number(),
+    workSeconds: v.number(),
+    rounds: v.number(),
+  }),
+  v.object({ kind: v.literal("amrap"), durationSeconds: v.number() }),
+);
+
+const forceValidator = v.object({
+  peakKg: v.number(),
+  meanKg: v.number(),
+  rfdKgPerSecond: v.optional(v.number()),
+  sensor: v.string(),
+  // Downsampled force over the rep; see forceCurves.ts for the encoding.
+  curve: v.optional(v.object({ intervalMs: v.number(), samples: v.string() })),
+});
+
+const benchmarkProtocolValidator = v.union(
+  v.literal("max_hang_10s"),
+  v.literal("repeaters_7_3"),
+  v.literal("critical_force"),
+);
+
+const soundEventValidator = v.object({ enabled: v.boolean(), volume: v.number() });
+
+const timerSoundsValidator = v.object({
+  pack: v.union(v.literal("classic"), v.literal("soft"), v.literal("arcade")),
+  countdownSeconds: v.number(),
+  workTickSeconds: v.number(),
+  events: v.object({
+    countdown: soundEventValidator,
+    go: soundEventValidator,
+    workTick: soundEventValidator,
+    complete: soundEventValidator,
+  }),
+});
+
+const snapshotValidator = v.object({
+  title: v.string(),
+  description: v.optional(v.string()),
+  categories: v.array(v.string()),
+  tags: v.array(v.string()),
+  trainingType: v.optional(
+    v.union(
+      v.literal("hang"),
+      v.literal("weight_training"),
+      v.literal("climbing"),
+      v.literal("others"),
+    ),
+  ),
+  hangDetails: v.optional(
+    v.object({
+      apparatus: v.union(v.literal("fingerboard"), v.literal("bar")),
+      edgeSizeMm: v.optional(
+        v.union(v.literal(8), v.literal(10), v.literal(15), v.literal(20), v.literal(25)),
+      ),
+      crimpType: v.optional(v.union(v.literal("open"), v.literal("half"), v.literal("full"))),
+      loadPreference: v.optional(v.union(v.literal("below_100"), v.literal("above_100"))),
+    }),
+  ),
+  difficulty: v.union(v.literal("beginner"), v.literal("intermediate"), v.literal("advanced")),
+  equipment: v.array(v.string()),
+  variables: variablesValidator,
+  protocol: v.optional(intervalProtocolValidator),
+});
+
+// Rule-level load progression; anchorDate is where step counting (re)starts.
+const progressionValidator = v.object({
+  steps: v.array(
+    v.object({
+      variable: v.union(
+        v.literal("weight"),
+        v.literal("reps"),
+        v.literal("sets"),
+        v.literal("durationSeconds"),
+      ),
+      amount: v.number(),
+      every: v.number(),
+      unit: v.union(v.literal("week"), v.literal("session")),
+    }),
+  ),
+  cycleWeeks: v.optional(v.number()),
+  deloadLoadFactor: v.optional(v.number()),
+  anchorDate: v.optional(v.number()),
+});
+
+// Workout sessions freeze every block at schedule time; the session's own
+// trainingItemId/snapshot/overrides mirror block 0 for single-item readers.
+const workoutValidator = v.object({
+  workoutTemplateId: v.id("workoutTemplates"),
+  title: v.string(),
+  description: v.optional(v.string()),
+  blocks: v.array(
+    v.object({
+      trainingItemId: v.id("trainingItems"),
+      snapshot: snapshotValidator,
+      overrides: variablesValidator,
+      notes: v.optional(v.string()),
+    }),
+  ),
+});
+
 export default defineSchema({
   ...authTables,
   counter: defineTable({
@@ -17,11 +141,26 @@ export default defineSchema({
     boulderingGrade: v.optional(v.string()),
     sportGrade: v.optional(v.string()),
     tradGrade: v.optional(v.string()),
+    // How grades are shown and picked in the app; they are stored as V-scale and YDS.
+    boulderGradeSystem: v.optional(v.union(v.literal("v_scale"), v.literal("font"))),
+    ropeGradeSystem: v.optional(
+      v.union(v.literal("yds"), v.literal("french"), v.literal("uiaa"), v.literal("british")),
+    ),
+    // Loads and edges are stored in kg and mm; imperial only changes how the app shows them.
+    unitSystem: v.optional(v.union(v.literal("metric"), v.literal("imperial"))),
+    // Timer cues: beeps only (the default), spoken cues only, or both.
+    timerCues: v.optional(v.union(v.literal("beeps"), v.literal("voice"), v.literal("both"))),
+    // Tone pack, countdown lengths and per-event volume for the timer's beeps.
+    timerSounds: v.optional(timerSoundsValidator),
     regions: v.array(v.string()),
     bio: v.optional(v.string()),
     goals: v.optional(v.string()),
     showProfilePublic: v.boolean(),
     showHistoryPublic: v.boolean(),
+    // IANA zone reported by the user's device; decides which calendar day is "today".
+    timeZone: v.optional(v.string()),
+    // Acute:chronic workload ratio above which training load warnings are shown.
+    acwrWarningRatio: v.optional(v.number()),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
@@ -33,14 +172,7 @@ export default defineSchema({
     description: v.optional(v.string()),
     categories: v.array(v.string()),
     tags: v.array(v.string()),
-    variables: v.object({
-      weight: v.optional(v.number()),
-      reps: v.optional(v.number()),
-      sets: v.optional(v.number()),
-      restSeconds: v.optional(v.number()),
-      restBetweenSetsSeconds: v.optional(v.number()),
-      durationSeconds: v.optional(v.number()),
-    }),
+    variables: variablesValidator,
     trainingType: v.optional(
       v.union(
         v.literal("hang"),
@@ -61,8 +193,12 @@ export default defineSchema({
     ),
     difficulty: v.union(v.literal("beginner"), v.literal("intermediate"), v.literal("advanced")),
     equipment: v.array(v.string()),
+    // Uneven reps within a set (ladders, EMOM, ...); sets and set rest stay in variables.
+    protocol: v.optional(intervalProtocolValidator),
     status: v.union(v.literal("draft"), v.literal("published")),
     publishedAt: v.optional(v.number()),
+    // Set on the hidden exercise a benchmark test runs on; kept out of the user's lists.
+    benchmarkProtocol: v.optional(benchmarkProtocolValidator),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
@@ -76,135 +212,145 @@ export default defineSchema({
   })
     .index("by_user_item", ["userId", "itemId"])
     .index("by_user_created_at", ["userId", "createdAt"]),
+  workoutTemplates: defineTable({
+    ownerId: v.id("users"),
+    title: v.string(),
+    description: v.optional(v.string()),
+    blocks: v.array(
+      v.object({
+        trainingItemId: v.id("trainingItems"),
+        overrides: variablesValidator,
+        notes: v.optional(v.string()),
+      }),
+    ),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_owner_updated_at", ["ownerId", "updatedAt"]),
+  trainingPlans: defineTable({
+    ownerId: v.id("users"),
+    title: v.string(),
+    description: v.optional(v.string()),
+    phases: v.array(
+      v.object({
+        kind: v.union(
+          v.literal("base"),
+          v.literal("strength"),
+          v.literal("power"),
+          v.literal("power_endurance"),
+          v.literal("deload"),
+        ),
+        weeks: v.number(),
+        sessions: v.array(
+          v.object({
+            dayOfWeek: v.number(),
+            trainingItemId: v.optional(v.id("trainingItems")),
+            workoutTemplateId: v.optional(v.id("workoutTemplates")),
+            // 1-based weeks within the phase; omitted means every week.
+            weeks: v.optional(v.array(v.number())),
+            overrides: variablesValidator,
+            notes: v.optional(v.string()),
+          }),
+        ),
+        progression: v.object({
+          weightPerWeek: v.optional(v.number()),
+          setsPerWeek: v.optional(v.number()),
+          repsPerWeek: v.optional(v.number()),
+          durationSecondsPerWeek: v.optional(v.number()),
+        }),
+      }),
+    ),
+    appliedFrom: v.optional(v.number()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_owner_updated_at", ["ownerId", "updatedAt"]),
   trainingScheduleSessions: defineTable({
     ownerId: v.id("users"),
     trainingItemId: v.id("trainingItems"),
     isImpromptu: v.optional(v.boolean()),
     recurrenceRuleId: v.optional(v.id("trainingScheduleRecurrenceRules")),
     scheduledFor: v.number(),
+    // Minutes after midnight on the scheduled day; unset means any time that day.
+    startMinutes: v.optional(v.number()),
+    durationMinutes: v.optional(v.number()),
     completedAt: v.optional(v.number()),
     canceledAt: v.optional(v.number()),
-    snapshot: v.object({
-      title: v.string(),
-      description: v.optional(v.string()),
-      categories: v.array(v.string()),
-      tags: v.array(v.string()),
-      trainingType: v.optional(
-        v.union(
-          v.literal("hang"),
-          v.literal("weight_training"),
-          v.literal("climbing"),
-          v.literal("others"),
-        ),
-      ),
-      hangDetails: v.optional(
-        v.object({
-          apparatus: v.union(v.literal("fingerboard"), v.literal("bar")),
-          edgeSizeMm: v.optional(
-            v.union(v.literal(8), v.literal(10), v.literal(15), v.literal(20), v.literal(25)),
-          ),
-          crimpType: v.optional(v.union(v.literal("open"), v.literal("half"), v.literal("full"))),
-          loadPreference: v.optional(v.union(v.literal("below_100"), v.literal("above_100"))),
-        }),
-      ),
-      difficulty: v.union(v.literal("beginner"), v.literal("intermediate"), v.literal("advanced")),
-      equipment: v.array(v.string()),
-      variables: v.object({
-        weight: v.optional(v.number()),
-        reps: v.optional(v.number()),
-        sets: v.optional(v.number()),
-        restSeconds: v.optional(v.number()),
-        restBetweenSetsSeconds: v.optional(v.number()),
-        durationSeconds: v.optional(v.number()),
-      }),
-    }),
-    overrides: v.object({
-      weight: v.optional(v.number()),
-      reps: v.optional(v.number()),
-      sets: v.optional(v.number()),
-      restSeconds: v.optional(v.number()),
-      restBetweenSetsSeconds: v.optional(v.number()),
-      durationSeconds: v.optional(v.number()),
-    }),
+    snapshot: snapshotValidator,
+    overrides: variablesValidator,
+    workout: v.optional(workoutValidator),
+    planId: v.optional(v.id("trainingPlans")),
+    planPhaseIndex: v.optional(v.number()),
+    planWeekIndex: v.optional(v.number()),
     notes: v.optional(v.string()),
+    // UID of the VEVENT this session was imported from.
+    importUid: v.optional(v.string()),
+    benchmarkProtocol: v.optional(benchmarkProtocolValidator),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_owner_scheduled_for", ["ownerId", "scheduledFor"])
+    .index("by_owner_import_uid", ["ownerId", "importUid"])
     .index("by_owner_completed_at", ["ownerId", "completedAt"])
-    .index("by_rule_scheduled_for", ["recurrenceRuleId", "scheduledFor"]),
+    .index("by_rule_scheduled_for", ["recurrenceRuleId", "scheduledFor"])
+    .index("by_plan_scheduled_for", ["planId", "scheduledFor"]),
   trainingScheduleRecurrenceRules: defineTable({
     ownerId: v.id("users"),
     trainingItemId: v.id("trainingItems"),
     startDate: v.number(),
+    startMinutes: v.optional(v.number()),
+    durationMinutes: v.optional(v.number()),
     recurrence: v.object({
-      frequency: v.union(v.literal("daily"), v.literal("weekly"), v.literal("monthly")),
+      frequency: v.union(
+        v.literal("daily"),
+        v.literal("weekly"),
+        v.literal("monthly"),
+        v.literal("yearly"),
+      ),
       interval: v.number(),
       byWeekdays: v.optional(v.array(v.number())),
       until: v.optional(v.number()),
+      // Full RFC 5545 RRULE (without the "RRULE:" prefix); overrides the fields above.
+      rrule: v.optional(v.string()),
+      exdates: v.optional(v.array(v.number())),
+      rdates: v.optional(v.array(v.number())),
     }),
-    snapshot: v.object({
-      title: v.string(),
-      description: v.optional(v.string()),
-      categories: v.array(v.string()),
-      tags: v.array(v.string()),
-      trainingType: v.optional(
-        v.union(
-          v.literal("hang"),
-          v.literal("weight_training"),
-          v.literal("climbing"),
-          v.literal("others"),
-        ),
-      ),
-      hangDetails: v.optional(
-        v.object({
-          apparatus: v.union(v.literal("fingerboard"), v.literal("bar")),
-          edgeSizeMm: v.optional(
-            v.union(v.literal(8), v.literal(10), v.literal(15), v.literal(20), v.literal(25)),
-          ),
-          crimpType: v.optional(v.union(v.literal("open"), v.literal("half"), v.literal("full"))),
-          loadPreference: v.optional(v.union(v.literal("below_100"), v.literal("above_100"))),
-        }),
-      ),
-      difficulty: v.union(v.literal("beginner"), v.literal("intermediate"), v.literal("advanced")),
-      equipment: v.array(v.string()),
-      variables: v.object({
-        weight: v.optional(v.number()),
-        reps: v.optional(v.number()),
-        sets: v.optional(v.number()),
-        restSeconds: v.optional(v.number()),
-        restBetweenSetsSeconds: v.optional(v.number()),
-        durationSeconds: v.optional(v.number()),
-      }),
-    }),
-    defaultOverrides: v.object({
-      weight: v.optional(v.number()),
-      reps: v.optional(v.number()),
-      sets: v.optional(v.number()),
-      restSeconds: v.optional(v.number()),
-      restBetweenSetsSeconds: v.optional(v.number()),
-      durationSeconds: v.optional(v.number()),
-    }),
+    snapshot: snapshotValidator,
+    defaultOverrides: variablesValidator,
+    progression: v.optional(progressionValidator),
+    workout: v.optional(workoutValidator),
     notes: v.optional(v.string()),
+    importUid: v.optional(v.string()),
     active: v.boolean(),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_owner_start_date", ["ownerId", "startDate"])
+    .index("by_owner_import_uid", ["ownerId", "importUid"])
     .index("by_owner_active_start_date", ["ownerId", "active", "startDate"]),
+  calendarFeedTokens: defineTable({
+    ownerId: v.id("users"),
+    token: v.string(),
+    createdAt: v.number(),
+  })
+    .index("by_owner", ["ownerId"])
+    .index("by_token", ["token"]),
   trainingSessionLogs: defineTable({
     ownerId: v.id("users"),
     scheduleSessionId: v.id("trainingScheduleSessions"),
     trainingItemId: v.id("trainingItems"),
+    blockIndex: v.optional(v.number()),
     status: v.union(v.literal("active"), v.literal("completed"), v.literal("stopped_early")),
     startedAt: v.number(),
     endedAt: v.optional(v.number()),
+    // Body weight in effect when the log started; converts % bodyweight loads to kg.
+    bodyWeightKg: v.optional(v.number()),
     planned: v.object({
+      weight: v.optional(v.number()),
       sets: v.optional(v.number()),
       reps: v.optional(v.number()),
       restSeconds: v.optional(v.number()),
       restBetweenSetsSeconds: v.optional(v.number()),
       durationSeconds: v.optional(v.number()),
+      protocol: v.optional(intervalProtocolValidator),
     }),
     summary: v.object({
       completedSets: v.number(),
@@ -212,6 +358,11 @@ export default defineSchema({
       skippedSets: v.number(),
       totalRepDurationMs: v.number(),
       totalRestDurationMs: v.number(),
+      failedReps: v.optional(v.number()),
+      averageRpe: v.optional(v.number()),
+      maxRpe: v.optional(v.number()),
+      maxAddedWeightKg: v.optional(v.number()),
+      peakForceKg: v.optional(v.number()),
     }),
     steps: v.array(
       v.object({
@@ -222,14 +373,102 @@ export default defineSchema({
         plannedDurationSeconds: v.optional(v.number()),
         actualDurationMs: v.number(),
         note: v.optional(v.string()),
+        addedWeightKg: v.optional(v.number()),
+        edgeSizeMm: v.optional(v.number()),
+        grip: v.optional(v.string()),
+        rpe: v.optional(v.number()),
+        failed: v.optional(v.boolean()),
+        // Measured by a connected force sensor while the rep ran.
+        force: v.optional(forceValidator),
+        clientStepId: v.optional(v.string()),
         createdAt: v.number(),
       }),
     ),
+    // Problems and routes from climbing sessions, which have no reps.
+    climbs: v.optional(
+      v.array(
+        v.object({
+          clientClimbId: v.string(),
+          discipline: v.union(v.literal("boulder"), v.literal("rope")),
+          grade: v.string(),
+          style: v.union(
+            v.literal("flash"),
+            v.literal("onsight"),
+            v.literal("redpoint"),
+            v.literal("attempt"),
+          ),
+          attempts: v.number(),
+          wallAngle: v.optional(
+            v.union(
+              v.literal("slab"),
+              v.literal("vertical"),
+              v.literal("overhang"),
+              v.literal("roof"),
+            ),
+          ),
+          holdTypes: v.array(v.string()),
+          note: v.optional(v.string()),
+          createdAt: v.number(),
+        }),
+      ),
+    ),
     notes: v.optional(v.string()),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_owner_started_at", ["ownerId", "startedAt"])
     .index("by_owner_status_started_at", ["ownerId", "status", "startedAt"])
+    .index("by_owner_item_started_at", ["ownerId", "trainingItemId", "startedAt"])
     .index("by_session_started_at", ["scheduleSessionId", "startedAt"]),
+  // Dated body weight; profiles.bodyWeightKg mirrors the latest entry.
+  bodyWeightEntries: defineTable({
+    ownerId: v.id("users"),
+    // UTC midnight of the calendar day, like schedule dates.
+    day: v.number(),
+    weightKg: v.number(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_owner_day", ["ownerId", "day"]),
+  // One row each time a record is beaten; the highest value per key is the current record.
+  personalRecords: defineTable({
+    ownerId: v.id("users"),
+    trainingItemId: v.id("trainingItems"),
+    scheduleSessionId: v.id("trainingScheduleSessions"),
+    logId: v.id("trainingSessionLogs"),
+    kind: v.union(
+      v.literal("hang_load"),
+      v.literal("added_weight"),
+      v.literal("bodyweight_hang"),
+    ),
+    recordKey: v.string(),
+    title: v.string(),
+    value: v.number(),
+    previousValue: v.optional(v.number()),
+    edgeSizeMm: v.optional(v.number()),
+    grip: v.optional(v.string()),
+    durationSeconds: v.optional(v.number()),
+    achievedAt: v.number(),
+    createdAt: v.number(),
+  })
+    .index("by_owner_record_key_value", ["ownerId", "recordKey", "value"])
+    .index("by_owner_achieved_at", ["ownerId", "achievedAt"])
+    .index("by_session", ["scheduleSessionId"])
+    .index("by_log", ["logId"]),
+  benchmarkResults: defineTable({
+    ownerId: v.id("users"),
+    protocol: benchmarkProtocolValidator,
+    scheduleSessionId: v.id("trainingScheduleSessions"),
+    logId: v.id("trainingSessionLogs"),
+    // Body weight at test time, so later weight changes do not rewrite old ratios.
+    bodyWeightKg: v.number(),
+    loadKg: v.optional(v.number()),
+    strengthToWeight: v.optional(v.number()),
+    hangSeconds: v.number(),
+    completedReps: v.number(),
+    testedAt: v.number(),
+    createdAt: v.number(),
+  })
+    .index("by_owner_tested_at", ["ownerId", "testedAt"])
+    .index("by_owner_protocol_tested_at", ["ownerId", "protocol", "testedAt"])
+    .index("by_log", ["logId"]),
 });
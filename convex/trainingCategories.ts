@@ -0,0 +1,33 @@
+// Preset training categories, shared by the item form and the server's stats. Custom
+// categories are grouped as "other".
+export const TRAINING_CATEGORIES = [
+  "finger-strength",
+  "power-endurance",
+  "mobility",
+  "technique",
+  "conditioning",
+] as const;
+
+export const FINGER_STRENGTH_CATEGORY = "finger-strength";
+
+export function snapshotCategories(snapshot: { categories: string[] }): string[] {
+  const presets: readonly string[] = TRAINING_CATEGORIES;
+  return Array.from(
+    new Set(
+      snapshot.categories.map((category) => (presets.includes(category) ? category : "other")),
+    ),
+  );
+}
+
+type CategorizedSnapshot = { categories: string[] };
+
+// Categories of everything trained in a session, counting a workout's blocks once each.
+export function sessionCategories(session: {
+  snapshot: CategorizedSnapshot;
+  workout?: { blocks: { snapshot: CategorizedSnapshot }[] };
+}): string[] {
+  const snapshots = session.workout
+    ? session.workout.blocks.map((block) => block.snapshot)
+    : [session.snapshot];
+  return Array.from(new Set(snapshots.flatMap(snapshotCategories)));
+}
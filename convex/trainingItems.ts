@@ -1,6 +1,7 @@
 import { getAuthUserId } from "@convex-dev/auth/server";
 import { mutationGeneric, queryGeneric } from "convex/server";
 import { v } from "convex/values";
+import { validateProtocol } from "./intervalProtocols";
 
 const variablesValidator = v.object({
   weight: v.optional(v.number()),
@@ -27,6 +28,27 @@ const hangDetailsValidator = v.object({
   loadPreference: v.optional(v.union(v.literal("below_100"), v.literal("above_100"))),
 });
 
+const intervalProtocolValidator = v.union(
+  v.object({
+    kind: v.literal("intervals"),
+    intervals: v.array(v.object({ workSeconds: v.number(), restSeconds: v.number() })),
+  }),
+  v.object({
+    kind: v.union(v.literal("ladder"), v.literal("pyramid")),
+    startSeconds: v.number(),
+    stepSeconds: v.number(),
+    rungs: v.number(),
+    restSeconds: v.number(),
+  }),
+  v.object({
+    kind: v.literal("emom"),
+    intervalSeconds: v.number(),
+    workSeconds: v.number(),
+    rounds: v.number(),
+  }),
+  v.object({ kind: v.literal("amrap"), durationSeconds: v.number() }),
+);
+
 const difficultyValidator = v.union(
   v.literal("beginner"),
   v.literal("intermediate"),
@@ -63,6 +85,7 @@ export const createDraft = mutationGeneric({
     hangDetails: v.optional(hangDetailsValidator),
     difficulty: difficultyValidator,
     equipment: v.array(v.string()),
+    protocol: v.optional(intervalProtocolValidator),
   },
   handler: async (ctx, args) => {
     const ownerId = await getAuthUserId(ctx);
@@ -70,6 +93,9 @@ export const createDraft = mutationGeneric({
       throw new Error("Unauthorized");
     }
     const normalizedCategories = normalizeCategories(args.categories);
+    if (args.protocol) {
+      validateProtocol(args.protocol);
+    }
     const now = Date.now();
     const itemId = await ctx.db.insert("trainingItems", {
       ...args,
@@ -96,6 +122,7 @@ export const updateDraft = mutationGeneric({
     hangDetails: v.optional(hangDetailsValidator),
     difficulty: difficultyValidator,
     equipment: v.array(v.string()),
+    protocol: v.optional(intervalProtocolValidator),
   },
   handler: async (ctx, args) => {
     const ownerId = await getAuthUserId(ctx);
@@ -103,6 +130,9 @@ export const updateDraft = mutationGeneric({
       throw new Error("Unauthorized");
     }
     const normalizedCategories = normalizeCategories(args.categories);
+    if (args.protocol) {
+      validateProtocol(args.protocol);
+    }
     const item = await ctx.db.get(args.itemId);
 
     if (!item) {
@@ -122,6 +152,7 @@ export const updateDraft = mutationGeneric({
       hangDetails: args.hangDetails,
       difficulty: args.difficulty,
       equipment: args.equipment,
+      protocol: args.protocol,
       updatedAt: Date.now(),
     });
 
@@ -206,11 +237,12 @@ export const listMyItems = queryGeneric({
     if (!ownerId) {
       throw new Error("Unauthorized");
     }
-    return await ctx.db
+    const items = await ctx.db
       .query("trainingItems")
       .withIndex("by_owner_updated_at", (q) => q.eq("ownerId", ownerId))
       .order("desc")
       .collect();
+    return items.filter((item) => !item.benchmarkProtocol);
   },
 });
 
@@ -233,6 +265,9 @@ export const listPublishedItems = queryGeneric({
     );
     const filtered = items
       .filter((item) => {
+        if (item.benchmarkProtocol) {
+          return false;
+        }
         const itemCategories = categoriesForSearch(item.categories)
           .map((entry: string) => entry.toLowerCase().trim())
           .filter((entry: string) => entry.length > 0);
@@ -0,0 +1,65 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { summarizeSteps } from "./trainingLogs";
+
+// Only the pure summary is under test; the auth helper is not loaded outside Convex.
+jest.mock("@convex-dev/auth/server", () => ({ getAuthUserId: jest.fn() }), { virtual: true });
+
+describe("summarizeSteps", () => {
+  it("counts reps, finished sets and time per rep and rest", () => {
+    const summary = summarizeSteps({ reps: 2 }, [
+      { kind: "rep", setNumber: 1, repNumber: 1, actualDurationMs: 7000 },
+      { kind: "rest", setNumber: 1, repNumber: 1, actualDurationMs: 3000 },
+      { kind: "rep", setNumber: 1, repNumber: 2, actualDurationMs: 6500 },
+      { kind: "rest", setNumber: 1, actualDurationMs: 180000 },
+      { kind: "rep", setNumber: 2, repNumber: 1, actualDurationMs: 5000 },
+      { kind: "set_skipped", setNumber: 3, actualDurationMs: 0 },
+    ]);
+    expect(summary).toMatchObject({
+      completedSets: 1,
+      completedReps: 3,
+      skippedSets: 1,
+      totalRepDurationMs: 18500,
+      totalRestDurationMs: 183000,
+      failedReps: 0,
+    });
+  });
+
+  it("counts a rep step without a rep number as the whole set", () => {
+    const summary = summarizeSteps({ reps: 5 }, [
+      { kind: "rep", setNumber: 1, actualDurationMs: 20000 },
+      { kind: "rep", setNumber: 2, completedReps: 3, actualDurationMs: 12000 },
+    ]);
+    expect(summary.completedReps).toBe(8);
+    expect(summary.completedSets).toBe(1);
+  });
+
+  it("derives RPE, failed reps, added weight and peak force from the step details", () => {
+    const summary = summarizeSteps({ reps: 1 }, [
+      { kind: "rep", setNumber: 1, actualDurationMs: 10000, rpe: 7, addedWeightKg: 10 },
+      {
+        kind: "rep",
+        setNumber: 2,
+        actualDurationMs: 8000,
+        rpe: 9,
+        failed: true,
+        addedWeightKg: 12.5,
+        force: { peakKg: 42, meanKg: 35, sensor: "tindeq" },
+      },
+      { kind: "rep", setNumber: 3, actualDurationMs: 10000, rpe: 8 },
+    ]);
+    expect(summary).toMatchObject({
+      failedReps: 1,
+      averageRpe: 8,
+      maxRpe: 9,
+      maxAddedWeightKg: 12.5,
+      peakForceKg: 42,
+    });
+  });
+
+  it("leaves the optional figures out when no step has them", () => {
+    const summary = summarizeSteps({}, [{ kind: "rep", setNumber: 1, actualDurationMs: 1000 }]);
+    expect(summary.averageRpe).toBeUndefined();
+    expect(summary.maxAddedWeightKg).toBeUndefined();
+    expect(summary.peakForceKg).toBeUndefined();
+  });
+});
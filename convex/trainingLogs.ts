@@ -1,6 +1,37 @@
 import { getAuthUserId } from "@convex-dev/auth/server";
-import { mutationGeneric, queryGeneric } from "convex/server";
-import { v } from "convex/values";
+import {
+  mutationGeneric,
+  queryGeneric,
+  type AnyDataModel,
+  type GenericMutationCtx,
+} from "convex/server";
+import { v, type Infer } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { updateBenchmarkResult } from "./benchmarks";
+import { bodyWeightAt } from "./bodyWeight";
+import { decodeForceCurve, type ForceCurve } from "./forceCurves";
+import { expandProtocol, type IntervalProtocol } from "./intervalProtocols";
+import { updatePersonalRecords } from "./personalRecords";
+
+// What was actually done on a rep, entered from the timer during the following rest.
+const stepDetailsFields = {
+  addedWeightKg: v.optional(v.number()),
+  edgeSizeMm: v.optional(v.number()),
+  grip: v.optional(v.string()),
+  rpe: v.optional(v.number()),
+  failed: v.optional(v.boolean()),
+};
+
+const stepDetailsValidator = v.object(stepDetailsFields);
+
+// Peak and mean load and rate of force development, from a force sensor during the rep.
+const forceValidator = v.object({
+  peakKg: v.number(),
+  meanKg: v.number(),
+  rfdKgPerSecond: v.optional(v.number()),
+  sensor: v.string(),
+  curve: v.optional(v.object({ intervalMs: v.number(), samples: v.string() })),
+});
 
 const stepValidator = v.object({
   kind: v.union(v.literal("rep"), v.literal("rest"), v.literal("set_skipped")),
@@ -10,10 +41,47 @@ const stepValidator = v.object({
   plannedDurationSeconds: v.optional(v.number()),
   actualDurationMs: v.number(),
   note: v.optional(v.string()),
+  ...stepDetailsFields,
+  force: v.optional(forceValidator),
+  // Set by the app's offline journal so retried uploads are not counted twice.
+  clientStepId: v.optional(v.string()),
+  recordedAt: v.optional(v.number()),
 });
 
+type StepInput = Infer<typeof stepValidator>;
+
+// A problem or route logged during a climbing session.
+const climbValidator = v.object({
+  // Generated by the app so a retried upload replaces instead of duplicating.
+  clientClimbId: v.string(),
+  discipline: v.union(v.literal("boulder"), v.literal("rope")),
+  grade: v.string(),
+  style: v.union(
+    v.literal("flash"),
+    v.literal("onsight"),
+    v.literal("redpoint"),
+    v.literal("attempt"),
+  ),
+  attempts: v.number(),
+  wallAngle: v.optional(
+    v.union(v.literal("slab"), v.literal("vertical"), v.literal("overhang"), v.literal("roof")),
+  ),
+  holdTypes: v.array(v.string()),
+  note: v.optional(v.string()),
+});
+
+const MAX_SYNC_STEPS = 500;
+const MAX_GRIP_LENGTH = 40;
+const MAX_CLIMBS_PER_LOG = 200;
+const MAX_CLIMB_ATTEMPTS = 100;
+const MAX_GRADE_LENGTH = 12;
+const MAX_HOLD_TYPES = 8;
+const MAX_FORCE_KG = 500;
+const MAX_SENSOR_LENGTH = 40;
+
 function mergeVariables(
   snapshot: {
+    weight?: number;
     sets?: number;
     reps?: number;
     restSeconds?: number;
@@ -21,6 +89,7 @@ function mergeVariables(
     durationSeconds?: number;
   },
   overrides: {
+    weight?: number;
     sets?: number;
     reps?: number;
     restSeconds?: number;
@@ -29,6 +98,7 @@ function mergeVariables(
   },
 ) {
   return {
+    weight: overrides.weight ?? snapshot.weight,
     sets: overrides.sets ?? snapshot.sets,
     reps: overrides.reps ?? snapshot.reps,
     restSeconds: overrides.restSeconds ?? snapshot.restSeconds,
@@ -37,9 +107,246 @@ function mergeVariables(
   };
 }
 
+// roundTo(x, 2) rounds to halves, roundTo(x, 10) to tenths.
+function roundTo(value: number, stepsPerUnit: number) {
+  return Math.round(value * stepsPerUnit) / stepsPerUnit;
+}
+
+function normalizeStepDetails(details: {
+  addedWeightKg?: number;
+  edgeSizeMm?: number;
+  grip?: string;
+  rpe?: number;
+  failed?: boolean;
+}) {
+  const { addedWeightKg, edgeSizeMm, rpe } = details;
+  if (addedWeightKg !== undefined && !(addedWeightKg >= -200 && addedWeightKg <= 500)) {
+    throw new Error("Added weight must be between -200 and 500 kg.");
+  }
+  if (edgeSizeMm !== undefined && !(edgeSizeMm >= 1 && edgeSizeMm <= 100)) {
+    throw new Error("Edge size must be between 1 and 100 mm.");
+  }
+  if (rpe !== undefined && !(rpe >= 1 && rpe <= 10)) {
+    throw new Error("RPE must be between 1 and 10.");
+  }
+  const grip = details.grip?.trim() || undefined;
+  if (grip && grip.length > MAX_GRIP_LENGTH) {
+    throw new Error(`Grip must be at most ${MAX_GRIP_LENGTH} characters.`);
+  }
+  return {
+    addedWeightKg: addedWeightKg !== undefined ? roundTo(addedWeightKg, 10) : undefined,
+    edgeSizeMm: edgeSizeMm !== undefined ? roundTo(edgeSizeMm, 2) : undefined,
+    grip,
+    rpe: rpe !== undefined ? roundTo(rpe, 2) : undefined,
+    failed: details.failed || undefined,
+  };
+}
+
+function normalizeForce(force: {
+  peakKg: number;
+  meanKg: number;
+  rfdKgPerSecond?: number;
+  sensor: string;
+  curve?: ForceCurve;
+}) {
+  const { peakKg, meanKg, rfdKgPerSecond, curve } = force;
+  if (!(peakKg >= 0 && peakKg <= MAX_FORCE_KG) || !(meanKg >= 0 && meanKg <= peakKg)) {
+    throw new Error(`Force readings must be between 0 and ${MAX_FORCE_KG} kg.`);
+  }
+  if (rfdKgPerSecond !== undefined && !Number.isFinite(rfdKgPerSecond)) {
+    throw new Error("Rate of force development must be a number.");
+  }
+  if (curve && !decodeForceCurve(curve)) {
+    throw new Error("Force curve could not be read.");
+  }
+  const sensor = force.sensor.trim().slice(0, MAX_SENSOR_LENGTH) || "unknown";
+  return {
+    peakKg: roundTo(peakKg, 10),
+    meanKg: roundTo(meanKg, 10),
+    rfdKgPerSecond: rfdKgPerSecond !== undefined ? roundTo(rfdKgPerSecond, 10) : undefined,
+    sensor,
+    curve,
+  };
+}
+
+function normalizeClimb(climb: {
+  clientClimbId: string;
+  discipline: "boulder" | "rope";
+  grade: string;
+  style: "flash" | "onsight" | "redpoint" | "attempt";
+  attempts: number;
+  wallAngle?: "slab" | "vertical" | "overhang" | "roof";
+  holdTypes: string[];
+  note?: string;
+}) {
+  const grade = climb.grade.trim();
+  if (!grade || grade.length > MAX_GRADE_LENGTH) {
+    throw new Error("Pick a grade for the climb.");
+  }
+  // Flashes and onsights are first-try sends by definition.
+  const attempts =
+    climb.style === "flash" || climb.style === "onsight" ? 1 : Math.floor(climb.attempts);
+  if (!(attempts >= 1 && attempts <= MAX_CLIMB_ATTEMPTS)) {
+    throw new Error(`Attempts must be between 1 and ${MAX_CLIMB_ATTEMPTS}.`);
+  }
+  const holdTypes = Array.from(
+    new Set(climb.holdTypes.map((entry) => entry.trim().toLowerCase()).filter(Boolean)),
+  );
+  if (holdTypes.length > MAX_HOLD_TYPES) {
+    throw new Error(`Pick at most ${MAX_HOLD_TYPES} hold types.`);
+  }
+  return {
+    ...climb,
+    grade,
+    attempts,
+    holdTypes,
+    note: climb.note?.trim() || undefined,
+  };
+}
+
+async function loadOwnedLog(
+  ctx: GenericMutationCtx<AnyDataModel>,
+  userId: Id<"users">,
+  logId: Id<"trainingSessionLogs">,
+) {
+  const log: Doc<"trainingSessionLogs"> | null = await ctx.db.get(logId);
+  if (!log) {
+    throw new Error("Execution log not found.");
+  }
+  if (log.ownerId !== userId) {
+    throw new Error("Forbidden");
+  }
+  return log;
+}
+
+// The log summary is always derived from the full step list, so editing a step's details
+// after the fact keeps it correct.
+export function summarizeSteps(planned: { reps?: number }, steps: StepInput[]) {
+  const plannedReps = Math.max(1, planned.reps ?? 1);
+  const summary = {
+    completedSets: 0,
+    completedReps: 0,
+    skippedSets: 0,
+    totalRepDurationMs: 0,
+    totalRestDurationMs: 0,
+    failedReps: 0,
+    averageRpe: undefined as number | undefined,
+    maxRpe: undefined as number | undefined,
+    maxAddedWeightKg: undefined as number | undefined,
+    peakForceKg: undefined as number | undefined,
+  };
+  let rpeTotal = 0;
+  let rpeCount = 0;
+  for (const step of steps) {
+    if (step.kind === "rep") {
+      const completedRepsForStep = step.completedReps ?? (step.repNumber ? 1 : plannedReps);
+      const didFinishSet =
+        (step.repNumber ?? completedRepsForStep) >= plannedReps ||
+        completedRepsForStep >= plannedReps;
+      summary.totalRepDurationMs += step.actualDurationMs;
+      summary.completedReps += completedRepsForStep;
+      if (didFinishSet) {
+        summary.completedSets = Math.max(summary.completedSets, step.setNumber);
+      }
+    } else if (step.kind === "rest") {
+      summary.totalRestDurationMs += step.actualDurationMs;
+    } else {
+      summary.skippedSets += 1;
+    }
+
+    if (step.failed) {
+      summary.failedReps += 1;
+    }
+    if (step.rpe !== undefined) {
+      rpeTotal += step.rpe;
+      rpeCount += 1;
+      summary.maxRpe = Math.max(summary.maxRpe ?? step.rpe, step.rpe);
+    }
+    if (step.addedWeightKg !== undefined) {
+      summary.maxAddedWeightKg = Math.max(
+        summary.maxAddedWeightKg ?? step.addedWeightKg,
+        step.addedWeightKg,
+      );
+    }
+    if (step.force) {
+      summary.peakForceKg = Math.max(summary.peakForceKg ?? 0, step.force.peakKg);
+    }
+  }
+  if (rpeCount > 0) {
+    summary.averageRpe = roundTo(rpeTotal / rpeCount, 10);
+  }
+  return summary;
+}
+
+// Adds steps that the log does not have yet and returns how many were new. Finished logs
+// still take steps that were recorded before they were closed on another device; their
+// records and benchmark result are worked out again.
+async function appendSteps(
+  ctx: GenericMutationCtx<AnyDataModel>,
+  log: Doc<"trainingSessionLogs">,
+  steps: StepInput[],
+) {
+  const seenStepIds = new Set(log.steps.map((step) => step.clientStepId).filter(Boolean));
+  const now = Date.now();
+  const newSteps = [];
+  for (const { recordedAt, ...input } of steps) {
+    if (input.clientStepId) {
+      if (seenStepIds.has(input.clientStepId)) continue;
+      seenStepIds.add(input.clientStepId);
+    }
+    newSteps.push({
+      ...input,
+      ...normalizeStepDetails(input),
+      force: input.force ? normalizeForce(input.force) : undefined,
+      note: input.note?.trim() || undefined,
+      createdAt: recordedAt !== undefined ? Math.min(recordedAt, now) : now,
+    });
+  }
+  if (newSteps.length === 0) {
+    return 0;
+  }
+
+  const allSteps = [...log.steps, ...newSteps];
+  await ctx.db.patch(log._id, {
+    steps: allSteps,
+    summary: summarizeSteps(log.planned, allSteps),
+    updatedAt: now,
+  });
+  if (log.status !== "active") {
+    await updatePersonalRecords(ctx, { ...log, steps: allSteps });
+    await updateBenchmarkResult(
+      ctx,
+      { ...log, steps: allSteps },
+      await ctx.db.get(log.scheduleSessionId),
+    );
+  }
+  return newSteps.length;
+}
+
+function resolveBlock(session: Doc<"trainingScheduleSessions">, blockIndex: number) {
+  if (!session.workout) {
+    return {
+      trainingItemId: session.trainingItemId,
+      snapshot: session.snapshot,
+      overrides: session.overrides,
+    };
+  }
+  const block = session.workout.blocks[blockIndex];
+  if (!block) {
+    throw new Error("Workout block not found.");
+  }
+  return block;
+}
+
 export const startSessionExecution = mutationGeneric({
   args: {
     sessionId: v.id("trainingScheduleSessions"),
+    blockIndex: v.optional(v.number()),
+    // When the block was started on the device, for logs created after an offline start.
+    startedAt: v.optional(v.number()),
+    // Set by the offline journal, whose block may have been started before another device
+    // completed the session.
+    resumeFinished: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
@@ -57,35 +364,64 @@ export const startSessionExecution = mutationGeneric({
     if (session.canceledAt) {
       throw new Error("Session was removed.");
     }
-    if (session.completedAt) {
-      throw new Error("Completed sessions are immutable.");
-    }
 
-    const existing = await ctx.db
+    const logs = await ctx.db
       .query("trainingSessionLogs")
       .withIndex("by_session_started_at", (q) => q.eq("scheduleSessionId", args.sessionId))
       .order("desc")
-      .first();
+      .collect();
 
+    if (session.completedAt) {
+      if (!args.resumeFinished) {
+        throw new Error("Completed sessions are immutable.");
+      }
+      // The block's steps join its finished log; null means nothing can take them.
+      return logs.find((log) => (log.blockIndex ?? 0) === (args.blockIndex ?? 0)) ?? null;
+    }
+
+    const existing = logs[0];
     if (existing && existing.status === "active") {
       return existing;
     }
 
+    // Workouts resume at the first block that has not been logged yet.
+    let blockIndex: number | undefined;
+    if (session.workout) {
+      const finishedBlocks = new Set(logs.map((log) => log.blockIndex ?? 0));
+      const nextBlockIndex: number =
+        args.blockIndex ??
+        session.workout.blocks.findIndex(
+          (_block: unknown, index: number) => !finishedBlocks.has(index),
+        );
+      if (nextBlockIndex < 0) {
+        throw new Error("Every block in this workout has already been logged.");
+      }
+      blockIndex = nextBlockIndex;
+    }
+
+    const block = resolveBlock(session, blockIndex ?? 0);
     const now = Date.now();
-    const variables = mergeVariables(session.snapshot.variables, session.overrides);
+    const startedAt = args.startedAt !== undefined ? Math.min(args.startedAt, now) : now;
+    const variables = mergeVariables(block.snapshot.variables, block.overrides);
+    const protocol = block.snapshot.protocol as IntervalProtocol | undefined;
     const logId = await ctx.db.insert("trainingSessionLogs", {
       ownerId: userId,
       scheduleSessionId: session._id,
-      trainingItemId: session.trainingItemId,
+      trainingItemId: block.trainingItemId,
+      blockIndex,
       status: "active",
-      startedAt: now,
+      startedAt,
       endedAt: undefined,
+      bodyWeightKg: await bodyWeightAt(ctx, userId, startedAt),
       planned: {
+        weight: variables.weight,
         sets: variables.sets,
-        reps: variables.reps,
+        // A protocol decides the reps in a set; summaries count sets against this.
+        reps: protocol ? expandProtocol(protocol).reps.length : variables.reps,
         restSeconds: variables.restSeconds,
         restBetweenSetsSeconds: variables.restBetweenSetsSeconds,
         durationSeconds: variables.durationSeconds,
+        protocol,
       },
       summary: {
         completedSets: 0,
@@ -126,36 +462,122 @@ export const appendExecutionStep = mutationGeneric({
       throw new Error("Only active logs can receive new steps.");
     }
 
-    const step = {
-      ...args.step,
-      note: args.step.note?.trim() || undefined,
-      createdAt: Date.now(),
-    };
+    await appendSteps(ctx, log, [args.step]);
+    return await ctx.db.get(args.logId);
+  },
+});
 
-    const summary = { ...log.summary };
-    if (step.kind === "rep") {
-      const plannedReps = Math.max(1, log.planned.reps ?? 1);
-      const completedRepsForStep = step.completedReps ?? (step.repNumber ? 1 : plannedReps);
-      const didFinishSet =
-        (step.repNumber ?? completedRepsForStep) >= plannedReps ||
-        completedRepsForStep >= plannedReps;
-      summary.totalRepDurationMs += step.actualDurationMs;
-      summary.completedReps += completedRepsForStep;
-      if (didFinishSet) {
-        summary.completedSets = Math.max(summary.completedSets, step.setNumber);
-      }
-    } else if (step.kind === "rest") {
-      summary.totalRestDurationMs += step.actualDurationMs;
-    } else {
-      summary.skippedSets += 1;
+// Uploads steps recorded while offline, also to a log that was finished in the meantime.
+// Steps already on the log are skipped by their clientStepId, so the same batch can be sent
+// again safely.
+export const syncExecutionSteps = mutationGeneric({
+  args: {
+    logId: v.id("trainingSessionLogs"),
+    steps: v.array(stepValidator),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+    if (args.steps.length > MAX_SYNC_STEPS) {
+      throw new Error(`At most ${MAX_SYNC_STEPS} steps can be synced at once.`);
     }
 
+    const log = await ctx.db.get(args.logId);
+    if (!log) {
+      throw new Error("Execution log not found.");
+    }
+    if (log.ownerId !== userId) {
+      throw new Error("Forbidden");
+    }
+
+    const addedCount = await appendSteps(ctx, log, args.steps);
+    return { addedCount, status: log.status };
+  },
+});
+
+// Replaces the load, grip, RPE and fail flag of a recorded step. Finished logs can still be
+// edited, so the last rep of a block can be filled in afterwards.
+export const updateExecutionStepDetails = mutationGeneric({
+  args: {
+    logId: v.id("trainingSessionLogs"),
+    clientStepId: v.string(),
+    details: stepDetailsValidator,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const log = await loadOwnedLog(ctx, userId, args.logId);
+    const stepIndex = log.steps.findIndex((step) => step.clientStepId === args.clientStepId);
+    if (stepIndex < 0) {
+      throw new Error("Step not found.");
+    }
+    const steps = [...log.steps];
+    steps[stepIndex] = { ...steps[stepIndex], ...normalizeStepDetails(args.details) };
     await ctx.db.patch(args.logId, {
-      steps: [...log.steps, step],
-      summary,
+      steps,
+      summary: summarizeSteps(log.planned, steps),
       updatedAt: Date.now(),
     });
+    if (log.status !== "active") {
+      await updatePersonalRecords(ctx, { ...log, steps });
+      await updateBenchmarkResult(ctx, { ...log, steps }, await ctx.db.get(log.scheduleSessionId));
+    }
+    return await ctx.db.get(args.logId);
+  },
+});
 
+// Adds a climb to a log, or replaces the one with the same clientClimbId. Finished logs can
+// still be corrected afterwards.
+export const logClimb = mutationGeneric({
+  args: {
+    logId: v.id("trainingSessionLogs"),
+    climb: climbValidator,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const log = await loadOwnedLog(ctx, userId, args.logId);
+    const climb = normalizeClimb(args.climb);
+    const climbs = [...(log.climbs ?? [])];
+    const index = climbs.findIndex((entry) => entry.clientClimbId === climb.clientClimbId);
+    const now = Date.now();
+    if (index >= 0) {
+      climbs[index] = { ...climb, createdAt: climbs[index].createdAt };
+    } else {
+      if (climbs.length >= MAX_CLIMBS_PER_LOG) {
+        throw new Error(`A session can hold at most ${MAX_CLIMBS_PER_LOG} climbs.`);
+      }
+      climbs.push({ ...climb, createdAt: now });
+    }
+    await ctx.db.patch(args.logId, { climbs, updatedAt: now });
+    return await ctx.db.get(args.logId);
+  },
+});
+
+export const removeClimb = mutationGeneric({
+  args: {
+    logId: v.id("trainingSessionLogs"),
+    clientClimbId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const log = await loadOwnedLog(ctx, userId, args.logId);
+    await ctx.db.patch(args.logId, {
+      climbs: (log.climbs ?? []).filter((entry) => entry.clientClimbId !== args.clientClimbId),
+      updatedAt: Date.now(),
+    });
     return await ctx.db.get(args.logId);
   },
 });
@@ -165,6 +587,7 @@ export const finishSessionExecution = mutationGeneric({
     logId: v.id("trainingSessionLogs"),
     outcome: v.union(v.literal("completed"), v.literal("stopped_early")),
     notes: v.optional(v.string()),
+    endSession: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
@@ -190,9 +613,25 @@ export const finishSessionExecution = mutationGeneric({
       notes: args.notes?.trim() || undefined,
       updatedAt: now,
     });
+    await updatePersonalRecords(ctx, { ...log, endedAt: now });
 
     const session = await ctx.db.get(log.scheduleSessionId);
-    if (session && !session.completedAt) {
+    await updateBenchmarkResult(ctx, { ...log, endedAt: now }, session);
+    let isSessionDone = true;
+    if (session?.workout && !args.endSession) {
+      const logs = await ctx.db
+        .query("trainingSessionLogs")
+        .withIndex("by_session_started_at", (q) => q.eq("scheduleSessionId", session._id))
+        .collect();
+      const finishedBlocks = new Set(
+        logs.filter((entry) => entry.status !== "active").map((entry) => entry.blockIndex ?? 0),
+      );
+      isSessionDone = session.workout.blocks.every((_block: unknown, index: number) =>
+        finishedBlocks.has(index),
+      );
+    }
+
+    if (session && !session.completedAt && isSessionDone) {
       await ctx.db.patch(session._id, {
         completedAt: now,
         updatedAt: now,
@@ -227,7 +666,11 @@ export const listRecentExecutionLogs = queryGeneric({
         const session = await ctx.db.get(log.scheduleSessionId);
         return {
           ...log,
-          sessionTitle: session?.snapshot.title ?? "Session",
+          sessionTitle: session?.workout
+            ? `${session.workout.title} · ${
+                session.workout.blocks[log.blockIndex ?? 0]?.snapshot.title ?? "Block"
+              }`
+            : (session?.snapshot.title ?? "Session"),
           scheduledFor: session?.scheduledFor,
         };
       }),
@@ -257,3 +700,23 @@ export const getActiveExecutionForSession = queryGeneric({
     return log;
   },
 });
+
+// Every block logged for one session, oldest first, for the rep details in plan history.
+export const listSessionExecutionLogs = queryGeneric({
+  args: {
+    sessionId: v.id("trainingScheduleSessions"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const logs = await ctx.db
+      .query("trainingSessionLogs")
+      .withIndex("by_session_started_at", (q) => q.eq("scheduleSessionId", args.sessionId))
+      .order("asc")
+      .collect();
+    return logs.filter((log) => log.ownerId === userId);
+  },
+});
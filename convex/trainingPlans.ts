@@ -0,0 +1,478 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { mutationGeneric, queryGeneric } from "convex/server";
+import { v } from "convex/values";
+import { addDays, getUserToday, startOfDay } from "./dayKeys";
+import { insertScheduledSession } from "./trainingSchedule";
+import { FINGER_STRENGTH_CATEGORY, sessionCategories } from "./trainingCategories";
+import { findFingerLoadSpike } from "./workload";
+
+const variablesValidator = v.object({
+  weight: v.optional(v.number()),
+  reps: v.optional(v.number()),
+  sets: v.optional(v.number()),
+  restSeconds: v.optional(v.number()),
+  restBetweenSetsSeconds: v.optional(v.number()),
+  durationSeconds: v.optional(v.number()),
+});
+
+const phaseValidator = v.object({
+  kind: v.union(
+    v.literal("base"),
+    v.literal("strength"),
+    v.literal("power"),
+    v.literal("power_endurance"),
+    v.literal("deload"),
+  ),
+  weeks: v.number(),
+  sessions: v.array(
+    v.object({
+      dayOfWeek: v.number(),
+      trainingItemId: v.optional(v.id("trainingItems")),
+      workoutTemplateId: v.optional(v.id("workoutTemplates")),
+      weeks: v.optional(v.array(v.number())),
+      overrides: v.optional(variablesValidator),
+      notes: v.optional(v.string()),
+    }),
+  ),
+  progression: v.optional(
+    v.object({
+      weightPerWeek: v.optional(v.number()),
+      setsPerWeek: v.optional(v.number()),
+      repsPerWeek: v.optional(v.number()),
+      durationSecondsPerWeek: v.optional(v.number()),
+    }),
+  ),
+});
+
+type Variables = {
+  weight?: number;
+  reps?: number;
+  sets?: number;
+  restSeconds?: number;
+  restBetweenSetsSeconds?: number;
+  durationSeconds?: number;
+};
+
+type Progression = {
+  weightPerWeek?: number;
+  setsPerWeek?: number;
+  repsPerWeek?: number;
+  durationSecondsPerWeek?: number;
+};
+
+const MAX_PLAN_WEEKS = 52;
+
+async function assertOwnedPlan(ctx: any, userId: any, planId: any) {
+  const plan = await ctx.db.get(planId);
+  if (!plan) {
+    throw new Error("Plan not found.");
+  }
+  if (plan.ownerId !== userId) {
+    throw new Error("Forbidden");
+  }
+  return plan;
+}
+
+function normalizePhases(phases: any[]) {
+  if (phases.length === 0) {
+    throw new Error("A plan needs at least one phase.");
+  }
+
+  let totalWeeks = 0;
+  const normalized = phases.map((phase) => {
+    const weeks = Math.floor(phase.weeks);
+    if (!Number.isFinite(weeks) || weeks < 1) {
+      throw new Error("Each phase must last at least one week.");
+    }
+    totalWeeks += weeks;
+
+    return {
+      kind: phase.kind,
+      weeks,
+      sessions: phase.sessions.map((slot: any) => {
+        if ((slot.trainingItemId ? 1 : 0) + (slot.workoutTemplateId ? 1 : 0) !== 1) {
+          throw new Error("Each plan session needs either an exercise or a workout.");
+        }
+        const dayOfWeek = Math.floor(slot.dayOfWeek);
+        if (dayOfWeek < 0 || dayOfWeek > 6) {
+          throw new Error("Day of week must be between 0 (Sunday) and 6 (Saturday).");
+        }
+        // A workout slot takes every block's load from the workout itself.
+        if (
+          slot.workoutTemplateId &&
+          Object.values(slot.overrides ?? {}).some((value) => value !== undefined)
+        ) {
+          throw new Error("Workout sessions take their loads from the workout.");
+        }
+        const slotWeeks = slot.weeks?.length
+          ? Array.from(new Set<number>(slot.weeks.map((week: number) => Math.floor(week))))
+              .filter((week) => week >= 1 && week <= weeks)
+              .sort((a, b) => a - b)
+          : undefined;
+        return {
+          dayOfWeek,
+          trainingItemId: slot.trainingItemId,
+          workoutTemplateId: slot.workoutTemplateId,
+          weeks: slotWeeks,
+          overrides: slot.overrides ?? {},
+          notes: slot.notes?.trim() || undefined,
+        };
+      }),
+      progression: phase.progression ?? {},
+    };
+  });
+
+  if (totalWeeks > MAX_PLAN_WEEKS) {
+    throw new Error(`Plans can span at most ${MAX_PLAN_WEEKS} weeks.`);
+  }
+  return normalized;
+}
+
+// Week 1 of a phase uses the base load; each later week adds one progression step.
+function progressVariables(
+  base: Variables,
+  overrides: Variables,
+  progression: Progression,
+  weekIndex: number,
+): Variables {
+  const step = (value: number | undefined, perWeek: number | undefined, minimum: number) => {
+    if (value === undefined || !perWeek || weekIndex === 0) {
+      return value;
+    }
+    return Math.max(minimum, Number((value + perWeek * weekIndex).toFixed(2)));
+  };
+
+  return {
+    ...overrides,
+    weight: step(overrides.weight ?? base.weight, progression.weightPerWeek, 0),
+    sets: step(overrides.sets ?? base.sets, progression.setsPerWeek, 1),
+    reps: step(overrides.reps ?? base.reps, progression.repsPerWeek, 1),
+    durationSeconds: step(
+      overrides.durationSeconds ?? base.durationSeconds,
+      progression.durationSecondsPerWeek,
+      1,
+    ),
+  };
+}
+
+function dateForSlot(weekStart: number, dayOfWeek: number): number {
+  const offset = (dayOfWeek - new Date(weekStart).getUTCDay() + 7) % 7;
+  return addDays(weekStart, offset);
+}
+
+// Workout slots are keyed by their template, so editing the workout does not change the key.
+function planSessionKey(
+  scheduledFor: number,
+  phaseIndex: number,
+  weekIndex: number,
+  targetId: string,
+) {
+  return `${scheduledFor}:${phaseIndex}:${weekIndex}:${targetId}`;
+}
+
+// Sessions go through insertScheduledSession like any other; the finger-strength days
+// they add are checked for a load spike once, across the whole plan. Slots whose exercise
+// or workout was deleted since are skipped and counted.
+async function materializePlan(
+  ctx: any,
+  userId: any,
+  plan: any,
+  startDate: number,
+  keptKeys = new Set<string>(),
+) {
+  const today = await getUserToday(ctx, userId);
+  let weekOffset = 0;
+  let createdCount = 0;
+  let skippedCount = 0;
+  const fingerDays: number[] = [];
+
+  for (let phaseIndex = 0; phaseIndex < plan.phases.length; phaseIndex += 1) {
+    const phase = plan.phases[phaseIndex];
+    for (let weekIndex = 0; weekIndex < phase.weeks; weekIndex += 1) {
+      const weekStart = addDays(startDate, (weekOffset + weekIndex) * 7);
+      for (const slot of phase.sessions) {
+        if (slot.weeks?.length && !slot.weeks.includes(weekIndex + 1)) {
+          continue;
+        }
+        const scheduledFor = dateForSlot(weekStart, slot.dayOfWeek);
+        if (scheduledFor < today) {
+          continue;
+        }
+
+        const targetId = slot.workoutTemplateId ?? slot.trainingItemId;
+        if (keptKeys.has(planSessionKey(scheduledFor, phaseIndex, weekIndex, targetId))) {
+          continue;
+        }
+        if (!(await ctx.db.get(targetId))) {
+          skippedCount += 1;
+          continue;
+        }
+
+        const sessionId = await insertScheduledSession(ctx, userId, {
+          trainingItemId: slot.trainingItemId,
+          workoutTemplateId: slot.workoutTemplateId,
+          scheduledFor,
+          // Workout slots store empty overrides; passing them would clear block 0's load.
+          overrides: slot.trainingItemId ? slot.overrides : undefined,
+          notes: slot.notes,
+          plan: { planId: plan._id, phaseIndex, weekIndex },
+          progressLoads: (variables: Variables, overrides: Variables) =>
+            progressVariables(variables, overrides, phase.progression, weekIndex),
+        });
+        const session = await ctx.db.get(sessionId);
+        if (sessionCategories(session).includes(FINGER_STRENGTH_CATEGORY)) {
+          fingerDays.push(scheduledFor);
+        }
+        createdCount += 1;
+      }
+    }
+    weekOffset += phase.weeks;
+  }
+
+  const workloadWarning =
+    fingerDays.length > 0
+      ? await findFingerLoadSpike(ctx, userId, Math.min(...fingerDays), Math.max(...fingerDays))
+      : null;
+  return { createdCount, skippedCount, workloadWarning };
+}
+
+async function removeUpcomingPlanSessions(ctx: any, userId: any, planId: any) {
+  const today = await getUserToday(ctx, userId);
+  const sessions = await ctx.db
+    .query("trainingScheduleSessions")
+    .withIndex("by_plan_scheduled_for", (q: any) =>
+      q.eq("planId", planId).gte("scheduledFor", today),
+    )
+    .collect();
+
+  // Completed and started sessions stay on the calendar as history.
+  const removable = [];
+  for (const session of sessions) {
+    if (session.completedAt) {
+      continue;
+    }
+    const log = await ctx.db
+      .query("trainingSessionLogs")
+      .withIndex("by_session_started_at", (q: any) => q.eq("scheduleSessionId", session._id))
+      .first();
+    if (!log) {
+      removable.push(session);
+    }
+  }
+  await Promise.all(removable.map((session: any) => ctx.db.delete(session._id)));
+  return removable.length;
+}
+
+export const createPlan = mutationGeneric({
+  args: {
+    title: v.string(),
+    description: v.optional(v.string()),
+    phases: v.array(phaseValidator),
+  },
+  handler: async (ctx, args) => {
+    const ownerId = await getAuthUserId(ctx);
+    if (!ownerId) {
+      throw new Error("Unauthorized");
+    }
+
+    const title = args.title.trim();
+    if (!title) {
+      throw new Error("Plan name is required.");
+    }
+
+    const now = Date.now();
+    const planId = await ctx.db.insert("trainingPlans", {
+      ownerId,
+      title,
+      description: args.description?.trim() || undefined,
+      phases: normalizePhases(args.phases),
+      appliedFrom: undefined,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return await ctx.db.get(planId);
+  },
+});
+
+export const updatePlan = mutationGeneric({
+  args: {
+    planId: v.id("trainingPlans"),
+    title: v.string(),
+    description: v.optional(v.string()),
+    phases: v.array(phaseValidator),
+  },
+  handler: async (ctx, args) => {
+    const ownerId = await getAuthUserId(ctx);
+    if (!ownerId) {
+      throw new Error("Unauthorized");
+    }
+
+    await assertOwnedPlan(ctx, ownerId, args.planId);
+    const title = args.title.trim();
+    if (!title) {
+      throw new Error("Plan name is required.");
+    }
+
+    await ctx.db.patch(args.planId, {
+      title,
+      description: args.description?.trim() || undefined,
+      phases: normalizePhases(args.phases),
+      updatedAt: Date.now(),
+    });
+
+    return await ctx.db.get(args.planId);
+  },
+});
+
+export const deletePlan = mutationGeneric({
+  args: {
+    planId: v.id("trainingPlans"),
+  },
+  handler: async (ctx, args) => {
+    const ownerId = await getAuthUserId(ctx);
+    if (!ownerId) {
+      throw new Error("Unauthorized");
+    }
+
+    await assertOwnedPlan(ctx, ownerId, args.planId);
+    await removeUpcomingPlanSessions(ctx, ownerId, args.planId);
+    await ctx.db.delete(args.planId);
+    return { success: true };
+  },
+});
+
+export const applyPlan = mutationGeneric({
+  args: {
+    planId: v.id("trainingPlans"),
+    startDate: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const ownerId = await getAuthUserId(ctx);
+    if (!ownerId) {
+      throw new Error("Unauthorized");
+    }
+
+    const plan = await assertOwnedPlan(ctx, ownerId, args.planId);
+    if (plan.appliedFrom !== undefined) {
+      throw new Error("This plan is already on your calendar. Remove or re-apply it instead.");
+    }
+
+    // A start date in the past joins the plan mid-way; only today onward is scheduled.
+    const startDate = startOfDay(args.startDate);
+    const { createdCount, skippedCount, workloadWarning } = await materializePlan(
+      ctx,
+      ownerId,
+      plan,
+      startDate,
+    );
+    await ctx.db.patch(plan._id, {
+      appliedFrom: startDate,
+      updatedAt: Date.now(),
+    });
+
+    return { createdCount, skippedCount, appliedFrom: startDate, workloadWarning };
+  },
+});
+
+// Regenerates the not-yet-started part of an applied plan after it was edited.
+export const reapplyPlan = mutationGeneric({
+  args: {
+    planId: v.id("trainingPlans"),
+  },
+  handler: async (ctx, args) => {
+    const ownerId = await getAuthUserId(ctx);
+    if (!ownerId) {
+      throw new Error("Unauthorized");
+    }
+
+    const plan = await assertOwnedPlan(ctx, ownerId, args.planId);
+    if (plan.appliedFrom === undefined) {
+      throw new Error("This plan is not on your calendar yet.");
+    }
+
+    const removedCount = await removeUpcomingPlanSessions(ctx, ownerId, plan._id);
+    const today = await getUserToday(ctx, ownerId);
+    const remaining = await ctx.db
+      .query("trainingScheduleSessions")
+      .withIndex("by_plan_scheduled_for", (q: any) =>
+        q.eq("planId", plan._id).gte("scheduledFor", today),
+      )
+      .collect();
+    // Started or completed plan sessions stay put and are not generated again.
+    const keptKeys = new Set(
+      remaining.map((session) =>
+        planSessionKey(
+          session.scheduledFor,
+          session.planPhaseIndex ?? -1,
+          session.planWeekIndex ?? -1,
+          session.workout?.workoutTemplateId ?? session.trainingItemId,
+        ),
+      ),
+    );
+
+    const { createdCount, skippedCount, workloadWarning } = await materializePlan(
+      ctx,
+      ownerId,
+      plan,
+      plan.appliedFrom,
+      keptKeys,
+    );
+
+    return { removedCount, createdCount, skippedCount, workloadWarning };
+  },
+});
+
+export const removePlanFromCalendar = mutationGeneric({
+  args: {
+    planId: v.id("trainingPlans"),
+  },
+  handler: async (ctx, args) => {
+    const ownerId = await getAuthUserId(ctx);
+    if (!ownerId) {
+      throw new Error("Unauthorized");
+    }
+
+    const plan = await assertOwnedPlan(ctx, ownerId, args.planId);
+    const removedCount = await removeUpcomingPlanSessions(ctx, ownerId, plan._id);
+    await ctx.db.patch(plan._id, {
+      appliedFrom: undefined,
+      updatedAt: Date.now(),
+    });
+
+    return { removedCount };
+  },
+});
+
+export const listMyPlans = queryGeneric({
+  handler: async (ctx) => {
+    const ownerId = await getAuthUserId(ctx);
+    if (!ownerId) {
+      throw new Error("Unauthorized");
+    }
+
+    return await ctx.db
+      .query("trainingPlans")
+      .withIndex("by_owner_updated_at", (q) => q.eq("ownerId", ownerId))
+      .order("desc")
+      .collect();
+  },
+});
+
+export const getPlanById = queryGeneric({
+  args: {
+    planId: v.id("trainingPlans"),
+  },
+  handler: async (ctx, args) => {
+    const viewerId = await getAuthUserId(ctx);
+    if (!viewerId) {
+      return null;
+    }
+
+    const plan = await ctx.db.get(args.planId);
+    if (!plan || plan.ownerId !== viewerId) {
+      return null;
+    }
+    return plan;
+  },
+});
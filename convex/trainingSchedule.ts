@@ -1,6 +1,17 @@
 import { getAuthUserId } from "@convex-dev/auth/server";
 import { mutationGeneric, queryGeneric } from "convex/server";
 import { v } from "convex/values";
+import { addDays, getUserToday, startOfDay, timestampToDayKey } from "./dayKeys";
+import { loadUserBodyWeightLookup } from "./bodyWeight";
+import {
+  collectCalendarSessions,
+  expandRuleOccurrences,
+  occursOnDate,
+  resolveRuleOccurrence,
+} from "./calendarSessions";
+import { findFingerLoadSpike } from "./workload";
+import { FINGER_STRENGTH_CATEGORY, sessionCategories } from "./trainingCategories";
+import { formatRRule, nextPatternDay, parseRRule } from "./rrule";
 
 const variablesValidator = v.object({
   weight: v.optional(v.number()),
@@ -12,99 +23,161 @@ const variablesValidator = v.object({
 });
 
 const recurrenceValidator = v.object({
-  frequency: v.union(v.literal("daily"), v.literal("weekly"), v.literal("monthly")),
+  frequency: v.union(
+    v.literal("daily"),
+    v.literal("weekly"),
+    v.literal("monthly"),
+    v.literal("yearly"),
+  ),
   interval: v.number(),
   byWeekdays: v.optional(v.array(v.number())),
   until: v.optional(v.number()),
+  rrule: v.optional(v.string()),
+  exdates: v.optional(v.array(v.number())),
+  rdates: v.optional(v.array(v.number())),
 });
 
-function startOfDay(timestamp: number): number {
-  const date = new Date(timestamp);
-  date.setHours(0, 0, 0, 0);
-  return date.getTime();
-}
-
-function addDays(timestamp: number, days: number): number {
-  return timestamp + days * 24 * 60 * 60 * 1000;
-}
+const progressionValidator = v.object({
+  steps: v.array(
+    v.object({
+      variable: v.union(
+        v.literal("weight"),
+        v.literal("reps"),
+        v.literal("sets"),
+        v.literal("durationSeconds"),
+      ),
+      amount: v.number(),
+      every: v.number(),
+      unit: v.union(v.literal("week"), v.literal("session")),
+    }),
+  ),
+  cycleWeeks: v.optional(v.number()),
+  deloadLoadFactor: v.optional(v.number()),
+  anchorDate: v.optional(v.number()),
+});
 
-function startOfMonth(timestamp: number): number {
-  const date = new Date(timestamp);
-  date.setDate(1);
-  date.setHours(0, 0, 0, 0);
-  return date.getTime();
+function startOfMonth(dayTimestamp: number): number {
+  const date = new Date(dayTimestamp);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
 }
 
-function endOfMonth(timestamp: number): number {
-  const date = new Date(timestamp);
-  date.setMonth(date.getMonth() + 1);
-  date.setDate(0);
-  date.setHours(23, 59, 59, 999);
-  return date.getTime();
+function endOfMonth(dayTimestamp: number): number {
+  const date = new Date(dayTimestamp);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0);
 }
 
-function ruleDateKey(ruleId: string, scheduledFor: number): string {
-  return `${ruleId}:${scheduledFor}`;
+const MINUTES_PER_DAY = 24 * 60;
+const MAX_DURATION_MINUTES = 12 * 60;
+
+// `null` clears a stored value, `undefined` leaves it untouched.
+function normalizeTiming(args: { startMinutes?: number | null; durationMinutes?: number | null }) {
+  const startMinutes = args.startMinutes ?? undefined;
+  const durationMinutes = args.durationMinutes ?? undefined;
+  if (
+    startMinutes !== undefined &&
+    (!Number.isInteger(startMinutes) || startMinutes < 0 || startMinutes >= MINUTES_PER_DAY)
+  ) {
+    throw new Error("Start time must be between 00:00 and 23:59.");
+  }
+  if (
+    durationMinutes !== undefined &&
+    (!Number.isFinite(durationMinutes) ||
+      durationMinutes < 1 ||
+      durationMinutes > MAX_DURATION_MINUTES)
+  ) {
+    throw new Error(`Duration must be between 1 and ${MAX_DURATION_MINUTES} minutes.`);
+  }
+  return {
+    startMinutes,
+    durationMinutes: durationMinutes !== undefined ? Math.round(durationMinutes) : undefined,
+  };
 }
 
-function occursOnDate(
-  rule: {
-    startDate: number;
-    recurrence: {
-      frequency: "daily" | "weekly" | "monthly";
-      interval: number;
-      byWeekdays?: number[];
-      until?: number;
+// RRULE text wins over the simple fields; the simple fields are kept in sync so
+// the rule stays readable without parsing.
+function normalizeRecurrence(recurrence: any) {
+  const exdates = recurrence.exdates?.length
+    ? Array.from(new Set<number>(recurrence.exdates.map(startOfDay))).sort((a, b) => a - b)
+    : undefined;
+  const rdates = recurrence.rdates?.length
+    ? Array.from(new Set<number>(recurrence.rdates.map(startOfDay))).sort((a, b) => a - b)
+    : undefined;
+
+  if (recurrence.rrule?.trim()) {
+    const parsed = parseRRule(recurrence.rrule);
+    const untilCandidates = [recurrence.until, parsed.until].filter(
+      (entry): entry is number => entry !== undefined,
+    );
+    return {
+      frequency: parsed.freq.toLowerCase() as "daily" | "weekly" | "monthly" | "yearly",
+      interval: parsed.interval,
+      byWeekdays:
+        parsed.freq === "WEEKLY" && parsed.byDay?.length
+          ? parsed.byDay.map((entry) => entry.weekday)
+          : undefined,
+      until: untilCandidates.length > 0 ? startOfDay(Math.min(...untilCandidates)) : undefined,
+      rrule: formatRRule(parsed),
+      exdates,
+      rdates,
     };
-  },
-  dateTimestamp: number,
-): boolean {
-  const date = startOfDay(dateTimestamp);
-  const start = startOfDay(rule.startDate);
-  const interval = Math.max(1, Math.floor(rule.recurrence.interval));
-
-  if (date < start) {
-    return false;
   }
-  if (rule.recurrence.until !== undefined && date > startOfDay(rule.recurrence.until)) {
-    return false;
+
+  if (!Number.isFinite(recurrence.interval) || recurrence.interval < 1) {
+    throw new Error("Interval must be at least 1.");
   }
+  return {
+    frequency: recurrence.frequency,
+    interval: Math.floor(recurrence.interval),
+    byWeekdays: recurrence.byWeekdays,
+    until: recurrence.until !== undefined ? startOfDay(recurrence.until) : undefined,
+    rrule: undefined,
+    exdates,
+    rdates,
+  };
+}
 
-  if (rule.recurrence.frequency === "daily") {
-    const daysBetween = Math.floor((date - start) / (24 * 60 * 60 * 1000));
-    return daysBetween % interval === 0;
+function normalizeProgression(progression: any, anchorDate?: number) {
+  if (!progression) {
+    return undefined;
   }
 
-  if (rule.recurrence.frequency === "weekly") {
-    const startWeekDate = new Date(start);
-    const currentWeekDate = new Date(date);
-    const startWeekAnchor = startOfDay(
-      startWeekDate.getTime() - startWeekDate.getDay() * 24 * 60 * 60 * 1000,
-    );
-    const currentWeekAnchor = startOfDay(
-      currentWeekDate.getTime() - currentWeekDate.getDay() * 24 * 60 * 60 * 1000,
-    );
-    const weeksBetween = Math.floor(
-      (currentWeekAnchor - startWeekAnchor) / (7 * 24 * 60 * 60 * 1000),
-    );
-    if (weeksBetween % interval !== 0) {
-      return false;
+  const steps = progression.steps
+    .filter((step: any) => Number.isFinite(step.amount) && step.amount !== 0)
+    .map((step: any) => {
+      const every = Math.floor(step.every);
+      if (!Number.isFinite(every) || every < 1) {
+        throw new Error("Progression steps must repeat at least every 1 week or session.");
+      }
+      return { ...step, every };
+    });
+
+  let cycleWeeks: number | undefined;
+  if (progression.cycleWeeks !== undefined) {
+    cycleWeeks = Math.floor(progression.cycleWeeks);
+    if (!Number.isFinite(cycleWeeks) || cycleWeeks < 2) {
+      throw new Error("A progression cycle must last at least 2 weeks.");
     }
-    const weekdays = rule.recurrence.byWeekdays?.length
-      ? rule.recurrence.byWeekdays
-      : [new Date(start).getDay()];
-    return weekdays.includes(new Date(date).getDay());
   }
 
-  const startDate = new Date(start);
-  const currentDate = new Date(date);
-  const monthsBetween =
-    (currentDate.getFullYear() - startDate.getFullYear()) * 12 +
-    (currentDate.getMonth() - startDate.getMonth());
-  if (monthsBetween % interval !== 0) {
-    return false;
+  const deloadLoadFactor = progression.deloadLoadFactor;
+  if (deloadLoadFactor !== undefined) {
+    if (cycleWeeks === undefined) {
+      throw new Error("A deload week needs a cycle length.");
+    }
+    if (!(deloadLoadFactor > 0 && deloadLoadFactor <= 1)) {
+      throw new Error("Deload load must be between 1% and 100% of the base load.");
+    }
   }
-  return currentDate.getDate() === startDate.getDate();
+
+  if (steps.length === 0 && deloadLoadFactor === undefined) {
+    return undefined;
+  }
+  return {
+    steps,
+    cycleWeeks,
+    deloadLoadFactor,
+    anchorDate: anchorDate !== undefined ? startOfDay(anchorDate) : undefined,
+  };
 }
 
 async function createSessionFromRule(
@@ -114,16 +187,20 @@ async function createSessionFromRule(
   options?: { canceledAt?: number },
 ) {
   const now = Date.now();
+  const occurrence = resolveRuleOccurrence(rule, scheduledFor);
   return await ctx.db.insert("trainingScheduleSessions", {
     ownerId: rule.ownerId,
     trainingItemId: rule.trainingItemId,
     isImpromptu: false,
     recurrenceRuleId: rule._id,
     scheduledFor: startOfDay(scheduledFor),
+    startMinutes: rule.startMinutes,
+    durationMinutes: rule.durationMinutes,
     completedAt: undefined,
     canceledAt: options?.canceledAt,
     snapshot: rule.snapshot,
-    overrides: rule.defaultOverrides ?? {},
+    overrides: occurrence.overrides,
+    workout: occurrence.workout,
     notes: rule.notes,
     createdAt: now,
     updatedAt: now,
@@ -199,10 +276,203 @@ function normalizeItemCategories(categories: string[] | undefined): string[] {
   return normalized;
 }
 
+function buildItemSnapshot(item: any) {
+  return {
+    title: item.title,
+    description: item.description,
+    categories: normalizeItemCategories(item.categories),
+    tags: item.tags,
+    trainingType: item.trainingType,
+    hangDetails: item.hangDetails,
+    difficulty: item.difficulty,
+    equipment: item.equipment,
+    variables: item.variables,
+    protocol: item.protocol,
+  };
+}
+
+async function assertOwnedWorkoutTemplate(ctx: any, userId: any, templateId: any) {
+  const template = await ctx.db.get(templateId);
+  if (!template) {
+    throw new Error("Workout not found.");
+  }
+  if (template.ownerId !== userId) {
+    throw new Error("Forbidden");
+  }
+  if (template.blocks.length === 0) {
+    throw new Error("A workout needs at least one exercise.");
+  }
+  return template;
+}
+
+// Resolves what a new session or rule points at. Workouts freeze every block and
+// mirror block 0 onto the top-level item fields so single-item readers keep working.
+export async function resolveScheduleTarget(
+  ctx: any,
+  userId: any,
+  args: { trainingItemId?: any; workoutTemplateId?: any; overrides?: any },
+) {
+  if ((args.trainingItemId ? 1 : 0) + (args.workoutTemplateId ? 1 : 0) !== 1) {
+    throw new Error("Pick either an exercise or a workout.");
+  }
+
+  if (args.trainingItemId) {
+    const item = await assertItemCanBeScheduled(ctx, userId, args.trainingItemId);
+    return {
+      trainingItemId: args.trainingItemId,
+      snapshot: buildItemSnapshot(item),
+      overrides: args.overrides ?? {},
+      workout: undefined,
+    };
+  }
+
+  const template = await assertOwnedWorkoutTemplate(ctx, userId, args.workoutTemplateId);
+  const blocks = [];
+  for (const block of template.blocks) {
+    const item = await assertItemCanBeScheduled(ctx, userId, block.trainingItemId);
+    blocks.push({
+      trainingItemId: block.trainingItemId,
+      snapshot: buildItemSnapshot(item),
+      overrides: block.overrides ?? {},
+      notes: block.notes,
+    });
+  }
+  if (args.overrides) {
+    blocks[0] = { ...blocks[0], overrides: args.overrides };
+  }
+
+  return {
+    trainingItemId: blocks[0].trainingItemId,
+    snapshot: blocks[0].snapshot,
+    overrides: blocks[0].overrides,
+    workout: {
+      workoutTemplateId: template._id,
+      title: template.title,
+      description: template.description,
+      blocks,
+    },
+  };
+}
+
+function withFirstBlockOverrides(workout: any, overrides: any) {
+  if (!workout || !overrides) {
+    return workout;
+  }
+  return {
+    ...workout,
+    blocks: workout.blocks.map((block: any, index: number) =>
+      index === 0 ? { ...block, overrides } : block,
+    ),
+  };
+}
+
+// Shared by addSession, the .ics importer and training plans so all apply the same
+// validation. Plan sessions pass their place in the plan and how each block progresses.
+export async function insertScheduledSession(
+  ctx: any,
+  userId: any,
+  args: {
+    trainingItemId?: any;
+    workoutTemplateId?: any;
+    scheduledFor: number;
+    startMinutes?: number;
+    durationMinutes?: number;
+    overrides?: any;
+    notes?: string;
+    importUid?: string;
+    plan?: { planId: any; phaseIndex: number; weekIndex: number };
+    progressLoads?: (variables: any, overrides: any) => any;
+  },
+) {
+  const timing = normalizeTiming(args);
+  const target = await resolveScheduleTarget(ctx, userId, args);
+  const progressLoads = args.progressLoads;
+  const workout =
+    target.workout && progressLoads
+      ? {
+          ...target.workout,
+          blocks: target.workout.blocks.map((block: any) => ({
+            ...block,
+            overrides: progressLoads(block.snapshot.variables, block.overrides),
+          })),
+        }
+      : target.workout;
+  const overrides = workout
+    ? workout.blocks[0].overrides
+    : progressLoads
+      ? progressLoads(target.snapshot.variables, target.overrides)
+      : target.overrides;
+  const now = Date.now();
+  return await ctx.db.insert("trainingScheduleSessions", {
+    ownerId: userId,
+    trainingItemId: target.trainingItemId,
+    isImpromptu: false,
+    recurrenceRuleId: undefined,
+    scheduledFor: startOfDay(args.scheduledFor),
+    startMinutes: timing.startMinutes,
+    durationMinutes: timing.durationMinutes,
+    completedAt: undefined,
+    canceledAt: undefined,
+    snapshot: target.snapshot,
+    overrides,
+    workout,
+    planId: args.plan?.planId,
+    planPhaseIndex: args.plan?.phaseIndex,
+    planWeekIndex: args.plan?.weekIndex,
+    notes: args.notes?.trim() || undefined,
+    importUid: args.importUid,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+// Shared by addRecurringSeries and the .ics importer.
+export async function insertRecurringSeries(
+  ctx: any,
+  userId: any,
+  args: {
+    trainingItemId?: any;
+    workoutTemplateId?: any;
+    startDate: number;
+    startMinutes?: number;
+    durationMinutes?: number;
+    recurrence: any;
+    overrides?: any;
+    progression?: any;
+    notes?: string;
+    importUid?: string;
+  },
+) {
+  const recurrence = normalizeRecurrence(args.recurrence);
+  const timing = normalizeTiming(args);
+  const target = await resolveScheduleTarget(ctx, userId, args);
+  const now = Date.now();
+  return await ctx.db.insert("trainingScheduleRecurrenceRules", {
+    ownerId: userId,
+    trainingItemId: target.trainingItemId,
+    startDate: startOfDay(args.startDate),
+    startMinutes: timing.startMinutes,
+    durationMinutes: timing.durationMinutes,
+    recurrence,
+    snapshot: target.snapshot,
+    defaultOverrides: target.overrides,
+    progression: normalizeProgression(args.progression),
+    workout: target.workout,
+    notes: args.notes?.trim() || undefined,
+    importUid: args.importUid,
+    active: true,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
 export const addSession = mutationGeneric({
   args: {
-    trainingItemId: v.id("trainingItems"),
+    trainingItemId: v.optional(v.id("trainingItems")),
+    workoutTemplateId: v.optional(v.id("workoutTemplates")),
     scheduledFor: v.number(),
+    startMinutes: v.optional(v.number()),
+    durationMinutes: v.optional(v.number()),
     overrides: v.optional(variablesValidator),
     notes: v.optional(v.string()),
   },
@@ -212,41 +482,19 @@ export const addSession = mutationGeneric({
       throw new Error("Unauthorized");
     }
 
-    const item = await assertItemCanBeScheduled(ctx, userId, args.trainingItemId);
-    const snapshotCategories = normalizeItemCategories(item.categories);
-    const now = Date.now();
-    const sessionId = await ctx.db.insert("trainingScheduleSessions", {
-      ownerId: userId,
-      trainingItemId: args.trainingItemId,
-      isImpromptu: false,
-      recurrenceRuleId: undefined,
-      scheduledFor: startOfDay(args.scheduledFor),
-      completedAt: undefined,
-      canceledAt: undefined,
-      snapshot: {
-        title: item.title,
-        description: item.description,
-        categories: snapshotCategories,
-        tags: item.tags,
-        trainingType: item.trainingType,
-        hangDetails: item.hangDetails,
-        difficulty: item.difficulty,
-        equipment: item.equipment,
-        variables: item.variables,
-      },
-      overrides: args.overrides ?? {},
-      notes: args.notes?.trim() || undefined,
-      createdAt: now,
-      updatedAt: now,
-    });
-
-    return await ctx.db.get(sessionId);
+    const sessionId = await insertScheduledSession(ctx, userId, args);
+    const session = await ctx.db.get(sessionId);
+    const workloadWarning = sessionCategories(session).includes(FINGER_STRENGTH_CATEGORY)
+      ? await findFingerLoadSpike(ctx, userId, session!.scheduledFor)
+      : null;
+    return { ...session!, workloadWarning };
   },
 });
 
 export const startImpromptuSession = mutationGeneric({
   args: {
-    trainingItemId: v.id("trainingItems"),
+    trainingItemId: v.optional(v.id("trainingItems")),
+    workoutTemplateId: v.optional(v.id("workoutTemplates")),
     overrides: v.optional(variablesValidator),
     notes: v.optional(v.string()),
   },
@@ -256,29 +504,19 @@ export const startImpromptuSession = mutationGeneric({
       throw new Error("Unauthorized");
     }
 
-    const item = await assertItemCanBeScheduled(ctx, userId, args.trainingItemId);
-    const snapshotCategories = normalizeItemCategories(item.categories);
+    const target = await resolveScheduleTarget(ctx, userId, args);
     const now = Date.now();
     const sessionId = await ctx.db.insert("trainingScheduleSessions", {
       ownerId: userId,
-      trainingItemId: args.trainingItemId,
+      trainingItemId: target.trainingItemId,
       isImpromptu: true,
       recurrenceRuleId: undefined,
-      scheduledFor: startOfDay(now),
+      scheduledFor: await getUserToday(ctx, userId),
       completedAt: undefined,
       canceledAt: undefined,
-      snapshot: {
-        title: item.title,
-        description: item.description,
-        categories: snapshotCategories,
-        tags: item.tags,
-        trainingType: item.trainingType,
-        hangDetails: item.hangDetails,
-        difficulty: item.difficulty,
-        equipment: item.equipment,
-        variables: item.variables,
-      },
-      overrides: args.overrides ?? {},
+      snapshot: target.snapshot,
+      overrides: target.overrides,
+      workout: target.workout,
       notes: args.notes?.trim() || undefined,
       createdAt: now,
       updatedAt: now,
@@ -290,10 +528,14 @@ export const startImpromptuSession = mutationGeneric({
 
 export const addRecurringSeries = mutationGeneric({
   args: {
-    trainingItemId: v.id("trainingItems"),
+    trainingItemId: v.optional(v.id("trainingItems")),
+    workoutTemplateId: v.optional(v.id("workoutTemplates")),
     startDate: v.number(),
+    startMinutes: v.optional(v.number()),
+    durationMinutes: v.optional(v.number()),
     recurrence: recurrenceValidator,
     overrides: v.optional(variablesValidator),
+    progression: v.optional(progressionValidator),
     notes: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
@@ -302,45 +544,7 @@ export const addRecurringSeries = mutationGeneric({
       throw new Error("Unauthorized");
     }
 
-    if (!Number.isFinite(args.recurrence.interval) || args.recurrence.interval < 1) {
-      throw new Error("Interval must be at least 1.");
-    }
-
-    const item = await assertItemCanBeScheduled(ctx, userId, args.trainingItemId);
-    const snapshotCategories = normalizeItemCategories(item.categories);
-    const now = Date.now();
-    const startDate = startOfDay(args.startDate);
-    const until =
-      args.recurrence.until !== undefined ? startOfDay(args.recurrence.until) : undefined;
-
-    const ruleId = await ctx.db.insert("trainingScheduleRecurrenceRules", {
-      ownerId: userId,
-      trainingItemId: args.trainingItemId,
-      startDate,
-      recurrence: {
-        ...args.recurrence,
-        interval: Math.floor(args.recurrence.interval),
-        byWeekdays: args.recurrence.byWeekdays,
-        until,
-      },
-      snapshot: {
-        title: item.title,
-        description: item.description,
-        categories: snapshotCategories,
-        tags: item.tags,
-        trainingType: item.trainingType,
-        hangDetails: item.hangDetails,
-        difficulty: item.difficulty,
-        equipment: item.equipment,
-        variables: item.variables,
-      },
-      defaultOverrides: args.overrides ?? {},
-      notes: args.notes?.trim() || undefined,
-      active: true,
-      createdAt: now,
-      updatedAt: now,
-    });
-
+    const ruleId = await insertRecurringSeries(ctx, userId, args);
     return await ctx.db.get(ruleId);
   },
 });
@@ -413,7 +617,7 @@ export const cancelRecurringOccurrence = mutationGeneric({
     }
 
     const scheduledFor = startOfDay(args.scheduledFor);
-    const today = startOfDay(Date.now());
+    const today = await getUserToday(ctx, userId);
     if (scheduledFor < today) {
       throw new Error("Only upcoming sessions can be removed.");
     }
@@ -444,6 +648,8 @@ export const updateUpcomingSession = mutationGeneric({
   args: {
     sessionId: v.id("trainingScheduleSessions"),
     scheduledFor: v.optional(v.number()),
+    startMinutes: v.optional(v.union(v.number(), v.null())),
+    durationMinutes: v.optional(v.union(v.number(), v.null())),
     overrides: v.optional(variablesValidator),
     notes: v.optional(v.string()),
   },
@@ -467,7 +673,7 @@ export const updateUpcomingSession = mutationGeneric({
       throw new Error("Completed sessions are immutable.");
     }
 
-    const today = startOfDay(Date.now());
+    const today = await getUserToday(ctx, userId);
     if (session.scheduledFor < today) {
       throw new Error("Past sessions are immutable.");
     }
@@ -478,10 +684,15 @@ export const updateUpcomingSession = mutationGeneric({
       throw new Error("You can only move to today or future dates.");
     }
 
+    const timing = normalizeTiming(args);
     const previousScheduledFor = session.scheduledFor;
     await ctx.db.patch(args.sessionId, {
       scheduledFor: nextScheduledFor,
+      startMinutes: args.startMinutes !== undefined ? timing.startMinutes : session.startMinutes,
+      durationMinutes:
+        args.durationMinutes !== undefined ? timing.durationMinutes : session.durationMinutes,
       overrides: args.overrides ?? session.overrides,
+      workout: withFirstBlockOverrides(session.workout, args.overrides),
       notes: args.notes?.trim() || undefined,
       updatedAt: Date.now(),
     });
@@ -518,7 +729,7 @@ export const removeUpcomingSession = mutationGeneric({
       return { success: true };
     }
 
-    const today = startOfDay(Date.now());
+    const today = await getUserToday(ctx, userId);
     if (session.completedAt || session.scheduledFor < today) {
       throw new Error("Only upcoming sessions can be removed.");
     }
@@ -570,11 +781,77 @@ export const completeSession = mutationGeneric({
   },
 });
 
+// Ends a series the day before `effectiveFrom` and continues it in a new rule from the
+// first occurrence on or after that day, so edits to the new rule leave earlier days (and
+// their progression anchor) alone. Null when the pattern has no occurrence left to move.
+async function splitRecurringRule(ctx: any, rule: any, effectiveFrom: number) {
+  const { exdates, rdates, ...pattern } = rule.recurrence;
+  const next = nextPatternDay(rule.startDate, pattern, effectiveFrom);
+  if (!next) {
+    return null;
+  }
+
+  const parsed = rule.recurrence.rrule ? parseRRule(rule.recurrence.rrule) : undefined;
+  const laterExdates = exdates?.filter((entry: number) => entry >= effectiveFrom);
+  const laterRdates = rdates?.filter((entry: number) => entry >= effectiveFrom);
+  const { _id, _creationTime, importUid, ...fields } = rule;
+  const now = Date.now();
+  const nextRuleId = await ctx.db.insert("trainingScheduleRecurrenceRules", {
+    ...fields,
+    startDate: next.day,
+    recurrence: {
+      ...rule.recurrence,
+      // COUNT covers the whole series, so the new rule keeps only what is left of it.
+      rrule:
+        parsed?.count !== undefined
+          ? formatRRule({ ...parsed, count: parsed.count - next.index })
+          : rule.recurrence.rrule,
+      exdates: laterExdates?.length ? laterExdates : undefined,
+      rdates: laterRdates?.length ? laterRdates : undefined,
+    },
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const cutoffUntil = addDays(effectiveFrom, -1);
+  const earlierExdates = exdates?.filter((entry: number) => entry < effectiveFrom);
+  const earlierRdates = rdates?.filter((entry: number) => entry < effectiveFrom);
+  await ctx.db.patch(rule._id, {
+    recurrence: {
+      ...rule.recurrence,
+      until:
+        rule.recurrence.until !== undefined
+          ? Math.min(startOfDay(rule.recurrence.until), cutoffUntil)
+          : cutoffUntil,
+      exdates: earlierExdates?.length ? earlierExdates : undefined,
+      rdates: earlierRdates?.length ? earlierRdates : undefined,
+    },
+    updatedAt: now,
+  });
+
+  // Materialized days move with the segment so they keep blocking its virtual occurrences.
+  const laterSessions = await ctx.db
+    .query("trainingScheduleSessions")
+    .withIndex("by_rule_scheduled_for", (q: any) =>
+      q.eq("recurrenceRuleId", rule._id).gte("scheduledFor", effectiveFrom),
+    )
+    .collect();
+  await Promise.all(
+    laterSessions.map((session: any) =>
+      ctx.db.patch(session._id, { recurrenceRuleId: nextRuleId, updatedAt: now }),
+    ),
+  );
+  return await ctx.db.get(nextRuleId);
+}
+
 export const updateRecurringRuleFuture = mutationGeneric({
   args: {
     ruleId: v.id("trainingScheduleRecurrenceRules"),
     effectiveFrom: v.number(),
+    startMinutes: v.optional(v.union(v.number(), v.null())),
+    durationMinutes: v.optional(v.union(v.number(), v.null())),
     overrides: v.optional(variablesValidator),
+    progression: v.optional(v.union(progressionValidator, v.null())),
     notes: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
@@ -583,21 +860,47 @@ export const updateRecurringRuleFuture = mutationGeneric({
       throw new Error("Unauthorized");
     }
 
-    const rule = await ctx.db.get(args.ruleId);
-    if (!rule) {
+    const originalRule = await ctx.db.get(args.ruleId);
+    if (!originalRule) {
       throw new Error("Recurring rule not found.");
     }
-    if (rule.ownerId !== userId) {
+    if (originalRule.ownerId !== userId) {
       throw new Error("Forbidden");
     }
 
     const effectiveFrom = startOfDay(args.effectiveFrom);
+    // New base values apply as of effectiveFrom, so progression restarts counting there.
+    // Earlier days stay on the original rule with the loads and anchor they had.
+    const loadsChanged = args.overrides !== undefined || args.progression !== undefined;
+    const rule =
+      loadsChanged && effectiveFrom > startOfDay(originalRule.startDate)
+        ? ((await splitRecurringRule(ctx, originalRule, effectiveFrom)) ?? originalRule)
+        : originalRule;
+    const progression =
+      args.progression === null
+        ? undefined
+        : normalizeProgression(
+            args.progression ?? rule.progression,
+            loadsChanged ? effectiveFrom : rule.progression?.anchorDate,
+          );
+
+    const timing = normalizeTiming(args);
+    const nextTiming = {
+      startMinutes: args.startMinutes !== undefined ? timing.startMinutes : rule.startMinutes,
+      durationMinutes:
+        args.durationMinutes !== undefined ? timing.durationMinutes : rule.durationMinutes,
+    };
+    const timingChanged = args.startMinutes !== undefined || args.durationMinutes !== undefined;
 
     await ctx.db.patch(rule._id, {
+      ...nextTiming,
       defaultOverrides: args.overrides ?? rule.defaultOverrides,
+      progression,
+      workout: withFirstBlockOverrides(rule.workout, args.overrides),
       notes: args.notes?.trim() || rule.notes,
       updatedAt: Date.now(),
     });
+    const updatedRule = await ctx.db.get(rule._id);
 
     const sessions = await ctx.db
       .query("trainingScheduleSessions")
@@ -606,14 +909,27 @@ export const updateRecurringRuleFuture = mutationGeneric({
       )
       .collect();
 
-    const today = startOfDay(Date.now());
+    const today = await getUserToday(ctx, userId);
+    const occurrenceDays =
+      loadsChanged && sessions.length > 0
+        ? expandRuleOccurrences(
+            updatedRule,
+            effectiveFrom,
+            Math.max(...sessions.map((session: any) => session.scheduledFor)),
+          )
+        : undefined;
     await Promise.all(
       sessions.map(async (session: any) => {
         if (session.canceledAt || session.completedAt || session.scheduledFor < today) {
           return;
         }
+        const occurrence = loadsChanged
+          ? resolveRuleOccurrence(updatedRule, session.scheduledFor, occurrenceDays)
+          : { overrides: session.overrides, workout: session.workout };
         await ctx.db.patch(session._id, {
-          overrides: args.overrides ?? session.overrides,
+          ...(timingChanged ? nextTiming : {}),
+          overrides: occurrence.overrides,
+          workout: occurrence.workout,
           notes: args.notes?.trim() || session.notes,
           updatedAt: Date.now(),
         });
@@ -644,7 +960,7 @@ export const removeRecurringRuleFuture = mutationGeneric({
     }
 
     const effectiveFrom = startOfDay(args.effectiveFrom);
-    const today = startOfDay(Date.now());
+    const today = await getUserToday(ctx, userId);
     if (effectiveFrom < today) {
       throw new Error("You can only delete recurring sessions from today or a future date.");
     }
@@ -678,6 +994,7 @@ export const removeRecurringRuleFuture = mutationGeneric({
         : {
             ...rule.recurrence,
             until: nextUntil,
+            rdates: rule.recurrence.rdates?.filter((entry: number) => entry < effectiveFrom),
           },
       updatedAt: Date.now(),
     });
@@ -704,80 +1021,20 @@ export const listCalendarSessionsInRange = queryGeneric({
     const rangeEnd = startOfDay(args.rangeEnd);
     const monthStart = startOfMonth(rangeStart);
     const monthEnd = endOfMonth(rangeEnd);
+    const sessions = await collectCalendarSessions(ctx, userId, monthStart, monthEnd);
+    const bodyWeightOn = await loadUserBodyWeightLookup(ctx, userId);
 
-    const materializedSessions = await ctx.db
-      .query("trainingScheduleSessions")
-      .withIndex("by_owner_scheduled_for", (q: any) =>
-        q.eq("ownerId", userId).gte("scheduledFor", monthStart).lte("scheduledFor", monthEnd),
-      )
-      .order("asc")
-      .collect();
-
-    const blockedRuleDates = new Set<string>();
-    const sessions: any[] = [];
-    for (const session of materializedSessions) {
-      if (session.recurrenceRuleId) {
-        blockedRuleDates.add(ruleDateKey(String(session.recurrenceRuleId), session.scheduledFor));
-      }
-      if (session.canceledAt) {
-        continue;
-      }
-      sessions.push({
-        ...session,
-        isVirtual: false,
-      });
-    }
-
-    const rules = await ctx.db
-      .query("trainingScheduleRecurrenceRules")
-      .withIndex("by_owner_active_start_date", (q: any) =>
-        q.eq("ownerId", userId).eq("active", true).lte("startDate", monthEnd),
-      )
-      .collect();
-
-    for (const rule of rules) {
-      const effectiveStart = Math.max(startOfDay(rule.startDate), monthStart);
-      const ruleUntil =
-        rule.recurrence.until !== undefined ? startOfDay(rule.recurrence.until) : undefined;
-      const effectiveEnd = ruleUntil !== undefined ? Math.min(ruleUntil, monthEnd) : monthEnd;
-      if (effectiveEnd < effectiveStart) {
-        continue;
-      }
-
-      for (let cursor = effectiveStart; cursor <= effectiveEnd; cursor = addDays(cursor, 1)) {
-        if (!occursOnDate(rule, cursor)) {
-          continue;
-        }
-        const key = ruleDateKey(String(rule._id), cursor);
-        if (blockedRuleDates.has(key)) {
-          continue;
-        }
-        sessions.push({
-          _id: `virtual:${rule._id}:${cursor}`,
-          ownerId: rule.ownerId,
-          trainingItemId: rule.trainingItemId,
-          isImpromptu: false,
-          recurrenceRuleId: rule._id,
-          scheduledFor: cursor,
-          completedAt: undefined,
-          canceledAt: undefined,
-          snapshot: rule.snapshot,
-          overrides: rule.defaultOverrides ?? {},
-          notes: rule.notes,
-          createdAt: rule.createdAt,
-          updatedAt: rule.updatedAt,
-          isVirtual: true,
-        });
-      }
-    }
-
-    sessions.sort((a, b) => a.scheduledFor - b.scheduledFor);
-
+    const today = await getUserToday(ctx, userId);
     return {
-      sessions,
+      // Body weight in effect on each session's day, for bodyweight-relative loads.
+      sessions: sessions.map((session) => ({
+        ...session,
+        bodyWeightKg: bodyWeightOn(session.scheduledFor),
+      })),
       monthStart,
       monthEnd,
-      today: startOfDay(Date.now()),
+      today,
+      todayKey: timestampToDayKey(today),
     };
   },
 });
@@ -795,6 +1052,15 @@ export const getSessionById = queryGeneric({
     if (!session || session.ownerId !== userId || session.canceledAt) {
       return null;
     }
-    return session;
+    // Blocks that already have a log, so the timer can pick the next one while offline.
+    const loggedBlockIndexes = session.workout
+      ? (
+          await ctx.db
+            .query("trainingSessionLogs")
+            .withIndex("by_session_started_at", (q) => q.eq("scheduleSessionId", session._id))
+            .collect()
+        ).map((log) => log.blockIndex ?? 0)
+      : [];
+    return { ...session, loggedBlockIndexes };
   },
 });
@@ -0,0 +1,272 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { queryGeneric, type GenericQueryCtx } from "convex/server";
+import type { DataModel, Doc, Id } from "./_generated/dataModel";
+import { addDays, DAY_MS, dayInTimeZone } from "./dayKeys";
+import { loadBodyWeightLookup } from "./bodyWeight";
+import { collectCalendarSessions } from "./calendarSessions";
+import { FINGER_STRENGTH_CATEGORY, snapshotCategories } from "./trainingCategories";
+
+// Acute:chronic workload ratio (ACWR). Load is time under tension weighted by relative
+// intensity, so 60 s of hangs at 120% bodyweight count as 72. The acute load is the last
+// 7 days; the chronic load is the weekly average over the last 28 days, including them.
+
+export const DEFAULT_ACWR_THRESHOLD = 1.5;
+export const MIN_ACWR_THRESHOLD = 1.1;
+export const MAX_ACWR_THRESHOLD = 3;
+
+const ACUTE_DAYS = 7;
+const CHRONIC_DAYS = 28;
+// Reps without a planned duration (weight training) are counted as a few seconds each.
+const FALLBACK_REP_SECONDS = 3;
+
+type DailyLoads = Map<number, Map<string, number>>;
+type Snapshot = Doc<"trainingScheduleSessions">["snapshot"];
+type LoadBlock = Pick<Doc<"trainingScheduleSessions">, "snapshot" | "overrides">;
+
+function addLoad(loads: DailyLoads, day: number, categories: string[], load: number) {
+  if (!(load > 0)) return;
+  const byCategory = loads.get(day) ?? new Map<string, number>();
+  for (const category of categories) {
+    byCategory.set(category, (byCategory.get(category) ?? 0) + load);
+  }
+  loads.set(day, byCategory);
+}
+
+function windowLoad(sources: DailyLoads[], category: string, endDay: number, days: number) {
+  let total = 0;
+  for (let offset = 0; offset < days; offset += 1) {
+    for (const loads of sources) {
+      total += loads.get(addDays(endDay, -offset))?.get(category) ?? 0;
+    }
+  }
+  return total;
+}
+
+// Typed exercises plan `weight` in % of bodyweight; anything else counts at face value.
+function plannedIntensity(snapshot: Snapshot | undefined, weight: number | undefined) {
+  return snapshot?.trainingType && weight !== undefined && weight > 0 ? weight / 100 : 1;
+}
+
+function logLoad(
+  log: Doc<"trainingSessionLogs">,
+  snapshot: Snapshot,
+  bodyWeightKg: number | undefined,
+) {
+  const seconds =
+    log.summary.totalRepDurationMs > 0
+      ? log.summary.totalRepDurationMs / 1000
+      : log.summary.completedReps * FALLBACK_REP_SECONDS;
+  const addedWeightKg = log.summary.maxAddedWeightKg;
+  const intensity =
+    addedWeightKg !== undefined && bodyWeightKg && bodyWeightKg > 0
+      ? (bodyWeightKg + addedWeightKg) / bodyWeightKg
+      : plannedIntensity(snapshot, log.planned.weight);
+  return seconds * intensity;
+}
+
+function plannedBlockLoad(block: LoadBlock) {
+  const variables = { ...block.snapshot.variables, ...stripUndefined(block.overrides ?? {}) };
+  const sets = variables.sets ?? 1;
+  const reps = variables.reps ?? 1;
+  const seconds = variables.durationSeconds ?? FALLBACK_REP_SECONDS;
+  return sets * reps * seconds * plannedIntensity(block.snapshot, variables.weight);
+}
+
+function stripUndefined(values: Record<string, unknown>) {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+}
+
+function sessionBlocks(session: LoadBlock & { workout?: { blocks: LoadBlock[] } }): LoadBlock[] {
+  return session.workout
+    ? session.workout.blocks
+    : [{ snapshot: session.snapshot, overrides: session.overrides }];
+}
+
+async function loadProfile(
+  ctx: GenericQueryCtx<DataModel>,
+  userId: Id<"users">,
+): Promise<Doc<"profiles"> | null> {
+  return await ctx.db
+    .query("profiles")
+    .withIndex("by_user_id", (q) => q.eq("userId", userId))
+    .first();
+}
+
+// Daily loads per category from `fromDay` to `toDay`, split into logged work and the
+// planned sessions that are still open from today on. A session with any log counts
+// through its logs only, so a partly done workout is not counted again as planned.
+async function collectDailyLoads(
+  ctx: GenericQueryCtx<DataModel>,
+  userId: Id<"users">,
+  profile: Doc<"profiles"> | null,
+  today: number,
+  fromDay: number,
+  toDay: number,
+) {
+  const timeZone = profile?.timeZone ?? "UTC";
+  const logged: DailyLoads = new Map();
+  const planned: DailyLoads = new Map();
+
+  const logs = await ctx.db
+    .query("trainingSessionLogs")
+    .withIndex("by_owner_started_at", (q) =>
+      q.eq("ownerId", userId).gte("startedAt", fromDay - DAY_MS),
+    )
+    .collect();
+  const bodyWeightOn = await loadBodyWeightLookup(ctx, userId, profile?.bodyWeightKg);
+  const sessionsById = new Map<string, Doc<"trainingScheduleSessions"> | null>();
+  for (const log of logs) {
+    const day = dayInTimeZone(log.startedAt, timeZone);
+    if (day < fromDay || day > toDay) continue;
+    const sessionKey = String(log.scheduleSessionId);
+    if (!sessionsById.has(sessionKey)) {
+      sessionsById.set(sessionKey, await ctx.db.get(log.scheduleSessionId));
+    }
+    const session = sessionsById.get(sessionKey);
+    const snapshot = session?.workout
+      ? session.workout.blocks[log.blockIndex ?? 0]?.snapshot
+      : session?.snapshot;
+    if (!snapshot) continue;
+    const load = logLoad(log, snapshot, log.bodyWeightKg ?? bodyWeightOn(day));
+    addLoad(logged, day, snapshotCategories(snapshot), load);
+  }
+
+  if (toDay >= today) {
+    const sessions = await collectCalendarSessions(ctx, userId, Math.max(today, fromDay), toDay);
+    for (const session of sessions) {
+      if (session.completedAt) continue;
+      if (!session.isVirtual) {
+        const log = await ctx.db
+          .query("trainingSessionLogs")
+          .withIndex("by_session_started_at", (q) => q.eq("scheduleSessionId", session._id))
+          .first();
+        if (log) continue;
+      }
+      for (const block of sessionBlocks(session)) {
+        addLoad(
+          planned,
+          session.scheduledFor,
+          snapshotCategories(block.snapshot),
+          plannedBlockLoad(block),
+        );
+      }
+    }
+  }
+  return { logged, planned };
+}
+
+function workloadRatio(sources: DailyLoads[], category: string, day: number) {
+  const acuteLoad = windowLoad(sources, category, day, ACUTE_DAYS);
+  const chronicWeeklyLoad =
+    (windowLoad(sources, category, day, CHRONIC_DAYS) * ACUTE_DAYS) / CHRONIC_DAYS;
+  return {
+    acuteLoad: Math.round(acuteLoad),
+    chronicWeeklyLoad: Math.round(chronicWeeklyLoad),
+    // Without any history there is no baseline to compare against.
+    ratio:
+      chronicWeeklyLoad > 0 ? Math.round((acuteLoad / chronicWeeklyLoad) * 100) / 100 : null,
+  };
+}
+
+export function resolveAcwrThreshold(profile: Doc<"profiles"> | null): number {
+  return profile?.acwrWarningRatio ?? DEFAULT_ACWR_THRESHOLD;
+}
+
+// Peak finger-strength ratio over the week a newly scheduled day belongs to, or null when
+// it stays within the user's threshold. A span of new days (a plan) is checked at once.
+export async function findFingerLoadSpike(
+  ctx: GenericQueryCtx<DataModel>,
+  userId: Id<"users">,
+  scheduledFor: number,
+  lastScheduledFor = scheduledFor,
+) {
+  const profile = await loadProfile(ctx, userId);
+  const today = dayInTimeZone(Date.now(), profile?.timeZone ?? "UTC");
+  if (lastScheduledFor < today) {
+    return null;
+  }
+  const lastDay = addDays(lastScheduledFor, ACUTE_DAYS - 1);
+  const { logged, planned } = await collectDailyLoads(
+    ctx,
+    userId,
+    profile,
+    today,
+    addDays(scheduledFor, -CHRONIC_DAYS),
+    lastDay,
+  );
+  const threshold = resolveAcwrThreshold(profile);
+  let peak: { day: number; ratio: number } | null = null;
+  for (let day = scheduledFor; day <= lastDay; day = addDays(day, 1)) {
+    const { ratio } = workloadRatio([logged, planned], FINGER_STRENGTH_CATEGORY, day);
+    if (ratio !== null && ratio > threshold && (!peak || ratio > peak.ratio)) {
+      peak = { day, ratio };
+    }
+  }
+  return peak ? { category: FINGER_STRENGTH_CATEGORY, ...peak, threshold } : null;
+}
+
+export const getWorkloadStatus = queryGeneric({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const profile = await loadProfile(ctx, userId);
+    const today = dayInTimeZone(Date.now(), profile?.timeZone ?? "UTC");
+    const lastPlannedDay = addDays(today, ACUTE_DAYS - 1);
+    const threshold = resolveAcwrThreshold(profile);
+    const { logged, planned } = await collectDailyLoads(
+      ctx,
+      userId,
+      profile,
+      today,
+      addDays(today, -CHRONIC_DAYS),
+      lastPlannedDay,
+    );
+
+    const categories = new Set<string>();
+    for (const loads of [logged, planned]) {
+      for (const byCategory of loads.values()) {
+        for (const category of byCategory.keys()) categories.add(category);
+      }
+    }
+
+    const results = Array.from(categories).map((category) => {
+      // Today's planned sessions are not done yet, so the current ratio only counts logs.
+      const current = workloadRatio([logged], category, today);
+      let projected: { day: number; ratio: number } | null = null;
+      for (let day = today; day <= lastPlannedDay; day = addDays(day, 1)) {
+        const { ratio } = workloadRatio([logged, planned], category, day);
+        if (ratio !== null && (!projected || ratio > projected.ratio)) {
+          projected = { day, ratio };
+        }
+      }
+      return { category, ...current, projected };
+    });
+
+    const warnings = results.flatMap((result) => {
+      if (result.ratio !== null && result.ratio > threshold) {
+        return [{ category: result.category, ratio: result.ratio, day: today, planned: false }];
+      }
+      if (result.projected && result.projected.ratio > threshold) {
+        return [{ category: result.category, ...result.projected, planned: true }];
+      }
+      return [];
+    });
+
+    return {
+      today,
+      threshold,
+      thresholdRange: { min: MIN_ACWR_THRESHOLD, max: MAX_ACWR_THRESHOLD },
+      categories: results.sort((a, b) => b.acuteLoad - a.acuteLoad),
+      // Finger strength first; it is what gets injured.
+      warnings: warnings.sort(
+        (a, b) =>
+          Number(b.category === FINGER_STRENGTH_CATEGORY) -
+            Number(a.category === FINGER_STRENGTH_CATEGORY) || b.ratio - a.ratio,
+      ),
+    };
+  },
+});
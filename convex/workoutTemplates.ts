@@ -0,0 +1,203 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { mutationGeneric, queryGeneric } from "convex/server";
+import { v } from "convex/values";
+
+const variablesValidator = v.object({
+  weight: v.optional(v.number()),
+  reps: v.optional(v.number()),
+  sets: v.optional(v.number()),
+  restSeconds: v.optional(v.number()),
+  restBetweenSetsSeconds: v.optional(v.number()),
+  durationSeconds: v.optional(v.number()),
+});
+
+const blockValidator = v.object({
+  trainingItemId: v.id("trainingItems"),
+  overrides: v.optional(variablesValidator),
+  notes: v.optional(v.string()),
+});
+
+async function assertItemUsable(ctx: any, userId: any, itemId: any) {
+  const item = await ctx.db.get(itemId);
+  if (!item) {
+    throw new Error("Exercise not found.");
+  }
+
+  if (item.ownerId === userId) {
+    return item;
+  }
+
+  const saved = await ctx.db
+    .query("savedItems")
+    .withIndex("by_user_item", (q: any) => q.eq("userId", userId).eq("itemId", itemId))
+    .first();
+
+  if (!saved) {
+    throw new Error("Workouts can only include your own or saved items.");
+  }
+
+  return item;
+}
+
+async function normalizeBlocks(
+  ctx: any,
+  userId: any,
+  blocks: { trainingItemId: any; overrides?: Record<string, number | undefined>; notes?: string }[],
+) {
+  if (blocks.length === 0) {
+    throw new Error("A workout needs at least one exercise.");
+  }
+
+  for (const block of blocks) {
+    await assertItemUsable(ctx, userId, block.trainingItemId);
+  }
+
+  return blocks.map((block) => ({
+    trainingItemId: block.trainingItemId,
+    overrides: block.overrides ?? {},
+    notes: block.notes?.trim() || undefined,
+  }));
+}
+
+export const createTemplate = mutationGeneric({
+  args: {
+    title: v.string(),
+    description: v.optional(v.string()),
+    blocks: v.array(blockValidator),
+  },
+  handler: async (ctx, args) => {
+    const ownerId = await getAuthUserId(ctx);
+    if (!ownerId) {
+      throw new Error("Unauthorized");
+    }
+
+    const title = args.title.trim();
+    if (!title) {
+      throw new Error("Workout name is required.");
+    }
+
+    const blocks = await normalizeBlocks(ctx, ownerId, args.blocks);
+    const now = Date.now();
+    const templateId = await ctx.db.insert("workoutTemplates", {
+      ownerId,
+      title,
+      description: args.description?.trim() || undefined,
+      blocks,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return await ctx.db.get(templateId);
+  },
+});
+
+export const updateTemplate = mutationGeneric({
+  args: {
+    templateId: v.id("workoutTemplates"),
+    title: v.string(),
+    description: v.optional(v.string()),
+    blocks: v.array(blockValidator),
+  },
+  handler: async (ctx, args) => {
+    const ownerId = await getAuthUserId(ctx);
+    if (!ownerId) {
+      throw new Error("Unauthorized");
+    }
+
+    const template = await ctx.db.get(args.templateId);
+    if (!template) {
+      throw new Error("Workout not found.");
+    }
+    if (template.ownerId !== ownerId) {
+      throw new Error("Forbidden");
+    }
+
+    const title = args.title.trim();
+    if (!title) {
+      throw new Error("Workout name is required.");
+    }
+
+    const blocks = await normalizeBlocks(ctx, ownerId, args.blocks);
+    await ctx.db.patch(args.templateId, {
+      title,
+      description: args.description?.trim() || undefined,
+      blocks,
+      updatedAt: Date.now(),
+    });
+
+    return await ctx.db.get(args.templateId);
+  },
+});
+
+export const deleteTemplate = mutationGeneric({
+  args: {
+    templateId: v.id("workoutTemplates"),
+  },
+  handler: async (ctx, args) => {
+    const ownerId = await getAuthUserId(ctx);
+    if (!ownerId) {
+      throw new Error("Unauthorized");
+    }
+
+    const template = await ctx.db.get(args.templateId);
+    if (!template) {
+      throw new Error("Workout not found.");
+    }
+    if (template.ownerId !== ownerId) {
+      throw new Error("Forbidden");
+    }
+
+    // Scheduled sessions keep their own frozen copy of the blocks.
+    await ctx.db.delete(args.templateId);
+    return { success: true };
+  },
+});
+
+export const listMyTemplates = queryGeneric({
+  handler: async (ctx) => {
+    const ownerId = await getAuthUserId(ctx);
+    if (!ownerId) {
+      throw new Error("Unauthorized");
+    }
+
+    const templates = await ctx.db
+      .query("workoutTemplates")
+      .withIndex("by_owner_updated_at", (q) => q.eq("ownerId", ownerId))
+      .order("desc")
+      .collect();
+
+    return await Promise.all(
+      templates.map(async (template) => ({
+        ...template,
+        blocks: await Promise.all(
+          template.blocks.map(async (block: any) => {
+            const item = await ctx.db.get(block.trainingItemId);
+            return {
+              ...block,
+              itemTitle: item?.title ?? "Missing exercise",
+              trainingType: item?.trainingType,
+            };
+          }),
+        ),
+      })),
+    );
+  },
+});
+
+export const getTemplateById = queryGeneric({
+  args: {
+    templateId: v.id("workoutTemplates"),
+  },
+  handler: async (ctx, args) => {
+    const viewerId = await getAuthUserId(ctx);
+    if (!viewerId) {
+      return null;
+    }
+
+    const template = await ctx.db.get(args.templateId);
+    if (!template || template.ownerId !== viewerId) {
+      return null;
+    }
+    return template;
+  },
+});
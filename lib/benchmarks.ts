@@ -0,0 +1,57 @@
+import type { BenchmarkProtocol } from "@/convex/benchmarkProtocols";
+import { BOULDER_GRADES, ROPE_GRADES } from "@/lib/profileGrades";
+import {
+  DEFAULT_GRADE_SYSTEMS,
+  formatGrade,
+  type GradeDiscipline,
+  type GradeSystems,
+} from "@/lib/gradeSystems";
+
+export type GradeBand = { boulder: string | null; rope: string | null };
+
+function clampIndex(index: number, length: number): number {
+  return Math.max(0, Math.min(length - 1, Math.round(index)));
+}
+
+function band(
+  discipline: GradeDiscipline,
+  systems: GradeSystems,
+  low: number,
+  high: number,
+): string {
+  const grades = discipline === "rope" ? ROPE_GRADES : BOULDER_GRADES;
+  const from = formatGrade(grades[clampIndex(low, grades.length)], discipline, systems);
+  const to = formatGrade(grades[clampIndex(high, grades.length)], discipline, systems);
+  return from === to ? from : `${from}–${to}`;
+}
+
+// Rough bands fitted to published fingerboard test data. They are meant to put a score in
+// context, not to predict what someone climbs.
+export function estimateGradeBand(
+  protocol: BenchmarkProtocol,
+  strengthToWeight: number | undefined,
+  systems: GradeSystems = DEFAULT_GRADE_SYSTEMS,
+): GradeBand | null {
+  if (strengthToWeight === undefined) {
+    return null;
+  }
+  if (protocol === "max_hang_10s") {
+    // About V3 at bodyweight, one V grade per ~11% of bodyweight added.
+    const vGrade = 3 + (strengthToWeight * 100 - 100) * 0.09;
+    // BOULDER_GRADES starts at VB, so V0 sits at index 1.
+    const boulderIndex = vGrade + 1;
+    // ROPE_GRADES starts at 5.6; V3 lines up with about 5.11b/c.
+    const ropeIndex = 5 + vGrade * 1.5;
+    return {
+      boulder: band("boulder", systems, boulderIndex - 0.5, boulderIndex + 0.5),
+      rope: band("rope", systems, ropeIndex - 1, ropeIndex + 1),
+    };
+  }
+  if (protocol === "critical_force") {
+    // Critical force is an endurance measure, so it only maps to rope grades:
+    // roughly 5.11a at 35% of bodyweight and 5.14a at 65%.
+    const ropeIndex = 8 + (strengthToWeight - 0.35) * 40;
+    return { boulder: null, rope: band("rope", systems, ropeIndex - 1, ropeIndex + 1) };
+  }
+  return null;
+}
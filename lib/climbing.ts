@@ -0,0 +1,129 @@
+import { formatGrade, storedGrades, type GradeSystems } from "@/lib/gradeSystems";
+
+export type ClimbDiscipline = "boulder" | "rope";
+export type ClimbStyle = "flash" | "onsight" | "redpoint" | "attempt";
+export type WallAngle = "slab" | "vertical" | "overhang" | "roof";
+
+export type ClimbEntry = {
+  clientClimbId: string;
+  discipline: ClimbDiscipline;
+  grade: string;
+  style: ClimbStyle;
+  attempts: number;
+  wallAngle?: WallAngle;
+  holdTypes: string[];
+  note?: string;
+};
+
+export type GradeTotals = {
+  discipline: ClimbDiscipline;
+  grade: string;
+  sends: number;
+  attempts: number;
+};
+
+export const CLIMB_STYLE_LABEL: Record<ClimbStyle, string> = {
+  flash: "Flash",
+  onsight: "Onsight",
+  redpoint: "Redpoint",
+  attempt: "Attempt",
+};
+
+export const WALL_ANGLE_LABEL: Record<WallAngle, string> = {
+  slab: "Slab",
+  vertical: "Vertical",
+  overhang: "Overhang",
+  roof: "Roof",
+};
+
+export const HOLD_TYPES = ["crimps", "slopers", "pinches", "pockets", "jugs", "volumes"];
+
+// Onsights only exist on ropes; bouldering sends on the first go are flashes.
+export function stylesFor(discipline: ClimbDiscipline): ClimbStyle[] {
+  return discipline === "rope"
+    ? ["onsight", "flash", "redpoint", "attempt"]
+    : ["flash", "redpoint", "attempt"];
+}
+
+export function isSend(climb: { style: ClimbStyle }): boolean {
+  return climb.style !== "attempt";
+}
+
+// Grades outside the app's scales sort below the known ones.
+function gradeRank(discipline: ClimbDiscipline, grade: string): number {
+  return storedGrades(discipline).indexOf(grade);
+}
+
+export function totalsByGrade(climbs: ClimbEntry[]): GradeTotals[] {
+  const totals = new Map<string, GradeTotals>();
+  for (const climb of climbs) {
+    const key = `${climb.discipline}:${climb.grade}`;
+    const entry = totals.get(key) ?? {
+      discipline: climb.discipline,
+      grade: climb.grade,
+      sends: 0,
+      attempts: 0,
+    };
+    if (isSend(climb)) entry.sends += 1;
+    entry.attempts += climb.attempts;
+    totals.set(key, entry);
+  }
+  return Array.from(totals.values());
+}
+
+// Hardest grade first, so the rows read top-down like a pyramid.
+export function gradePyramid(totals: GradeTotals[], discipline: ClimbDiscipline): GradeTotals[] {
+  return totals
+    .filter((entry) => entry.discipline === discipline)
+    .sort((a, b) => gradeRank(discipline, b.grade) - gradeRank(discipline, a.grade));
+}
+
+// Pyramid rows labelled in the climber's grade system. Grades that read the same there, like
+// neighbouring YDS grades in British tech, share a row.
+export function pyramidRows(
+  totals: GradeTotals[],
+  discipline: ClimbDiscipline,
+  systems: GradeSystems,
+): { label: string; sends: number; attempts: number }[] {
+  const rows: { label: string; sends: number; attempts: number }[] = [];
+  for (const entry of gradePyramid(totals, discipline)) {
+    const label = formatGrade(entry.grade, discipline, systems);
+    const last = rows[rows.length - 1];
+    if (last?.label === label) {
+      last.sends += entry.sends;
+      last.attempts += entry.attempts;
+    } else {
+      rows.push({ label, sends: entry.sends, attempts: entry.attempts });
+    }
+  }
+  return rows;
+}
+
+export function summarizeClimbs(climbs: ClimbEntry[]) {
+  const hardestSend = (discipline: ClimbDiscipline) =>
+    climbs
+      .filter((climb) => climb.discipline === discipline && isSend(climb))
+      .reduce<string | null>(
+        (hardest, climb) =>
+          hardest === null ||
+          gradeRank(discipline, climb.grade) > gradeRank(discipline, hardest)
+            ? climb.grade
+            : hardest,
+        null,
+      );
+  return {
+    climbCount: climbs.length,
+    sendCount: climbs.filter(isSend).length,
+    firstTrySendCount: climbs.filter(
+      (climb) => climb.style === "flash" || climb.style === "onsight",
+    ).length,
+    attemptCount: climbs.reduce((sum, climb) => sum + climb.attempts, 0),
+    hardestBoulder: hardestSend("boulder"),
+    hardestRope: hardestSend("rope"),
+  };
+}
+
+// Generated on the device so a retried upload replaces the climb instead of adding it twice.
+export function createClimbId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -0,0 +1,522 @@
+import { File, Paths } from "expo-file-system";
+import { api } from "@/convex/_generated/api";
+import type { IntervalProtocol } from "@/convex/intervalProtocols";
+import type { ForceSummary } from "@/lib/forceSensors";
+import { convexClient } from "@/lib/convexClient";
+
+// The timer records every rep and rest here first and uploads in the background, so a
+// session survives a gym without signal and an app that gets killed mid-set. Each step
+// carries a client id and the server skips ids it already has, which makes retries safe.
+// Every signed-in user gets their own journal file, so a different account never uploads
+// someone else's steps.
+
+export type ExecutionStepDetails = {
+  addedWeightKg?: number;
+  edgeSizeMm?: number;
+  grip?: string;
+  rpe?: number;
+  failed?: boolean;
+};
+
+export type ExecutionStepInput = ExecutionStepDetails & {
+  kind: "rep" | "rest" | "set_skipped";
+  setNumber: number;
+  repNumber?: number;
+  completedReps?: number;
+  plannedDurationSeconds?: number;
+  actualDurationMs: number;
+  note?: string;
+  force?: ForceSummary;
+};
+
+export type JournalStep = ExecutionStepInput & {
+  clientStepId: string;
+  recordedAt: number;
+  synced: boolean;
+  // Details edited after the step was recorded that the server has not confirmed yet.
+  detailsPending?: boolean;
+};
+
+export type PlannedExecution = {
+  weight?: number;
+  sets?: number;
+  reps?: number;
+  restSeconds?: number;
+  restBetweenSetsSeconds?: number;
+  durationSeconds?: number;
+  protocol?: IntervalProtocol;
+};
+
+export type ExecutionFinish = {
+  outcome: "completed" | "stopped_early";
+  notes?: string;
+  endSession?: boolean;
+};
+
+export type JournalEntry = {
+  sessionId: string;
+  // null lets the server pick the next unlogged workout block.
+  blockIndex: number | null;
+  logId: string | null;
+  startedAt: number;
+  planned: PlannedExecution;
+  steps: JournalStep[];
+  finish: ExecutionFinish | null;
+  // Failed uploads in a row; each one doubles the wait before the next try.
+  failedAttempts: number;
+  nextAttemptAt?: number;
+  updatedAt: number;
+};
+
+type ServerLog = {
+  _id: string;
+  blockIndex?: number;
+  startedAt: number;
+  planned: PlannedExecution;
+  steps: (ExecutionStepInput & { clientStepId?: string; createdAt: number })[];
+};
+
+const JOURNAL_USER_FILE_NAME = "execution-journal-user.txt";
+const SYNC_RETRY_BASE_MS = 5000;
+const SYNC_RETRY_MAX_MS = 10 * 60 * 1000;
+const MAX_SYNC_BATCH = 500;
+const STALE_ENTRY_MS = 14 * 24 * 60 * 60 * 1000;
+
+function createStepId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function toStepDetails(step: ExecutionStepDetails): ExecutionStepDetails {
+  return {
+    addedWeightKg: step.addedWeightKg,
+    edgeSizeMm: step.edgeSizeMm,
+    grip: step.grip,
+    rpe: step.rpe,
+    failed: step.failed,
+  };
+}
+
+function toStepInput(step: ExecutionStepInput): ExecutionStepInput {
+  return {
+    kind: step.kind,
+    setNumber: step.setNumber,
+    repNumber: step.repNumber,
+    completedReps: step.completedReps,
+    plannedDurationSeconds: step.plannedDurationSeconds,
+    actualDurationMs: step.actualDurationMs,
+    note: step.note,
+    force: step.force,
+    ...toStepDetails(step),
+  };
+}
+
+// Resolves to null when the promise takes longer than `ms`. Convex queues mutations
+// while offline instead of failing them, so callers use this to notice a dead network.
+export async function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T | null> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), ms);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export type DiscardListener = (stepCount: number) => void;
+
+class ExecutionJournal {
+  private entries: JournalEntry[] | null = null;
+  // Whose entries are loaded. Remembered across launches, so an app opened without signal
+  // still finds the block it was running before the server says who is signed in.
+  private userId: string | null | undefined = undefined;
+  // Only set once the server confirmed the user; uploads wait until then.
+  private isSignedIn = false;
+  private flushPromise: Promise<void> | null = null;
+  private flushAgain = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private discardListeners = new Set<DiscardListener>();
+
+  private userFile() {
+    return new File(Paths.document, JOURNAL_USER_FILE_NAME);
+  }
+
+  private currentUserId(): string | null {
+    if (this.userId !== undefined) return this.userId;
+    this.userId = null;
+    try {
+      const file = this.userFile();
+      if (file.exists) {
+        this.userId = file.textSync().trim() || null;
+      }
+    } catch (e) {
+      console.warn("[ExecutionJournal] could not read journal user:", e);
+    }
+    return this.userId;
+  }
+
+  private file(userId: string) {
+    return new File(Paths.document, `execution-journal-${userId}.json`);
+  }
+
+  private load(): JournalEntry[] {
+    if (this.entries) return this.entries;
+    const userId = this.currentUserId();
+    let entries: JournalEntry[] = [];
+    try {
+      const file = userId ? this.file(userId) : null;
+      if (file?.exists) {
+        entries = JSON.parse(file.textSync()) as JournalEntry[];
+      }
+    } catch (e) {
+      console.warn("[ExecutionJournal] could not read journal:", e);
+    }
+    // Entries the server kept rejecting for two weeks without a change are given up on.
+    const now = Date.now();
+    this.entries = entries.filter(
+      (entry) => entry.failedAttempts === 0 || now - entry.updatedAt < STALE_ENTRY_MS,
+    );
+    return this.entries;
+  }
+
+  private save() {
+    const userId = this.currentUserId();
+    // Kept in memory until a user is known; setUser adopts it.
+    if (!userId) return;
+    try {
+      const file = this.file(userId);
+      if (!file.exists) file.create();
+      file.write(JSON.stringify(this.load()));
+    } catch (e) {
+      console.warn("[ExecutionJournal] could not write journal:", e);
+    }
+  }
+
+  // Switches to the signed-in user's entries, or pauses uploads while nobody is confirmed.
+  // Entries recorded before any user was known belong to the first one.
+  setUser(userId: string | null) {
+    this.isSignedIn = userId !== null;
+    const previousUserId = this.currentUserId();
+    if (userId === null || userId === previousUserId) return;
+
+    const unowned = previousUserId === null ? (this.entries ?? []) : [];
+    this.entries = null;
+    this.userId = userId;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    try {
+      const file = this.userFile();
+      if (!file.exists) file.create();
+      file.write(userId);
+    } catch (e) {
+      console.warn("[ExecutionJournal] could not write journal user:", e);
+    }
+    this.load().push(...unowned);
+    this.save();
+  }
+
+  // Called with the number of steps dropped because the server would not take them.
+  onDiscard(listener: DiscardListener): () => void {
+    this.discardListeners.add(listener);
+    return () => {
+      this.discardListeners.delete(listener);
+    };
+  }
+
+  // The block the timer is (or was, before the app died) running for this session.
+  getOpenEntry(sessionId: string): JournalEntry | null {
+    return (
+      this.load().find((entry) => entry.sessionId === sessionId && entry.finish === null) ?? null
+    );
+  }
+
+  // Workout blocks started on this device for the session, uploaded or not.
+  journaledBlockIndexes(sessionId: string): number[] {
+    return this.load().flatMap((entry) =>
+      entry.sessionId === sessionId && entry.blockIndex !== null ? [entry.blockIndex] : [],
+    );
+  }
+
+  // Steps recorded for this session that the server has not confirmed yet.
+  pendingStepCount(sessionId: string): number {
+    return this.load()
+      .filter((entry) => entry.sessionId === sessionId)
+      .reduce((count, entry) => count + entry.steps.filter((step) => !step.synced).length, 0);
+  }
+
+  // Hands a block over to another logger, like the climbing session screen. Entries that
+  // already hold steps are kept; the server log, if there is one, stays open.
+  release(sessionId: string): boolean {
+    const entry = this.getOpenEntry(sessionId);
+    if (!entry) return true;
+    if (entry.steps.length > 0) return false;
+    this.entries = this.load().filter((candidate) => candidate !== entry);
+    this.save();
+    return true;
+  }
+
+  // Starts a block without a server log; the log is created on the next sync.
+  beginOffline(sessionId: string, blockIndex: number | null, planned: PlannedExecution) {
+    const entry: JournalEntry = {
+      sessionId,
+      blockIndex,
+      logId: null,
+      startedAt: Date.now(),
+      planned,
+      steps: [],
+      finish: null,
+      failedAttempts: 0,
+      updatedAt: Date.now(),
+    };
+    this.load().push(entry);
+    this.save();
+    return entry;
+  }
+
+  // Merges the server's copy of an active log into the journal. Server steps come first;
+  // steps only the device has follow and stay queued for upload.
+  attachLog(sessionId: string, log: ServerLog): JournalEntry {
+    const entries = this.load();
+    let entry = this.getOpenEntry(sessionId);
+    if (entry && entry.logId !== null && entry.logId !== log._id) {
+      // The journal's log was closed elsewhere. The server still takes steps for a finished
+      // log, so what is left is uploaded to it and a new entry follows the open log.
+      entry.finish = { outcome: "stopped_early" };
+      entry = null;
+    }
+    if (!entry) {
+      entry = {
+        sessionId,
+        blockIndex: log.blockIndex ?? null,
+        logId: log._id,
+        startedAt: log.startedAt,
+        planned: log.planned,
+        steps: [],
+        finish: null,
+        failedAttempts: 0,
+        updatedAt: Date.now(),
+      };
+      entries.push(entry);
+    }
+
+    const serverStepIds = new Set(log.steps.map((step) => step.clientStepId).filter(Boolean));
+    const editedSteps = new Map(
+      entry.steps
+        .filter((step) => step.detailsPending)
+        .map((step) => [step.clientStepId, step] as const),
+    );
+    entry.logId = log._id;
+    entry.blockIndex = log.blockIndex ?? null;
+    entry.startedAt = log.startedAt;
+    entry.planned = log.planned;
+    entry.steps = [
+      ...log.steps.map((step) => {
+        const edited = step.clientStepId ? editedSteps.get(step.clientStepId) : undefined;
+        return {
+          ...toStepInput(step),
+          ...(edited ? toStepDetails(edited) : {}),
+          clientStepId: step.clientStepId ?? createStepId(),
+          recordedAt: step.createdAt,
+          synced: true,
+          detailsPending: edited ? true : undefined,
+        };
+      }),
+      ...entry.steps.filter((step) => !step.synced && !serverStepIds.has(step.clientStepId)),
+    ];
+    entry.updatedAt = Date.now();
+    this.save();
+    return entry;
+  }
+
+  // Returns the step's client id, or null when no block is running for the session.
+  record(sessionId: string, step: ExecutionStepInput): string | null {
+    const entry = this.getOpenEntry(sessionId);
+    if (!entry) return null;
+    const clientStepId = createStepId();
+    entry.steps.push({
+      ...toStepInput(step),
+      clientStepId,
+      recordedAt: Date.now(),
+      synced: false,
+    });
+    entry.updatedAt = Date.now();
+    this.save();
+    void this.flush();
+    return clientStepId;
+  }
+
+  getStep(sessionId: string, clientStepId: string): JournalStep | null {
+    for (const entry of this.load()) {
+      if (entry.sessionId !== sessionId) continue;
+      const step = entry.steps.find((candidate) => candidate.clientStepId === clientStepId);
+      if (step) return step;
+    }
+    return null;
+  }
+
+  updateStepDetails(sessionId: string, clientStepId: string, details: ExecutionStepDetails) {
+    const entry = this.load().find(
+      (candidate) =>
+        candidate.sessionId === sessionId &&
+        candidate.steps.some((step) => step.clientStepId === clientStepId),
+    );
+    const step = entry?.steps.find((candidate) => candidate.clientStepId === clientStepId);
+    if (!entry || !step) return;
+    // Also flagged before upload, in case the step is already on its way in a batch.
+    Object.assign(step, toStepDetails(details), { detailsPending: true });
+    entry.updatedAt = Date.now();
+    this.save();
+    void this.flush();
+  }
+
+  finish(sessionId: string, finish: ExecutionFinish) {
+    const entry = this.getOpenEntry(sessionId);
+    if (!entry) return;
+    entry.finish = finish;
+    entry.updatedAt = Date.now();
+    this.save();
+    void this.flush();
+  }
+
+  // Uploads journal entries in the order they were recorded. Only one flush runs at a
+  // time; calls made meanwhile schedule another pass once it settles.
+  flush(): Promise<void> {
+    if (this.flushPromise) {
+      this.flushAgain = true;
+      return this.flushPromise;
+    }
+    this.flushPromise = this.runFlush().finally(() => {
+      this.flushPromise = null;
+      if (this.flushAgain) {
+        this.flushAgain = false;
+        void this.flush();
+      }
+    });
+    return this.flushPromise;
+  }
+
+  // Clears the backoff and uploads right away, e.g. once the connection is back.
+  retryNow(): Promise<void> {
+    for (const entry of this.load()) {
+      entry.failedAttempts = 0;
+      entry.nextAttemptAt = undefined;
+    }
+    this.save();
+    return this.flush();
+  }
+
+  private async runFlush() {
+    const client = convexClient;
+    if (!client || !this.isSignedIn) return;
+
+    const userId = this.currentUserId();
+    for (const entry of [...this.load()]) {
+      // Signed out or switched accounts mid-flush; the rest waits for its own user.
+      if (!this.isSignedIn || this.currentUserId() !== userId) return;
+      if (entry.nextAttemptAt !== undefined && entry.nextAttemptAt > Date.now()) continue;
+      try {
+        await this.syncEntry(client, entry);
+        if (entry.failedAttempts > 0) {
+          entry.failedAttempts = 0;
+          entry.nextAttemptAt = undefined;
+          this.save();
+        }
+      } catch (e) {
+        entry.failedAttempts += 1;
+        entry.nextAttemptAt =
+          Date.now() +
+          Math.min(SYNC_RETRY_MAX_MS, SYNC_RETRY_BASE_MS * 2 ** (entry.failedAttempts - 1));
+        this.save();
+        console.warn("[ExecutionJournal] sync failed:", e);
+      }
+    }
+    this.scheduleRetry();
+  }
+
+  private scheduleRetry() {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    const retryTimes = this.load().flatMap((entry) =>
+      entry.nextAttemptAt !== undefined ? [entry.nextAttemptAt] : [],
+    );
+    if (retryTimes.length === 0) return;
+    this.retryTimer = setTimeout(
+      () => {
+        this.retryTimer = null;
+        void this.flush();
+      },
+      Math.max(0, Math.min(...retryTimes) - Date.now()),
+    );
+  }
+
+  private async syncEntry(client: NonNullable<typeof convexClient>, entry: JournalEntry) {
+    if (entry.logId === null) {
+      const log = await client.mutation(api.trainingLogs.startSessionExecution, {
+        sessionId: entry.sessionId as never,
+        blockIndex: entry.blockIndex ?? undefined,
+        startedAt: entry.startedAt,
+        resumeFinished: true,
+      });
+      if (!log) {
+        // The session was completed elsewhere without this block. Retrying cannot help, so
+        // the steps are dropped and the listeners tell the user.
+        const stepCount = entry.steps.filter((step) => !step.synced).length;
+        this.entries = this.load().filter((candidate) => candidate !== entry);
+        this.save();
+        for (const listener of this.discardListeners) listener(stepCount);
+        return;
+      }
+      entry.logId = log._id;
+      entry.blockIndex = log.blockIndex ?? null;
+      if (log.status !== "active" && entry.finish === null) {
+        // Finished on another device meanwhile; the steps are added to it and the entry closes.
+        entry.finish = { outcome: "stopped_early" };
+      }
+      this.save();
+    }
+
+    let pending = entry.steps.filter((step) => !step.synced);
+    while (pending.length > 0) {
+      const batch = pending.slice(0, MAX_SYNC_BATCH);
+      await client.mutation(api.trainingLogs.syncExecutionSteps, {
+        logId: entry.logId as never,
+        steps: batch.map((step) => ({
+          ...toStepInput(step),
+          clientStepId: step.clientStepId,
+          recordedAt: step.recordedAt,
+        })),
+      });
+      for (const step of batch) {
+        step.synced = true;
+      }
+      this.save();
+      pending = entry.steps.filter((step) => !step.synced);
+    }
+
+    for (const step of entry.steps.filter((candidate) => candidate.detailsPending)) {
+      const details = toStepDetails(step);
+      await client.mutation(api.trainingLogs.updateExecutionStepDetails, {
+        logId: entry.logId as never,
+        clientStepId: step.clientStepId,
+        details,
+      });
+      // Edits made while the request was in flight go out on the next pass.
+      if (JSON.stringify(toStepDetails(step)) === JSON.stringify(details)) {
+        step.detailsPending = undefined;
+        this.save();
+      }
+    }
+
+    if (entry.finish) {
+      await client.mutation(api.trainingLogs.finishSessionExecution, {
+        logId: entry.logId as never,
+        ...entry.finish,
+      });
+      this.entries = this.load().filter((candidate) => candidate !== entry);
+      this.save();
+    }
+  }
+}
+
+export const executionJournal = new ExecutionJournal();
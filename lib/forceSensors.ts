@@ -0,0 +1,201 @@
+import React from "react";
+import { encodeForceCurve, type ForceCurve } from "@/convex/forceCurves";
+import { formatWeight, toDisplayWeight, weightUnit, type UnitSystem } from "@/lib/units";
+
+// Load cells under a fingerboard (Tindeq Progressor and the like) stream force while a rep
+// runs. Every sensor, real or simulated, sits behind ForceSensor so the timer only deals
+// with samples and the connection lives in one place for the whole app.
+
+export type ForceSample = { atMs: number; kg: number };
+
+export type ForceSensorKind = "progressor" | "simulated";
+export type ForceSensorStatus = "disconnected" | "connecting" | "connected";
+
+export interface ForceSensor {
+  readonly kind: ForceSensorKind;
+  readonly name: string;
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  // Zeroes the reading with nothing hanging from the sensor.
+  tare(): Promise<void>;
+  startMeasuring(): Promise<void>;
+  stopMeasuring(): Promise<void>;
+  // Both return a function that removes the listener.
+  onSample(listener: (sample: ForceSample) => void): () => void;
+  onDisconnect(listener: () => void): () => void;
+}
+
+export type ForceSummary = {
+  peakKg: number;
+  meanKg: number;
+  rfdKgPerSecond?: number;
+  sensor: string;
+  curve?: ForceCurve;
+};
+
+export const FORCE_SENSOR_OPTIONS: { kind: ForceSensorKind; label: string }[] = [
+  { kind: "progressor", label: "Tindeq Progressor" },
+  // Streams a made-up hang so the timer can be worked on without a load cell.
+  ...(__DEV__ ? [{ kind: "simulated" as const, label: "Simulated sensor" }] : []),
+];
+
+// Readings under this are the sensor idling, not a hang.
+const MIN_LOADED_KG = 0.5;
+const LOADED_SHARE_OF_PEAK = 0.2;
+const RFD_END_SHARE_OF_PEAK = 0.8;
+
+// Mean force counts only the loaded part of the rep, and rate of force development is the
+// rise from 20% to 80% of peak, so stepping on and off the edge does not drag either down.
+export function summarizeForce(samples: ForceSample[], sensor: string): ForceSummary | null {
+  if (samples.length < 2) return null;
+  const peakKg = Math.max(...samples.map((sample) => sample.kg));
+  if (peakKg < MIN_LOADED_KG) return null;
+  const loaded = samples.filter((sample) => sample.kg >= peakKg * LOADED_SHARE_OF_PEAK);
+  const meanKg = loaded.reduce((sum, sample) => sum + sample.kg, 0) / loaded.length;
+  const riseStart = loaded[0];
+  const riseEnd = samples.find((sample) => sample.kg >= peakKg * RFD_END_SHARE_OF_PEAK);
+  const riseSeconds = riseStart && riseEnd ? (riseEnd.atMs - riseStart.atMs) / 1000 : 0;
+  const rfdKgPerSecond =
+    riseStart && riseEnd && riseSeconds > 0 ? (riseEnd.kg - riseStart.kg) / riseSeconds : undefined;
+  return {
+    peakKg: Number(peakKg.toFixed(1)),
+    meanKg: Number(meanKg.toFixed(1)),
+    rfdKgPerSecond: rfdKgPerSecond !== undefined ? Number(rfdKgPerSecond.toFixed(1)) : undefined,
+    sensor,
+    curve: encodeForceCurve(samples) ?? undefined,
+  };
+}
+
+// e.g. "Peak 31.2 kg · mean 27.9 kg · RFD 85 kg/s"
+export function describeForce(force: ForceSummary, units: UnitSystem): string {
+  const parts = [
+    `Peak ${formatWeight(force.peakKg, units)}`,
+    `mean ${formatWeight(force.meanKg, units)}`,
+  ];
+  if (force.rfdKgPerSecond !== undefined) {
+    const rfd = Math.round(toDisplayWeight(force.rfdKgPerSecond, units));
+    parts.push(`RFD ${rfd} ${weightUnit(units)}/s`);
+  }
+  return parts.join(" · ");
+}
+
+const SIMULATED_SAMPLE_MS = 25;
+const SIMULATED_RAMP_MS = 350;
+
+// A hang that loads up over a third of a second, fades a little as the fingers tire and
+// carries some noise, at roughly the Progressor's sample rate.
+export class SimulatedForceSensor implements ForceSensor {
+  readonly kind = "simulated";
+  readonly name = "Simulated sensor";
+  private sampleListeners = new Set<(sample: ForceSample) => void>();
+  private disconnectListeners = new Set<() => void>();
+  private interval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private targetKg = 25) {}
+
+  async connect() {
+    await new Promise((resolve) => setTimeout(resolve, 300));
+  }
+
+  async disconnect() {
+    await this.stopMeasuring();
+    for (const listener of this.disconnectListeners) listener();
+  }
+
+  // Simulated readings already start from zero.
+  async tare() {}
+
+  async startMeasuring() {
+    if (this.interval) return;
+    const startedAt = Date.now();
+    this.interval = setInterval(() => {
+      const elapsedMs = Date.now() - startedAt;
+      const ramp = Math.min(1, elapsedMs / SIMULATED_RAMP_MS);
+      const fatigue = 1 - 0.03 * (elapsedMs / 1000);
+      const noise = (Math.random() - 0.5) * 0.8;
+      const kg = Math.max(0, this.targetKg * ramp * ramp * fatigue + noise);
+      for (const listener of this.sampleListeners) listener({ atMs: elapsedMs, kg });
+    }, SIMULATED_SAMPLE_MS);
+  }
+
+  async stopMeasuring() {
+    if (this.interval) clearInterval(this.interval);
+    this.interval = null;
+  }
+
+  onSample(listener: (sample: ForceSample) => void) {
+    this.sampleListeners.add(listener);
+    return () => {
+      this.sampleListeners.delete(listener);
+    };
+  }
+
+  onDisconnect(listener: () => void) {
+    this.disconnectListeners.add(listener);
+    return () => {
+      this.disconnectListeners.delete(listener);
+    };
+  }
+}
+
+async function createSensor(kind: ForceSensorKind): Promise<ForceSensor> {
+  if (kind === "simulated") return new SimulatedForceSensor();
+  // Loaded on demand: the Bluetooth module is native and missing on the web.
+  const { ProgressorSensor } = await import("@/lib/progressorSensor");
+  return new ProgressorSensor();
+}
+
+type ForceSensorState = { sensor: ForceSensor | null; status: ForceSensorStatus };
+
+// Keeps one sensor connected across screens and blocks.
+class ForceSensorManager {
+  private state: ForceSensorState = { sensor: null, status: "disconnected" };
+  private listeners = new Set<() => void>();
+  private removeDisconnectListener: (() => void) | null = null;
+
+  getState = () => this.state;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  async connect(kind: ForceSensorKind) {
+    await this.disconnect();
+    this.setState({ sensor: null, status: "connecting" });
+    try {
+      const sensor = await createSensor(kind);
+      await sensor.connect();
+      this.removeDisconnectListener = sensor.onDisconnect(() => this.reset());
+      this.setState({ sensor, status: "connected" });
+    } catch (error) {
+      this.reset();
+      throw error;
+    }
+  }
+
+  async disconnect() {
+    const { sensor } = this.state;
+    this.reset();
+    await sensor?.disconnect();
+  }
+
+  private reset() {
+    this.removeDisconnectListener?.();
+    this.removeDisconnectListener = null;
+    this.setState({ sensor: null, status: "disconnected" });
+  }
+
+  private setState(state: ForceSensorState) {
+    this.state = state;
+    for (const listener of this.listeners) listener();
+  }
+}
+
+export const forceSensorManager = new ForceSensorManager();
+
+export function useForceSensor(): ForceSensorState {
+  return React.useSyncExternalStore(forceSensorManager.subscribe, forceSensorManager.getState);
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  DEFAULT_GRADE_SYSTEMS,
+  formatGrade,
+  formatGradeWithReference,
+  gradeOptions,
+  gradeSystemsOf,
+} from "@/lib/gradeSystems";
+
+const font = { ...DEFAULT_GRADE_SYSTEMS, boulder: "font" as const };
+const french = { ...DEFAULT_GRADE_SYSTEMS, rope: "french" as const };
+
+describe("gradeSystemsOf", () => {
+  it("falls back to the V-scale and YDS for missing or unknown systems", () => {
+    expect(gradeSystemsOf(null)).toEqual(DEFAULT_GRADE_SYSTEMS);
+    expect(gradeSystemsOf({ boulderGradeSystem: "hueco", ropeGradeSystem: "uiaa" })).toEqual({
+      boulder: "v_scale",
+      rope: "uiaa",
+    });
+  });
+});
+
+describe("formatGrade", () => {
+  it("uses the standard Font equivalents", () => {
+    expect(formatGrade("V3", "boulder", font)).toBe("6A");
+    expect(formatGrade("V5", "boulder", font)).toBe("6C");
+    expect(formatGrade("V6", "boulder", font)).toBe("7A");
+    expect(formatGrade("V8", "boulder", font)).toBe("7B");
+  });
+
+  it("uses the standard French equivalents", () => {
+    expect(formatGrade("5.10a", "rope", french)).toBe("6a");
+    expect(formatGrade("5.11d", "rope", french)).toBe("7a");
+    expect(formatGrade("5.12a", "rope", french)).toBe("7a+");
+    expect(formatGrade("5.13b", "rope", french)).toBe("8a");
+    expect(formatGrade("5.14d", "rope", french)).toBe("9a");
+    expect(formatGrade("5.15d", "rope", french)).toBe("9c");
+  });
+
+  it("reads UIAA and British columns", () => {
+    expect(formatGrade("5.12a", "rope", { ...DEFAULT_GRADE_SYSTEMS, rope: "uiaa" })).toBe(
+      "8+/9-",
+    );
+    expect(formatGrade("5.12a", "rope", { ...DEFAULT_GRADE_SYSTEMS, rope: "british" })).toBe(
+      "6b",
+    );
+  });
+
+  it("passes unknown and stored-system grades through", () => {
+    expect(formatGrade("5.12a", "rope", DEFAULT_GRADE_SYSTEMS)).toBe("5.12a");
+    expect(formatGrade("hard", "rope", french)).toBe("hard");
+    expect(formatGrade("", "boulder", font)).toBe("");
+  });
+});
+
+describe("formatGradeWithReference", () => {
+  it("adds the European equivalent for climbers on the default systems", () => {
+    expect(formatGradeWithReference("V4", "boulder", DEFAULT_GRADE_SYSTEMS)).toBe("V4 (6B)");
+    expect(formatGradeWithReference("5.12b", "rope", DEFAULT_GRADE_SYSTEMS)).toBe(
+      "5.12b (7b)",
+    );
+  });
+
+  it("adds the stored grade for climbers on another system", () => {
+    expect(formatGradeWithReference("V4", "boulder", font)).toBe("6B (V4)");
+  });
+});
+
+describe("gradeOptions", () => {
+  it("collapses grades that read the same into the easiest stored one", () => {
+    const british = gradeOptions("rope", { ...DEFAULT_GRADE_SYSTEMS, rope: "british" });
+    const sixA = british.filter((option) => option.label === "6a");
+    expect(sixA).toEqual([{ value: "5.11b", label: "6a" }]);
+  });
+
+  it("lists every stored grade when each reads differently", () => {
+    const options = gradeOptions("boulder", DEFAULT_GRADE_SYSTEMS);
+    expect(options[0]).toEqual({ value: "VB", label: "VB" });
+    expect(new Set(options.map((option) => option.label)).size).toBe(options.length);
+  });
+});
@@ -0,0 +1,159 @@
+import { BOULDER_GRADES, ROPE_GRADES } from "@/lib/profileGrades";
+
+// Grades are stored on the V-scale (boulders) and YDS (routes) whatever the climber reads
+// them in, so pyramids and benchmarks compare like with like. These tables only change how
+// they are shown and picked.
+
+export type GradeDiscipline = "boulder" | "rope";
+export type BoulderGradeSystem = "v_scale" | "font";
+export type RopeGradeSystem = "yds" | "french" | "uiaa" | "british";
+export type GradeSystems = { boulder: BoulderGradeSystem; rope: RopeGradeSystem };
+
+export const DEFAULT_GRADE_SYSTEMS: GradeSystems = { boulder: "v_scale", rope: "yds" };
+
+export const BOULDER_GRADE_SYSTEM_OPTIONS: { value: BoulderGradeSystem; label: string }[] = [
+  { value: "v_scale", label: "V-scale" },
+  { value: "font", label: "Font" },
+];
+
+export const ROPE_GRADE_SYSTEM_OPTIONS: { value: RopeGradeSystem; label: string }[] = [
+  { value: "yds", label: "YDS" },
+  { value: "french", label: "French" },
+  { value: "uiaa", label: "UIAA" },
+  { value: "british", label: "British tech" },
+];
+
+const FONT_BY_V_GRADE: Record<string, string> = {
+  VB: "3",
+  V0: "4",
+  V1: "5",
+  V2: "5+",
+  V3: "6A",
+  V4: "6B",
+  V5: "6C",
+  V6: "7A",
+  V7: "7A+",
+  V8: "7B",
+  V9: "7C",
+  V10: "7C+",
+  V11: "8A",
+  V12: "8A+",
+  V13: "8B",
+  V14: "8B+",
+  V15: "8C",
+  V16: "8C+",
+  V17: "9A",
+};
+
+// Columns: French sport, UIAA, British technical. British tech grades rate the hardest move
+// rather than the route, so several YDS grades share one.
+const ROPE_GRADE_TABLE: Record<string, [string, string, string]> = {
+  "5.6": ["4c", "5", "4a"],
+  "5.7": ["5a", "5+", "4b"],
+  "5.8": ["5b", "6-", "4c"],
+  "5.9": ["5c", "6", "5a"],
+  "5.10a": ["6a", "6+", "5a"],
+  "5.10b": ["6a+", "7-", "5b"],
+  "5.10c": ["6b", "7", "5b"],
+  "5.10d": ["6b+", "7+", "5c"],
+  "5.11a": ["6b+/6c", "7+/8-", "5c"],
+  "5.11b": ["6c", "8-", "6a"],
+  "5.11c": ["6c+", "8", "6a"],
+  "5.11d": ["7a", "8+", "6a"],
+  "5.12a": ["7a+", "8+/9-", "6b"],
+  "5.12b": ["7b", "9-", "6b"],
+  "5.12c": ["7b+", "9", "6b"],
+  "5.12d": ["7c", "9+", "6c"],
+  "5.13a": ["7c+", "9+/10-", "6c"],
+  "5.13b": ["8a", "10-", "6c"],
+  "5.13c": ["8a+", "10", "7a"],
+  "5.13d": ["8b", "10+", "7a"],
+  "5.14a": ["8b+", "10+/11-", "7a"],
+  "5.14b": ["8c", "11-", "7b"],
+  "5.14c": ["8c+", "11", "7b"],
+  "5.14d": ["9a", "11+", "7b"],
+  "5.15a": ["9a+", "11+/12-", "7c"],
+  "5.15b": ["9b", "12-", "7c"],
+  "5.15c": ["9b+", "12", "7c"],
+  "5.15d": ["9c", "12+", "7c"],
+};
+
+const ROPE_COLUMN: Record<Exclude<RopeGradeSystem, "yds">, number> = {
+  french: 0,
+  uiaa: 1,
+  british: 2,
+};
+
+const BOULDER_SYSTEMS = new Set<string>(BOULDER_GRADE_SYSTEM_OPTIONS.map((option) => option.value));
+const ROPE_SYSTEMS = new Set<string>(ROPE_GRADE_SYSTEM_OPTIONS.map((option) => option.value));
+
+export function gradeSystemsOf(
+  profile: { boulderGradeSystem?: string; ropeGradeSystem?: string } | null | undefined,
+): GradeSystems {
+  return {
+    boulder: BOULDER_SYSTEMS.has(profile?.boulderGradeSystem ?? "")
+      ? (profile?.boulderGradeSystem as BoulderGradeSystem)
+      : DEFAULT_GRADE_SYSTEMS.boulder,
+    rope: ROPE_SYSTEMS.has(profile?.ropeGradeSystem ?? "")
+      ? (profile?.ropeGradeSystem as RopeGradeSystem)
+      : DEFAULT_GRADE_SYSTEMS.rope,
+  };
+}
+
+// Grades the tables do not know, like ones typed in before the pickers existed, pass through.
+export function formatGrade(
+  grade: string,
+  discipline: GradeDiscipline,
+  systems: GradeSystems,
+): string {
+  if (!grade) return "";
+  if (discipline === "boulder") {
+    return systems.boulder === "font" ? (FONT_BY_V_GRADE[grade] ?? grade) : grade;
+  }
+  if (systems.rope === "yds") return grade;
+  return ROPE_GRADE_TABLE[grade]?.[ROPE_COLUMN[systems.rope]] ?? grade;
+}
+
+// The grade in the preferred system with the stored one alongside, e.g. "6A (V3)". Climbers
+// on the default systems get the common European equivalent instead.
+export function formatGradeWithReference(
+  grade: string,
+  discipline: GradeDiscipline,
+  systems: GradeSystems,
+): string {
+  if (!grade) return "";
+  const isDefault =
+    discipline === "boulder"
+      ? systems.boulder === DEFAULT_GRADE_SYSTEMS.boulder
+      : systems.rope === DEFAULT_GRADE_SYSTEMS.rope;
+  const reference = isDefault
+    ? formatGrade(
+        grade,
+        discipline,
+        discipline === "boulder" ? { ...systems, boulder: "font" } : { ...systems, rope: "french" },
+      )
+    : grade;
+  const display = formatGrade(grade, discipline, systems);
+  return reference !== display ? `${display} (${reference})` : display;
+}
+
+export function storedGrades(discipline: GradeDiscipline): readonly string[] {
+  return discipline === "rope" ? ROPE_GRADES : BOULDER_GRADES;
+}
+
+// Picker options in the preferred system, easiest first. Grades that read the same in that
+// system collapse into one option holding the easiest stored grade.
+export function gradeOptions(
+  discipline: GradeDiscipline,
+  systems: GradeSystems,
+): { value: string; label: string }[] {
+  const seen = new Set<string>();
+  const options: { value: string; label: string }[] = [];
+  for (const grade of storedGrades(discipline)) {
+    const label = formatGrade(grade, discipline, systems);
+    if (seen.has(label)) continue;
+    seen.add(label);
+    options.push({ value: grade, label });
+  }
+  return options;
+}
@@ -0,0 +1,59 @@
+import type { PersonalRecordKind } from "@/convex/personalRecordRules";
+import { formatEdge, formatWeight, type UnitSystem } from "@/lib/units";
+
+export type DisplayRecord = {
+  kind: PersonalRecordKind;
+  value: number;
+  previousValue?: number;
+  edgeSizeMm?: number;
+  grip?: string;
+  durationSeconds?: number;
+};
+
+const GRIP_LABEL: Record<string, string> = {
+  open: "open hand",
+  half: "half crimp",
+  full: "full crimp",
+  pinch: "pinch",
+  pocket: "pocket",
+};
+
+function formatRecordValue(kind: PersonalRecordKind, value: number, units: UnitSystem): string {
+  if (kind === "bodyweight_hang") {
+    return `${value} s`;
+  }
+  return formatWeight(value, units, true);
+}
+
+// e.g. { value: "+12.5 kg", detail: "20 mm · half crimp · 10 s hang" }
+export function describeRecord(
+  record: DisplayRecord,
+  units: UnitSystem = "metric",
+): {
+  value: string;
+  detail: string;
+  improvement: string | null;
+} {
+  const grip = record.grip ? (GRIP_LABEL[record.grip] ?? record.grip) : null;
+  const edge = record.edgeSizeMm !== undefined ? formatEdge(record.edgeSizeMm, units) : null;
+  const detail =
+    record.kind === "added_weight"
+      ? "Added weight"
+      : record.kind === "hang_load"
+        ? [edge, grip, `${record.durationSeconds} s hang`].filter(Boolean).join(" · ")
+        : [edge, grip, "bodyweight"].filter(Boolean).join(" · ");
+  const delta =
+    record.previousValue !== undefined
+      ? Number((record.value - record.previousValue).toFixed(1))
+      : null;
+  return {
+    value: formatRecordValue(record.kind, record.value, units),
+    detail,
+    improvement:
+      delta === null
+        ? null
+        : `${
+            record.kind === "bodyweight_hang" ? `+${delta} s` : formatWeight(delta, units, true)
+          } on your last best`,
+  };
+}
@@ -0,0 +1,170 @@
+import { PermissionsAndroid, Platform } from "react-native";
+import { BleManager, type Device, type Subscription } from "react-native-ble-plx";
+import type { ForceSample, ForceSensor } from "@/lib/forceSensors";
+
+// Tindeq Progressor over Bluetooth LE. Commands are single bytes written to the control
+// point; readings arrive on the data characteristic as [tag, length, payload] packets whose
+// weight payload is float32 kg + uint32 µs timestamp pairs, little-endian.
+const SERVICE_UUID = "7e4e1701-1ea6-40c9-9dcc-13d34ffead57";
+const DATA_UUID = "7e4e1702-1ea6-40c9-9dcc-13d34ffead57";
+const CONTROL_UUID = "7e4e1703-1ea6-40c9-9dcc-13d34ffead57";
+
+const CMD_TARE_SCALE = 0x64;
+const CMD_START_WEIGHT_MEAS = 0x65;
+const CMD_STOP_WEIGHT_MEAS = 0x66;
+const RES_WEIGHT_MEAS = 0x01;
+
+const SCAN_TIMEOUT_MS = 10000;
+
+let sharedManager: BleManager | null = null;
+
+// One manager per app, as the library asks.
+function bleManager(): BleManager {
+  sharedManager ??= new BleManager();
+  return sharedManager;
+}
+
+async function requestAndroidPermissions() {
+  if (Platform.OS !== "android") return;
+  const permissions =
+    Number(Platform.Version) >= 31
+      ? [
+          PermissionsAndroid.PERMISSIONS.BLUETOOTH_SCAN,
+          PermissionsAndroid.PERMISSIONS.BLUETOOTH_CONNECT,
+        ]
+      : [PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION];
+  const results = await PermissionsAndroid.requestMultiple(permissions);
+  if (Object.values(results).some((result) => result !== PermissionsAndroid.RESULTS.GRANTED)) {
+    throw new Error("Bluetooth permission is needed to connect the force sensor.");
+  }
+}
+
+function decodeBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+}
+
+// The first nearby device advertising as a Progressor.
+function scanForProgressor(manager: BleManager): Promise<Device> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      void manager.stopDeviceScan();
+      reject(new Error("No Progressor found. Wake it with its button and try again."));
+    }, SCAN_TIMEOUT_MS);
+    void manager
+      .startDeviceScan(null, null, (error, device) => {
+        if (error) {
+          clearTimeout(timeout);
+          void manager.stopDeviceScan();
+          reject(error);
+          return;
+        }
+        const name = device?.name ?? device?.localName ?? "";
+        if (device && name.startsWith("Progressor")) {
+          clearTimeout(timeout);
+          void manager.stopDeviceScan();
+          resolve(device);
+        }
+      })
+      .catch((error) => {
+        clearTimeout(timeout);
+        reject(error);
+      });
+  });
+}
+
+export class ProgressorSensor implements ForceSensor {
+  readonly kind = "progressor";
+  name = "Tindeq Progressor";
+  private device: Device | null = null;
+  private subscriptions: Subscription[] = [];
+  private sampleListeners = new Set<(sample: ForceSample) => void>();
+  private disconnectListeners = new Set<() => void>();
+  // Device timestamps count from power-on; samples are reported from the first one seen.
+  private firstTimestampUs: number | null = null;
+
+  async connect() {
+    await requestAndroidPermissions();
+    const manager = bleManager();
+    const found = await scanForProgressor(manager);
+    const device = await found.connect();
+    await device.discoverAllServicesAndCharacteristics();
+    this.device = device;
+    this.name = device.name ?? this.name;
+    this.subscriptions.push(
+      device.monitorCharacteristicForService(SERVICE_UUID, DATA_UUID, (error, characteristic) => {
+        if (error || !characteristic?.value) return;
+        this.handlePacket(decodeBase64(characteristic.value));
+      }),
+      device.onDisconnected(() => {
+        this.cleanup();
+        for (const listener of this.disconnectListeners) listener();
+      }),
+    );
+  }
+
+  async disconnect() {
+    const device = this.device;
+    this.cleanup();
+    if (device) await device.cancelConnection().catch(() => undefined);
+  }
+
+  async tare() {
+    await this.send(CMD_TARE_SCALE);
+  }
+
+  async startMeasuring() {
+    this.firstTimestampUs = null;
+    await this.send(CMD_START_WEIGHT_MEAS);
+  }
+
+  async stopMeasuring() {
+    await this.send(CMD_STOP_WEIGHT_MEAS);
+  }
+
+  onSample(listener: (sample: ForceSample) => void) {
+    this.sampleListeners.add(listener);
+    return () => {
+      this.sampleListeners.delete(listener);
+    };
+  }
+
+  onDisconnect(listener: () => void) {
+    this.disconnectListeners.add(listener);
+    return () => {
+      this.disconnectListeners.delete(listener);
+    };
+  }
+
+  private async send(command: number) {
+    if (!this.device) throw new Error("The force sensor is not connected.");
+    await this.device.writeCharacteristicWithResponseForService(
+      SERVICE_UUID,
+      CONTROL_UUID,
+      btoa(String.fromCharCode(command)),
+    );
+  }
+
+  private handlePacket(bytes: Uint8Array) {
+    if (bytes.length < 2 || bytes[0] !== RES_WEIGHT_MEAS) return;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const end = Math.min(bytes.length, 2 + bytes[1]);
+    for (let offset = 2; offset + 8 <= end; offset += 8) {
+      const kg = view.getFloat32(offset, true);
+      const timestampUs = view.getUint32(offset + 4, true);
+      this.firstTimestampUs ??= timestampUs;
+      const sample = { atMs: (timestampUs - this.firstTimestampUs) / 1000, kg: Math.max(0, kg) };
+      for (const listener of this.sampleListeners) listener(sample);
+    }
+  }
+
+  private cleanup() {
+    for (const subscription of this.subscriptions) subscription.remove();
+    this.subscriptions = [];
+    this.device = null;
+  }
+}
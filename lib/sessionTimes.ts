@@ -0,0 +1,86 @@
+export type TimedSession = {
+  _id: string;
+  scheduledFor: number;
+  startMinutes?: number;
+  durationMinutes?: number;
+  snapshot: { title: string };
+  workout?: { title: string };
+};
+
+// Accepts "7", "7:30", "07:30" and "1830".
+export function parseTimeOfDay(value: string): number | null | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  const match = /^(\d{1,2})(?::?(\d{2}))?$/.exec(trimmed);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+export function formatTimeOfDay(minutes: number): string {
+  const hours = `${Math.floor(minutes / 60)}`.padStart(2, "0");
+  return `${hours}:${`${minutes % 60}`.padStart(2, "0")}`;
+}
+
+export function formatSessionTime(session: {
+  startMinutes?: number;
+  durationMinutes?: number;
+}): string | null {
+  if (session.startMinutes === undefined) {
+    return session.durationMinutes !== undefined ? `~${session.durationMinutes} min` : null;
+  }
+  const start = formatTimeOfDay(session.startMinutes);
+  if (session.durationMinutes === undefined) {
+    return start;
+  }
+  const end = formatTimeOfDay((session.startMinutes + session.durationMinutes) % (24 * 60));
+  return `${start}–${end}`;
+}
+
+// Sessions without a time come first, like all-day events.
+export function compareSessionsByTime(a: TimedSession, b: TimedSession): number {
+  if (a.scheduledFor !== b.scheduledFor) {
+    return a.scheduledFor - b.scheduledFor;
+  }
+  return (a.startMinutes ?? -1) - (b.startMinutes ?? -1);
+}
+
+function sessionInterval(session: { startMinutes?: number; durationMinutes?: number }) {
+  if (session.startMinutes === undefined) {
+    return null;
+  }
+  // Without a duration only the start minute is known to be taken.
+  return {
+    start: session.startMinutes,
+    end: session.startMinutes + Math.max(1, session.durationMinutes ?? 1),
+  };
+}
+
+export function sessionsOverlap(
+  a: { scheduledFor: number; startMinutes?: number; durationMinutes?: number },
+  b: { scheduledFor: number; startMinutes?: number; durationMinutes?: number },
+): boolean {
+  if (a.scheduledFor !== b.scheduledFor) {
+    return false;
+  }
+  const first = sessionInterval(a);
+  const second = sessionInterval(b);
+  return !!first && !!second && first.start < second.end && second.start < first.end;
+}
+
+// Session id -> titles of the other sessions it overlaps with.
+export function findSessionConflicts(sessions: TimedSession[]): Map<string, string[]> {
+  const conflicts = new Map<string, string[]>();
+  for (let i = 0; i < sessions.length; i += 1) {
+    for (let j = i + 1; j < sessions.length; j += 1) {
+      const a = sessions[i];
+      const b = sessions[j];
+      if (!sessionsOverlap(a, b)) continue;
+      conflicts.set(a._id, [...(conflicts.get(a._id) ?? []), b.workout?.title ?? b.snapshot.title]);
+      conflicts.set(b._id, [...(conflicts.get(b._id) ?? []), a.workout?.title ?? a.snapshot.title]);
+    }
+  }
+  return conflicts;
+}
@@ -1,6 +1,11 @@
 import { createAudioPlayer, setAudioModeAsync, type AudioPlayer } from "expo-audio";
 
-type ToneSegment = { frequency: number; durationMs: number; volume?: number };
+type ToneSegment = {
+  frequency: number;
+  durationMs: number;
+  volume?: number;
+  shape?: "sine" | "square" | "triangle";
+};
 
 function writeString(view: DataView, offset: number, str: string) {
   for (let i = 0; i < str.length; i++) {
@@ -8,6 +13,13 @@ function writeString(view: DataView, offset: number, str: string) {
   }
 }
 
+function waveAt(seg: ToneSegment, t: number): number {
+  const cycle = (seg.frequency * t) % 1;
+  if (seg.shape === "square") return cycle < 0.5 ? 1 : -1;
+  if (seg.shape === "triangle") return 1 - 4 * Math.abs(cycle - 0.5);
+  return Math.sin(2 * Math.PI * seg.frequency * t);
+}
+
 function generateWav(segments: ToneSegment[], sampleRate = 22050): Uint8Array {
   let totalSamples = 0;
   for (const seg of segments) {
@@ -44,8 +56,7 @@ function generateWav(segments: ToneSegment[], sampleRate = 22050): Uint8Array {
       if (i < fadeLen) envelope = i / fadeLen;
       if (i > numSamples - fadeLen) envelope = (numSamples - i) / fadeLen;
 
-      const sample =
-        seg.frequency > 0 ? Math.sin(2 * Math.PI * seg.frequency * t) * vol * envelope : 0;
+      const sample = seg.frequency > 0 ? waveAt(seg, t) * vol * envelope : 0;
       const intSample = Math.max(-32768, Math.min(32767, Math.floor(sample * 32767)));
       view.setInt16(offset, intSample, true);
       offset += 2;
@@ -77,30 +88,132 @@ function wavToDataUri(segments: ToneSegment[]): string {
   return `data:audio/wav;base64,${b64}`;
 }
 
-const SOUND_DEFS: Record<string, ToneSegment[]> = {
-  countdown3: [{ frequency: 800, durationMs: 120, volume: 0.4 }],
-  countdown2: [{ frequency: 1000, durationMs: 120, volume: 0.5 }],
-  countdown1: [{ frequency: 1200, durationMs: 150, volume: 0.6 }],
-  go: [
-    { frequency: 880, durationMs: 120, volume: 0.45 },
-    { frequency: 0, durationMs: 25 },
-    { frequency: 988, durationMs: 120, volume: 0.5 },
-    { frequency: 0, durationMs: 25 },
-    { frequency: 1175, durationMs: 220, volume: 0.62 },
-  ],
-  workTick: [{ frequency: 600, durationMs: 80, volume: 0.3 }],
-  complete: [
-    { frequency: 523, durationMs: 130, volume: 0.5 },
-    { frequency: 0, durationMs: 30 },
-    { frequency: 659, durationMs: 130, volume: 0.5 },
-    { frequency: 0, durationMs: 30 },
-    { frequency: 784, durationMs: 280, volume: 0.6 },
-  ],
+export type SoundPack = "classic" | "soft" | "arcade";
+export type SoundEvent = "countdown" | "go" | "workTick" | "complete";
+type SoundName = "countdown3" | "countdown2" | "countdown1" | "go" | "workTick" | "complete";
+
+export type SoundEventSettings = { enabled: boolean; volume: number };
+
+export type TimerSoundSettings = {
+  pack: SoundPack;
+  // Beeps at the end of rests and the prep phase.
+  countdownSeconds: number;
+  // Ticks at the end of a hang.
+  workTickSeconds: number;
+  events: Record<SoundEvent, SoundEventSettings>;
 };
 
+export const DEFAULT_TIMER_SOUNDS: TimerSoundSettings = {
+  pack: "classic",
+  countdownSeconds: 3,
+  workTickSeconds: 5,
+  events: {
+    countdown: { enabled: true, volume: 1 },
+    go: { enabled: true, volume: 1 },
+    workTick: { enabled: true, volume: 1 },
+    complete: { enabled: true, volume: 1 },
+  },
+};
+
+export const SOUND_PACK_OPTIONS: { value: SoundPack; label: string }[] = [
+  { value: "classic", label: "Classic" },
+  { value: "soft", label: "Soft" },
+  { value: "arcade", label: "Arcade" },
+];
+
+export const SOUND_EVENT_OPTIONS: { event: SoundEvent; label: string; preview: SoundName }[] = [
+  { event: "countdown", label: "Rest countdown", preview: "countdown3" },
+  { event: "workTick", label: "Hang countdown", preview: "workTick" },
+  { event: "go", label: "Hang over", preview: "go" },
+  { event: "complete", label: "Block complete", preview: "complete" },
+];
+
+export const COUNTDOWN_SECONDS_OPTIONS = [1, 2, 3, 5, 10];
+
+export function timerSoundsOf(
+  profile: { timerSounds?: TimerSoundSettings } | null | undefined,
+): TimerSoundSettings {
+  return profile?.timerSounds ?? DEFAULT_TIMER_SOUNDS;
+}
+
+const EVENT_OF_SOUND: Record<SoundName, SoundEvent> = {
+  countdown3: "countdown",
+  countdown2: "countdown",
+  countdown1: "countdown",
+  go: "go",
+  workTick: "workTick",
+  complete: "complete",
+};
+
+const SOUND_PACKS: Record<SoundPack, Record<SoundName, ToneSegment[]>> = {
+  classic: {
+    countdown3: [{ frequency: 800, durationMs: 120, volume: 0.4 }],
+    countdown2: [{ frequency: 1000, durationMs: 120, volume: 0.5 }],
+    countdown1: [{ frequency: 1200, durationMs: 150, volume: 0.6 }],
+    go: [
+      { frequency: 880, durationMs: 120, volume: 0.45 },
+      { frequency: 0, durationMs: 25 },
+      { frequency: 988, durationMs: 120, volume: 0.5 },
+      { frequency: 0, durationMs: 25 },
+      { frequency: 1175, durationMs: 220, volume: 0.62 },
+    ],
+    workTick: [{ frequency: 600, durationMs: 80, volume: 0.3 }],
+    complete: [
+      { frequency: 523, durationMs: 130, volume: 0.5 },
+      { frequency: 0, durationMs: 30 },
+      { frequency: 659, durationMs: 130, volume: 0.5 },
+      { frequency: 0, durationMs: 30 },
+      { frequency: 784, durationMs: 280, volume: 0.6 },
+    ],
+  },
+  // Lower, rounder tones for shared gyms and early mornings.
+  soft: {
+    countdown3: [{ frequency: 523, durationMs: 180, volume: 0.35, shape: "triangle" }],
+    countdown2: [{ frequency: 587, durationMs: 180, volume: 0.4, shape: "triangle" }],
+    countdown1: [{ frequency: 659, durationMs: 220, volume: 0.45, shape: "triangle" }],
+    go: [
+      { frequency: 659, durationMs: 160, volume: 0.4, shape: "triangle" },
+      { frequency: 0, durationMs: 40 },
+      { frequency: 784, durationMs: 280, volume: 0.45, shape: "triangle" },
+    ],
+    workTick: [{ frequency: 440, durationMs: 100, volume: 0.25, shape: "triangle" }],
+    complete: [
+      { frequency: 392, durationMs: 180, volume: 0.4, shape: "triangle" },
+      { frequency: 0, durationMs: 40 },
+      { frequency: 523, durationMs: 180, volume: 0.4, shape: "triangle" },
+      { frequency: 0, durationMs: 40 },
+      { frequency: 659, durationMs: 360, volume: 0.45, shape: "triangle" },
+    ],
+  },
+  // Square-wave chirps that cut through a loud wall.
+  arcade: {
+    countdown3: [{ frequency: 660, durationMs: 90, volume: 0.22, shape: "square" }],
+    countdown2: [{ frequency: 660, durationMs: 90, volume: 0.22, shape: "square" }],
+    countdown1: [{ frequency: 990, durationMs: 140, volume: 0.26, shape: "square" }],
+    go: [
+      { frequency: 1047, durationMs: 70, volume: 0.22, shape: "square" },
+      { frequency: 1319, durationMs: 70, volume: 0.22, shape: "square" },
+      { frequency: 1568, durationMs: 70, volume: 0.22, shape: "square" },
+      { frequency: 2093, durationMs: 160, volume: 0.26, shape: "square" },
+    ],
+    workTick: [{ frequency: 523, durationMs: 50, volume: 0.18, shape: "square" }],
+    complete: [
+      { frequency: 784, durationMs: 100, volume: 0.22, shape: "square" },
+      { frequency: 988, durationMs: 100, volume: 0.22, shape: "square" },
+      { frequency: 1175, durationMs: 100, volume: 0.22, shape: "square" },
+      { frequency: 1568, durationMs: 320, volume: 0.26, shape: "square" },
+    ],
+  },
+};
+
+// Long enough for the longest tone in any pack to finish.
+const PREVIEW_CLEANUP_MS = 2000;
+
 class SoundManager {
-  private sounds = new Map<string, AudioPlayer>();
+  private sounds = new Map<SoundName, AudioPlayer>();
   private initPromise: Promise<void> | null = null;
+  private settings: TimerSoundSettings = DEFAULT_TIMER_SOUNDS;
+  private loadedPack: SoundPack | null = null;
 
   async init() {
     if (this.initPromise) return this.initPromise;
@@ -109,35 +222,51 @@ class SoundManager {
   }
 
   private async _init() {
+    await this.setAudioMode();
+    this.loadPack(this.settings.pack);
+  }
+
+  private async setAudioMode() {
     try {
       await setAudioModeAsync({
         playsInSilentMode: true,
-        shouldPlayInBackground: false,
+        // Countdown beeps carry on with the screen locked while the app is still running.
+        shouldPlayInBackground: true,
       });
       console.log("[SoundManager] audio mode set");
     } catch (e) {
       console.warn("[SoundManager] audio mode failed:", e);
     }
+  }
 
-    const results = await Promise.allSettled(
-      Object.entries(SOUND_DEFS).map(async ([name, segments]) => {
+  private loadPack(pack: SoundPack) {
+    this.removeSounds();
+    for (const [name, segments] of Object.entries(SOUND_PACKS[pack])) {
+      try {
         const uri = wavToDataUri(segments);
         console.log(`[SoundManager] loading ${name}, uri length=${uri.length}`);
-        const player = createAudioPlayer({ uri });
-        this.sounds.set(name, player);
-        console.log(`[SoundManager] loaded: ${name}`);
-      }),
-    );
-    const failed = results.filter((r) => r.status === "rejected");
-    if (failed.length)
-      console.warn(
-        "[SoundManager] failures:",
-        failed.map((r) => (r as PromiseRejectedResult).reason),
-      );
-    console.log(`[SoundManager] init done, ${this.sounds.size} sounds loaded`);
+        this.sounds.set(name as SoundName, createAudioPlayer({ uri }));
+      } catch (e) {
+        console.warn(`[SoundManager] load "${name}" failed:`, e);
+      }
+    }
+    this.loadedPack = pack;
+    console.log(`[SoundManager] ${pack} pack loaded, ${this.sounds.size} sounds`);
+  }
+
+  // Takes effect from the next sound; a new pack is synthesized once the manager is running.
+  configure(settings: TimerSoundSettings) {
+    this.settings = settings;
+    void this.initPromise?.then(() => {
+      if (this.initPromise && this.loadedPack !== this.settings.pack) {
+        this.loadPack(this.settings.pack);
+      }
+    });
   }
 
-  async play(name: string) {
+  async play(name: SoundName) {
+    const { enabled, volume } = this.settings.events[EVENT_OF_SOUND[name]];
+    if (!enabled) return;
     const sound = this.sounds.get(name);
     if (!sound) {
       console.warn(
@@ -146,6 +275,7 @@ class SoundManager {
       return;
     }
     try {
+      sound.volume = volume;
       await sound.seekTo(0);
       sound.play();
       console.log(`[SoundManager] playing: ${name}`);
@@ -154,7 +284,20 @@ class SoundManager {
     }
   }
 
-  async cleanup() {
+  // Plays one sound from any pack outside the timer, e.g. while choosing settings.
+  async preview(pack: SoundPack, name: SoundName, volume: number) {
+    await this.setAudioMode();
+    try {
+      const player = createAudioPlayer({ uri: wavToDataUri(SOUND_PACKS[pack][name]) });
+      player.volume = volume;
+      player.play();
+      setTimeout(() => player.remove(), PREVIEW_CLEANUP_MS);
+    } catch (e) {
+      console.warn(`[SoundManager] preview "${name}" error:`, e);
+    }
+  }
+
+  private removeSounds() {
     for (const sound of this.sounds.values()) {
       try {
         sound.remove();
@@ -163,6 +306,11 @@ class SoundManager {
       }
     }
     this.sounds.clear();
+  }
+
+  async cleanup() {
+    this.removeSounds();
+    this.loadedPack = null;
     this.initPromise = null;
   }
 }
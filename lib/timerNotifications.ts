@@ -0,0 +1,266 @@
+import { Platform } from "react-native";
+import * as Notifications from "expo-notifications";
+import { describeRepCue } from "@/lib/voice";
+
+// The phone may suspend the app as soon as the screen locks, so while the timer is in the
+// background every phase change left in the block is handed to the system up front as a
+// local notification. A controls notification keeps pause and skip on the lock screen.
+
+const TRANSITIONS_CHANNEL_ID = "timer-transitions";
+const CONTROLS_CHANNEL_ID = "timer-controls";
+const CONTROLS_NOTIFICATION_ID = "timer-controls";
+const RUNNING_CATEGORY_ID = "timer-running";
+const PAUSED_CATEGORY_ID = "timer-paused";
+// iOS keeps at most 64 pending notifications per app.
+const MAX_SCHEDULED_TRANSITIONS = 50;
+
+const isSupported = Platform.OS !== "web";
+
+export type TimerNotificationAction = "pause" | "resume" | "skip";
+
+type RestKind = "between_reps" | "between_sets" | null;
+
+export type TimerTransition = {
+  at: number;
+  phase: "rep" | "rest" | "completed";
+  setNumber: number;
+  repNumber: number;
+  restKind: RestKind;
+};
+
+type TimerCursor = {
+  phase: "prep" | "rep" | "rest";
+  restKind: RestKind;
+  setNumber: number;
+  repNumber: number;
+};
+
+export type TimerTimeline = TimerCursor & {
+  phaseEndsAt: number;
+  plannedSets: number;
+  plannedReps: number;
+  repWorkSeconds: (rep: number) => number;
+  repRestSeconds: (rep: number) => number;
+  setRestSeconds: number;
+};
+
+// The phase changes still ahead if every phase runs its full time, mirroring the timer's
+// own rep → rest → next rep or set order.
+export function upcomingTransitions(
+  timeline: TimerTimeline,
+  limit = MAX_SCHEDULED_TRANSITIONS,
+): TimerTransition[] {
+  const transitions: TimerTransition[] = [];
+  let cursor: TimerCursor = timeline;
+  let at = timeline.phaseEndsAt;
+  while (transitions.length < limit) {
+    const { phase, restKind, setNumber, repNumber } = cursor;
+    let next: TimerCursor & { phase: "rep" | "rest" };
+    if (phase === "prep") {
+      next = { phase: "rep", restKind: null, setNumber, repNumber };
+    } else if (phase === "rep" && repNumber < timeline.plannedReps) {
+      next = { phase: "rest", restKind: "between_reps", setNumber, repNumber };
+    } else if (
+      phase === "rest" &&
+      restKind === "between_reps" &&
+      repNumber < timeline.plannedReps
+    ) {
+      next = { phase: "rep", restKind: null, setNumber, repNumber: repNumber + 1 };
+    } else if (setNumber >= timeline.plannedSets) {
+      transitions.push({ at, phase: "completed", restKind: null, setNumber, repNumber });
+      break;
+    } else if (phase === "rep") {
+      next = { phase: "rest", restKind: "between_sets", setNumber, repNumber };
+    } else {
+      next = { phase: "rep", restKind: null, setNumber: setNumber + 1, repNumber: 1 };
+    }
+    transitions.push({ at, ...next });
+    const seconds =
+      next.phase === "rep"
+        ? timeline.repWorkSeconds(next.repNumber)
+        : next.restKind === "between_reps"
+          ? timeline.repRestSeconds(next.repNumber)
+          : timeline.setRestSeconds;
+    at += seconds * 1000;
+    cursor = next;
+  }
+  return transitions;
+}
+
+let scheduledIds: string[] = [];
+let isShowingControls = false;
+// The timer fires these without waiting, so each call runs after the one before it;
+// otherwise a cancel could miss ids that a schedule still in flight has not stored yet.
+let pendingWork: Promise<void> = Promise.resolve();
+
+function enqueue(task: () => Promise<void>): Promise<void> {
+  const run = pendingWork.then(task);
+  pendingWork = run.catch(() => undefined);
+  return run;
+}
+
+// Permission, Android channels and the lock-screen actions. False when notifications are off.
+export async function prepareTimerNotifications(): Promise<boolean> {
+  if (!isSupported) return false;
+  try {
+    const current = await Notifications.getPermissionsAsync();
+    const permission =
+      current.granted || !current.canAskAgain
+        ? current
+        : await Notifications.requestPermissionsAsync();
+    if (!permission.granted) return false;
+    if (Platform.OS === "android") {
+      await Notifications.setNotificationChannelAsync(TRANSITIONS_CHANNEL_ID, {
+        name: "Timer phases",
+        importance: Notifications.AndroidImportance.HIGH,
+        sound: "default",
+        vibrationPattern: [0, 250],
+      });
+      await Notifications.setNotificationChannelAsync(CONTROLS_CHANNEL_ID, {
+        name: "Timer controls",
+        importance: Notifications.AndroidImportance.LOW,
+        sound: null,
+      });
+    }
+    const background = { opensAppToForeground: false };
+    await Notifications.setNotificationCategoryAsync(RUNNING_CATEGORY_ID, [
+      { identifier: "pause", buttonTitle: "Pause", options: background },
+      { identifier: "skip", buttonTitle: "Skip", options: background },
+    ]);
+    await Notifications.setNotificationCategoryAsync(PAUSED_CATEGORY_ID, [
+      { identifier: "resume", buttonTitle: "Resume", options: background },
+      { identifier: "skip", buttonTitle: "Skip", options: background },
+    ]);
+    return true;
+  } catch (e) {
+    console.warn("[timerNotifications] setup failed:", e);
+    return false;
+  }
+}
+
+function transitionBody(
+  transition: TimerTransition,
+  plannedSets: number,
+  plannedReps: number,
+  hasNextBlock: boolean,
+): string {
+  const { setNumber, repNumber } = transition;
+  if (transition.phase === "rep") {
+    return `Hang · ${describeRepCue(setNumber, plannedSets, repNumber, plannedReps)}`;
+  }
+  if (transition.phase === "rest") {
+    return transition.restKind === "between_reps"
+      ? `Rest · next, rep ${repNumber + 1}`
+      : `Rest · next, set ${setNumber + 1} of ${plannedSets}`;
+  }
+  return hasNextBlock ? "Exercise done · open the app for the next one" : "Session done";
+}
+
+// Replaces whatever was scheduled before, so it can be called again after every change.
+export async function scheduleTimerTransitions({
+  title,
+  transitions,
+  plannedSets,
+  plannedReps,
+  hasNextBlock,
+}: {
+  title: string;
+  transitions: TimerTransition[];
+  plannedSets: number;
+  plannedReps: number;
+  hasNextBlock: boolean;
+}) {
+  if (!isSupported) return;
+  await enqueue(async () => {
+    await cancelScheduledTransitions();
+    const now = Date.now();
+    const ids = await Promise.all(
+      transitions
+        .filter((transition) => transition.at > now)
+        .map((transition) =>
+          Notifications.scheduleNotificationAsync({
+            content: {
+              title,
+              body: transitionBody(transition, plannedSets, plannedReps, hasNextBlock),
+              sound: "default",
+              interruptionLevel: "timeSensitive",
+            },
+            trigger: {
+              type: Notifications.SchedulableTriggerInputTypes.DATE,
+              date: transition.at,
+              channelId: TRANSITIONS_CHANNEL_ID,
+            },
+          }).catch((e) => {
+            console.warn("[timerNotifications] schedule failed:", e);
+            return null;
+          }),
+        ),
+    );
+    scheduledIds = ids.filter((id): id is string => id !== null);
+  });
+}
+
+async function cancelScheduledTransitions() {
+  const ids = scheduledIds;
+  scheduledIds = [];
+  await Promise.all(
+    ids.map((id) => Notifications.cancelScheduledNotificationAsync(id).catch(() => undefined)),
+  );
+}
+
+export async function cancelTimerTransitions() {
+  await enqueue(cancelScheduledTransitions);
+}
+
+// Shown, or updated in place, while the timer runs in the background.
+export async function showTimerControls({
+  title,
+  body,
+  paused,
+}: {
+  title: string;
+  body: string;
+  paused: boolean;
+}) {
+  if (!isSupported) return;
+  await enqueue(async () => {
+    isShowingControls = true;
+    await Notifications.scheduleNotificationAsync({
+      identifier: CONTROLS_NOTIFICATION_ID,
+      content: {
+        title,
+        body,
+        categoryIdentifier: paused ? PAUSED_CATEGORY_ID : RUNNING_CATEGORY_ID,
+        sticky: true,
+        autoDismiss: false,
+        sound: false,
+        interruptionLevel: "passive",
+      },
+      trigger: Platform.OS === "android" ? { channelId: CONTROLS_CHANNEL_ID } : null,
+    }).catch((e) => console.warn("[timerNotifications] controls failed:", e));
+  });
+}
+
+export async function clearTimerNotifications() {
+  if (!isSupported) return;
+  await enqueue(async () => {
+    await cancelScheduledTransitions();
+    if (!isShowingControls) return;
+    isShowingControls = false;
+    await Notifications.dismissNotificationAsync(CONTROLS_NOTIFICATION_ID).catch(
+      () => undefined,
+    );
+  });
+}
+
+// Returns a function that removes the listener.
+export function addTimerActionListener(
+  listener: (action: TimerNotificationAction) => void,
+): () => void {
+  if (!isSupported) return () => undefined;
+  const subscription = Notifications.addNotificationResponseReceivedListener((response) => {
+    const action = response.actionIdentifier;
+    if (action === "pause" || action === "resume" || action === "skip") listener(action);
+  });
+  return () => subscription.remove();
+}
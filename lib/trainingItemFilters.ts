@@ -1,10 +1,4 @@
-export const TRAINING_CATEGORIES = [
-  "finger-strength",
-  "power-endurance",
-  "mobility",
-  "technique",
-  "conditioning",
-] as const;
+export { TRAINING_CATEGORIES } from "@/convex/trainingCategories";
 
 export const TRAINING_TYPES = [
   "hang",
@@ -56,6 +50,17 @@ export const TRAINING_DIFFICULTIES = [
 
 export type TrainingDifficulty = (typeof TRAINING_DIFFICULTIES)[number];
 
+// Rough bouldering level each difficulty is written for, as stored V grades. Advanced has no
+// upper end.
+export const DIFFICULTY_BOULDER_GRADES: Record<
+  TrainingDifficulty,
+  { from: string; to?: string }
+> = {
+  beginner: { from: "VB", to: "V2" },
+  intermediate: { from: "V3", to: "V6" },
+  advanced: { from: "V7" },
+};
+
 export function parseCommaSeparated(input: string): string[] {
   return input
     .split(",")
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  formatEdge,
+  formatWeight,
+  fromDisplayEdge,
+  fromDisplayWeight,
+  toDisplayEdge,
+  toDisplayWeight,
+  unitSystemOf,
+} from "@/lib/units";
+
+describe("unitSystemOf", () => {
+  it("defaults to metric", () => {
+    expect(unitSystemOf(undefined)).toBe("metric");
+    expect(unitSystemOf({ unitSystem: "furlongs" })).toBe("metric");
+    expect(unitSystemOf({ unitSystem: "imperial" })).toBe("imperial");
+  });
+});
+
+describe("weights", () => {
+  it("shows pounds to one decimal and leaves kg as stored", () => {
+    expect(toDisplayWeight(10, "imperial")).toBe(22);
+    expect(toDisplayWeight(12.5, "metric")).toBe(12.5);
+  });
+
+  it("converts typed pounds back to kg closely enough to round-trip", () => {
+    const kg = fromDisplayWeight(22, "imperial");
+    expect(kg).toBeCloseTo(9.98, 2);
+    expect(toDisplayWeight(kg, "imperial")).toBe(22);
+    expect(fromDisplayWeight(22, "metric")).toBe(22);
+  });
+
+  it("signs added loads only when asked", () => {
+    expect(formatWeight(12.5, "metric")).toBe("12.5 kg");
+    expect(formatWeight(12.5, "imperial", true)).toBe("+27.6 lb");
+    expect(formatWeight(-5, "metric", true)).toBe("-5 kg");
+  });
+});
+
+describe("edges", () => {
+  it("converts between mm and inches, storing whole mm", () => {
+    expect(toDisplayEdge(20, "imperial")).toBe(0.79);
+    expect(fromDisplayEdge(0.79, "imperial")).toBe(20);
+    expect(formatEdge(20, "metric")).toBe("20 mm");
+    expect(formatEdge(25.4, "imperial")).toBe("1 in");
+  });
+});
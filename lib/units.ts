@@ -0,0 +1,50 @@
+// Loads are stored in kg and edges in mm. These helpers convert them for climbers who read
+// pounds and inches, and convert what they type back before it is saved.
+
+export type UnitSystem = "metric" | "imperial";
+
+export const UNIT_SYSTEM_OPTIONS: { value: UnitSystem; label: string }[] = [
+  { value: "metric", label: "kg · mm" },
+  { value: "imperial", label: "lb · in" },
+];
+
+const LB_PER_KG = 2.20462;
+const MM_PER_INCH = 25.4;
+
+export function unitSystemOf(profile: { unitSystem?: string } | null | undefined): UnitSystem {
+  return profile?.unitSystem === "imperial" ? "imperial" : "metric";
+}
+
+export function weightUnit(units: UnitSystem): "kg" | "lb" {
+  return units === "imperial" ? "lb" : "kg";
+}
+
+export function edgeUnit(units: UnitSystem): "mm" | "in" {
+  return units === "imperial" ? "in" : "mm";
+}
+
+export function toDisplayWeight(kg: number, units: UnitSystem): number {
+  return Number((units === "imperial" ? kg * LB_PER_KG : kg).toFixed(1));
+}
+
+export function fromDisplayWeight(value: number, units: UnitSystem): number {
+  return units === "imperial" ? Number((value / LB_PER_KG).toFixed(2)) : value;
+}
+
+export function toDisplayEdge(mm: number, units: UnitSystem): number {
+  return units === "imperial" ? Number((mm / MM_PER_INCH).toFixed(2)) : mm;
+}
+
+export function fromDisplayEdge(value: number, units: UnitSystem): number {
+  return units === "imperial" ? Math.round(value * MM_PER_INCH) : value;
+}
+
+// e.g. "12.5 kg", or "+27.6 lb" with signed set for loads added on top of bodyweight.
+export function formatWeight(kg: number, units: UnitSystem, signed = false): string {
+  const value = toDisplayWeight(kg, units);
+  return `${signed && value > 0 ? "+" : ""}${value} ${weightUnit(units)}`;
+}
+
+export function formatEdge(mm: number, units: UnitSystem): string {
+  return `${toDisplayEdge(mm, units)} ${edgeUnit(units)}`;
+}
@@ -0,0 +1,48 @@
+import React from "react";
+import { AppState } from "react-native";
+import { useConvexAuth, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { convexClient } from "@/lib/convexClient";
+import { executionJournal } from "@/lib/executionJournal";
+import { useAppToast } from "@/lib/useAppToast";
+
+// Uploads timer steps left in the signed-in user's offline journal: on launch, when the app
+// comes back to the foreground and whenever the connection to Convex is restored. The last
+// two also skip the wait after failed uploads. Steps the server turns away are reported.
+export function useExecutionJournalSync() {
+  const { isAuthenticated } = useConvexAuth();
+  const me = useQuery(api.users.me, isAuthenticated ? {} : "skip");
+  const userId = isAuthenticated && me ? me._id : null;
+  const { error: showErrorToast } = useAppToast();
+
+  React.useEffect(
+    () =>
+      executionJournal.onDiscard((stepCount) => {
+        showErrorToast(
+          "Steps not saved",
+          `${stepCount} step${stepCount === 1 ? "" : "s"} recorded on this device belonged ` +
+            "to a session that was completed elsewhere.",
+        );
+      }),
+    [showErrorToast],
+  );
+
+  React.useEffect(() => {
+    executionJournal.setUser(userId);
+    if (!userId) return;
+
+    void executionJournal.flush();
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") void executionJournal.retryNow();
+    });
+    let wasConnected = convexClient?.connectionState().isWebSocketConnected ?? false;
+    const unsubscribe = convexClient?.subscribeToConnectionState((state) => {
+      if (state.isWebSocketConnected && !wasConnected) void executionJournal.retryNow();
+      wasConnected = state.isWebSocketConnected;
+    });
+    return () => {
+      subscription.remove();
+      unsubscribe?.();
+    };
+  }, [userId]);
+}
@@ -0,0 +1,30 @@
+import React from "react";
+import { AppState } from "react-native";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { deviceTimeZone } from "@/convex/dayKeys";
+
+// Keeps the profile's time zone in step with the device, so the server's idea of
+// "today" follows the user when they travel.
+export function useSyncTimeZone() {
+  const profile = useQuery(api.profiles.getMyProfile);
+  const setMyTimeZone = useMutation(api.profiles.setMyTimeZone);
+  const storedTimeZone = profile?.timeZone;
+  const hasProfile = !!profile;
+
+  React.useEffect(() => {
+    if (!hasProfile) return;
+
+    const sync = () => {
+      const timeZone = deviceTimeZone();
+      if (timeZone !== storedTimeZone) {
+        void setMyTimeZone({ timeZone }).catch(() => undefined);
+      }
+    };
+    sync();
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") sync();
+    });
+    return () => subscription.remove();
+  }, [hasProfile, setMyTimeZone, storedTimeZone]);
+}
@@ -0,0 +1,51 @@
+import * as Speech from "expo-speech";
+
+// Spoken timer cues, so the phone can stay on the floor during a hang. The profile picks
+// beeps, voice or both; beeps keep the exact countdown and the voice says what comes next.
+
+export type TimerCueMode = "beeps" | "voice" | "both";
+
+export const TIMER_CUE_OPTIONS: { value: TimerCueMode; label: string }[] = [
+  { value: "beeps", label: "Beeps" },
+  { value: "voice", label: "Voice" },
+  { value: "both", label: "Both" },
+];
+
+export function timerCueModeOf(profile: { timerCues?: string } | null | undefined): TimerCueMode {
+  return profile?.timerCues === "voice" || profile?.timerCues === "both"
+    ? profile.timerCues
+    : "beeps";
+}
+
+export function beepsEnabled(mode: TimerCueMode): boolean {
+  return mode !== "voice";
+}
+
+export function voiceEnabled(mode: TimerCueMode): boolean {
+  return mode !== "beeps";
+}
+
+// e.g. "Set 2 of 5, rep 3"; single-rep sets leave the rep out.
+export function describeRepCue(
+  setNumber: number,
+  totalSets: number,
+  repNumber: number,
+  totalReps: number,
+): string {
+  const set = `Set ${setNumber} of ${totalSets}`;
+  return totalReps > 1 ? `${set}, rep ${repNumber}` : set;
+}
+
+// A new cue cuts off the one still being spoken, so the voice never lags the timer.
+export function speakCue(text: string) {
+  try {
+    void Speech.stop();
+    Speech.speak(text, { rate: 1.05 });
+  } catch (e) {
+    console.warn("[voice] speak failed:", e);
+  }
+}
+
+export function stopSpeaking() {
+  void Speech.stop();
+}